@@ -0,0 +1,1874 @@
+import { ClientError } from "../utils/ClientError";
+import { Expression } from "../expression/Expression";
+import { ActionDefinition, DBTYPE } from "../utils/types";
+import {
+  isObject,
+  objectId,
+  compareValues,
+  normalizeValue,
+  getValueAtPath,
+  isTruthy,
+  isNullSortedLast,
+} from "../utils/helper";
+
+/**
+ * A base model record together with the working document used to evaluate the query expressions. The working document includes the joined model records and it is discarded after the query.
+ */
+interface MatchedRecord {
+  /**
+   * The stored record
+   * @type {any}
+   */
+  record: any;
+
+  /**
+   * The copy of the record extended with the joined records
+   * @type {any}
+   */
+  doc: any;
+}
+
+/**
+ * In-memory database adapter which implements the adapter methods called by the {@link DBAction}. The records are kept in memory and the action definitions are interpreted directly, the where conditions and other expressions are evaluated in process by the expressions themselves. It is mainly used to run the model operations in unit tests without a database server.
+ *
+ * ```
+ * const adapter = new MemoryAdapter({ customers: [{ id: 1, name: "Jane" }] });
+ * const client = createServerSideClient(metaManager, {
+ *   getDatabaseAdapter2: () => ({ adapter }),
+ * });
+ * ```
+ *
+ * @export
+ * @class MemoryAdapter
+ */
+export class MemoryAdapter {
+  /**
+   * The records of the models keyed by the model name
+   * @protected
+   * @type {Map<string, any[]>}
+   */
+  protected collections: Map<string, any[]>;
+
+  /**
+   * The names of the models whose fixture records have been assigned their missing ids
+   * @protected
+   * @type {Set<string>}
+   */
+  protected preparedModels: Set<string>;
+
+  /**
+   * The last generated id of the models of SQL databases
+   * @protected
+   * @type {Map<string, number>}
+   */
+  protected sequences: Map<string, number>;
+
+  /**
+   * The counter of the generated MongoDB ids
+   * @protected
+   * @type {number}
+   */
+  protected idCounter: number;
+
+  /**
+   * The transaction started by the `beginTransaction` method of the database
+   * @protected
+   * @type {any}
+   */
+  protected transaction: any;
+
+  /**
+   * Creates the in-memory database with the fixture records
+   * @param {object} data The fixture records of the models keyed by the model name. The ids of the records are generated if they are not provided.
+   */
+  constructor(data?: { [modelName: string]: any[] }) {
+    this.collections = new Map();
+    this.preparedModels = new Set();
+    this.sequences = new Map();
+    this.idCounter = 0;
+    this.transaction = null;
+
+    for (const [modelName, records] of Object.entries(data ?? {})) {
+      this.collections.set(
+        modelName,
+        (records ?? []).map((record) => this.clone(record)),
+      );
+    }
+  }
+
+  /**
+   * Returns the copies of the records of the model, mainly used to check the database state in tests
+   * @param {string} modelName The name of the model
+   * @returns The records of the model
+   */
+  getRecords(modelName: string): any[] {
+    return (this.collections.get(modelName) ?? []).map((record) =>
+      this.clone(record),
+    );
+  }
+
+  /**
+   * Returns the in-memory database driver, which is the collections of the model records keyed by the model name
+   * @returns The model records
+   */
+  getDriver(): Map<string, any[]> {
+    return this.collections;
+  }
+
+  /**
+   * Starts a new transaction. The changes made after the start of the transaction are reverted if the transaction is rolled back.
+   * @param {any} dbMeta The database metadata
+   * @returns The transaction object
+   */
+  async beginTransaction(dbMeta: any): Promise<any> {
+    const transaction = { snapshot: this.getSnapshot(), savepoints: new Map() };
+    if (!this.transaction) this.transaction = transaction;
+
+    return transaction;
+  }
+
+  /**
+   * Commits the transaction, the changes are already applied to the records
+   * @param {any} dbMeta The database metadata
+   * @param {any} transaction The transaction object, if not provided the transaction started by the `beginTransaction` method of the database
+   */
+  async commitTransaction(dbMeta: any, transaction?: any): Promise<void> {
+    if (!transaction || transaction === this.transaction)
+      this.transaction = null;
+  }
+
+  /**
+   * Rolls back the transaction and reverts the records to their state at the start of the transaction
+   * @param {any} dbMeta The database metadata
+   * @param {any} transaction The transaction object, if not provided the transaction started by the `beginTransaction` method of the database
+   */
+  async rollbackTransaction(dbMeta: any, transaction?: any): Promise<void> {
+    const active = transaction ?? this.transaction;
+    if (!active) return;
+
+    this.restoreSnapshot(active.snapshot);
+    if (active === this.transaction) this.transaction = null;
+  }
+
+  /**
+   * Creates a savepoint in the transaction
+   * @param {any} dbMeta The database metadata
+   * @param {any} transaction The transaction object
+   * @param {string} name The name of the savepoint
+   */
+  async createSavepoint(
+    dbMeta: any,
+    transaction: any,
+    name: string,
+  ): Promise<void> {
+    transaction.savepoints.set(name, this.getSnapshot());
+  }
+
+  /**
+   * Reverts the records to their state at the savepoint
+   * @param {any} dbMeta The database metadata
+   * @param {any} transaction The transaction object
+   * @param {string} name The name of the savepoint
+   */
+  async rollbackToSavepoint(
+    dbMeta: any,
+    transaction: any,
+    name: string,
+  ): Promise<void> {
+    const snapshot = transaction.savepoints.get(name);
+    if (snapshot) this.restoreSnapshot(snapshot);
+  }
+
+  /**
+   * Releases the savepoint of the transaction
+   * @param {any} dbMeta The database metadata
+   * @param {any} transaction The transaction object
+   * @param {string} name The name of the savepoint
+   */
+  async releaseSavepoint(
+    dbMeta: any,
+    transaction: any,
+    name: string,
+  ): Promise<void> {
+    transaction.savepoints.delete(name);
+  }
+
+  /**
+   * Creates a single record
+   * @param {any} dbMeta The database metadata
+   * @param {any} modelMeta The model metadata
+   * @param {any} createData The prepared field values of the record
+   * @param {any} transaction The active transaction
+   * @returns The created record
+   */
+  async createOne(
+    dbMeta: any,
+    modelMeta: any,
+    createData: any,
+    transaction?: any,
+  ): Promise<any> {
+    return this.clone(this.insertRecord(dbMeta, modelMeta, createData));
+  }
+
+  /**
+   * Creates multiple records. If any one of the records cannot be created, none of the records are created.
+   * @param {any} dbMeta The database metadata
+   * @param {any} modelMeta The model metadata
+   * @param {any[]} createData The prepared field values of the records
+   * @param {any} transaction The active transaction
+   * @returns The number of created records
+   */
+  async createMany(
+    dbMeta: any,
+    modelMeta: any,
+    createData: any[],
+    transaction?: any,
+  ): Promise<{ count: number }> {
+    const snapshot = this.getSnapshot();
+    try {
+      for (const data of createData) this.insertRecord(dbMeta, modelMeta, data);
+    } catch (err) {
+      this.restoreSnapshot(snapshot);
+      throw err;
+    }
+
+    return { count: createData.length };
+  }
+
+  /**
+   * Creates the record, if a record with the same conflict field values exists updates the existing record instead
+   * @param {any} dbMeta The database metadata
+   * @param {any} modelMeta The model metadata
+   * @param {ActionDefinition} definition The action definition
+   * @returns The created or updated record
+   */
+  async upsertOne(
+    dbMeta: any,
+    modelMeta: any,
+    definition: ActionDefinition,
+  ): Promise<any> {
+    return this.clone(
+      this.upsertRecord(dbMeta, modelMeta, definition, definition.createData),
+    );
+  }
+
+  /**
+   * Creates the records, the records with the same conflict field values as the existing records update the existing records instead
+   * @param {any} dbMeta The database metadata
+   * @param {any} modelMeta The model metadata
+   * @param {ActionDefinition} definition The action definition
+   * @returns The number of created or updated records
+   */
+  async upsertMany(
+    dbMeta: any,
+    modelMeta: any,
+    definition: ActionDefinition,
+  ): Promise<{ count: number }> {
+    const snapshot = this.getSnapshot();
+    try {
+      for (const data of definition.createData)
+        this.upsertRecord(dbMeta, modelMeta, definition, data);
+    } catch (err) {
+      this.restoreSnapshot(snapshot);
+      throw err;
+    }
+
+    return { count: definition.createData.length };
+  }
+
+  /**
+   * Executes the operations of the bulk write. In ordered mode the execution stops at the first failing operation.
+   * @param {any} dbMeta The database metadata
+   * @param {any} modelMeta The model metadata
+   * @param {ActionDefinition} definition The action definition
+   * @returns The result or the error of each operation, null for the operations that are not executed
+   */
+  async bulkWrite(
+    dbMeta: any,
+    modelMeta: any,
+    definition: ActionDefinition,
+  ): Promise<any[]> {
+    const operations = definition.operations ?? [];
+    const response: any[] = operations.map(() => null);
+
+    for (let i = 0; i < operations.length; i++) {
+      const operation = operations[i];
+      try {
+        let result = null;
+        switch (operation.method) {
+          case "createOne":
+          case "createMany":
+            result = await this[operation.method](
+              dbMeta,
+              modelMeta,
+              operation.createData,
+            );
+            break;
+          case "upsertOne":
+          case "upsertMany":
+          case "updateById":
+          case "updateOne":
+          case "updateMany":
+          case "deleteById":
+          case "deleteOne":
+          case "deleteMany":
+            result = await this[operation.method](dbMeta, modelMeta, operation);
+            break;
+          default:
+            throw new ClientError(
+              "invalid_bulk_operation",
+              `'${operation.method}' is not a valid bulk write operation.`,
+            );
+        }
+
+        response[i] = { result };
+      } catch (err) {
+        response[i] = { error: err };
+        if (definition.ordered) break;
+      }
+    }
+
+    return response;
+  }
+
+  /**
+   * Deletes the record identified by the id
+   * @param {any} dbMeta The database metadata
+   * @param {any} modelMeta The model metadata
+   * @param {ActionDefinition} definition The action definition
+   * @returns The number of deleted records
+   */
+  async deleteById(
+    dbMeta: any,
+    modelMeta: any,
+    definition: ActionDefinition,
+  ): Promise<{ count: number }> {
+    const matches = this.getMatchedRecords(dbMeta, modelMeta, definition);
+    return this.removeRecords(dbMeta, modelMeta, matches.slice(0, 1));
+  }
+
+  /**
+   * Deletes the first record matching the where condition
+   * @param {any} dbMeta The database metadata
+   * @param {any} modelMeta The model metadata
+   * @param {ActionDefinition} definition The action definition
+   * @returns The number of deleted records
+   */
+  async deleteOne(
+    dbMeta: any,
+    modelMeta: any,
+    definition: ActionDefinition,
+  ): Promise<{ count: number }> {
+    const matches = this.getMatchedRecords(dbMeta, modelMeta, definition);
+    return this.removeRecords(dbMeta, modelMeta, matches.slice(0, 1));
+  }
+
+  /**
+   * Deletes the records matching the where condition
+   * @param {any} dbMeta The database metadata
+   * @param {any} modelMeta The model metadata
+   * @param {ActionDefinition} definition The action definition
+   * @returns The number of deleted records
+   */
+  async deleteMany(
+    dbMeta: any,
+    modelMeta: any,
+    definition: ActionDefinition,
+  ): Promise<{ count: number }> {
+    const matches = this.getMatchedRecords(dbMeta, modelMeta, definition);
+    return this.removeRecords(dbMeta, modelMeta, matches);
+  }
+
+  /**
+   * Returns the record identified by the id
+   * @param {any} dbMeta The database metadata
+   * @param {any} modelMeta The model metadata
+   * @param {ActionDefinition} definition The action definition
+   * @returns The record or null if there is no matching record
+   */
+  async findById(
+    dbMeta: any,
+    modelMeta: any,
+    definition: ActionDefinition,
+  ): Promise<any> {
+    const matches = this.getMatchedRecords(dbMeta, modelMeta, definition);
+    if (matches.length === 0) return null;
+
+    return this.getOutput(dbMeta, modelMeta, definition, matches[0].doc);
+  }
+
+  /**
+   * Returns the first record matching the where condition in sorting order
+   * @param {any} dbMeta The database metadata
+   * @param {any} modelMeta The model metadata
+   * @param {ActionDefinition} definition The action definition
+   * @returns The record or null if there is no matching record
+   */
+  async findOne(
+    dbMeta: any,
+    modelMeta: any,
+    definition: ActionDefinition,
+  ): Promise<any> {
+    const matches = this.sortRecords(
+      dbMeta,
+      this.getMatchedRecords(dbMeta, modelMeta, definition),
+      definition.sort,
+    ).slice(definition.skip ?? 0);
+    if (matches.length === 0) return null;
+
+    return this.getOutput(dbMeta, modelMeta, definition, matches[0].doc);
+  }
+
+  /**
+   * Returns the records matching the where condition
+   * @param {any} dbMeta The database metadata
+   * @param {any} modelMeta The model metadata
+   * @param {ActionDefinition} definition The action definition
+   * @returns The records, or the records and the count info if the count is requested
+   */
+  async findMany(
+    dbMeta: any,
+    modelMeta: any,
+    definition: ActionDefinition,
+  ): Promise<any> {
+    const matches = this.sortRecords(
+      dbMeta,
+      this.getMatchedRecords(dbMeta, modelMeta, definition),
+      definition.sort,
+    );
+
+    return this.getPage(dbMeta, modelMeta, definition, matches);
+  }
+
+  /**
+   * Returns the number of records matching the where condition
+   * @param {any} dbMeta The database metadata
+   * @param {any} modelMeta The model metadata
+   * @param {ActionDefinition} definition The action definition
+   * @returns The number of matching records
+   */
+  async count(
+    dbMeta: any,
+    modelMeta: any,
+    definition: ActionDefinition,
+  ): Promise<number> {
+    return this.getMatchedRecords(dbMeta, modelMeta, definition).length;
+  }
+
+  /**
+   * Checks whether there is at least one record matching the where condition
+   * @param {any} dbMeta The database metadata
+   * @param {any} modelMeta The model metadata
+   * @param {ActionDefinition} definition The action definition
+   * @returns True if there is a matching record, otherwise false
+   */
+  async exists(
+    dbMeta: any,
+    modelMeta: any,
+    definition: ActionDefinition,
+  ): Promise<boolean> {
+    return this.getMatchedRecords(dbMeta, modelMeta, definition).length > 0;
+  }
+
+  /**
+   * Returns the distinct values of the field in the records matching the where condition. The values of the list fields are flattened.
+   * @param {any} dbMeta The database metadata
+   * @param {any} modelMeta The model metadata
+   * @param {ActionDefinition} definition The action definition
+   * @returns The distinct values
+   */
+  async distinct(
+    dbMeta: any,
+    modelMeta: any,
+    definition: ActionDefinition,
+  ): Promise<any[]> {
+    const path = this.getPathItems(definition.distinctField.fieldPath).join(
+      ".",
+    );
+    const values: any[] = [];
+    for (const { doc } of this.getMatchedRecords(
+      dbMeta,
+      modelMeta,
+      definition,
+    )) {
+      const value = getValueAtPath(doc, path);
+      for (const entry of Array.isArray(value) ? value : [value]) {
+        if (entry === undefined) continue;
+        if (!values.some((item) => compareValues(item, entry) === 0))
+          values.push(entry);
+      }
+    }
+
+    const order = definition.sort?.[0]?.order;
+    if (order)
+      values.sort((a, b) => compareValues(a, b) * (order === "asc" ? 1 : -1));
+
+    return values
+      .slice(0, definition.limit ?? undefined)
+      .map((value) => this.clone(value));
+  }
+
+  /**
+   * Updates the record identified by the id
+   * @param {any} dbMeta The database metadata
+   * @param {any} modelMeta The model metadata
+   * @param {ActionDefinition} definition The action definition
+   * @returns The updated record or null if there is no matching record
+   */
+  async updateById(
+    dbMeta: any,
+    modelMeta: any,
+    definition: ActionDefinition,
+  ): Promise<any> {
+    const matches = this.getMatchedRecords(dbMeta, modelMeta, definition);
+    if (matches.length === 0) return null;
+
+    const record = this.updateRecord(
+      dbMeta,
+      modelMeta,
+      definition,
+      matches[0].record,
+    );
+    return this.project(modelMeta, definition, record);
+  }
+
+  /**
+   * Updates the first record matching the where condition
+   * @param {any} dbMeta The database metadata
+   * @param {any} modelMeta The model metadata
+   * @param {ActionDefinition} definition The action definition
+   * @returns The updated record or null if there is no matching record
+   */
+  async updateOne(
+    dbMeta: any,
+    modelMeta: any,
+    definition: ActionDefinition,
+  ): Promise<any> {
+    const matches = this.getMatchedRecords(dbMeta, modelMeta, definition);
+    if (matches.length === 0) return null;
+
+    const record = this.updateRecord(
+      dbMeta,
+      modelMeta,
+      definition,
+      matches[0].record,
+    );
+    return this.project(modelMeta, definition, record);
+  }
+
+  /**
+   * Updates the records matching the where condition. If any one of the records cannot be updated, none of the records are updated.
+   * @param {any} dbMeta The database metadata
+   * @param {any} modelMeta The model metadata
+   * @param {ActionDefinition} definition The action definition
+   * @returns The number of updated records
+   */
+  async updateMany(
+    dbMeta: any,
+    modelMeta: any,
+    definition: ActionDefinition,
+  ): Promise<{ count: number }> {
+    // A record is updated once even if it is matched multiple times through joins
+    const records = new Set(
+      this.getMatchedRecords(dbMeta, modelMeta, definition).map(
+        (entry) => entry.record,
+      ),
+    );
+
+    const snapshot = this.getSnapshot();
+    try {
+      for (const record of records)
+        this.updateRecord(dbMeta, modelMeta, definition, record);
+    } catch (err) {
+      this.restoreSnapshot(snapshot);
+      throw err;
+    }
+
+    return { count: records.size };
+  }
+
+  /**
+   * Groups the records matching the where condition and computes the group values
+   * @param {any} dbMeta The database metadata
+   * @param {any} modelMeta The model metadata
+   * @param {ActionDefinition} definition The action definition
+   * @returns The groupings and computations of each group
+   */
+  async aggregate(
+    dbMeta: any,
+    modelMeta: any,
+    definition: ActionDefinition,
+  ): Promise<any[]> {
+    const groupBy = definition.groupBy ?? [];
+    const groups = new Map<string, { values: any[]; docs: any[] }>();
+    for (const { doc } of this.getMatchedRecords(
+      dbMeta,
+      modelMeta,
+      definition,
+    )) {
+      const values = groupBy.map((entry: any) =>
+        this.getGroupingValue(entry, doc),
+      );
+      const key = JSON.stringify(values.map((value) => this.getKey(value)));
+      if (!groups.has(key)) groups.set(key, { values, docs: [] });
+      groups.get(key)?.docs.push(doc);
+    }
+
+    // Without groupings all records are aggregated in a single group, even if there are no records
+    if (groupBy.length === 0 && groups.size === 0)
+      groups.set("[]", { values: [], docs: [] });
+
+    let rows: any[] = [];
+    for (const { values, docs } of groups.values()) {
+      const row: any = {};
+      groupBy.forEach((entry: any, index: number) => {
+        row[entry.as] = this.clone(values[index]);
+      });
+      for (const computation of definition.computations ?? [])
+        row[computation.as] = this.compute(computation, docs);
+
+      rows.push(row);
+    }
+
+    if (definition.having) {
+      const having = definition.having;
+      rows = rows.filter((row) => this.isMatch(dbMeta, having, row));
+    }
+
+    rows = this.sortRecords(
+      dbMeta,
+      rows.map((row) => ({ record: row, doc: row })),
+      definition.sort,
+    ).map((entry) => entry.record);
+
+    const skip = definition.skip ?? 0;
+    return rows.slice(
+      skip,
+      definition.limit ? skip + definition.limit : undefined,
+    );
+  }
+
+  /**
+   * Returns the records matching the text search and the where condition
+   * @param {any} dbMeta The database metadata
+   * @param {any} modelMeta The model metadata
+   * @param {ActionDefinition} definition The action definition
+   * @returns The records, or the records and the count info if the count is requested
+   */
+  async searchText(
+    dbMeta: any,
+    modelMeta: any,
+    definition: ActionDefinition,
+  ): Promise<any> {
+    const textSearch = definition.textSearch;
+    const scores = new Map<any, number>();
+    const matches = this.getMatchedRecords(
+      dbMeta,
+      modelMeta,
+      definition,
+    ).filter((entry) => {
+      const score = textSearch ? textSearch.getRecordScore(entry.doc) : 0;
+      scores.set(entry, score);
+      return score > 0;
+    });
+
+    let sorted = this.sortRecords(dbMeta, matches, definition.sort);
+    // Sorting is stable, the records with the same score are kept in sorting order
+    if (textSearch?.sortByScore)
+      sorted = [...sorted].sort(
+        (a, b) => (scores.get(b) ?? 0) - (scores.get(a) ?? 0),
+      );
+
+    const scored = textSearch?.returnScore
+      ? sorted.map((entry) => ({
+          ...entry,
+          doc: { ...entry.doc, _score: scores.get(entry) },
+        }))
+      : sorted;
+
+    const result = this.getPage(dbMeta, modelMeta, definition, scored);
+    // Other databases are highlighted by the model, PostgreSQL databases are expected to return the highlighted text
+    if (textSearch?.highlight && dbMeta.type === DBTYPE.POSTGRESQL)
+      textSearch.highlightRecords(Array.isArray(result) ? result : result.data);
+
+    return result;
+  }
+
+  /**
+   * SQL queries are not available for the in-memory database
+   * @param {any} dbMeta The database metadata
+   * @param {any} modelMeta The model metadata
+   * @param {ActionDefinition} definition The action definition
+   * @throws Throws an exception since the in-memory database does not run SQL queries
+   */
+  async getSQLQuery(
+    dbMeta: any,
+    modelMeta: any,
+    definition: ActionDefinition,
+  ): Promise<string> {
+    throw new ClientError(
+      "not_allowed",
+      `Getting the SQL query string is not available for in-memory databases.`,
+    );
+  }
+
+  /**
+   * Returns the where condition that the in-memory database evaluates for the action, there is no execution plan
+   * @param {any} dbMeta The database metadata
+   * @param {any} modelMeta The model metadata
+   * @param {ActionDefinition} definition The action definition
+   * @param {boolean} executionPlan Whether to return the execution plan of the query
+   * @returns The evaluated query
+   */
+  async explain(
+    dbMeta: any,
+    modelMeta: any,
+    definition: ActionDefinition,
+    executionPlan: boolean,
+  ): Promise<any> {
+    return {
+      query: {
+        model: modelMeta.name,
+        where: definition.where?.getQuery(DBTYPE.MONGODB) ?? null,
+      },
+      plan: null,
+    };
+  }
+
+  /**
+   * Returns the records of the model. The fixture records without an id are assigned a generated id when the records of the model are first accessed, and in MongoDB databases their id and reference values are converted to object ids.
+   * @param {any} dbMeta The database metadata
+   * @param {string} modelName The name of the model
+   * @returns The records of the model
+   */
+  protected getCollection(dbMeta: any, modelName: string): any[] {
+    let records = this.collections.get(modelName);
+    if (!records) {
+      records = [];
+      this.collections.set(modelName, records);
+    }
+
+    if (!this.preparedModels.has(modelName)) {
+      this.preparedModels.add(modelName);
+      const modelMeta = dbMeta.models?.find(
+        (entry: any) => entry.name === modelName,
+      );
+      const idName = this.getIdName(modelMeta);
+      // MongoDB fixture records can specify the id and reference values as strings
+      const idFields = (modelMeta?.fields ?? [])
+        .filter((field: any) => ["id", "reference"].includes(field.type))
+        .map((field: any) => field.name);
+
+      for (const record of records) {
+        if (record[idName] === undefined || record[idName] === null)
+          record[idName] = this.generateId(dbMeta, modelName, records);
+
+        if (dbMeta.type !== DBTYPE.MONGODB) continue;
+        for (const fieldName of idFields) {
+          const value = record[fieldName];
+          if (
+            value !== undefined &&
+            value !== null &&
+            typeof value.toHexString !== "function"
+          )
+            record[fieldName] = objectId(value);
+        }
+      }
+    }
+
+    return records;
+  }
+
+  /**
+   * Returns the name of the id field of the model
+   * @param {any} modelMeta The model metadata
+   * @returns The id field name
+   */
+  protected getIdName(modelMeta: any): string {
+    return (
+      modelMeta?.fields?.find((field: any) => field.type === "id")?.name ??
+      "_id"
+    );
+  }
+
+  /**
+   * Generates a new record id. MongoDB ids are object ids, the ids of SQL databases are auto-incremented integers.
+   * @param {any} dbMeta The database metadata
+   * @param {string} modelName The name of the model
+   * @param {any[]} records The records of the model
+   * @returns The generated id
+   */
+  protected generateId(dbMeta: any, modelName: string, records: any[]): any {
+    if (dbMeta.type === DBTYPE.MONGODB) {
+      this.idCounter++;
+      const seconds = Math.floor(Date.now() / 1000);
+      return objectId(
+        `${seconds.toString(16).padStart(8, "0")}${this.idCounter
+          .toString(16)
+          .padStart(16, "0")}`,
+      );
+    }
+
+    const modelMeta = dbMeta.models?.find(
+      (entry: any) => entry.name === modelName,
+    );
+    const idName = this.getIdName(modelMeta);
+    // Continue after the largest id, the fixture records may have their own ids
+    let last = this.sequences.get(modelName) ?? 0;
+    for (const record of records) {
+      if (typeof record[idName] === "number" && record[idName] > last)
+        last = record[idName];
+    }
+
+    this.sequences.set(modelName, last + 1);
+    return last + 1;
+  }
+
+  /**
+   * Adds the record to the model records
+   * @param {any} dbMeta The database metadata
+   * @param {any} modelMeta The model metadata
+   * @param {any} data The prepared field values of the record
+   * @returns The stored record
+   */
+  protected insertRecord(dbMeta: any, modelMeta: any, data: any): any {
+    const records = this.getCollection(dbMeta, modelMeta.name);
+    const idName = this.getIdName(modelMeta);
+    const record = this.clone(data);
+    if (record[idName] === undefined || record[idName] === null)
+      record[idName] = this.generateId(dbMeta, modelMeta.name, records);
+
+    this.checkUniqueValues(modelMeta, records, record, null);
+    records.push(record);
+
+    return record;
+  }
+
+  /**
+   * Creates the record or updates the existing record having the same conflict field values
+   * @param {any} dbMeta The database metadata
+   * @param {any} modelMeta The model metadata
+   * @param {ActionDefinition} definition The action definition
+   * @param {any} data The prepared field values of the record
+   * @returns The created or updated record
+   */
+  protected upsertRecord(
+    dbMeta: any,
+    modelMeta: any,
+    definition: ActionDefinition,
+    data: any,
+  ): any {
+    const records = this.getCollection(dbMeta, modelMeta.name);
+    const conflictFields = definition.conflictFields ?? [];
+    const existing = records.find((record) =>
+      conflictFields.every(
+        (entry: any) =>
+          compareValues(record[entry.fieldName], data[entry.fieldName]) === 0,
+      ),
+    );
+
+    if (!existing) return this.insertRecord(dbMeta, modelMeta, data);
+
+    if (definition.updateData)
+      return this.updateRecord(dbMeta, modelMeta, definition, existing);
+
+    // Without update definitions the existing record gets the values of the data to insert, except its id and creation date
+    const updates: any = {};
+    for (const [fieldName, value] of Object.entries(data)) {
+      const field = modelMeta.fields?.find(
+        (entry: any) => entry.name === fieldName,
+      );
+      if (field?.type === "id" || field?.type === "createdat") continue;
+      updates[fieldName] = value;
+    }
+
+    return this.updateRecord(
+      dbMeta,
+      modelMeta,
+      { ...definition, updateData: { set: updates, others: [] } },
+      existing,
+    );
+  }
+
+  /**
+   * Applies the updates of the action definition to the record
+   * @param {any} dbMeta The database metadata
+   * @param {any} modelMeta The model metadata
+   * @param {ActionDefinition} definition The action definition
+   * @param {any} record The stored record
+   * @returns The updated record
+   */
+  protected updateRecord(
+    dbMeta: any,
+    modelMeta: any,
+    definition: ActionDefinition,
+    record: any,
+  ): any {
+    const records = this.getCollection(dbMeta, modelMeta.name);
+    const updated = this.clone(record);
+    const filters = (definition.arrayFilters ?? []).map((filter: any) =>
+      filter.getPullQuery(DBTYPE.MONGODB, false),
+    );
+
+    for (const [fieldPath, value] of Object.entries(
+      definition.updateData?.set ?? {},
+    )) {
+      if (value === undefined) continue;
+      this.updatePath(updated, fieldPath.split("."), filters, (target, key) => {
+        target[key] = this.clone(value);
+      });
+    }
+
+    for (const update of definition.updateData?.others ?? [])
+      this.applyUpdateInstruction(updated, update, filters);
+
+    this.checkUniqueValues(modelMeta, records, updated, record);
+    // The record object is kept, the matched records of the ongoing operation refer to it
+    for (const key of Object.keys(record)) delete record[key];
+    Object.assign(record, updated);
+
+    return record;
+  }
+
+  /**
+   * Applies the update instruction (e.g., $inc, $push, $pull) to the record
+   * @param {any} record The updated record
+   * @param {any} update The update instruction
+   * @param {any[]} filters The array filters of the update
+   */
+  protected applyUpdateInstruction(
+    record: any,
+    update: any,
+    filters: any[],
+  ): void {
+    const path = update.fieldName.split(".");
+    this.updatePath(record, path, filters, (target, key) => {
+      const current = target[key];
+      switch (update.type) {
+        case "$unset":
+          if (Array.isArray(target)) target[key as number] = null;
+          else delete target[key];
+          break;
+        case "$inc":
+          target[key] = (current ?? 0) + update.value;
+          break;
+        case "$mul":
+          target[key] = (current ?? 0) * update.value;
+          break;
+        case "$min":
+          if (current === null || current === undefined)
+            target[key] = update.value;
+          else if (compareValues(update.value, current) < 0)
+            target[key] = update.value;
+          break;
+        case "$max":
+          if (current === null || current === undefined)
+            target[key] = update.value;
+          else if (compareValues(update.value, current) > 0)
+            target[key] = update.value;
+          break;
+        case "$push": {
+          const values =
+            isObject(update.value) && Array.isArray(update.value.$each)
+              ? update.value.$each
+              : [update.value];
+          target[key] = [
+            ...(Array.isArray(current) ? current : []),
+            ...values.map((value: any) => this.clone(value)),
+          ];
+          break;
+        }
+        case "$pop":
+          if (!Array.isArray(current)) break;
+          target[key] =
+            update.value === 1 ? current.slice(0, -1) : current.slice(1);
+          break;
+        case "$pull": {
+          if (!Array.isArray(current)) break;
+          // Object list entries are matched by their fields, basic values are matched directly
+          const query = update.exp
+            ? update.value.getPullQuery(DBTYPE.MONGODB, !update.includeFields)
+            : update.value;
+          target[key] = current.filter(
+            (entry) => !this.matchQuery(query, entry),
+          );
+          break;
+        }
+        default:
+          break;
+      }
+    });
+  }
+
+  /**
+   * Calls the update function for the field at the path of the record. The intermediate objects are created if they do not exist. The `$[]` path items update all elements of the array and the `$[identifier]` items update the elements matching the array filters of the identifier.
+   * @param {any} target The object at the current path item
+   * @param {string[]} path The remaining path items
+   * @param {any[]} filters The array filters of the update
+   * @param {function} update Updates the field of the target object
+   */
+  protected updatePath(
+    target: any,
+    path: string[],
+    filters: any[],
+    update: (target: any, key: string | number) => void,
+  ): void {
+    const [item, ...rest] = path;
+    const positional = /^\$\[(\w*)\]$/.exec(item);
+    if (positional) {
+      if (!Array.isArray(target)) return;
+
+      const identifier = positional[1];
+      target.forEach((element, index) => {
+        if (identifier && !this.matchArrayFilters(filters, identifier, element))
+          return;
+
+        if (rest.length === 0) update(target, index);
+        else if (isObject(element))
+          this.updatePath(element, rest, filters, update);
+      });
+      return;
+    }
+
+    if (item === "$")
+      throw new ClientError(
+        "unsupported_update",
+        `The positional '$' operator is not supported by the in-memory database, use the '$[]' or '$[<identifier>]' operators instead.`,
+      );
+
+    if (rest.length === 0) {
+      update(target, item);
+      return;
+    }
+
+    if (!isObject(target[item]) && !Array.isArray(target[item]))
+      target[item] = {};
+    this.updatePath(target[item], rest, filters, update);
+  }
+
+  /**
+   * Checks whether the array element matches the array filters of the identifier
+   * @param {any[]} filters The array filters in MongoDB query format
+   * @param {string} identifier The identifier of the filtered positional operator
+   * @param {any} element The array element
+   * @returns True if the element matches the filters, otherwise false
+   */
+  protected matchArrayFilters(
+    filters: any[],
+    identifier: string,
+    element: any,
+  ): boolean {
+    const getIdentifier = (filter: any): string | null => {
+      for (const [key, value] of Object.entries(filter ?? {})) {
+        if (!key.startsWith("$")) return key.split(".")[0];
+        for (const entry of Array.isArray(value) ? value : [value]) {
+          const nested = isObject(entry) ? getIdentifier(entry) : null;
+          if (nested) return nested;
+        }
+      }
+
+      return null;
+    };
+
+    return filters
+      .filter((filter) => getIdentifier(filter) === identifier)
+      .every((filter) => this.matchQuery(filter, { [identifier]: element }));
+  }
+
+  /**
+   * Checks whether the values of the unique fields and the id of the record are unique in the model records
+   * @param {any} modelMeta The model metadata
+   * @param {any[]} records The model records
+   * @param {any} record The record to check
+   * @param {any} original The original record if the record is updated, otherwise null
+   * @throws Throws an exception if there is another record with the same value
+   */
+  protected checkUniqueValues(
+    modelMeta: any,
+    records: any[],
+    record: any,
+    original: any,
+  ): void {
+    const fields = (modelMeta.fields ?? []).filter(
+      (field: any) => field.type === "id" || field.unique,
+    );
+
+    for (const field of fields) {
+      const value = record[field.name];
+      if (value === undefined || value === null) continue;
+
+      const duplicate = records.find(
+        (entry) =>
+          entry !== original && compareValues(entry[field.name], value) === 0,
+      );
+      if (duplicate)
+        throw new ClientError(
+          "duplicate_value",
+          `There is already a record with the value '${normalizeValue(
+            value,
+          )}' of the unique field '${field.name}' in model '${
+            modelMeta.name
+          }'.`,
+        );
+    }
+  }
+
+  /**
+   * Removes the matched records from the model records
+   * @param {any} dbMeta The database metadata
+   * @param {any} modelMeta The model metadata
+   * @param {MatchedRecord[]} matches The matched records
+   * @returns The number of deleted records
+   */
+  protected removeRecords(
+    dbMeta: any,
+    modelMeta: any,
+    matches: MatchedRecord[],
+  ): { count: number } {
+    const records = this.getCollection(dbMeta, modelMeta.name);
+    const removed = new Set(matches.map((entry) => entry.record));
+    this.collections.set(
+      modelMeta.name,
+      records.filter((record) => !removed.has(record)),
+    );
+
+    return { count: removed.size };
+  }
+
+  /**
+   * Returns the records matching the id and the where condition of the action definition. The joins are made before the where condition is evaluated, a record is matched multiple times if it is joined with multiple records.
+   * @param {any} dbMeta The database metadata
+   * @param {any} modelMeta The model metadata
+   * @param {ActionDefinition} definition The action definition
+   * @returns The matched records
+   */
+  protected getMatchedRecords(
+    dbMeta: any,
+    modelMeta: any,
+    definition: ActionDefinition,
+  ): MatchedRecord[] {
+    const idName = this.getIdName(modelMeta);
+    let matches: MatchedRecord[] = this.getCollection(dbMeta, modelMeta.name)
+      .filter(
+        (record) =>
+          definition.id === null ||
+          definition.id === undefined ||
+          this.isSameId(record[idName], definition.id),
+      )
+      .map((record) => ({ record, doc: this.clone(record) }));
+
+    for (const entry of definition.join ?? [])
+      matches = this.joinRecords(dbMeta, matches, entry);
+
+    if (!definition.where) return matches;
+
+    const where = definition.where;
+    return matches.filter((entry) => this.isMatch(dbMeta, where, entry.doc));
+  }
+
+  /**
+   * Evaluates the condition for the document, the subqueries of the condition are run on the in-memory records
+   * @param {any} dbMeta The database metadata
+   * @param {Expression} condition The condition expression
+   * @param {any} doc The document
+   * @returns True if the document matches the condition, otherwise false
+   */
+  protected isMatch(dbMeta: any, condition: Expression, doc: any): boolean {
+    return isTruthy(
+      condition.evaluate({
+        record: doc,
+        getRecords: (modelName) => this.getCollection(dbMeta, modelName),
+      }),
+    );
+  }
+
+  /**
+   * Joins the records with the records of the joined model (left outer join). For reference field joins the reference field value is replaced with the referenced record, for query joins the joined record is added with the join alias.
+   * @param {any} dbMeta The database metadata
+   * @param {MatchedRecord[]} matches The matched records
+   * @param {any} entry The join definition entry
+   * @returns The joined records
+   */
+  protected joinRecords(
+    dbMeta: any,
+    matches: MatchedRecord[],
+    entry: any,
+  ): MatchedRecord[] {
+    const joined = this.getCollection(dbMeta, entry.joinModel.getName());
+    const result: MatchedRecord[] = [];
+
+    for (const match of matches) {
+      if (entry.joinType === "simple") {
+        const doc = this.clone(match.doc);
+        this.setPath(
+          doc,
+          this.getPathItems(entry.fieldPath),
+          this.getReferencedRecord(dbMeta, joined, entry, doc),
+        );
+        result.push({ record: match.record, doc });
+        continue;
+      }
+
+      const records = joined.filter((record) =>
+        this.isMatch(dbMeta, entry.where, { ...match.doc, [entry.as]: record }),
+      );
+
+      if (records.length === 0)
+        result.push({
+          record: match.record,
+          doc: { ...match.doc, [entry.as]: null },
+        });
+
+      for (const record of records)
+        result.push({
+          record: match.record,
+          doc: { ...match.doc, [entry.as]: this.clone(record) },
+        });
+    }
+
+    return result;
+  }
+
+  /**
+   * Returns the record referenced by the reference field of the join or lookup, provided that it matches the join or lookup condition
+   * @param {any} dbMeta The database metadata
+   * @param {any[]} records The records of the referenced model
+   * @param {any} entry The join or lookup definition entry
+   * @param {any} doc The document including the reference field
+   * @returns The referenced record or null if there is no such record
+   */
+  protected getReferencedRecord(
+    dbMeta: any,
+    records: any[],
+    entry: any,
+    doc: any,
+  ): any {
+    const path = this.getPathItems(entry.fieldPath);
+    const value = getValueAtPath(doc, path.join("."));
+    const idName = entry.joinModel.getIdField()?.getName();
+    if (value === null || value === undefined || !idName) return null;
+
+    const record = records.find(
+      (item) => compareValues(item[idName], value) === 0,
+    );
+    if (!record) return null;
+
+    // The condition of the reference field joins and lookups excludes the soft deleted records
+    if (entry.where) {
+      const candidate = this.clone(doc);
+      this.setPath(candidate, path, record);
+      if (!this.isMatch(dbMeta, entry.where, candidate)) return null;
+    }
+
+    return this.clone(record);
+  }
+
+  /**
+   * Adds the looked up records to the document
+   * @param {any} dbMeta The database metadata
+   * @param {any} doc The document
+   * @param {any[]} lookups The lookup definition entries
+   * @param {string} idName The name of the id field of the document model
+   */
+  protected lookupRecords(
+    dbMeta: any,
+    doc: any,
+    lookups: any[],
+    idName: string,
+  ): void {
+    for (const entry of lookups) {
+      const joinModel = entry.joinModel;
+      const joinIdName = joinModel.getIdField()?.getName() ?? "_id";
+      const joined = this.getCollection(dbMeta, joinModel.getName());
+
+      // Reference field lookups replace the reference field value with the referenced record
+      if (entry.joinType === "simple") {
+        const record = this.getReferencedRecord(dbMeta, joined, entry, doc);
+        this.setPath(
+          doc,
+          this.getPathItems(entry.fieldPath),
+          record
+            ? this.getLookupOutput(dbMeta, entry, record, joinIdName)
+            : null,
+        );
+        continue;
+      }
+
+      let records: any[] = [];
+      if (entry.through) {
+        // Many-to-many relations are resolved through the junction model records
+        const through = entry.through;
+        const junctions = this.getCollection(dbMeta, through.from).filter(
+          (record) =>
+            compareValues(record[through.localField.getName()], doc[idName]) ===
+              0 &&
+            (!through.where || this.isMatch(dbMeta, through.where, record)),
+        );
+        records = joined.filter((record) =>
+          junctions.some(
+            (junction) =>
+              compareValues(
+                junction[through.foreignField.getName()],
+                record[joinIdName],
+              ) === 0,
+          ),
+        );
+      } else records = joined;
+
+      if (entry.where) {
+        records = records.filter((record) =>
+          this.isMatch(dbMeta, entry.where, { ...doc, [entry.as]: record }),
+        );
+      }
+
+      if (entry.countOnly) {
+        doc[entry.as] = records.length;
+        continue;
+      }
+
+      const skip = entry.skip ?? 0;
+      doc[entry.as] = this.sortRecords(
+        dbMeta,
+        records.map((record) => ({ record, doc: record })),
+        entry.sort,
+      )
+        .slice(skip, entry.limit ? skip + entry.limit : undefined)
+        .map((match) =>
+          this.getLookupOutput(
+            dbMeta,
+            entry,
+            this.clone(match.record),
+            joinIdName,
+          ),
+        );
+    }
+  }
+
+  /**
+   * Applies the nested lookups and the select or omit lists of the lookup definition to the looked up record
+   * @param {any} dbMeta The database metadata
+   * @param {any} entry The lookup definition entry
+   * @param {any} record The looked up record
+   * @param {string} idName The name of the id field of the looked up model
+   * @returns The looked up record to return
+   */
+  protected getLookupOutput(
+    dbMeta: any,
+    entry: any,
+    record: any,
+    idName: string,
+  ): any {
+    this.lookupRecords(dbMeta, record, entry.lookup ?? [], idName);
+    return this.applyProjection(
+      record,
+      entry.select,
+      entry.omit,
+      idName,
+      (entry.lookup ?? []).filter((item: any) => item.joinType === "complex"),
+    );
+  }
+
+  /**
+   * Returns the record to return from the matched document, the looked up records are added and the select or omit lists are applied
+   * @param {any} dbMeta The database metadata
+   * @param {any} modelMeta The model metadata
+   * @param {ActionDefinition} definition The action definition
+   * @param {any} doc The matched document
+   * @returns The record to return
+   */
+  protected getOutput(
+    dbMeta: any,
+    modelMeta: any,
+    definition: ActionDefinition,
+    doc: any,
+  ): any {
+    const idName = this.getIdName(modelMeta);
+    const output = this.clone(doc);
+    this.lookupRecords(dbMeta, output, definition.lookup ?? [], idName);
+
+    return this.applyProjection(
+      output,
+      definition.select,
+      definition.omit,
+      idName,
+      (definition.lookup ?? []).filter(
+        (entry: any) => entry.joinType === "complex",
+      ),
+    );
+  }
+
+  /**
+   * Applies the select or omit lists of the action definition to the updated record
+   * @param {any} modelMeta The model metadata
+   * @param {ActionDefinition} definition The action definition
+   * @param {any} record The updated record
+   * @returns The record to return
+   */
+  protected project(
+    modelMeta: any,
+    definition: ActionDefinition,
+    record: any,
+  ): any {
+    return this.applyProjection(
+      this.clone(record),
+      definition.select,
+      definition.omit,
+      this.getIdName(modelMeta),
+      [],
+    );
+  }
+
+  /**
+   * Keeps the selected fields or removes the omitted fields of the record. The id field is always selected, the lists of looked up records are kept unless some of their fields are selected.
+   * @param {any} record The record
+   * @param {any[] | null} select The fields to include
+   * @param {any[] | null} omit The fields to exclude
+   * @param {string} idName The name of the id field
+   * @param {any[]} lookups The lookup definition entries returning lists of records
+   * @returns The projected record
+   */
+  protected applyProjection(
+    record: any,
+    select: any[] | null,
+    omit: any[] | null,
+    idName: string,
+    lookups: any[],
+  ): any {
+    if (select && select.length > 0) {
+      const output: any = { [idName]: record[idName] };
+      const paths = select.map((entry) => this.getPathItems(entry.fieldPath));
+      for (const path of paths) {
+        const value = getValueAtPath(record, path.join("."));
+        if (value !== undefined) this.setPath(output, path, value);
+      }
+
+      for (const entry of lookups) {
+        if (!paths.some((path) => path[0] === entry.as))
+          output[entry.as] = record[entry.as];
+      }
+
+      return output;
+    }
+
+    for (const entry of omit ?? [])
+      this.deletePath(record, this.getPathItems(entry.fieldPath));
+
+    return record;
+  }
+
+  /**
+   * Returns the page of the sorted records specified by the skip and limit values of the action definition. If the count is requested, returns an object which includes the count info and the page of records.
+   * @param {any} dbMeta The database metadata
+   * @param {any} modelMeta The model metadata
+   * @param {ActionDefinition} definition The action definition
+   * @param {MatchedRecord[]} matches The sorted matched records
+   * @returns The page of records
+   */
+  protected getPage(
+    dbMeta: any,
+    modelMeta: any,
+    definition: ActionDefinition,
+    matches: MatchedRecord[],
+  ): any {
+    const skip = definition.skip ?? 0;
+    const data = matches
+      .slice(skip, definition.limit ? skip + definition.limit : undefined)
+      .map((entry) => this.getOutput(dbMeta, modelMeta, definition, entry.doc));
+
+    if (!definition.returnCount) return data;
+
+    const pageSize = definition.limit ?? Math.max(matches.length, 1);
+    return {
+      info: {
+        count: matches.length,
+        totalPages: Math.ceil(matches.length / pageSize),
+        currentPage: Math.floor(skip / pageSize) + 1,
+        pageSize,
+      },
+      data,
+    };
+  }
+
+  /**
+   * Sorts the records by the values of the sort fields. Null and missing values are placed in the sorting order of the emulated database.
+   * @param {any} dbMeta The database metadata
+   * @param {MatchedRecord[]} matches The records to sort
+   * @param {any[] | null} sort The sort definition entries
+   * @returns The sorted records
+   */
+  protected sortRecords(
+    dbMeta: any,
+    matches: MatchedRecord[],
+    sort: any[] | null,
+  ): MatchedRecord[] {
+    if (!sort || sort.length === 0) return matches;
+
+    const paths = sort.map((entry) => this.getPathItems(entry.fieldPath));
+    return [...matches].sort((a, b) => {
+      for (let i = 0; i < sort.length; i++) {
+        const x = normalizeValue(getValueAtPath(a.doc, paths[i].join(".")));
+        const y = normalizeValue(getValueAtPath(b.doc, paths[i].join(".")));
+        if ((x === null) !== (y === null)) {
+          const nullsLast = isNullSortedLast(dbMeta.type, sort[i].order);
+          return (x === null) === nullsLast ? 1 : -1;
+        }
+
+        const result = compareValues(x, y);
+        if (result !== 0) return sort[i].order === "asc" ? result : -result;
+      }
+
+      return 0;
+    });
+  }
+
+  /**
+   * Returns the value of the grouping in the document. Date bucket groupings return the start date of the bucket.
+   * @param {any} entry The grouping definition entry
+   * @param {any} doc The document
+   * @returns The grouping value
+   */
+  protected getGroupingValue(entry: any, doc: any): any {
+    return entry.expression.evaluate({ record: doc }) ?? null;
+  }
+
+  /**
+   * Computes the value of the computation for the grouped documents
+   * @param {any} computation The computation definition
+   * @param {any[]} docs The grouped documents
+   * @returns The computed value
+   */
+  protected compute(computation: any, docs: any[]): any {
+    const values = docs.map(
+      (doc) => computation.compute?.evaluate({ record: doc }),
+    );
+    // Null values are ignored by the aggregate functions
+    const defined = values.filter(
+      (value) => value !== null && value !== undefined,
+    );
+    const numbers = defined.filter(
+      (value) => typeof value === "number",
+    ) as number[];
+    const sum = numbers.reduce((total, value) => total + value, 0);
+    const mean = numbers.length > 0 ? sum / numbers.length : null;
+    const squares = numbers.reduce(
+      (total, value) => total + Math.pow(value - (mean ?? 0), 2),
+      0,
+    );
+
+    switch (computation.operator) {
+      case "$count":
+        return docs.length;
+      case "$countif":
+        return values.filter((value) => isTruthy(value)).length;
+      case "$sum":
+        return sum;
+      case "$avg":
+        return mean;
+      case "$min":
+      case "$max": {
+        if (defined.length === 0) return null;
+        const sorted = [...defined].sort((a, b) => compareValues(a, b));
+        return this.clone(
+          computation.operator === "$min"
+            ? sorted[0]
+            : sorted[sorted.length - 1],
+        );
+      }
+      case "$countdistinct":
+        return this.getDistinctValues(defined).length;
+      case "$stddev":
+        return numbers.length > 1
+          ? Math.sqrt(squares / (numbers.length - 1))
+          : null;
+      case "$stddevpop":
+        return numbers.length > 0 ? Math.sqrt(squares / numbers.length) : null;
+      case "$variance":
+        return numbers.length > 1 ? squares / (numbers.length - 1) : null;
+      case "$median":
+        return this.getPercentile(numbers, 0.5);
+      case "$percentile":
+        return this.getPercentile(numbers, computation.percentile);
+      case "$first":
+      case "$last": {
+        let ordered = values;
+        if (computation.sort) {
+          const keys: Expression[] = computation.sort.map(
+            (entry: any) => entry.expression,
+          );
+          ordered = docs
+            .map((doc, index) => ({ doc, value: values[index] }))
+            .sort((a, b) => {
+              for (let i = 0; i < keys.length; i++) {
+                const result = compareValues(
+                  keys[i].evaluate({ record: a.doc }),
+                  keys[i].evaluate({ record: b.doc }),
+                );
+                if (result !== 0)
+                  return computation.sort[i].order === "asc" ? result : -result;
+              }
+
+              return 0;
+            })
+            .map((entry) => entry.value);
+        }
+
+        const value =
+          computation.operator === "$first"
+            ? ordered[0]
+            : ordered[ordered.length - 1];
+        return value === undefined ? null : this.clone(value);
+      }
+      case "$push":
+        return values.map((value) => this.clone(value ?? null));
+      case "$addtoset":
+        return this.getDistinctValues(values).map((value) =>
+          this.clone(value ?? null),
+        );
+      default:
+        return null;
+    }
+  }
+
+  /**
+   * Returns the continuous percentile of the values, interpolating between the closest values
+   * @param {number[]} values The values
+   * @param {number} percentile The percentile between 0 and 1
+   * @returns The percentile value or null if there are no values
+   */
+  protected getPercentile(values: number[], percentile: number): number | null {
+    if (values.length === 0) return null;
+
+    const sorted = [...values].sort((a, b) => a - b);
+    const position = percentile * (sorted.length - 1);
+    const lower = Math.floor(position);
+    const upper = Math.ceil(position);
+
+    return sorted[lower] + (sorted[upper] - sorted[lower]) * (position - lower);
+  }
+
+  /**
+   * Returns the distinct values of the list
+   * @param {any[]} values The values
+   * @returns The distinct values
+   */
+  protected getDistinctValues(values: any[]): any[] {
+    const distinct: any[] = [];
+    for (const value of values) {
+      if (!distinct.some((entry) => compareValues(entry, value) === 0))
+        distinct.push(value);
+    }
+
+    return distinct;
+  }
+
+  /**
+   * Returns the JSON representation of the value used to group and compare composite values
+   * @param {any} value The value
+   * @returns The key value
+   */
+  protected getKey(value: any): any {
+    const normalized = normalizeValue(value);
+    if (normalized instanceof Date) return { $date: normalized.toISOString() };
+    else if (Array.isArray(normalized))
+      return normalized.map((entry) => this.getKey(entry));
+    else if (this.isPlainObject(normalized)) {
+      const output: any = {};
+      for (const key of Object.keys(normalized).sort())
+        output[key] = this.getKey(normalized[key]);
+      return output;
+    }
+
+    return normalized;
+  }
+
+  /**
+   * Checks whether the record id matches the requested id. The ids of SQL records are matched regardless of whether they are provided as numbers or strings.
+   * @param {any} recordId The id of the record
+   * @param {any} id The requested id
+   * @returns True if the ids are the same, otherwise false
+   */
+  protected isSameId(recordId: any, id: any): boolean {
+    return String(normalizeValue(recordId)) === String(normalizeValue(id));
+  }
+
+  /**
+   * Checks whether the value matches the MongoDB query, used for the conditions of the $pull updates and the array filters
+   * @param {any} query The MongoDB query
+   * @param {any} value The value to match
+   * @returns True if the value matches the query, otherwise false
+   */
+  protected matchQuery(query: any, value: any): boolean {
+    // Array values match if any one of their elements match
+    const matchValue = (check: (item: any) => boolean) =>
+      check(value) || (Array.isArray(value) && value.some(check));
+
+    if (!this.isPlainObject(query))
+      return matchValue((item) => compareValues(item, query) === 0);
+
+    return Object.entries(query).every(([key, condition]: [string, any]) => {
+      switch (key) {
+        case "$and":
+          return condition.every((entry: any) => this.matchQuery(entry, value));
+        case "$or":
+          return condition.some((entry: any) => this.matchQuery(entry, value));
+        case "$nor":
+          return !condition.some((entry: any) => this.matchQuery(entry, value));
+        case "$not":
+          return !this.matchQuery(condition, value);
+        case "$eq":
+          return matchValue((item) => compareValues(item, condition) === 0);
+        case "$ne":
+          return !matchValue((item) => compareValues(item, condition) === 0);
+        case "$gt":
+        case "$gte":
+        case "$lt":
+        case "$lte":
+          return matchValue((item) => {
+            // Query comparisons only match the values of the same type
+            const getKind = (entry: any) => {
+              const normalized = normalizeValue(entry);
+              if (normalized instanceof Date) return "date";
+              else if (Array.isArray(normalized)) return "array";
+              else return typeof normalized;
+            };
+            if (
+              item === null ||
+              item === undefined ||
+              getKind(item) !== getKind(condition)
+            )
+              return false;
+
+            const result = compareValues(item, condition);
+            if (key === "$gt") return result > 0;
+            else if (key === "$gte") return result >= 0;
+            else if (key === "$lt") return result < 0;
+            else return result <= 0;
+          });
+        case "$in":
+          return condition.some((entry: any) =>
+            matchValue((item) => compareValues(item, entry) === 0),
+          );
+        case "$nin":
+          return !condition.some((entry: any) =>
+            matchValue((item) => compareValues(item, entry) === 0),
+          );
+        case "$exists":
+          return (value !== undefined) === Boolean(condition);
+        case "$regex":
+          return matchValue(
+            (item) =>
+              typeof item === "string" &&
+              new RegExp(condition, query.$options).test(item),
+          );
+        case "$options":
+          return true;
+        default:
+          return this.matchQuery(condition, getValueAtPath(value, key));
+      }
+    });
+  }
+
+  /**
+   * Splits the field path into its items, the positional operator items starting with '$' are dropped
+   * @param {string} fieldPath The field path
+   * @returns The path items
+   */
+  protected getPathItems(fieldPath: string): string[] {
+    return fieldPath.split(".").filter((item) => !item.startsWith("$"));
+  }
+
+  /**
+   * Sets the value at the path of the object, the intermediate objects are created if they do not exist
+   * @param {any} target The object
+   * @param {string[]} path The path items
+   * @param {any} value The value to set
+   */
+  protected setPath(target: any, path: string[], value: any): void {
+    let current = target;
+    for (let i = 0; i < path.length - 1; i++) {
+      if (!isObject(current[path[i]])) current[path[i]] = {};
+      current = current[path[i]];
+    }
+
+    current[path[path.length - 1]] = value;
+  }
+
+  /**
+   * Deletes the value at the path of the object, the values of the array elements along the path are also deleted
+   * @param {any} target The object
+   * @param {string[]} path The path items
+   */
+  protected deletePath(target: any, path: string[]): void {
+    if (Array.isArray(target)) {
+      for (const entry of target) this.deletePath(entry, path);
+      return;
+    }
+
+    if (!isObject(target)) return;
+    if (path.length === 1) delete target[path[0]];
+    else this.deletePath(target[path[0]], path.slice(1));
+  }
+
+  /**
+   * Checks whether the value is a plain object, e.g., not a date or an object id
+   * @param {any} value The value
+   * @returns True if the value is a plain object, otherwise false
+   */
+  protected isPlainObject(value: any): boolean {
+    if (value === null || typeof value !== "object" || Array.isArray(value))
+      return false;
+
+    const prototype = Object.getPrototypeOf(value);
+    return prototype === Object.prototype || prototype === null;
+  }
+
+  /**
+   * Returns the deep copy of the value. Dates are copied, other class instances (e.g., object ids) are kept as is.
+   * @param {any} value The value
+   * @returns The copy of the value
+   */
+  protected clone(value: any): any {
+    if (value instanceof Date) return new Date(value.getTime());
+    if (Array.isArray(value)) return value.map((entry) => this.clone(entry));
+    if (!this.isPlainObject(value)) return value;
+
+    const output: any = {};
+    for (const [key, entry] of Object.entries(value))
+      output[key] = this.clone(entry);
+    return output;
+  }
+
+  /**
+   * Returns the copy of the model records and the id sequences
+   * @returns The snapshot of the database
+   */
+  protected getSnapshot(): any {
+    return {
+      collections: new Map(
+        Array.from(this.collections.entries()).map(([name, records]) => [
+          name,
+          records.map((record) => this.clone(record)),
+        ]),
+      ),
+      preparedModels: new Set(this.preparedModels),
+      sequences: new Map(this.sequences),
+    };
+  }
+
+  /**
+   * Reverts the model records and the id sequences to the snapshot
+   * @param {any} snapshot The snapshot of the database
+   */
+  protected restoreSnapshot(snapshot: any): void {
+    this.collections = new Map(
+      Array.from(snapshot.collections.entries() as [string, any[]][]).map(
+        ([name, records]) => [
+          name,
+          records.map((record) => this.clone(record)),
+        ],
+      ),
+    );
+    this.preparedModels = new Set(snapshot.preparedModels);
+    this.sequences = new Map(snapshot.sequences);
+  }
+}
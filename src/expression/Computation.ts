@@ -0,0 +1,421 @@
+import { Expression } from "./Expression";
+import { QueryParameters } from "./QueryParameters";
+import { DBTYPE, ReturnType } from "../utils/types";
+import { ClientError } from "../utils/ClientError";
+
+/**
+ * Defines a group computation of the aggregate operation, namely the computation operator, the computed expression and the operator specific options
+ *
+ * @export
+ * @class Computation
+ */
+export class Computation {
+  /**
+   * The alias of the computation in the aggregation results
+   * @type {string}
+   */
+  as: string;
+
+  /**
+   * The lowercase compute operator (e.g., $sum, $countdistinct, $percentile)
+   * @type {string}
+   */
+  operator: string;
+
+  /**
+   * The computed expression, null for the $count operator
+   * @type {Expression | null}
+   */
+  compute: Expression | null;
+
+  /**
+   * The percentile to compute between 0 and 1, only applicable for the $percentile operator
+   * @type {number | null}
+   */
+  percentile: number | null;
+
+  /**
+   * The sorting order of the grouped records, only applicable for the $first and $last operators
+   * @type {{ expression: Expression; order: string }[] | null}
+   */
+  sort: { expression: Expression; order: string }[] | null;
+
+  constructor(
+    as: string,
+    operator: string,
+    compute: Expression | null,
+    percentile: number | null = null,
+    sort: { expression: Expression; order: string }[] | null = null,
+  ) {
+    this.as = as;
+    this.operator = operator;
+    this.compute = compute;
+    this.percentile = percentile;
+    this.sort = sort;
+  }
+
+  /**
+   * Returns the value type of the computation result
+   * @returns Value type of the computation result
+   */
+  getReturnType(): ReturnType {
+    switch (this.operator) {
+      case "$first":
+      case "$last":
+        // The picked value has the type of the computed expression
+        return this.compute?.getReturnType() ?? ReturnType.UNDEFINED;
+      case "$push":
+      case "$addtoset":
+        return ReturnType.ARRAY;
+      default:
+        return ReturnType.NUMBER;
+    }
+  }
+
+  /**
+   * Returns the database specific query structure of the computation. For MongoDB it is the accumulator of the $group stage, for SQL databases it is the aggregate function call of the select list.
+   * @param {string} dbType The database type
+   * @param {function} callback Used to fetch the name of the field to handle complex lookup cases. Mainly used for MongoDB database field names.
+   * @param {QueryParameters} params Collects the parameter values of SQL queries
+   * @returns Query structure
+   */
+  getQuery(
+    dbType: string,
+    callback?: (fieldPath: string) => string,
+    params?: QueryParameters,
+  ): any {
+    // The MySQL percentile computations reference the computed expression more than once, each reference registers its own query parameters
+    if (
+      dbType === DBTYPE.MYSQL &&
+      (this.operator === "$median" || this.operator === "$percentile")
+    )
+      return this.getMySQLPercentileQuery(
+        () => this.compute?.getQuery(dbType, callback, params) ?? null,
+      );
+
+    const value = this.compute?.getQuery(dbType, callback, params) ?? null;
+
+    switch (dbType) {
+      case DBTYPE.MONGODB:
+        return this.getMongoQuery(value, callback);
+      case DBTYPE.POSTGRESQL:
+        return this.getPostgreSQLQuery(value, callback);
+      case DBTYPE.MYSQL:
+        return this.getMySQLQuery(value, callback);
+      case DBTYPE.SQLSERVER:
+      case DBTYPE.ORACLE:
+      case DBTYPE.SQLITE:
+        return this.getSQLQuery(dbType, value);
+      default:
+        throw new ClientError(
+          "unsupported_computation_operator",
+          `Computation type '${this.operator}' is not supported by ${dbType} databases.`,
+        );
+    }
+  }
+
+  /**
+   * Returns the expression that converts the accumulated value to the final computation result after the MongoDB $group stage. Returns null if the accumulated value is already the final result.
+   * @param {string} dbType The database type
+   * @returns Query structure of the $project (or $addFields) stage entry
+   */
+  getPostQuery(dbType: string): any {
+    if (dbType !== DBTYPE.MONGODB) return null;
+
+    switch (this.operator) {
+      case "$countdistinct":
+        return { $size: `$${this.as}` };
+      case "$variance":
+        return { $pow: [`$${this.as}`, 2] };
+      case "$percentile":
+        return { $arrayElemAt: [`$${this.as}`, 0] };
+      default:
+        return null;
+    }
+  }
+
+  /**
+   * Returns the MongoDB $group stage accumulator
+   * @param {any} value The query structure of the computed expression
+   * @param {function} callback Used to fetch the name of the field
+   * @returns Accumulator definition
+   */
+  protected getMongoQuery(
+    value: any,
+    callback?: (fieldPath: string) => string,
+  ): any {
+    switch (this.operator) {
+      case "$count":
+        return { $sum: 1 };
+      case "$countif":
+        return { $sum: { $cond: [value, 1, 0] } };
+      case "$sum":
+        return { $sum: value };
+      case "$avg":
+        return { $avg: value };
+      case "$min":
+        return { $min: value };
+      case "$max":
+        return { $max: value };
+      case "$countdistinct":
+        // The distinct values are collected and counted after the $group stage
+        return { $addToSet: value };
+      case "$stddev":
+        return { $stdDevSamp: value };
+      case "$stddevpop":
+        return { $stdDevPop: value };
+      case "$variance":
+        // The standard deviation is squared after the $group stage
+        return { $stdDevSamp: value };
+      case "$median":
+        return { $median: { input: value, method: "approximate" } };
+      case "$percentile":
+        return {
+          $percentile: {
+            input: value,
+            p: [this.percentile],
+            method: "approximate",
+          },
+        };
+      case "$first":
+      case "$last": {
+        if (!this.sort) return { [this.operator]: value };
+
+        const sortBy: { [key: string]: number } = {};
+        for (const entry of this.sort) {
+          // Field values are returned in '$path' format
+          const fieldPath = entry.expression.getQuery(DBTYPE.MONGODB, callback);
+          sortBy[fieldPath.substring(1)] = entry.order === "asc" ? 1 : -1;
+        }
+
+        return {
+          [this.operator === "$first" ? "$top" : "$bottom"]: {
+            sortBy,
+            output: value,
+          },
+        };
+      }
+      case "$push":
+        return { $push: value };
+      case "$addtoset":
+        return { $addToSet: value };
+      default:
+        return null;
+    }
+  }
+
+  /**
+   * Returns the PostgreSQL aggregate function call
+   * @param {any} value The query text of the computed expression
+   * @param {function} callback Used to fetch the name of the field
+   * @returns Query text
+   */
+  protected getPostgreSQLQuery(
+    value: any,
+    callback?: (fieldPath: string) => string,
+  ): string | null {
+    switch (this.operator) {
+      case "$count":
+        return "COUNT(*)";
+      case "$countif":
+        return `SUM(CASE WHEN ${value} THEN 1 ELSE 0 END)`;
+      case "$sum":
+        return `SUM(${value})`;
+      case "$avg":
+        return `AVG(${value})`;
+      case "$min":
+        return `MIN(${value})`;
+      case "$max":
+        return `MAX(${value})`;
+      case "$countdistinct":
+        return `COUNT(DISTINCT ${value})`;
+      case "$stddev":
+        return `STDDEV_SAMP(${value})`;
+      case "$stddevpop":
+        return `STDDEV_POP(${value})`;
+      case "$variance":
+        return `VAR_SAMP(${value})`;
+      case "$median":
+        return `PERCENTILE_CONT(0.5) WITHIN GROUP (ORDER BY ${value})`;
+      case "$percentile":
+        return `PERCENTILE_CONT(${this.percentile}) WITHIN GROUP (ORDER BY ${value})`;
+      case "$first":
+        return `(ARRAY_AGG(${value}${this.getOrderBy(
+          DBTYPE.POSTGRESQL,
+          false,
+          callback,
+        )}))[1]`;
+      case "$last":
+        // Without a sorting order the last element of the aggregated array is picked
+        if (!this.sort) return `(ARRAY_AGG(${value}))[COUNT(*)]`;
+        return `(ARRAY_AGG(${value}${this.getOrderBy(
+          DBTYPE.POSTGRESQL,
+          true,
+          callback,
+        )}))[1]`;
+      case "$push":
+        return `ARRAY_AGG(${value})`;
+      case "$addtoset":
+        return `ARRAY_AGG(DISTINCT ${value})`;
+      default:
+        return null;
+    }
+  }
+
+  /**
+   * Returns the MySQL aggregate function call. MySQL does not have ordered array aggregation, the values are concatenated as a JSON array text instead which is limited by the 'group_concat_max_len' setting of the server.
+   * @param {any} value The query text of the computed expression
+   * @param {function} callback Used to fetch the name of the field
+   * @returns Query text
+   */
+  protected getMySQLQuery(
+    value: any,
+    callback?: (fieldPath: string) => string,
+  ): string | null {
+    // Converts the value to its JSON representation so that values of different types can be collected in a JSON array
+    const jsonValue = `JSON_EXTRACT(JSON_ARRAY(${value}), '$[0]')`;
+
+    switch (this.operator) {
+      case "$count":
+        return "COUNT(*)";
+      case "$countif":
+        return `SUM(CASE WHEN ${value} THEN 1 ELSE 0 END)`;
+      case "$sum":
+        return `SUM(${value})`;
+      case "$avg":
+        return `AVG(${value})`;
+      case "$min":
+        return `MIN(${value})`;
+      case "$max":
+        return `MAX(${value})`;
+      case "$countdistinct":
+        return `COUNT(DISTINCT ${value})`;
+      case "$stddev":
+        return `STDDEV_SAMP(${value})`;
+      case "$stddevpop":
+        return `STDDEV_POP(${value})`;
+      case "$variance":
+        return `VAR_SAMP(${value})`;
+      case "$first":
+        if (!this.sort) return `JSON_EXTRACT(JSON_ARRAYAGG(${value}), '$[0]')`;
+        return `JSON_EXTRACT(CONCAT('[', GROUP_CONCAT(${jsonValue}${this.getOrderBy(
+          DBTYPE.MYSQL,
+          false,
+          callback,
+        )} SEPARATOR ','), ']'), '$[0]')`;
+      case "$last":
+        if (!this.sort)
+          return `JSON_EXTRACT(JSON_ARRAYAGG(${value}), '$[last]')`;
+        return `JSON_EXTRACT(CONCAT('[', GROUP_CONCAT(${jsonValue}${this.getOrderBy(
+          DBTYPE.MYSQL,
+          true,
+          callback,
+        )} SEPARATOR ','), ']'), '$[0]')`;
+      case "$push":
+        return `JSON_ARRAYAGG(${value})`;
+      case "$addtoset":
+        return `CAST(CONCAT('[', GROUP_CONCAT(DISTINCT ${jsonValue} SEPARATOR ','), ']') AS JSON)`;
+      default:
+        return null;
+    }
+  }
+
+  /**
+   * Returns the MySQL query text of the $median and $percentile computations. MySQL does not have a percentile aggregate function, the non-null values are concatenated in ascending order as a JSON array text and the percentile is linearly interpolated between the values at the closest positions, the same as PERCENTILE_CONT.
+   * @param {function} getValue Returns the query text of the computed expression, called for each reference in the order of the references in the query text
+   * @returns Query text
+   */
+  protected getMySQLPercentileQuery(getValue: () => any): string {
+    const percentile = this.operator === "$median" ? 0.5 : this.percentile;
+    const values = () =>
+      `CONCAT('[', GROUP_CONCAT(${getValue()} ORDER BY ${getValue()} SEPARATOR ','), ']')`;
+    const position = () => `${percentile} * (COUNT(${getValue()}) - 1)`;
+    const valueAt = (index: () => string) =>
+      `JSON_EXTRACT(${values()}, CONCAT('$[', ${index()}, ']'))`;
+    const lower = () => `FLOOR(${position()})`;
+    const upper = () => `CEIL(${position()})`;
+
+    return `(${valueAt(lower)} + (${valueAt(upper)} - ${valueAt(
+      lower,
+    )}) * (${position()} - ${lower()}))`;
+  }
+
+  /**
+   * Returns the SQL Server, Oracle and SQLite aggregate function call. These databases only support the computations that have a corresponding aggregate function, the other computations are rejected when the computations of the aggregation are set.
+   * @param {string} dbType The database type
+   * @param {any} value The query text of the computed expression
+   * @returns Query text
+   * @throws Throws an exception if the database does not have an aggregate function for the computation
+   */
+  protected getSQLQuery(dbType: string, value: any): string {
+    switch (this.operator) {
+      case "$count":
+        return "COUNT(*)";
+      case "$countif":
+        return `SUM(CASE WHEN ${value} THEN 1 ELSE 0 END)`;
+      case "$sum":
+        return `SUM(${value})`;
+      case "$avg":
+        return `AVG(${value})`;
+      case "$min":
+        return `MIN(${value})`;
+      case "$max":
+        return `MAX(${value})`;
+      case "$countdistinct":
+        return `COUNT(DISTINCT ${value})`;
+    }
+
+    if (dbType === DBTYPE.SQLSERVER) {
+      switch (this.operator) {
+        case "$stddev":
+          return `STDEV(${value})`;
+        case "$stddevpop":
+          return `STDEVP(${value})`;
+        case "$variance":
+          return `VAR(${value})`;
+      }
+    } else if (dbType === DBTYPE.ORACLE) {
+      switch (this.operator) {
+        case "$stddev":
+          return `STDDEV_SAMP(${value})`;
+        case "$stddevpop":
+          return `STDDEV_POP(${value})`;
+        case "$variance":
+          return `VAR_SAMP(${value})`;
+        case "$median":
+          return `MEDIAN(${value})`;
+        case "$percentile":
+          return `PERCENTILE_CONT(${this.percentile}) WITHIN GROUP (ORDER BY ${value})`;
+      }
+    }
+
+    throw new ClientError(
+      "unsupported_computation_operator",
+      `Computation type '${this.operator}' is not supported by ${dbType} databases.`,
+    );
+  }
+
+  /**
+   * Returns the ORDER BY clause of the ordered aggregate functions
+   * @param {string} dbType The database type
+   * @param {boolean} reverse Whether to reverse the sorting order, used to pick the last value as the first element
+   * @param {function} callback Used to fetch the name of the field
+   * @returns The ORDER BY clause prefixed with a space or an empty string if no sorting order is defined
+   */
+  protected getOrderBy(
+    dbType: string,
+    reverse: boolean,
+    callback?: (fieldPath: string) => string,
+  ): string {
+    if (!this.sort) return "";
+
+    const entries = this.sort.map((entry) => {
+      const ascending = (entry.order === "asc") !== reverse;
+      return `${entry.expression.getQuery(dbType, callback)} ${
+        ascending ? "ASC" : "DESC"
+      }`;
+    });
+
+    return ` ORDER BY ${entries.join(", ")}`;
+  }
+}
@@ -1,4 +1,5 @@
-import { ReturnType, ExpressionType } from "../utils/types";
+import { ReturnType, ExpressionType, EvaluationContext } from "../utils/types";
+import { QueryParameters } from "./QueryParameters";
 
 /**
  * Base class to model the where condition structure
@@ -25,11 +26,13 @@ export abstract class Expression {
    * Returns the database specific query structure of the where condition
    * @param {string} dbType The database type
    * @param {function} callback Used to fetch the name of the field to handle complex lookup cases. Mainly used for MongoDB database field names.
+   * @param {QueryParameters} params Collects the parameter values of SQL queries. If provided, static values are added to the parameter list and represented by placeholders in the query text.
    * @returns Query structure
    */
   abstract getQuery(
     dbType: string,
     callback?: (fieldPath: string) => string,
+    params?: QueryParameters,
   ): any;
 
   /**
@@ -40,6 +43,13 @@ export abstract class Expression {
    */
   abstract getPullQuery(dbType: string, dropFieldName: boolean): any;
 
+  /**
+   * Evaluates the expression for the record in process, without running a database query. The values follow the database semantics, e.g., arithmetic and text functions return null if any one of their parameters is null and date parts are calculated in UTC.
+   * @param {EvaluationContext} context The record and the other inputs of the evaluation
+   * @returns The value of the expression
+   */
+  abstract evaluate(context: EvaluationContext): any;
+
   /**
    * Returns the value type of the expression
    * @returns Value type of the expression
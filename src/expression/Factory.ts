@@ -8,12 +8,14 @@ import divide from "./functions/divide";
 import endsWith from "./functions/endsWith";
 import eq from "./functions/eq";
 import exists from "./functions/exists";
+import existsQuery from "./functions/existsQuery";
 import isnull from "./functions/isnull";
 import isnotnull from "./functions/isnotnull";
 import floor from "./functions/floor";
 import gt from "./functions/gt";
 import gte from "./functions/gte";
 import inFunc from "./functions/in";
+import inQuery from "./functions/inQuery";
 import includes from "./functions/includes";
 import left from "./functions/left";
 import length from "./functions/length";
@@ -90,12 +92,14 @@ export const FunctionManager: Record<string, any> = {
   $endswith: endsWith,
   $eq: eq,
   $exists: exists,
+  $existsquery: existsQuery,
   $isnull: isnull,
   $isnotnull: isnotnull,
   $floor: floor,
   $gt: gt,
   $gte: gte,
   $in: inFunc,
+  $inquery: inQuery,
   $includes: includes,
   $left: left,
   $length: length,
@@ -1,10 +1,12 @@
 import { Expression } from "./Expression";
+import { QueryParameters } from "./QueryParameters";
 import {
   ReturnType,
   ExpressionType,
   QueryFunctionDefinition,
   DBTYPE,
   UpdatePullFunctions,
+  EvaluationContext,
 } from "../utils/types";
 import { ClientError } from "../utils/ClientError";
 
@@ -266,20 +268,25 @@ export class Function extends Expression {
   /**
    * Returns the database specific query structure of the where condition
    * @param {string} dbType The database type
+   * @param {QueryParameters} params Collects the parameter values of SQL queries
    * @returns Query structure
    */
-  getQuery(dbType: string, callback?: (fieldPath: string) => string): any {
+  getQuery(
+    dbType: string,
+    callback?: (fieldPath: string) => string,
+    params?: QueryParameters,
+  ): any {
     const mappedName = this.definition.mapping[dbType];
     switch (dbType) {
       case DBTYPE.MONGODB: {
         if (this.parameters.length === 1) {
           return {
-            [mappedName]: this.parameters[0].getQuery(dbType, callback),
+            [mappedName]: this.parameters[0].getQuery(dbType, callback, params),
           };
         } else {
           const funcParams = [];
           for (const entry of this.parameters) {
-            funcParams.push(entry.getQuery(dbType, callback));
+            funcParams.push(entry.getQuery(dbType, callback, params));
           }
 
           return {
@@ -288,10 +295,13 @@ export class Function extends Expression {
         }
       }
       case DBTYPE.POSTGRESQL:
-      case DBTYPE.MYSQL: {
+      case DBTYPE.MYSQL:
+      case DBTYPE.SQLSERVER:
+      case DBTYPE.ORACLE:
+      case DBTYPE.SQLITE: {
         const funcParams = [];
         for (const entry of this.parameters) {
-          funcParams.push(entry.getQuery(dbType, callback));
+          funcParams.push(entry.getQuery(dbType, callback, params));
         }
 
         return `${mappedName}(${funcParams.join(", ")})`;
@@ -333,6 +343,43 @@ export class Function extends Expression {
     }
   }
 
+  /**
+   * Evaluates the function for the record in process. This method is overriden by the specific function classes.
+   * @param {EvaluationContext} context The record and the other inputs of the evaluation
+   * @returns The value of the function
+   */
+  evaluate(context: EvaluationContext): any {
+    throw new ClientError(
+      "unsupported_function",
+      `Function '${this.name}' cannot be evaluated without running a database query.`,
+    );
+  }
+
+  /**
+   * Evaluates the parameters of the function
+   * @param {EvaluationContext} context The record and the other inputs of the evaluation
+   * @returns The parameter values, missing values are returned as null
+   */
+  evaluateParams(context: EvaluationContext): any[] {
+    return this.parameters.map((entry) => entry.evaluate(context) ?? null);
+  }
+
+  /**
+   * Evaluates the parameters of the function and calculates the function value. Similar to the databases, if any one of the parameters is null the function value is null.
+   * @param {EvaluationContext} context The record and the other inputs of the evaluation
+   * @param {function} calculate Calculates the function value from the parameter values
+   * @returns The value of the function
+   */
+  evaluateNonNull(
+    context: EvaluationContext,
+    calculate: (...values: any[]) => any,
+  ): any {
+    const values = this.evaluateParams(context);
+    if (values.some((entry) => entry === null)) return null;
+
+    return calculate(...values);
+  }
+
   /**
    * Checks whether if the expression includes a joined field value
    * @returns True if the expressin includes at least one joined field value, otherwise false
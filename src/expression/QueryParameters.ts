@@ -0,0 +1,66 @@
+import { DBTYPE } from "../utils/types";
+
+/**
+ * Collects the values of a parameterized SQL query. While the query text is being built, each value is registered to the parameter list and replaced by the database specific placeholder in the query text.
+ *
+ * @export
+ * @class QueryParameters
+ */
+export class QueryParameters {
+  /**
+   * The database type
+   * @protected
+   * @type {string}
+   */
+  protected dbType: string;
+
+  /**
+   * The ordered list of parameter values
+   * @protected
+   * @type {any[]}
+   */
+  protected values: any[];
+
+  constructor(dbType: string) {
+    this.dbType = dbType;
+    this.values = [];
+  }
+
+  /**
+   * Adds a value to the parameter list and returns its placeholder to use in the query text
+   * @param {any} value The parameter value
+   * @returns Database specific placeholder of the parameter (e.g., $1 for PostgreSQL, ? for MySQL and SQLite, @p1 for SQL Server, :1 for Oracle)
+   */
+  add(value: any): string {
+    this.values.push(value);
+
+    switch (this.dbType) {
+      case DBTYPE.POSTGRESQL:
+        return `$${this.values.length}`;
+      case DBTYPE.SQLSERVER:
+        return `@p${this.values.length}`;
+      case DBTYPE.ORACLE:
+        return `:${this.values.length}`;
+      case DBTYPE.MYSQL:
+      case DBTYPE.SQLITE:
+      default:
+        return "?";
+    }
+  }
+
+  /**
+   * Returns the ordered list of parameter values
+   * @returns Parameter values
+   */
+  getValues(): any[] {
+    return this.values;
+  }
+
+  /**
+   * Returns the number of parameters registered so far
+   * @returns Parameter count
+   */
+  getCount(): number {
+    return this.values.length;
+  }
+}
@@ -0,0 +1,613 @@
+import { Field } from "../model/Field";
+import { FieldValue } from "./values/FieldValue";
+import { QueryParameters } from "./QueryParameters";
+import { DBTYPE, SearchMode } from "../utils/types";
+import { ClientError } from "../utils/ClientError";
+
+/**
+ * The number of words included on each side of a matched term in highlighted fragments
+ */
+const FRAGMENT_WORDS = 10;
+
+/**
+ * The separator of the highlighted fragments
+ */
+const FRAGMENT_DELIMITER = " ... ";
+
+/**
+ * The PostgreSQL weight labels in descending order of importance
+ */
+const WEIGHT_LABELS = ["A", "B", "C", "D"];
+
+/**
+ * Defines a searched field and its relative weight in the relevance score
+ */
+export interface SearchField {
+  /**
+   * The searchable text or rich-text field
+   * @type {Field}
+   */
+  field: Field;
+
+  /**
+   * The weight of the field, matches in fields with higher weights increase the relevance score more
+   * @type {number}
+   */
+  weight: number;
+}
+
+/**
+ * Defines the highlighting options of the text search
+ */
+export interface TextHighlight {
+  /**
+   * The text or rich-text field whose value is highlighted
+   * @type {Field}
+   */
+  field: Field;
+
+  /**
+   * The maximum number of text fragments around the matched terms to return, if null the whole field value is returned
+   * @type {number | null}
+   */
+  maxFragments: number | null;
+
+  /**
+   * The opening and closing tags wrapping the matched terms
+   * @type {[string, string]}
+   */
+  tags: [string, string];
+}
+
+/**
+ * Defines the terms of the search string, each term is a list of words where multi-word terms are phrases
+ */
+interface SearchTerms {
+  /**
+   * The terms that need to match
+   * @type {string[][]}
+   */
+  required: string[][];
+
+  /**
+   * The terms of which at least one needs to match if there are no required terms, otherwise they are ignored
+   * @type {string[][]}
+   */
+  optional: string[][];
+
+  /**
+   * The terms that must not match
+   * @type {string[][]}
+   */
+  excluded: string[][];
+}
+
+/**
+ * Defines the full-text search of the searchText operation, namely the searched fields, the search string and mode, and the relevance scoring and highlighting options
+ *
+ * @export
+ * @class TextSearch
+ */
+export class TextSearch {
+  /**
+   * The searched full-text indexed fields and their weights
+   * @type {SearchField[]}
+   */
+  fields: SearchField[];
+
+  /**
+   * The search string
+   * @type {string}
+   */
+  text: string;
+
+  /**
+   * The search mode which specifies how the search string is interpreted
+   * @type {SearchMode}
+   */
+  mode: SearchMode;
+
+  /**
+   * Whether to return the relevance score of the matched records in the `_score` field
+   * @type {boolean}
+   */
+  returnScore: boolean;
+
+  /**
+   * Whether to sort the matched records by their relevance score in descending order, before the other sorting fields
+   * @type {boolean}
+   */
+  sortByScore: boolean;
+
+  /**
+   * The highlighting options, the highlighted text is returned in the `_highlight` field of the matched records
+   * @type {TextHighlight | null}
+   */
+  highlight: TextHighlight | null;
+
+  constructor(
+    fields: SearchField[],
+    text: string = "",
+    mode: SearchMode = "any",
+    returnScore: boolean = false,
+    sortByScore: boolean = false,
+    highlight: TextHighlight | null = null,
+  ) {
+    this.fields = fields;
+    this.text = text;
+    this.mode = mode;
+    this.returnScore = returnScore;
+    this.sortByScore = sortByScore;
+    this.highlight = highlight;
+  }
+
+  /**
+   * Returns whether the database can compute the relevance score of the search. MongoDB text indexes do not support prefix matching, prefix searches are run using regular expressions which do not have a score.
+   * @param {string} dbType The database type
+   * @returns True if the relevance score is available, otherwise false
+   */
+  hasScore(dbType: string): boolean {
+    return !(dbType === DBTYPE.MONGODB && this.mode === "prefix");
+  }
+
+  /**
+   * Returns the database specific query structure of the text search condition. For MongoDB it is the $text query operator (or the regular expression conditions of prefix searches) which needs to be used in the first $match stage of the pipeline.
+   * @param {string} dbType The database type
+   * @param {QueryParameters} params Collects the parameter values of SQL queries
+   * @returns Query structure
+   */
+  getQuery(dbType: string, params?: QueryParameters): any {
+    switch (dbType) {
+      case DBTYPE.MONGODB:
+        if (this.mode === "prefix") return this.getMongoPrefixQuery();
+        return { $text: { $search: this.getMongoSearchText() } };
+      case DBTYPE.POSTGRESQL:
+        return `${this.getTsVector()} @@ ${this.getTsQuery(params)}`;
+      case DBTYPE.MYSQL: {
+        const matches = this.fields.map((entry) =>
+          this.getMatchAgainst(entry.field, params),
+        );
+        return matches.length > 1 ? `(${matches.join(" OR ")})` : matches[0];
+      }
+      default:
+        return null;
+    }
+  }
+
+  /**
+   * Returns the database specific query structure of the relevance score of the matched records
+   * @param {string} dbType The database type
+   * @param {QueryParameters} params Collects the parameter values of SQL queries
+   * @returns Query structure
+   */
+  getScoreQuery(dbType: string, params?: QueryParameters): any {
+    switch (dbType) {
+      case DBTYPE.MONGODB:
+        // The weights of the fields are defined by the text index
+        return this.hasScore(dbType) ? { $meta: "textScore" } : null;
+      case DBTYPE.POSTGRESQL: {
+        const weights = this.getWeightLabels();
+        if (!weights)
+          return `ts_rank(${this.getTsVector()}, ${this.getTsQuery(params)})`;
+
+        // The weights array of ts_rank is in {D, C, B, A} order
+        const max = Math.max(...this.fields.map((entry) => entry.weight));
+        const rankWeights = [...WEIGHT_LABELS].reverse().map((label) => {
+          const weight = Object.keys(weights).find(
+            (key) => weights[key] === label,
+          );
+          return weight ? Number(weight) / max : 0;
+        });
+
+        return `ts_rank('{${rankWeights.join(
+          ", ",
+        )}}'::float4[], ${this.getTsVector()}, ${this.getTsQuery(params)})`;
+      }
+      case DBTYPE.MYSQL: {
+        // The MATCH ... AGAINST expression returns the relevance when used in the select list
+        const scores = this.fields.map((entry) => {
+          const match = this.getMatchAgainst(entry.field, params);
+          return entry.weight === 1 ? match : `${entry.weight} * ${match}`;
+        });
+        return scores.length > 1 ? `(${scores.join(" + ")})` : scores[0];
+      }
+      default:
+        return null;
+    }
+  }
+
+  /**
+   * Returns the database specific query structure of the highlighted field value. Returns null if the database does not support highlighting, in which case the matched records are highlighted using the {@link highlightRecords} method.
+   * @param {string} dbType The database type
+   * @param {QueryParameters} params Collects the parameter values of SQL queries
+   * @returns Query structure
+   */
+  getHighlightQuery(dbType: string, params?: QueryParameters): any {
+    if (!this.highlight || dbType !== DBTYPE.POSTGRESQL) return null;
+
+    const { field, maxFragments, tags } = this.highlight;
+    // The tags are written in the options list as they are, they cannot include the characters that would alter the other options
+    if (tags.some((tag) => /[",=]/.test(tag)))
+      throw new ClientError(
+        "invalid_value",
+        `The highlight tags cannot include double quotes, commas or equal signs`,
+      );
+
+    const options = [`StartSel="${tags[0]}"`, `StopSel="${tags[1]}"`];
+    if (maxFragments)
+      options.push(
+        `MaxFragments=${maxFragments}`,
+        `MaxWords=${FRAGMENT_WORDS * 2 + 1}`,
+        `MinWords=${FRAGMENT_WORDS}`,
+        `FragmentDelimiter="${FRAGMENT_DELIMITER}"`,
+      );
+    else options.push("HighlightAll=true");
+
+    const optionsText = options.join(", ");
+    return `ts_headline('${this.getLanguage(field)}', ${this.getFieldQuery(
+      field,
+      dbType,
+    )}, ${this.getTsQuery(params)}, ${
+      params ? params.add(optionsText) : `'${optionsText.replace(/'/g, "''")}'`
+    })`;
+  }
+
+  /**
+   * Adds the highlighted field value to the matched records in the `_highlight` field, used for databases that do not support highlighting
+   * @param {any[]} records The matched records
+   */
+  highlightRecords(records: any[]): void {
+    if (!this.highlight) return;
+
+    const fieldName = this.highlight.field.getName();
+    for (const record of records) {
+      const value = record?.[fieldName];
+      record._highlight =
+        typeof value === "string" ? this.highlightText(value) : null;
+    }
+  }
+
+  /**
+   * Wraps the search terms in the text with the highlight tags. Terms are matched case-insensitively as whole words, or as word prefixes in prefix mode. The words of the excluded terms are not highlighted.
+   * @param {string} value The text to highlight
+   * @returns The highlighted text, or the highlighted fragments of the text joined by the fragment delimiter if the maximum number of fragments is specified
+   */
+  highlightText(value: string): string {
+    if (!this.highlight) return value;
+
+    const { maxFragments, tags } = this.highlight;
+    const { required, optional } = this.getSearchTerms();
+    const terms = [...required, ...optional]
+      .reduce((list, term) => [...list, ...term], [])
+      .map((word) => word.toLowerCase());
+    const highlight = (word: string) => {
+      const normalized = this.normalizeWord(word);
+      const lowerCase = normalized.toLowerCase();
+      const matched =
+        normalized &&
+        terms.some((term) =>
+          this.mode === "prefix"
+            ? lowerCase.startsWith(term)
+            : lowerCase === term,
+        );
+      if (!matched) return word;
+      return word.replace(normalized, (term) => `${tags[0]}${term}${tags[1]}`);
+    };
+
+    // The whitespace of the text is preserved if the whole text is returned
+    if (!maxFragments)
+      return value
+        .split(/(\s+)/)
+        .map((token) => (/^\s*$/.test(token) ? token : highlight(token)))
+        .join("");
+
+    const words = value.split(/\s+/).filter((word) => word.length > 0);
+    const highlighted = words.map(highlight);
+    const matches: number[] = [];
+    highlighted.forEach((word, index) => {
+      if (word !== words[index]) matches.push(index);
+    });
+
+    // Each fragment covers the words around a matched term, overlapping fragments are merged
+    const fragments: [number, number][] = [];
+    for (const index of matches) {
+      const start = Math.max(0, index - FRAGMENT_WORDS);
+      const end = Math.min(words.length, index + FRAGMENT_WORDS + 1);
+      const last = fragments[fragments.length - 1];
+      if (last && start <= last[1]) last[1] = end;
+      else if (fragments.length < maxFragments) fragments.push([start, end]);
+      else break;
+    }
+
+    // If there are no matches in the highlighted field the beginning of the text is returned
+    if (fragments.length === 0)
+      return highlighted.slice(0, FRAGMENT_WORDS * 2 + 1).join(" ");
+
+    return fragments
+      .map(([start, end]) => highlighted.slice(start, end).join(" "))
+      .join(FRAGMENT_DELIMITER);
+  }
+
+  /**
+   * Returns the relevance score of the record, used for databases that cannot run the search themselves, e.g., the in-memory database. The score is the number of the term occurrences in the searched fields multiplied by the field weights. Words are matched case-insensitively without stemming, or as word prefixes in prefix mode.
+   * @param {any} record The record to match
+   * @returns The relevance score, zero if the record does not match the search
+   */
+  getRecordScore(record: any): number {
+    const { required, optional, excluded } = this.getSearchTerms();
+    const fields = this.fields.map((entry) => {
+      let value = record;
+      for (const item of entry.field.getQueryPath().split("."))
+        value = value?.[item];
+
+      const words =
+        typeof value === "string"
+          ? value
+              .split(/\s+/)
+              .map((word) => this.normalizeWord(word).toLowerCase())
+              .filter((word) => word.length > 0)
+          : [];
+      return { words, weight: entry.weight };
+    });
+
+    // Multi-word terms match the consecutive words of the field value
+    const getScore = (term: string[]) => {
+      const words = term.map((word) => word.toLowerCase());
+      let score = 0;
+      for (const field of fields) {
+        for (let i = 0; i + words.length <= field.words.length; i++) {
+          const matched = words.every((word, j) =>
+            this.mode === "prefix"
+              ? field.words[i + j].startsWith(word)
+              : field.words[i + j] === word,
+          );
+          if (matched) score += field.weight;
+        }
+      }
+
+      return score;
+    };
+
+    if (excluded.some((term) => getScore(term) > 0)) return 0;
+
+    const requiredScores = required.map(getScore);
+    if (requiredScores.some((score) => score === 0)) return 0;
+
+    // Without required terms at least one of the optional terms needs to match
+    const optionalScore = optional
+      .map(getScore)
+      .reduce((sum, score) => sum + score, 0);
+    if (required.length === 0 && optionalScore === 0) return 0;
+
+    return (
+      requiredScores.reduce((sum, score) => sum + score, 0) + optionalScore
+    );
+  }
+
+  /**
+   * Returns the terms of the search string based on the search mode
+   * - any: The quoted phrases are required, if there are no phrases at least one of the words needs to match.
+   * - phrase: The whole search string is a single required phrase.
+   * - prefix: Each word is required and matched as a word prefix.
+   * - boolean: Words and quoted phrases prefixed with `+` are required and prefixed with `-` are excluded. Quoted phrases without a prefix are also required, at least one of the remaining words needs to match if there are no required terms.
+   * @returns The search terms
+   */
+  protected getSearchTerms(): SearchTerms {
+    const terms: SearchTerms = { required: [], optional: [], excluded: [] };
+    const toWords = (text: string) =>
+      text
+        .split(/\s+/)
+        .map((word) => this.normalizeWord(word))
+        .filter((word) => word.length > 0);
+
+    if (this.mode === "phrase") {
+      const words = toWords(this.text.replace(/"/g, " "));
+      if (words.length > 0) terms.required.push(words);
+      return terms;
+    }
+
+    const tokenizer = /([+-]?)"([^"]*)"?|([+-]?)([^\s"]+)/g;
+    let token = tokenizer.exec(this.text);
+    while (token) {
+      const isPhrase = token[2] !== undefined;
+      const sign = (isPhrase ? token[1] : token[3]) || "";
+      const words = toWords(isPhrase ? token[2] : token[4]);
+      token = tokenizer.exec(this.text);
+      if (words.length === 0) continue;
+
+      if (this.mode === "prefix")
+        words.forEach((word) => terms.required.push([word]));
+      else if (this.mode === "boolean" && sign === "-")
+        terms.excluded.push(words);
+      else if (isPhrase || (this.mode === "boolean" && sign === "+"))
+        terms.required.push(words);
+      else terms.optional.push(words);
+    }
+
+    return terms;
+  }
+
+  /**
+   * Removes the leading and trailing punctuation characters of the word
+   * @param {string} word The word
+   * @returns The word without the punctuation
+   */
+  protected normalizeWord(word: string): string {
+    return word.replace(
+      /^[^0-9A-Za-z\u00C0-\uFFFF]+|[^0-9A-Za-z\u00C0-\uFFFF]+$/g,
+      "",
+    );
+  }
+
+  /**
+   * Returns the MongoDB $search string of the $text operator. Single required words are quoted since MongoDB requires the quoted phrases to match.
+   * @returns The search string
+   */
+  protected getMongoSearchText(): string {
+    const { required, optional, excluded } = this.getSearchTerms();
+    const term = (words: string[]) =>
+      words.map((word) => word.replace(/"/g, "")).join(" ");
+
+    return [
+      ...required.map((words) => `"${term(words)}"`),
+      ...optional.map((words) => term(words)),
+      ...excluded.map((words) =>
+        words.length > 1 ? `-"${term(words)}"` : `-${term(words)}`,
+      ),
+    ].join(" ");
+  }
+
+  /**
+   * Returns the MongoDB query of the prefix search, each word needs to match the beginning of a word in at least one of the searched fields
+   * @returns Query structure
+   */
+  protected getMongoPrefixQuery(): any {
+    const { required } = this.getSearchTerms();
+    const conditions = required.map(([word]) => {
+      const pattern = `\\b${word.replace(/[.*+?^${}()|[\]\\]/g, "\\$&")}`;
+      return {
+        $or: this.fields.map((entry) => ({
+          [entry.field.getQueryPath()]: { $regex: pattern, $options: "i" },
+        })),
+      };
+    });
+
+    return conditions.length > 0 ? { $and: conditions } : {};
+  }
+
+  /**
+   * Returns the language (text search configuration) of the field for PostgreSQL
+   * @param {Field} field The searchable field
+   * @returns The text search configuration name
+   */
+  protected getLanguage(field: Field): string {
+    return (field.getLanguage() || "english").replace(/'/g, "''");
+  }
+
+  /**
+   * Returns the SQL query text of the field value
+   * @param {Field} field The field
+   * @param {string} dbType The database type
+   * @returns Query text
+   */
+  protected getFieldQuery(field: Field, dbType: string): string {
+    return new FieldValue(
+      field,
+      field.getName(),
+      "none",
+      field.getModel(),
+    ).getQuery(dbType);
+  }
+
+  /**
+   * Returns the PostgreSQL weight labels of the distinct field weights, the highest weight gets the label 'A'. Returns null if all fields have the same weight.
+   * @returns The weight label of each distinct weight
+   */
+  protected getWeightLabels(): { [key: string]: string } | null {
+    const weights = this.fields
+      .map((entry) => entry.weight)
+      .filter((weight, index, list) => list.indexOf(weight) === index)
+      .sort((a, b) => b - a);
+    if (weights.length <= 1) return null;
+
+    const labels: { [key: string]: string } = {};
+    weights.forEach((weight, index) => {
+      labels[weight] = WEIGHT_LABELS[index];
+    });
+
+    return labels;
+  }
+
+  /**
+   * Returns the PostgreSQL text search vector of the searched fields. If the fields have different weights, the vector of each field is labeled with the label of its weight.
+   * @returns Query text
+   */
+  protected getTsVector(): string {
+    const labels = this.getWeightLabels();
+    const vectors = this.fields.map((entry) => {
+      const vector = `to_tsvector('${this.getLanguage(
+        entry.field,
+      )}', COALESCE(${this.getFieldQuery(
+        entry.field,
+        DBTYPE.POSTGRESQL,
+      )}, ''))`;
+      return labels
+        ? `setweight(${vector}, '${labels[entry.weight]}')`
+        : vector;
+    });
+
+    return vectors.length > 1 ? `(${vectors.join(" || ")})` : vectors[0];
+  }
+
+  /**
+   * Returns the PostgreSQL text search query built from the search terms. The words of a phrase need to follow each other.
+   * @param {QueryParameters} params Collects the parameter values of SQL queries
+   * @returns Query text
+   */
+  protected getTsQuery(params?: QueryParameters): string {
+    const { required, optional, excluded } = this.getSearchTerms();
+    const term = (words: string[]) => {
+      // Characters having a special meaning in text search queries are removed from the words
+      const cleaned = words
+        .map((word) => word.replace(/[&|!():*<>'\\]/g, ""))
+        .filter((word) => word.length > 0)
+        .map((word) => (this.mode === "prefix" ? `${word}:*` : word));
+      if (cleaned.length === 0) return null;
+      return cleaned.length > 1 ? `(${cleaned.join(" <-> ")})` : cleaned[0];
+    };
+    const toList = (list: string[][]) =>
+      list.map(term).filter((entry): entry is string => entry !== null);
+
+    const parts = toList(required);
+    const optionalTerms = toList(optional);
+    if (parts.length === 0 && optionalTerms.length > 0)
+      parts.push(
+        optionalTerms.length > 1
+          ? `(${optionalTerms.join(" | ")})`
+          : optionalTerms[0],
+      );
+    toList(excluded).forEach((entry) => parts.push(`!${entry}`));
+
+    const query = parts.join(" & ");
+    return `to_tsquery('${this.getLanguage(this.fields[0].field)}', ${
+      params ? params.add(query) : `'${query.replace(/'/g, "''")}'`
+    })`;
+  }
+
+  /**
+   * Returns the MySQL MATCH ... AGAINST expression of a searched field. Searches in any mode without quoted phrases use the natural language mode, other searches use the boolean mode of MySQL.
+   * @param {Field} field The searched field
+   * @param {QueryParameters} params Collects the parameter values of SQL queries
+   * @returns Query text
+   */
+  protected getMatchAgainst(field: Field, params?: QueryParameters): string {
+    const { required, optional, excluded } = this.getSearchTerms();
+
+    let text = this.text;
+    let mode = "NATURAL LANGUAGE";
+    if (this.mode !== "any" || required.length > 0) {
+      const term = (words: string[]) => {
+        // Characters having a special meaning in boolean mode are removed from the words
+        const cleaned = words
+          .map((word) => word.replace(/[+\-><()~*"@]/g, ""))
+          .filter((word) => word.length > 0);
+        if (cleaned.length === 0) return null;
+        if (cleaned.length > 1) return `"${cleaned.join(" ")}"`;
+        return this.mode === "prefix" ? `${cleaned[0]}*` : cleaned[0];
+      };
+
+      text = [
+        ...required.map((words) => term(words) && `+${term(words)}`),
+        ...optional.map((words) => term(words)),
+        ...excluded.map((words) => term(words) && `-${term(words)}`),
+      ]
+        .filter((entry) => entry)
+        .join(" ");
+      mode = "BOOLEAN";
+    }
+
+    return `MATCH (${this.getFieldQuery(field, DBTYPE.MYSQL)}) AGAINST (${
+      params ? params.add(text) : `'${text.replace(/'/g, "''")}'`
+    } IN ${mode} MODE)`;
+  }
+}
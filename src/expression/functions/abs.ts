@@ -1,5 +1,5 @@
 import { Function } from "../Function";
-import { ReturnType } from "../../utils/types";
+import { ReturnType, EvaluationContext } from "../../utils/types";
 
 /**
  * Returns the absolute value of a number
@@ -17,7 +17,19 @@ export default class FunctionImplementation extends Function {
         MongoDB: "$abs",
         PostgreSQL: "ABS",
         MySQL: "ABS",
+        "SQL Server": "ABS",
+        Oracle: "ABS",
+        SQLite: "ABS",
       },
     });
   }
+
+  /**
+   * Returns the absolute value of the number parameter
+   * @param {EvaluationContext} context The record and the other inputs of the evaluation
+   * @returns The calculated number or null if the parameter is null
+   */
+  evaluate(context: EvaluationContext): any {
+    return this.evaluateNonNull(context, (value) => Math.abs(value));
+  }
 }
@@ -1,5 +1,5 @@
 import { Function } from "../Function";
-import { ReturnType } from "../../utils/types";
+import { ReturnType, EvaluationContext } from "../../utils/types";
 
 /**
  * Returns the inverse cosine (arccosine) of a number, in radians in the range 0 to Pi
@@ -17,7 +17,19 @@ export default class FunctionImplementation extends Function {
         MongoDB: "$acos",
         PostgreSQL: "ACOS",
         MySQL: "ACOS",
+        "SQL Server": "ACOS",
+        Oracle: "ACOS",
+        SQLite: "ACOS",
       },
     });
   }
+
+  /**
+   * Returns the inverse cosine of the number parameter
+   * @param {EvaluationContext} context The record and the other inputs of the evaluation
+   * @returns The calculated number or null if the parameter is null
+   */
+  evaluate(context: EvaluationContext): any {
+    return this.evaluateNonNull(context, (value) => Math.acos(value));
+  }
 }
@@ -1,5 +1,5 @@
 import { Function } from "../Function";
-import { ReturnType } from "../../utils/types";
+import { ReturnType, EvaluationContext } from "../../utils/types";
 
 /**
  * Returns the inverse sine (arcsine) of a number in radians, in the range -Pi/2 to Pi/2
@@ -17,7 +17,19 @@ export default class FunctionImplementation extends Function {
         MongoDB: "$asin",
         PostgreSQL: "ASIN",
         MySQL: "ASIN",
+        "SQL Server": "ASIN",
+        Oracle: "ASIN",
+        SQLite: "ASIN",
       },
     });
   }
+
+  /**
+   * Returns the inverse sine of the number parameter
+   * @param {EvaluationContext} context The record and the other inputs of the evaluation
+   * @returns The calculated number or null if the parameter is null
+   */
+  evaluate(context: EvaluationContext): any {
+    return this.evaluateNonNull(context, (value) => Math.asin(value));
+  }
 }
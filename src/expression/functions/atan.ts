@@ -1,5 +1,5 @@
 import { Function } from "../Function";
-import { ReturnType } from "../../utils/types";
+import { ReturnType, EvaluationContext } from "../../utils/types";
 
 /**
  * Returns the inverse tangent (arctangent) of a value in radians, in the range -Pi/2 to Pi/2
@@ -17,7 +17,19 @@ export default class FunctionImplementation extends Function {
         MongoDB: "$atan",
         PostgreSQL: "ATAN",
         MySQL: "ATAN",
+        "SQL Server": "ATAN",
+        Oracle: "ATAN",
+        SQLite: "ATAN",
       },
     });
   }
+
+  /**
+   * Returns the inverse tangent of the number parameter
+   * @param {EvaluationContext} context The record and the other inputs of the evaluation
+   * @returns The calculated number or null if the parameter is null
+   */
+  evaluate(context: EvaluationContext): any {
+    return this.evaluateNonNull(context, (value) => Math.atan(value));
+  }
 }
@@ -1,5 +1,5 @@
 import { Function } from "../Function";
-import { ReturnType } from "../../utils/types";
+import { ReturnType, EvaluationContext } from "../../utils/types";
 
 /**
  * Returns the inverse tangent (arc tangent) of y / x, where y and x are the first and second parameters of the function respectively
@@ -17,7 +17,19 @@ export default class FunctionImplementation extends Function {
         MongoDB: "$atan2",
         PostgreSQL: "ATAN2",
         MySQL: "ATAN2",
+        "SQL Server": "ATN2",
+        Oracle: "ATAN2",
+        SQLite: "ATAN2",
       },
     });
   }
+
+  /**
+   * Returns the angle in radians between the positive x-axis and the point (x, y), the first parameter is y
+   * @param {EvaluationContext} context The record and the other inputs of the evaluation
+   * @returns The angle or null if any one of the parameters is null
+   */
+  evaluate(context: EvaluationContext): any {
+    return this.evaluateNonNull(context, (y, x) => Math.atan2(y, x));
+  }
 }
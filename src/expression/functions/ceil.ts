@@ -1,5 +1,5 @@
 import { Function } from "../Function";
-import { ReturnType } from "../../utils/types";
+import { ReturnType, EvaluationContext } from "../../utils/types";
 
 /**
  * Returns the smallest integer greater than or equal to the specified number
@@ -17,7 +17,19 @@ export default class FunctionImplementation extends Function {
         MongoDB: "$ceil",
         PostgreSQL: "CEIL",
         MySQL: "CEIL",
+        "SQL Server": "CEILING",
+        Oracle: "CEIL",
+        SQLite: "CEIL",
       },
     });
   }
+
+  /**
+   * Returns the smallest integer greater than or equal to the number parameter
+   * @param {EvaluationContext} context The record and the other inputs of the evaluation
+   * @returns The calculated number or null if the parameter is null
+   */
+  evaluate(context: EvaluationContext): any {
+    return this.evaluateNonNull(context, (value) => Math.ceil(value));
+  }
 }
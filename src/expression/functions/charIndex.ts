@@ -1,5 +1,6 @@
 import { Function } from "../Function";
-import { ReturnType, DBTYPE } from "../../utils/types";
+import { QueryParameters } from "../QueryParameters";
+import { ReturnType, DBTYPE, EvaluationContext } from "../../utils/types";
 
 /**
  * Searches a string for an occurrence of a substring and returns the index (zero-based) of the first occurrence. If the substring is not found, returns -1 in MongoDB and 0 in SQL databases.
@@ -17,6 +18,9 @@ export default class FunctionImplementation extends Function {
         MongoDB: "$custom",
         PostgreSQL: "$custom",
         MySQL: "$custom",
+        "SQL Server": "CHARINDEX",
+        Oracle: "INSTR",
+        SQLite: "INSTR",
       },
     });
   }
@@ -24,24 +28,29 @@ export default class FunctionImplementation extends Function {
   /**
    * Returns the database specific query structure of the where condition
    * @param {string} dbType The database type
+   * @param {QueryParameters} params Collects the parameter values of SQL queries
    * @returns Query structure
    */
-  getQuery(dbType: string, callback: (fieldPath: string) => string): any {
+  getQuery(
+    dbType: string,
+    callback: (fieldPath: string) => string,
+    params?: QueryParameters,
+  ): any {
     switch (dbType) {
       case DBTYPE.MONGODB:
         if (this.parameters[2])
           return {
             $indexOfCP: [
-              this.parameters[0].getQuery(dbType, callback),
-              this.parameters[1].getQuery(dbType, callback),
-              this.parameters[2].getQuery(dbType, callback),
+              this.parameters[0].getQuery(dbType, callback, params),
+              this.parameters[1].getQuery(dbType, callback, params),
+              this.parameters[2].getQuery(dbType, callback, params),
             ],
           };
         else
           return {
             $indexOfCP: [
-              this.parameters[0].getQuery(dbType, callback),
-              this.parameters[1].getQuery(dbType, callback),
+              this.parameters[0].getQuery(dbType, callback, params),
+              this.parameters[1].getQuery(dbType, callback, params),
             ],
           };
       case DBTYPE.MYSQL:
@@ -50,48 +59,159 @@ export default class FunctionImplementation extends Function {
           WHEN ${this.parameters[0].getQuery(
             dbType,
             callback,
+            params,
           )} IS NULL OR ${this.parameters[1].getQuery(
             dbType,
             callback,
+            params,
           )} IS NULL THEN -1
           ELSE LOCATE(${this.parameters[1].getQuery(
             dbType,
             callback,
-          )}, ${this.parameters[0].getQuery(dbType, callback)}) - 1
+            params,
+          )}, ${this.parameters[0].getQuery(dbType, callback, params)}) - 1
       END`;
         else
           return `CASE 
           WHEN ${this.parameters[0].getQuery(
             dbType,
             callback,
+            params,
           )} IS NULL OR ${this.parameters[1].getQuery(
             dbType,
             callback,
+            params,
           )} IS NULL THEN -1
           ELSE LOCATE(${this.parameters[1].getQuery(
             dbType,
             callback,
+            params,
           )}, ${this.parameters[0].getQuery(
             dbType,
             callback,
-          )}, (${this.parameters[2].getQuery(dbType, callback)} + 1)) - 1
+            params,
+          )}, (${this.parameters[2].getQuery(
+            dbType,
+            callback,
+            params,
+          )} + 1)) - 1
       END`;
       case DBTYPE.POSTGRESQL:
         if (!this.parameters[2])
           return `POSITION(${this.parameters[1].getQuery(
             dbType,
             callback,
-          )} IN ${this.parameters[0].getQuery(dbType, callback)}) - 1`;
+            params,
+          )} IN ${this.parameters[0].getQuery(dbType, callback, params)}) - 1`;
         else
           return `POSITION(${this.parameters[1].getQuery(
             dbType,
             callback,
+            params,
           )} IN SUBSTRING(${this.parameters[0].getQuery(
             dbType,
             callback,
-          )} FROM (${this.parameters[2].getQuery(dbType, callback)} + 1))) - 1`;
+            params,
+          )} FROM (${this.parameters[2].getQuery(
+            dbType,
+            callback,
+            params,
+          )} + 1))) - 1`;
+      case DBTYPE.SQLSERVER:
+        // CHARINDEX returns 0 if the substring is not found and its start position is 1-based
+        if (!this.parameters[2])
+          return `(CHARINDEX(${this.parameters[1].getQuery(
+            dbType,
+            callback,
+            params,
+          )}, ${this.parameters[0].getQuery(dbType, callback, params)}) - 1)`;
+        else
+          return `(CHARINDEX(${this.parameters[1].getQuery(
+            dbType,
+            callback,
+            params,
+          )}, ${this.parameters[0].getQuery(
+            dbType,
+            callback,
+            params,
+          )}, ${this.parameters[2].getQuery(
+            dbType,
+            callback,
+            params,
+          )} + 1) - 1)`;
+      case DBTYPE.ORACLE:
+        // INSTR returns 0 if the substring is not found and its start position is 1-based
+        if (!this.parameters[2])
+          return `(INSTR(${this.parameters[0].getQuery(
+            dbType,
+            callback,
+            params,
+          )}, ${this.parameters[1].getQuery(dbType, callback, params)}) - 1)`;
+        else
+          return `(INSTR(${this.parameters[0].getQuery(
+            dbType,
+            callback,
+            params,
+          )}, ${this.parameters[1].getQuery(
+            dbType,
+            callback,
+            params,
+          )}, ${this.parameters[2].getQuery(
+            dbType,
+            callback,
+            params,
+          )} + 1) - 1)`;
+      case DBTYPE.SQLITE:
+        // INSTR returns 0 if the substring is not found and it does not have a start position parameter
+        if (!this.parameters[2])
+          return `(INSTR(${this.parameters[0].getQuery(
+            dbType,
+            callback,
+            params,
+          )}, ${this.parameters[1].getQuery(dbType, callback, params)}) - 1)`;
+        else
+          return `CASE
+          WHEN INSTR(SUBSTR(${this.parameters[0].getQuery(
+            dbType,
+            callback,
+            params,
+          )}, ${this.parameters[2].getQuery(
+            dbType,
+            callback,
+            params,
+          )} + 1), ${this.parameters[1].getQuery(
+            dbType,
+            callback,
+            params,
+          )}) = 0 THEN -1
+          ELSE INSTR(SUBSTR(${this.parameters[0].getQuery(
+            dbType,
+            callback,
+            params,
+          )}, ${this.parameters[2].getQuery(
+            dbType,
+            callback,
+            params,
+          )} + 1), ${this.parameters[1].getQuery(
+            dbType,
+            callback,
+            params,
+          )}) + ${this.parameters[2].getQuery(dbType, callback, params)} - 1
+      END`;
       default:
         return null;
     }
   }
+
+  /**
+   * Returns the zero-based index of the first occurrence of the search string, starting the search from the optional start index
+   * @param {EvaluationContext} context The record and the other inputs of the evaluation
+   * @returns The index, -1 if the search string is not found or null if the string parameters are null
+   */
+  evaluate(context: EvaluationContext): any {
+    const [value, search, start] = this.evaluateParams(context);
+    if (value === null || search === null) return null;
+
+    return value.indexOf(search, start ?? 0);
+  }
 }
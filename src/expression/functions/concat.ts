@@ -1,5 +1,7 @@
 import { Function } from "../Function";
-import { ReturnType, DBTYPE } from "../../utils/types";
+import { QueryParameters } from "../QueryParameters";
+import { ReturnType, DBTYPE, EvaluationContext } from "../../utils/types";
+import { normalizeValue } from "../../utils/helper";
 
 /**
  * Concatenates strings and returns the concatenated string
@@ -17,6 +19,9 @@ export default class FunctionImplementation extends Function {
         MongoDB: "$concat",
         PostgreSQL: "||",
         MySQL: "CONCAT",
+        "SQL Server": "CONCAT",
+        Oracle: "||",
+        SQLite: "||",
       },
     });
   }
@@ -24,17 +29,25 @@ export default class FunctionImplementation extends Function {
   /**
    * Returns the database specific query structure of the where condition
    * @param {string} dbType The database type
+   * @param {QueryParameters} params Collects the parameter values of SQL queries
    * @returns Query structure
    */
-  getQuery(dbType: string, callback?: (fieldPath: string) => string): any {
+  getQuery(
+    dbType: string,
+    callback?: (fieldPath: string) => string,
+    params?: QueryParameters,
+  ): any {
     switch (dbType) {
       case DBTYPE.MONGODB:
       case DBTYPE.MYSQL:
-        return super.getQuery(dbType, callback);
+      case DBTYPE.SQLSERVER:
+        return super.getQuery(dbType, callback, params);
       case DBTYPE.POSTGRESQL:
+      case DBTYPE.ORACLE:
+      case DBTYPE.SQLITE:
         const funcParams = [];
         for (const entry of this.parameters) {
-          funcParams.push(entry.getQuery(dbType, callback));
+          funcParams.push(entry.getQuery(dbType, callback, params));
         }
 
         return `(${funcParams.join(" || ")})`;
@@ -42,4 +55,19 @@ export default class FunctionImplementation extends Function {
         return null;
     }
   }
+
+  /**
+   * Concatenates the parameter values as strings
+   * @param {EvaluationContext} context The record and the other inputs of the evaluation
+   * @returns The concatenated string or null if any one of the parameters is null
+   */
+  evaluate(context: EvaluationContext): any {
+    return this.evaluateNonNull(context, (...values) =>
+      values
+        .map((value) =>
+          value instanceof Date ? value.toISOString() : normalizeValue(value),
+        )
+        .join(""),
+    );
+  }
 }
@@ -1,5 +1,5 @@
 import { Function } from "../Function";
-import { ReturnType } from "../../utils/types";
+import { ReturnType, EvaluationContext } from "../../utils/types";
 
 /**
  * Returns the cosine of a value that is measured in radians
@@ -17,7 +17,19 @@ export default class FunctionImplementation extends Function {
         MongoDB: "$cos",
         PostgreSQL: "COS",
         MySQL: "COS",
+        "SQL Server": "COS",
+        Oracle: "COS",
+        SQLite: "COS",
       },
     });
   }
+
+  /**
+   * Returns the cosine of the number parameter in radians
+   * @param {EvaluationContext} context The record and the other inputs of the evaluation
+   * @returns The calculated number or null if the parameter is null
+   */
+  evaluate(context: EvaluationContext): any {
+    return this.evaluateNonNull(context, (value) => Math.cos(value));
+  }
 }
@@ -1,5 +1,7 @@
 import { Function } from "../Function";
-import { ReturnType, DBTYPE } from "../../utils/types";
+import { QueryParameters } from "../QueryParameters";
+import { ReturnType, DBTYPE, EvaluationContext } from "../../utils/types";
+import { toDateValue } from "../../utils/helper";
 import { ClientError } from "../../utils/ClientError";
 
 /**
@@ -18,6 +20,9 @@ export default class FunctionImplementation extends Function {
         MongoDB: "$custom",
         PostgreSQL: "$custom",
         MySQL: "TIMESTAMPADD",
+        "SQL Server": "DATEADD",
+        Oracle: "$custom",
+        SQLite: "STRFTIME",
       },
     });
   }
@@ -59,40 +64,147 @@ export default class FunctionImplementation extends Function {
   /**
    * Returns the database specific query structure of the where condition
    * @param {string} dbType The database type
+   * @param {QueryParameters} params Collects the parameter values of SQL queries
    * @returns Query structure
    */
-  getQuery(dbType: string, callback: (fieldPath: string) => string): any {
+  getQuery(
+    dbType: string,
+    callback: (fieldPath: string) => string,
+    params?: QueryParameters,
+  ): any {
     switch (dbType) {
       case DBTYPE.MONGODB:
         return {
           $dateAdd: {
-            startDate: this.parameters[0].getQuery(dbType, callback),
-            amount: this.parameters[1].getQuery(dbType, callback),
-            unit: this.parameters[2].getQuery(dbType, callback),
+            startDate: this.parameters[0].getQuery(dbType, callback, params),
+            amount: this.parameters[1].getQuery(dbType, callback, params),
+            unit: this.parameters[2].getQuery(dbType, callback, params),
           },
         };
       case DBTYPE.POSTGRESQL: {
-        const funcParams = [];
-        for (const entry of this.parameters) {
-          funcParams.push(entry.getQuery(dbType, callback));
-        }
+        // The unit of measure is validated and it is not passed as a query parameter
+        const unitOfMeasure = this.parameters[2].getQuery(dbType);
 
-        return `(${funcParams[0]}::TIMESTAMP + (${
-          funcParams[1]
-        } || ' ' || ${funcParams[2].toUpperCase()})::INTERVAL)`;
+        return `(${this.parameters[0].getQuery(
+          dbType,
+          callback,
+          params,
+        )}::TIMESTAMP + (${this.parameters[1].getQuery(
+          dbType,
+          callback,
+          params,
+        )} || ' ' || ${unitOfMeasure.toUpperCase()})::INTERVAL)`;
       }
       case DBTYPE.MYSQL: {
-        const funcParams = [];
-        for (const entry of this.parameters) {
-          funcParams.push(entry.getQuery(dbType, callback));
-        }
+        // The unit of measure is validated and it is not passed as a query parameter
+        const unitOfMeasure = this.parameters[2].getQuery(dbType);
+
+        // Parameters are rendered in the order they appear in the query text, MySQL placeholders are positional
+        return `TIMESTAMPADD(${unitOfMeasure
+          .replaceAll("'", "")
+          .toUpperCase()}, ${this.parameters[1].getQuery(
+          dbType,
+          callback,
+          params,
+        )}, ${this.parameters[0].getQuery(dbType, callback, params)})`;
+      }
+      case DBTYPE.SQLSERVER: {
+        // The unit of measure is validated and it is not passed as a query parameter
+        const unitOfMeasure = this.parameters[2].getQuery(dbType);
 
-        return `TIMESTAMPADD(${funcParams[2]
+        return `DATEADD(${unitOfMeasure
+          .replaceAll("'", "")
+          .toUpperCase()}, ${this.parameters[1].getQuery(
+          dbType,
+          callback,
+          params,
+        )}, ${this.parameters[0].getQuery(dbType, callback, params)})`;
+      }
+      case DBTYPE.ORACLE: {
+        // The unit of measure is validated and it is not passed as a query parameter
+        const unitOfMeasure = this.parameters[2]
+          .getQuery(dbType)
+          .replaceAll("'", "")
+          .toLowerCase();
+        const date = this.parameters[0].getQuery(dbType, callback, params);
+        const amount = this.parameters[1].getQuery(dbType, callback, params);
+
+        // Month based units are added with ADD_MONTHS since day-to-second intervals cannot represent them
+        switch (unitOfMeasure) {
+          case "year":
+            return `ADD_MONTHS(${date}, (${amount}) * 12)`;
+          case "quarter":
+            return `ADD_MONTHS(${date}, (${amount}) * 3)`;
+          case "month":
+            return `ADD_MONTHS(${date}, ${amount})`;
+          case "week":
+            return `(${date} + NUMTODSINTERVAL((${amount}) * 7, 'DAY'))`;
+          default:
+            return `(${date} + NUMTODSINTERVAL(${amount}, '${unitOfMeasure.toUpperCase()}'))`;
+        }
+      }
+      case DBTYPE.SQLITE: {
+        // The unit of measure is validated and it is not passed as a query parameter
+        const unitOfMeasure = this.parameters[2]
+          .getQuery(dbType)
           .replaceAll("'", "")
-          .toUpperCase()}, ${funcParams[1]}, ${funcParams[0]})`;
+          .toLowerCase();
+        const date = this.parameters[0].getQuery(dbType, callback, params);
+        const amount = this.parameters[1].getQuery(dbType, callback, params);
+
+        // SQLite date modifiers do not have week and quarter units, the result is formatted in the ISO 8601 format of the stored dates
+        let modifier = `(${amount}) || ' ${unitOfMeasure.toUpperCase()}S'`;
+        if (unitOfMeasure === "week") modifier = `((${amount}) * 7) || ' DAYS'`;
+        else if (unitOfMeasure === "quarter")
+          modifier = `((${amount}) * 3) || ' MONTHS'`;
+
+        return `STRFTIME('%Y-%m-%dT%H:%M:%fZ', ${date}, ${modifier})`;
       }
       default:
         return null;
     }
   }
+
+  /**
+   * Adds the amount of time units to the date in UTC. Adding months keeps the day of the month, e.g., adding a month to January 31 results in March 3 or 2.
+   * @param {EvaluationContext} context The record and the other inputs of the evaluation
+   * @returns The resulting date or null if any one of the parameters is null
+   */
+  evaluate(context: EvaluationContext): any {
+    const [value, amount, unit] = this.evaluateParams(context);
+    const date = toDateValue(value);
+    if (!date || amount === null || unit === null) return null;
+
+    const result = new Date(date.getTime());
+    switch (unit.toLowerCase()) {
+      case "year":
+        result.setUTCFullYear(result.getUTCFullYear() + amount);
+        break;
+      case "quarter":
+        result.setUTCMonth(result.getUTCMonth() + amount * 3);
+        break;
+      case "month":
+        result.setUTCMonth(result.getUTCMonth() + amount);
+        break;
+      case "week":
+        result.setUTCDate(result.getUTCDate() + amount * 7);
+        break;
+      case "day":
+        result.setUTCDate(result.getUTCDate() + amount);
+        break;
+      case "hour":
+        result.setTime(result.getTime() + amount * 60 * 60 * 1000);
+        break;
+      case "minute":
+        result.setTime(result.getTime() + amount * 60 * 1000);
+        break;
+      case "second":
+        result.setTime(result.getTime() + amount * 1000);
+        break;
+      default:
+        return null;
+    }
+
+    return result;
+  }
 }
@@ -1,5 +1,7 @@
 import { Function } from "../Function";
-import { ReturnType, DBTYPE } from "../../utils/types";
+import { QueryParameters } from "../QueryParameters";
+import { ReturnType, DBTYPE, EvaluationContext } from "../../utils/types";
+import { toDateValue } from "../../utils/helper";
 import { ClientError } from "../../utils/ClientError";
 
 /**
@@ -18,6 +20,9 @@ export default class FunctionImplementation extends Function {
         MongoDB: "$custom",
         PostgreSQL: "$custom",
         MySQL: "TIMESTAMPDIFF",
+        "SQL Server": "DATEDIFF",
+        Oracle: "$custom",
+        SQLite: "JULIANDAY",
       },
     });
   }
@@ -59,22 +64,28 @@ export default class FunctionImplementation extends Function {
   /**
    * Returns the database specific query structure of the where condition
    * @param {string} dbType The database type
+   * @param {QueryParameters} params Collects the parameter values of SQL queries
    * @returns Query structure
    */
-  getQuery(dbType: string, callback: (fieldPath: string) => string): any {
+  getQuery(
+    dbType: string,
+    callback: (fieldPath: string) => string,
+    params?: QueryParameters,
+  ): any {
     switch (dbType) {
       case DBTYPE.MONGODB:
         return {
           $dateDiff: {
-            startDate: this.parameters[0].getQuery(dbType, callback),
-            endDate: this.parameters[1].getQuery(dbType, callback),
-            unit: this.parameters[2].getQuery(dbType, callback),
+            startDate: this.parameters[0].getQuery(dbType, callback, params),
+            endDate: this.parameters[1].getQuery(dbType, callback, params),
+            unit: this.parameters[2].getQuery(dbType, callback, params),
           },
         };
       case DBTYPE.POSTGRESQL: {
+        // The unit of measure is validated and it is not passed as a query parameter
         const funcParams = [];
-        for (const entry of this.parameters) {
-          funcParams.push(entry.getQuery(dbType, callback));
+        for (const entry of this.parameters.slice(0, 2)) {
+          funcParams.push(entry.getQuery(dbType, callback, params));
         }
         const unitOfMeasure = this.parameters[2]
           .getQuery(dbType)
@@ -103,15 +114,147 @@ export default class FunctionImplementation extends Function {
         }
       }
       case DBTYPE.MYSQL: {
-        const funcParams = [];
-        for (const entry of this.parameters) {
-          funcParams.push(entry.getQuery(dbType, callback));
-        }
+        // The unit of measure is validated and it is not passed as a query parameter
+        const unitOfMeasure = this.parameters[2].getQuery(dbType);
 
-        return `TIMESTAMPDIFF(${funcParams[2]
+        return `TIMESTAMPDIFF(${unitOfMeasure
           .replaceAll("'", "")
-          .toUpperCase()}, ${funcParams[0]}, ${funcParams[1]})`;
+          .toUpperCase()}, ${this.parameters[0].getQuery(
+          dbType,
+          callback,
+          params,
+        )}, ${this.parameters[1].getQuery(dbType, callback, params)})`;
+      }
+      case DBTYPE.SQLSERVER: {
+        // The unit of measure is validated and it is not passed as a query parameter
+        const unitOfMeasure = this.parameters[2].getQuery(dbType);
+
+        return `DATEDIFF(${unitOfMeasure
+          .replaceAll("'", "")
+          .toUpperCase()}, ${this.parameters[0].getQuery(
+          dbType,
+          callback,
+          params,
+        )}, ${this.parameters[1].getQuery(dbType, callback, params)})`;
+      }
+      case DBTYPE.ORACLE: {
+        // The unit of measure is validated and it is not passed as a query parameter
+        const unitOfMeasure = this.parameters[2]
+          .getQuery(dbType)
+          .replaceAll("'", "")
+          .toLowerCase();
+
+        // Positional binds are matched in the order they appear in the query text, each reference to a date gets its own placeholder
+        const start = () =>
+          this.parameters[0].getQuery(dbType, callback, params);
+        const end = () => this.parameters[1].getQuery(dbType, callback, params);
+        // Subtracting two DATE values returns the number of days between them as a fractional number
+        const days = () =>
+          `(CAST(${end()} AS DATE) - CAST(${start()} AS DATE))`;
+        switch (unitOfMeasure) {
+          case "year":
+            return `TRUNC(MONTHS_BETWEEN(${end()}, ${start()}) / 12)`;
+          case "quarter":
+            return `TRUNC(MONTHS_BETWEEN(${end()}, ${start()}) / 3)`;
+          case "month":
+            return `TRUNC(MONTHS_BETWEEN(${end()}, ${start()}))`;
+          case "week":
+            return `TRUNC(${days()} / 7)`;
+          case "day":
+            return `TRUNC(${days()})`;
+          case "hour":
+            return `TRUNC(${days()} * 24)`;
+          case "minute":
+            return `TRUNC(${days()} * 24 * 60)`;
+          case "second":
+            return `TRUNC(${days()} * 24 * 60 * 60)`;
+          default:
+            return null;
+        }
+      }
+      case DBTYPE.SQLITE: {
+        // The unit of measure is validated and it is not passed as a query parameter
+        const unitOfMeasure = this.parameters[2]
+          .getQuery(dbType)
+          .replaceAll("'", "")
+          .toLowerCase();
+
+        // SQLite placeholders are positional, each reference to a date gets its own placeholder in the order they appear in the query text
+        const start = () =>
+          this.parameters[0].getQuery(dbType, callback, params);
+        const end = () => this.parameters[1].getQuery(dbType, callback, params);
+        const days = () => `(JULIANDAY(${end()}) - JULIANDAY(${start()}))`;
+        // Month difference of the dates, decremented if the end date has not reached the day and time of the start date
+        const months = () =>
+          `((STRFTIME('%Y', ${end()}) - STRFTIME('%Y', ${start()})) * 12 + STRFTIME('%m', ${end()}) - STRFTIME('%m', ${start()}) - (STRFTIME('%d%H%M%f', ${end()}) < STRFTIME('%d%H%M%f', ${start()})))`;
+        switch (unitOfMeasure) {
+          case "year":
+            return `CAST(${months()} / 12 AS INTEGER)`;
+          case "quarter":
+            return `CAST(${months()} / 3 AS INTEGER)`;
+          case "month":
+            return `CAST(${months()} AS INTEGER)`;
+          case "week":
+            return `CAST(${days()} / 7 AS INTEGER)`;
+          case "day":
+            return `CAST(${days()} AS INTEGER)`;
+          case "hour":
+            return `CAST(${days()} * 24 AS INTEGER)`;
+          case "minute":
+            return `CAST(${days()} * 24 * 60 AS INTEGER)`;
+          case "second":
+            return `CAST(${days()} * 24 * 60 * 60 AS INTEGER)`;
+          default:
+            return null;
+        }
+      }
+      default:
+        return null;
+    }
+  }
+
+  /**
+   * Returns the number of complete time units elapsed from the first date to the second date, similar to the PostgreSQL and MySQL databases. Months, quarters and years are calendar units in UTC.
+   * @param {EvaluationContext} context The record and the other inputs of the evaluation
+   * @returns The date difference or null if any one of the parameters is null
+   */
+  evaluate(context: EvaluationContext): any {
+    const [startValue, endValue, unit] = this.evaluateParams(context);
+    const start = toDateValue(startValue);
+    const end = toDateValue(endValue);
+    if (!start || !end || unit === null) return null;
+
+    const elapsed = end.getTime() - start.getTime();
+    const truncate = (value: number) =>
+      value < 0 ? Math.ceil(value) : Math.floor(value);
+    switch (unit.toLowerCase()) {
+      case "year":
+      case "quarter":
+      case "month": {
+        let months =
+          (end.getUTCFullYear() - start.getUTCFullYear()) * 12 +
+          end.getUTCMonth() -
+          start.getUTCMonth();
+        // The last month is not complete if the end date is earlier in its month than the start date
+        const shifted = new Date(start.getTime());
+        shifted.setUTCMonth(shifted.getUTCMonth() + months);
+        if (months > 0 && shifted.getTime() > end.getTime()) months--;
+        else if (months < 0 && shifted.getTime() < end.getTime()) months++;
+
+        if (unit.toLowerCase() === "year") return truncate(months / 12);
+        else if (unit.toLowerCase() === "quarter") return truncate(months / 3);
+        else return months;
       }
+      case "week":
+        return truncate(elapsed / (7 * 24 * 60 * 60 * 1000));
+      case "day":
+        return truncate(elapsed / (24 * 60 * 60 * 1000));
+      case "hour":
+        return truncate(elapsed / (60 * 60 * 1000));
+      case "minute":
+        return truncate(elapsed / (60 * 1000));
+      case "second":
+        return truncate(elapsed / 1000);
       default:
         return null;
     }
@@ -1,5 +1,7 @@
 import { Function } from "../Function";
-import { ReturnType, DBTYPE } from "../../utils/types";
+import { QueryParameters } from "../QueryParameters";
+import { ReturnType, DBTYPE, EvaluationContext } from "../../utils/types";
+import { toDateValue } from "../../utils/helper";
 
 /**
  * Returns the day of the month for a date as a number between 1 and 31
@@ -17,6 +19,9 @@ export default class FunctionImplementation extends Function {
         MongoDB: "$dayOfMonth",
         PostgreSQL: "$custom",
         MySQL: "$custom",
+        "SQL Server": "DAY",
+        Oracle: "EXTRACT",
+        SQLite: "STRFTIME",
       },
     });
   }
@@ -24,24 +29,55 @@ export default class FunctionImplementation extends Function {
   /**
    * Returns the database specific query structure of the where condition
    * @param {string} dbType The database type
+   * @param {QueryParameters} params Collects the parameter values of SQL queries
    * @returns Query structure
    */
-  getQuery(dbType: string, callback: (fieldPath: string) => string): any {
+  getQuery(
+    dbType: string,
+    callback: (fieldPath: string) => string,
+    params?: QueryParameters,
+  ): any {
     switch (dbType) {
       case DBTYPE.MONGODB:
-        return super.getQuery(dbType, callback);
+        return super.getQuery(dbType, callback, params);
       case DBTYPE.POSTGRESQL:
         return `EXTRACT(DAY FROM ${this.parameters[0].getQuery(
           dbType,
           callback,
+          params,
         )}::DATE)`;
       case DBTYPE.MYSQL:
         return `EXTRACT(DAY FROM ${this.parameters[0].getQuery(
           dbType,
           callback,
+          params,
         )})`;
+      case DBTYPE.SQLSERVER:
+        return `DAY(${this.parameters[0].getQuery(dbType, callback, params)})`;
+      case DBTYPE.ORACLE:
+        return `EXTRACT(DAY FROM ${this.parameters[0].getQuery(
+          dbType,
+          callback,
+          params,
+        )})`;
+      case DBTYPE.SQLITE:
+        return `CAST(STRFTIME('%d', ${this.parameters[0].getQuery(
+          dbType,
+          callback,
+          params,
+        )}) AS INTEGER)`;
       default:
         return null;
     }
   }
+
+  /**
+   * Returns the day of the month of the date between 1 and 31 in UTC
+   * @param {EvaluationContext} context The record and the other inputs of the evaluation
+   * @returns The date part or null if the parameter is not a date
+   */
+  evaluate(context: EvaluationContext): any {
+    const date = toDateValue(this.parameters[0].evaluate(context));
+    return date ? date.getUTCDate() : null;
+  }
 }
@@ -1,5 +1,7 @@
 import { Function } from "../Function";
-import { ReturnType, DBTYPE } from "../../utils/types";
+import { QueryParameters } from "../QueryParameters";
+import { ReturnType, DBTYPE, EvaluationContext } from "../../utils/types";
+import { toDateValue } from "../../utils/helper";
 
 /**
  * Returns the day of the week for a date as a number between 1 (Sunday) and 7 (Saturday)
@@ -17,6 +19,9 @@ export default class FunctionImplementation extends Function {
         MongoDB: "$dayOfWeek",
         PostgreSQL: "$custom",
         MySQL: "DAYOFWEEK",
+        "SQL Server": "$custom",
+        Oracle: "$custom",
+        SQLite: "STRFTIME",
       },
     });
   }
@@ -24,21 +29,67 @@ export default class FunctionImplementation extends Function {
   /**
    * Returns the database specific query structure of the where condition
    * @param {string} dbType The database type
+   * @param {QueryParameters} params Collects the parameter values of SQL queries
    * @returns Query structure
    */
-  getQuery(dbType: string, callback: (fieldPath: string) => string): any {
+  getQuery(
+    dbType: string,
+    callback: (fieldPath: string) => string,
+    params?: QueryParameters,
+  ): any {
     switch (dbType) {
       case DBTYPE.MONGODB:
-        return super.getQuery(dbType, callback);
+        return super.getQuery(dbType, callback, params);
       case DBTYPE.POSTGRESQL:
         return `(EXTRACT(DOW FROM ${this.parameters[0].getQuery(
           dbType,
           callback,
+          params,
         )}::DATE) + 1)`;
       case DBTYPE.MYSQL:
-        return `DAYOFWEEK(${this.parameters[0].getQuery(dbType, callback)})`;
+        return `DAYOFWEEK(${this.parameters[0].getQuery(
+          dbType,
+          callback,
+          params,
+        )})`;
+      case DBTYPE.SQLSERVER:
+        // Normalize the weekday number so that Sunday is 1 regardless of the DATEFIRST setting of the session
+        return `(((DATEPART(WEEKDAY, ${this.parameters[0].getQuery(
+          dbType,
+          callback,
+          params,
+        )}) + @@DATEFIRST - 1) % 7) + 1)`;
+      case DBTYPE.ORACLE: {
+        // The day number of TO_CHAR depends on the NLS territory, it is calculated from the start of the ISO week (Monday) so that Sunday is 1
+        return `(MOD(TRUNC(${this.parameters[0].getQuery(
+          dbType,
+          callback,
+          params,
+        )}) - TRUNC(${this.parameters[0].getQuery(
+          dbType,
+          callback,
+          params,
+        )}, 'IW') + 1, 7) + 1)`;
+      }
+      case DBTYPE.SQLITE:
+        // The %w format returns 0 for Sunday
+        return `(CAST(STRFTIME('%w', ${this.parameters[0].getQuery(
+          dbType,
+          callback,
+          params,
+        )}) AS INTEGER) + 1)`;
       default:
         return null;
     }
   }
+
+  /**
+   * Returns the day of the week of the date between 1 (Sunday) and 7 (Saturday) in UTC
+   * @param {EvaluationContext} context The record and the other inputs of the evaluation
+   * @returns The date part or null if the parameter is not a date
+   */
+  evaluate(context: EvaluationContext): any {
+    const date = toDateValue(this.parameters[0].evaluate(context));
+    return date ? date.getUTCDay() + 1 : null;
+  }
 }
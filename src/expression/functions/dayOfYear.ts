@@ -1,5 +1,7 @@
 import { Function } from "../Function";
-import { ReturnType, DBTYPE } from "../../utils/types";
+import { QueryParameters } from "../QueryParameters";
+import { ReturnType, DBTYPE, EvaluationContext } from "../../utils/types";
+import { toDateValue } from "../../utils/helper";
 
 /**
  * Returns the day of the year for a date as a number between 1 and 366
@@ -17,6 +19,9 @@ export default class FunctionImplementation extends Function {
         MongoDB: "$dayOfYear",
         PostgreSQL: "$custom",
         MySQL: "DAYOFYEAR",
+        "SQL Server": "$custom",
+        Oracle: "$custom",
+        SQLite: "STRFTIME",
       },
     });
   }
@@ -24,21 +29,67 @@ export default class FunctionImplementation extends Function {
   /**
    * Returns the database specific query structure of the where condition
    * @param {string} dbType The database type
+   * @param {QueryParameters} params Collects the parameter values of SQL queries
    * @returns Query structure
    */
-  getQuery(dbType: string, callback: (fieldPath: string) => string): any {
+  getQuery(
+    dbType: string,
+    callback: (fieldPath: string) => string,
+    params?: QueryParameters,
+  ): any {
     switch (dbType) {
       case DBTYPE.MONGODB:
-        return super.getQuery(dbType, callback);
+        return super.getQuery(dbType, callback, params);
       case DBTYPE.POSTGRESQL:
         return `EXTRACT(DOY FROM ${this.parameters[0].getQuery(
           dbType,
           callback,
+          params,
         )}::DATE)`;
       case DBTYPE.MYSQL:
-        return `DAYOFYEAR(${this.parameters[0].getQuery(dbType, callback)})`;
+        return `DAYOFYEAR(${this.parameters[0].getQuery(
+          dbType,
+          callback,
+          params,
+        )})`;
+      case DBTYPE.SQLSERVER:
+        return `DATEPART(DAYOFYEAR, ${this.parameters[0].getQuery(
+          dbType,
+          callback,
+          params,
+        )})`;
+      case DBTYPE.ORACLE:
+        return `TO_NUMBER(TO_CHAR(${this.parameters[0].getQuery(
+          dbType,
+          callback,
+          params,
+        )}, 'DDD'))`;
+      case DBTYPE.SQLITE:
+        return `CAST(STRFTIME('%j', ${this.parameters[0].getQuery(
+          dbType,
+          callback,
+          params,
+        )}) AS INTEGER)`;
       default:
         return null;
     }
   }
+
+  /**
+   * Returns the day of the year of the date between 1 and 366 in UTC
+   * @param {EvaluationContext} context The record and the other inputs of the evaluation
+   * @returns The day of the year or null if the parameter is not a date
+   */
+  evaluate(context: EvaluationContext): any {
+    const date = toDateValue(this.parameters[0].evaluate(context));
+    if (!date) return null;
+
+    const start = Date.UTC(date.getUTCFullYear(), 0, 1);
+    const day = Date.UTC(
+      date.getUTCFullYear(),
+      date.getUTCMonth(),
+      date.getUTCDate(),
+    );
+    return (day - start) / (24 * 60 * 60 * 1000) + 1;
+  }
 }
@@ -1,5 +1,6 @@
 import { Function } from "../Function";
-import { ReturnType } from "../../utils/types";
+import { QueryParameters } from "../QueryParameters";
+import { ReturnType, DBTYPE, EvaluationContext } from "../../utils/types";
 
 /**
  * Converts an input value measured in radians to degrees
@@ -17,7 +18,43 @@ export default class FunctionImplementation extends Function {
         MongoDB: "$radiansToDegrees",
         PostgreSQL: "DEGREES",
         MySQL: "DEGREES",
+        "SQL Server": "DEGREES",
+        Oracle: "$custom",
+        SQLite: "DEGREES",
       },
     });
   }
+
+  /**
+   * Returns the database specific query structure of the where condition
+   * @param {string} dbType The database type
+   * @param {QueryParameters} params Collects the parameter values of SQL queries
+   * @returns Query structure
+   */
+  getQuery(
+    dbType: string,
+    callback?: (fieldPath: string) => string,
+    params?: QueryParameters,
+  ): any {
+    switch (dbType) {
+      case DBTYPE.ORACLE:
+        // Oracle does not have a DEGREES function, ACOS(-1) returns the value of pi
+        return `(${this.parameters[0].getQuery(
+          dbType,
+          callback,
+          params,
+        )} * 180 / ACOS(-1))`;
+      default:
+        return super.getQuery(dbType, callback, params);
+    }
+  }
+
+  /**
+   * Converts the radians parameter to degrees
+   * @param {EvaluationContext} context The record and the other inputs of the evaluation
+   * @returns The calculated number or null if the parameter is null
+   */
+  evaluate(context: EvaluationContext): any {
+    return this.evaluateNonNull(context, (value) => (value * 180) / Math.PI);
+  }
 }
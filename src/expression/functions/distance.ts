@@ -1,5 +1,6 @@
 import { Function } from "../Function";
-import { ReturnType, DBTYPE } from "../../utils/types";
+import { QueryParameters } from "../QueryParameters";
+import { ReturnType, DBTYPE, EvaluationContext } from "../../utils/types";
 
 /**
  * Calculates the distance between two geo points in meters
@@ -15,6 +16,9 @@ export default class FunctionImplementation extends Function {
       params: [ReturnType.GEOPOINT, ReturnType.GEOPOINT],
       mapping: {
         MongoDB: "$custom",
+        "SQL Server": "STDistance",
+        Oracle: "SDO_GEOM.SDO_DISTANCE",
+        SQLite: "$custom",
       },
     });
   }
@@ -34,11 +38,16 @@ export default class FunctionImplementation extends Function {
   /**
    * Returns the database specific query structure of the where condition
    * @param {string} dbType The database type
+   * @param {QueryParameters} params Collects the parameter values of SQL queries
    * @returns Query structure
    */
-  getQuery(dbType: string, callback: (fieldPath: string) => string): any {
-    const coordinates1 = this.parameters[0].getQuery(dbType, callback);
-    const coordinates2 = this.parameters[1].getQuery(dbType, callback);
+  getQuery(
+    dbType: string,
+    callback: (fieldPath: string) => string,
+    params?: QueryParameters,
+  ): any {
+    const coordinates1 = this.parameters[0].getQuery(dbType, callback, params);
+    const coordinates2 = this.parameters[1].getQuery(dbType, callback, params);
 
     switch (dbType) {
       case DBTYPE.MONGODB:
@@ -266,8 +275,55 @@ export default class FunctionImplementation extends Function {
 				))`;
       case DBTYPE.MYSQL:
         return `ST_Distance_Sphere(${coordinates1}, ${coordinates2})`;
+      case DBTYPE.SQLSERVER:
+        // Geography instances return the distance in meters
+        return `${coordinates1}.STDistance(${coordinates2})`;
+      case DBTYPE.ORACLE:
+        return `SDO_GEOM.SDO_DISTANCE(${coordinates1}, ${coordinates2}, 0.005, 'unit=M')`;
+      case DBTYPE.SQLITE: {
+        // Geo points are stored as [longitude, latitude] JSON arrays, 6371008.8 is the earth radius in meters
+        const lon1 = `JSON_EXTRACT(${coordinates1}, '$[0]')`;
+        const lat1 = `JSON_EXTRACT(${coordinates1}, '$[1]')`;
+        const lon2 = `JSON_EXTRACT(${coordinates2}, '$[0]')`;
+        const lat2 = `JSON_EXTRACT(${coordinates2}, '$[1]')`;
+        return `(6371008.8 * 2 * ASIN(
+					SQRT(
+						POW(SIN(RADIANS(${lat2} - ${lat1}) / 2), 2) +
+						COS(RADIANS(${lat1})) * COS(RADIANS(${lat2})) *
+						POW(SIN(RADIANS(${lon2} - ${lon1}) / 2), 2)
+					)
+				))`;
+      }
       default:
         return null;
     }
   }
+
+  /**
+   * Returns the distance between the points in meters, calculated with the haversine formula
+   * @param {EvaluationContext} context The record and the other inputs of the evaluation
+   * @returns The distance or null if any one of the points is null
+   */
+  evaluate(context: EvaluationContext): any {
+    return this.evaluateNonNull(context, (point1, point2) => {
+      // The points can be GeoJSON points or [longitude, latitude] pairs
+      const [lng1, lat1] = point1.coordinates ?? point1;
+      const [lng2, lat2] = point2.coordinates ?? point2;
+      const toRadians = (value: number) => (value * Math.PI) / 180;
+      const earthRadius = 6371008.8; // in meters
+
+      return (
+        earthRadius *
+        2 *
+        Math.asin(
+          Math.sqrt(
+            Math.pow(Math.sin(toRadians(lat2 - lat1) / 2), 2) +
+              Math.cos(toRadians(lat1)) *
+                Math.cos(toRadians(lat2)) *
+                Math.pow(Math.sin(toRadians(lng2 - lng1) / 2), 2),
+          ),
+        )
+      );
+    });
+  }
 }
@@ -1,5 +1,6 @@
 import { Function } from "../Function";
-import { ReturnType, DBTYPE } from "../../utils/types";
+import { QueryParameters } from "../QueryParameters";
+import { ReturnType, DBTYPE, EvaluationContext } from "../../utils/types";
 
 /**
  * Checks whether a string ends with the characters of a specified string, returning true or false as appropriate
@@ -17,6 +18,9 @@ export default class FunctionImplementation extends Function {
         MongoDB: "$custom",
         PostgreSQL: "$custom",
         MySQL: "$custom",
+        "SQL Server": "$custom",
+        Oracle: "$custom",
+        SQLite: "$custom",
       },
     });
   }
@@ -24,9 +28,14 @@ export default class FunctionImplementation extends Function {
   /**
    * Returns the database specific query structure of the where condition
    * @param {string} dbType The database type
+   * @param {QueryParameters} params Collects the parameter values of SQL queries
    * @returns Query structure
    */
-  getQuery(dbType: string, callback: (fieldPath: string) => string): any {
+  getQuery(
+    dbType: string,
+    callback: (fieldPath: string) => string,
+    params?: QueryParameters,
+  ): any {
     switch (dbType) {
       case DBTYPE.MONGODB:
         return {
@@ -36,10 +45,18 @@ export default class FunctionImplementation extends Function {
                 {
                   $subtract: [
                     {
-                      $strLenCP: this.parameters[0].getQuery(dbType, callback),
+                      $strLenCP: this.parameters[0].getQuery(
+                        dbType,
+                        callback,
+                        params,
+                      ),
                     },
                     {
-                      $strLenCP: this.parameters[1].getQuery(dbType, callback),
+                      $strLenCP: this.parameters[1].getQuery(
+                        dbType,
+                        callback,
+                        params,
+                      ),
                     },
                   ],
                 },
@@ -51,20 +68,22 @@ export default class FunctionImplementation extends Function {
               $eq: [
                 {
                   $indexOfCP: [
-                    this.parameters[0].getQuery(dbType, callback),
-                    this.parameters[1].getQuery(dbType, callback),
+                    this.parameters[0].getQuery(dbType, callback, params),
+                    this.parameters[1].getQuery(dbType, callback, params),
                     {
                       $subtract: [
                         {
                           $strLenCP: this.parameters[0].getQuery(
                             dbType,
                             callback,
+                            params,
                           ),
                         },
                         {
                           $strLenCP: this.parameters[1].getQuery(
                             dbType,
                             callback,
+                            params,
                           ),
                         },
                       ],
@@ -74,10 +93,18 @@ export default class FunctionImplementation extends Function {
                 {
                   $subtract: [
                     {
-                      $strLenCP: this.parameters[0].getQuery(dbType, callback),
+                      $strLenCP: this.parameters[0].getQuery(
+                        dbType,
+                        callback,
+                        params,
+                      ),
                     },
                     {
-                      $strLenCP: this.parameters[1].getQuery(dbType, callback),
+                      $strLenCP: this.parameters[1].getQuery(
+                        dbType,
+                        callback,
+                        params,
+                      ),
                     },
                   ],
                 },
@@ -89,14 +116,66 @@ export default class FunctionImplementation extends Function {
         return `${this.parameters[0].getQuery(
           dbType,
           callback,
-        )} LIKE '%' || ${this.parameters[1].getQuery(dbType, callback)}`;
+          params,
+        )} LIKE '%' || ${this.parameters[1].getQuery(
+          dbType,
+          callback,
+          params,
+        )}`;
       case DBTYPE.MYSQL:
         return `${this.parameters[0].getQuery(
           dbType,
           callback,
-        )} LIKE CONCAT('%', ${this.parameters[1].getQuery(dbType, callback)})`;
+          params,
+        )} LIKE CONCAT('%', ${this.parameters[1].getQuery(
+          dbType,
+          callback,
+          params,
+        )})`;
+      case DBTYPE.SQLSERVER:
+        return `${this.parameters[0].getQuery(
+          dbType,
+          callback,
+          params,
+        )} LIKE '%' + ${this.parameters[1].getQuery(dbType, callback, params)}`;
+      case DBTYPE.ORACLE:
+        return `${this.parameters[0].getQuery(
+          dbType,
+          callback,
+          params,
+        )} LIKE '%' || ${this.parameters[1].getQuery(
+          dbType,
+          callback,
+          params,
+        )}`;
+      case DBTYPE.SQLITE:
+        // LIKE is case insensitive in SQLite, the end of the text is compared instead
+        return `(LENGTH(${this.parameters[1].getQuery(
+          dbType,
+          callback,
+          params,
+        )}) = 0 OR SUBSTR(${this.parameters[0].getQuery(
+          dbType,
+          callback,
+          params,
+        )}, -LENGTH(${this.parameters[1].getQuery(
+          dbType,
+          callback,
+          params,
+        )})) = ${this.parameters[1].getQuery(dbType, callback, params)})`;
       default:
         return null;
     }
   }
+
+  /**
+   * Checks whether the string ends with the search value
+   * @param {EvaluationContext} context The record and the other inputs of the evaluation
+   * @returns True if the string ends with the search value, otherwise false, null if any one of the parameters is null
+   */
+  evaluate(context: EvaluationContext): any {
+    return this.evaluateNonNull(context, (value, search) =>
+      value.endsWith(String(search)),
+    );
+  }
 }
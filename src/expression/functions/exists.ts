@@ -1,5 +1,11 @@
 import { Function } from "../Function";
-import { ReturnType, DBTYPE, ExpressionType } from "../../utils/types";
+import { QueryParameters } from "../QueryParameters";
+import {
+  ReturnType,
+  DBTYPE,
+  ExpressionType,
+  EvaluationContext,
+} from "../../utils/types";
 import { ClientError } from "../../utils/ClientError";
 
 /**
@@ -18,6 +24,9 @@ export default class FunctionImplementation extends Function {
         MongoDB: "$custom",
         PostgreSQL: "EXISTS",
         MySQL: "EXISTS",
+        "SQL Server": "EXISTS",
+        Oracle: "EXISTS",
+        SQLite: "EXISTS",
       },
     });
   }
@@ -25,23 +34,28 @@ export default class FunctionImplementation extends Function {
   /**
    * Returns the database specific query structure of the where condition
    * @param {string} dbType The database type
+   * @param {QueryParameters} params Collects the parameter values of SQL queries
    * @returns Query structure
    */
-  getQuery(dbType: string, callback: (fieldPath: string) => string): any {
+  getQuery(
+    dbType: string,
+    callback: (fieldPath: string) => string,
+    params?: QueryParameters,
+  ): any {
     switch (dbType) {
       case DBTYPE.MONGODB:
         return {
           $ne: [
-            { $type: this.parameters[0].getQuery(dbType, callback) },
+            { $type: this.parameters[0].getQuery(dbType, callback, params) },
             "missing",
           ],
         };
       case DBTYPE.POSTGRESQL:
       case DBTYPE.MYSQL:
-        const queryStr = this.parameters[0].getQuery(dbType, callback);
-        if (queryStr.startsWith("'") && queryStr.endsWith("'")) {
-          return `EXISTS(${queryStr.slice(1, -1)})`;
-        }
+      case DBTYPE.SQLSERVER:
+      case DBTYPE.ORACLE:
+      case DBTYPE.SQLITE:
+        const queryStr = this.parameters[0].getQuery(dbType, callback, params);
         return `EXISTS(${queryStr})`;
       default:
         return null;
@@ -85,4 +99,13 @@ export default class FunctionImplementation extends Function {
         },
       };
   }
+
+  /**
+   * Checks whether the record has the field, the fields with null values also exist
+   * @param {EvaluationContext} context The record and the other inputs of the evaluation
+   * @returns True if the value is not missing, otherwise false
+   */
+  evaluate(context: EvaluationContext): any {
+    return this.parameters[0].evaluate(context) !== undefined;
+  }
 }
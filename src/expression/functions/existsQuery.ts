@@ -0,0 +1,90 @@
+import { Function } from "../Function";
+import { QueryParameters } from "../QueryParameters";
+import {
+  ReturnType,
+  DBTYPE,
+  ExpressionType,
+  EvaluationContext,
+} from "../../utils/types";
+import { ClientError } from "../../utils/ClientError";
+
+/**
+ *  Checks whether a subquery returns at least one record
+ *
+ * @export
+ * @class Function
+ */
+export default class FunctionImplementation extends Function {
+  constructor() {
+    super("existsQuery", {
+      paramCount: 1,
+      returnType: ReturnType.BOOLEAN,
+      params: ReturnType.ARRAY,
+      mapping: {
+        MongoDB: "$custom",
+        PostgreSQL: "EXISTS",
+        MySQL: "EXISTS",
+        "SQL Server": "EXISTS",
+        Oracle: "EXISTS",
+        SQLite: "EXISTS",
+      },
+    });
+  }
+
+  /**
+   * Validates the function and its parameters
+   * @param {string} dbType The database type
+   */
+  validate(dbType: string): void {
+    super.validate(dbType);
+
+    if (this.parameters[0].getExpressionType() !== ExpressionType.SUBQUERY)
+      throw new ClientError(
+        "invalid_parameter",
+        `The parameter of the '${this.name}' function should be a subquery definition with 'model' and 'where' parameters.`,
+      );
+  }
+
+  /**
+   * Returns the database specific query structure of the where condition
+   * @param {string} dbType The database type
+   * @param {QueryParameters} params Collects the parameter values of SQL queries
+   * @returns Query structure
+   */
+  getQuery(
+    dbType: string,
+    callback: (fieldPath: string) => string,
+    params?: QueryParameters,
+  ): any {
+    switch (dbType) {
+      case DBTYPE.MONGODB:
+        return {
+          $gt: [
+            { $size: this.parameters[0].getQuery(dbType, callback, params) },
+            0,
+          ],
+        };
+      case DBTYPE.POSTGRESQL:
+      case DBTYPE.MYSQL:
+      case DBTYPE.SQLSERVER:
+      case DBTYPE.ORACLE:
+      case DBTYPE.SQLITE:
+        return `EXISTS(${this.parameters[0].getQuery(
+          dbType,
+          callback,
+          params,
+        )})`;
+      default:
+        return null;
+    }
+  }
+
+  /**
+   * Checks whether the subquery returns at least one record
+   * @param {EvaluationContext} context The record and the other inputs of the evaluation
+   * @returns True if the subquery returns a record, otherwise false
+   */
+  evaluate(context: EvaluationContext): any {
+    return this.parameters[0].evaluate(context).length > 0;
+  }
+}
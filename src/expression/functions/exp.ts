@@ -1,5 +1,5 @@
 import { Function } from "../Function";
-import { ReturnType } from "../../utils/types";
+import { ReturnType, EvaluationContext } from "../../utils/types";
 
 /**
  * Raises Euler’s number (e, the base of the natural logarithm) to the specified exponent and returns the result
@@ -17,7 +17,19 @@ export default class FunctionImplementation extends Function {
         MongoDB: "$exp",
         PostgreSQL: "EXP",
         MySQL: "EXP",
+        "SQL Server": "EXP",
+        Oracle: "EXP",
+        SQLite: "EXP",
       },
     });
   }
+
+  /**
+   * Returns e raised to the power of the number parameter
+   * @param {EvaluationContext} context The record and the other inputs of the evaluation
+   * @returns The calculated number or null if the parameter is null
+   */
+  evaluate(context: EvaluationContext): any {
+    return this.evaluateNonNull(context, (value) => Math.exp(value));
+  }
 }
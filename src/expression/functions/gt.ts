@@ -1,5 +1,12 @@
 import { Function } from "../Function";
-import { ReturnType, ExpressionType, DBTYPE } from "../../utils/types";
+import { QueryParameters } from "../QueryParameters";
+import {
+  ReturnType,
+  ExpressionType,
+  DBTYPE,
+  EvaluationContext,
+} from "../../utils/types";
+import { compareValues } from "../../utils/helper";
 import { ClientError } from "../../utils/ClientError";
 
 /**
@@ -18,6 +25,9 @@ export default class FunctionImplementation extends Function {
         MongoDB: "$gt",
         PostgreSQL: ">",
         MySQL: ">",
+        "SQL Server": ">",
+        Oracle: ">",
+        SQLite: ">",
       },
     });
   }
@@ -111,20 +121,41 @@ export default class FunctionImplementation extends Function {
   /**
    * Returns the database specific query structure of the where condition
    * @param {string} dbType The database type
+   * @param {QueryParameters} params Collects the parameter values of SQL queries
    * @returns Query structure
    */
-  getQuery(dbType: string, callback?: (fieldPath: string) => string): any {
+  getQuery(
+    dbType: string,
+    callback?: (fieldPath: string) => string,
+    params?: QueryParameters,
+  ): any {
     switch (dbType) {
       case DBTYPE.MONGODB:
-        return super.getQuery(dbType, callback);
+        return super.getQuery(dbType, callback, params);
       case DBTYPE.POSTGRESQL:
       case DBTYPE.MYSQL:
+      case DBTYPE.SQLSERVER:
+      case DBTYPE.ORACLE:
+      case DBTYPE.SQLITE:
         return `${this.parameters[0].getQuery(
           dbType,
           callback,
-        )} > ${this.parameters[1].getQuery(dbType, callback)}`;
+          params,
+        )} > ${this.parameters[1].getQuery(dbType, callback, params)}`;
       default:
         return null;
     }
   }
+
+  /**
+   * Checks whether the first value is greater than the second value. Null values do not match any comparison, as in SQL databases.
+   * @param {EvaluationContext} context The record and the other inputs of the evaluation
+   * @returns True if the first value is greater than the second value, otherwise false
+   */
+  evaluate(context: EvaluationContext): any {
+    const [a, b] = this.evaluateParams(context);
+    if (a === null || b === null) return false;
+
+    return compareValues(a, b) > 0;
+  }
 }
@@ -0,0 +1,118 @@
+import { Function } from "../Function";
+import { QueryParameters } from "../QueryParameters";
+import { SubQueryValue } from "../values/SubQueryValue";
+import {
+  ReturnType,
+  DBTYPE,
+  ExpressionType,
+  EvaluationContext,
+} from "../../utils/types";
+import { compareValues } from "../../utils/helper";
+import { ClientError } from "../../utils/ClientError";
+
+/**
+ * 	Checks whether the value is in the selected field values of a subquery
+ *
+ * @export
+ * @class Function
+ */
+export default class FunctionImplementation extends Function {
+  constructor() {
+    super("inQuery", {
+      paramCount: 2,
+      returnType: ReturnType.BOOLEAN,
+      params: [ReturnType.PRIMITIVE, ReturnType.ARRAY],
+      mapping: {
+        MongoDB: "$custom",
+        PostgreSQL: "IN",
+        MySQL: "IN",
+        "SQL Server": "IN",
+        Oracle: "IN",
+        SQLite: "IN",
+      },
+    });
+  }
+
+  /**
+   * Validates the function and its parameters
+   * @param {string} dbType The database type
+   */
+  validate(dbType: string): void {
+    super.validate(dbType);
+
+    const param2 = this.parameters[1];
+    if (param2.getExpressionType() !== ExpressionType.SUBQUERY)
+      throw new ClientError(
+        "invalid_parameter",
+        `The second parameter of the '${this.name}' function should be a subquery definition with 'model', 'where' and 'select' parameters.`,
+      );
+
+    const valueType = this.parameters[0].getReturnType();
+    const selectType = (param2 as SubQueryValue).getSelectReturnType();
+
+    // Id values can be compared to numeric and text values, date values to datetime values
+    if (
+      valueType === selectType ||
+      (valueType === ReturnType.ID &&
+        (selectType === ReturnType.NUMBER || selectType === ReturnType.TEXT)) ||
+      (selectType === ReturnType.ID &&
+        (valueType === ReturnType.NUMBER || valueType === ReturnType.TEXT)) ||
+      ((valueType === ReturnType.DATE || valueType === ReturnType.DATETIME) &&
+        (selectType === ReturnType.DATE || selectType === ReturnType.DATETIME))
+    )
+      return;
+
+    throw new ClientError(
+      "invalid_parameter",
+      `Function '${this.name}' cannot check a '${this.getReturnTypeText(
+        valueType,
+      )}' value against the '${this.getReturnTypeText(
+        selectType,
+      )}' values selected by the subquery.`,
+    );
+  }
+
+  /**
+   * Returns the database specific query structure of the where condition
+   * @param {string} dbType The database type
+   * @param {QueryParameters} params Collects the parameter values of SQL queries
+   * @returns Query structure
+   */
+  getQuery(
+    dbType: string,
+    callback: (fieldPath: string) => string,
+    params?: QueryParameters,
+  ): any {
+    switch (dbType) {
+      case DBTYPE.MONGODB:
+        return {
+          $in: [
+            this.parameters[0].getQuery(dbType, callback, params),
+            this.parameters[1].getQuery(dbType, callback, params),
+          ],
+        };
+      case DBTYPE.POSTGRESQL:
+      case DBTYPE.MYSQL:
+      case DBTYPE.SQLSERVER:
+      case DBTYPE.ORACLE:
+      case DBTYPE.SQLITE:
+        return `${this.parameters[0].getQuery(
+          dbType,
+          callback,
+          params,
+        )} IN (${this.parameters[1].getQuery(dbType, callback, params)})`;
+      default:
+        return null;
+    }
+  }
+
+  /**
+   * Checks whether the value is in the selected field values of the subquery
+   * @param {EvaluationContext} context The record and the other inputs of the evaluation
+   * @returns True if the subquery selects the value, otherwise false
+   */
+  evaluate(context: EvaluationContext): any {
+    const [value, list] = this.evaluateParams(context);
+    return list.some((entry: any) => compareValues(entry, value) === 0);
+  }
+}
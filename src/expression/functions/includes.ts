@@ -1,5 +1,6 @@
 import { Function } from "../Function";
-import { ReturnType, DBTYPE } from "../../utils/types";
+import { QueryParameters } from "../QueryParameters";
+import { ReturnType, DBTYPE, EvaluationContext } from "../../utils/types";
 
 /**
  * Checks whether the main string includes the characters of the search string, returning true or false as appropriate
@@ -17,6 +18,9 @@ export default class FunctionImplementation extends Function {
         MongoDB: "$custom",
         PostgreSQL: "$custom",
         MySQL: "$custom",
+        "SQL Server": "$custom",
+        Oracle: "$custom",
+        SQLite: "$custom",
       },
     });
   }
@@ -24,59 +28,169 @@ export default class FunctionImplementation extends Function {
   /**
    * Returns the database specific query structure of the where condition
    * @param {string} dbType The database type
+   * @param {QueryParameters} params Collects the parameter values of SQL queries
    * @returns Query structure
    */
-  getQuery(dbType: string, callback: (fieldPath: string) => string): any {
+  getQuery(
+    dbType: string,
+    callback: (fieldPath: string) => string,
+    params?: QueryParameters,
+  ): any {
     switch (dbType) {
       case DBTYPE.MONGODB:
         return {
           $regexMatch: {
-            input: this.parameters[0].getQuery(dbType, callback),
-            regex: this.parameters[1].getQuery(dbType, callback),
+            input: this.parameters[0].getQuery(dbType, callback, params),
+            regex: this.parameters[1].getQuery(dbType, callback, params),
             options:
-              this.parameters[2].getQuery(dbType, callback) === false
+              this.parameters[2].getQuery(dbType, callback, params) === false
                 ? "i"
                 : undefined,
           },
         };
       case DBTYPE.POSTGRESQL:
-        if (this.parameters[2].getQuery(dbType, callback) === false)
+        if (this.parameters[2].getQuery(dbType, callback, params) === false)
           return `${this.parameters[0].getQuery(
             dbType,
             callback,
+            params,
           )} ILIKE '%' || ${this.parameters[1].getQuery(
             dbType,
             callback,
+            params,
           )} || '%'`;
         else
           return `${this.parameters[0].getQuery(
             dbType,
             callback,
+            params,
           )} LIKE '%' || ${this.parameters[1].getQuery(
             dbType,
             callback,
+            params,
           )} || '%'`;
       case DBTYPE.MYSQL: {
-        const caseSensitive = this.parameters[2].getQuery(dbType, callback);
+        const caseSensitive = this.parameters[2].getQuery(
+          dbType,
+          callback,
+          params,
+        );
         if (caseSensitive === 0 || caseSensitive === false)
           return `LOWER(${this.parameters[0].getQuery(
             dbType,
             callback,
+            params,
           )}) LIKE LOWER(CONCAT('%', ${this.parameters[1].getQuery(
             dbType,
             callback,
+            params,
           )}, '%'))`;
         else
           return `${this.parameters[0].getQuery(
             dbType,
             callback,
+            params,
           )} LIKE CONCAT('%', ${this.parameters[1].getQuery(
             dbType,
             callback,
+            params,
           )}, '%')`;
       }
+      case DBTYPE.SQLSERVER: {
+        const caseSensitive = this.parameters[2].getQuery(
+          dbType,
+          callback,
+          params,
+        );
+        // The default collation of SQL Server is case insensitive, case sensitive comparisons need an explicit collation
+        if (caseSensitive === 0 || caseSensitive === false)
+          return `LOWER(${this.parameters[0].getQuery(
+            dbType,
+            callback,
+            params,
+          )}) LIKE '%' + LOWER(${this.parameters[1].getQuery(
+            dbType,
+            callback,
+            params,
+          )}) + '%'`;
+        else
+          return `${this.parameters[0].getQuery(
+            dbType,
+            callback,
+            params,
+          )} COLLATE Latin1_General_CS_AS LIKE '%' + ${this.parameters[1].getQuery(
+            dbType,
+            callback,
+            params,
+          )} + '%'`;
+      }
+      case DBTYPE.ORACLE: {
+        const caseSensitive = this.parameters[2].getQuery(
+          dbType,
+          callback,
+          params,
+        );
+        if (caseSensitive === 0 || caseSensitive === false)
+          return `LOWER(${this.parameters[0].getQuery(
+            dbType,
+            callback,
+            params,
+          )}) LIKE '%' || LOWER(${this.parameters[1].getQuery(
+            dbType,
+            callback,
+            params,
+          )}) || '%'`;
+        else
+          return `${this.parameters[0].getQuery(
+            dbType,
+            callback,
+            params,
+          )} LIKE '%' || ${this.parameters[1].getQuery(
+            dbType,
+            callback,
+            params,
+          )} || '%'`;
+      }
+      case DBTYPE.SQLITE: {
+        const caseSensitive = this.parameters[2].getQuery(
+          dbType,
+          callback,
+          params,
+        );
+        // LIKE is case insensitive in SQLite, INSTR is used for case sensitive searches
+        if (caseSensitive === 0 || caseSensitive === false)
+          return `LOWER(${this.parameters[0].getQuery(
+            dbType,
+            callback,
+            params,
+          )}) LIKE '%' || LOWER(${this.parameters[1].getQuery(
+            dbType,
+            callback,
+            params,
+          )}) || '%'`;
+        else
+          return `INSTR(${this.parameters[0].getQuery(
+            dbType,
+            callback,
+            params,
+          )}, ${this.parameters[1].getQuery(dbType, callback, params)}) > 0`;
+      }
       default:
         return null;
     }
   }
+
+  /**
+   * Checks whether the string includes the search string, the third parameter specifies whether the search is case sensitive
+   * @param {EvaluationContext} context The record and the other inputs of the evaluation
+   * @returns True if the string includes the search string, otherwise false
+   */
+  evaluate(context: EvaluationContext): any {
+    const [value, search, caseSensitive] = this.evaluateParams(context);
+    if (value === null || search === null) return false;
+
+    if (caseSensitive === false)
+      return value.toLowerCase().includes(search.toLowerCase());
+    else return value.includes(search);
+  }
 }
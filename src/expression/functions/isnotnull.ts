@@ -1,5 +1,6 @@
 import { Function } from "../Function";
-import { ReturnType, DBTYPE } from "../../utils/types";
+import { QueryParameters } from "../QueryParameters";
+import { ReturnType, DBTYPE, EvaluationContext } from "../../utils/types";
 
 /**
  *  Checks if the value exists or not
@@ -17,6 +18,9 @@ export default class FunctionImplementation extends Function {
         MongoDB: "$custom",
         PostgreSQL: "$custom",
         MySQL: "$custom",
+        "SQL Server": "$custom",
+        Oracle: "$custom",
+        SQLite: "$custom",
       },
     });
   }
@@ -24,23 +28,38 @@ export default class FunctionImplementation extends Function {
   /**
    * Returns the database specific query structure of the where condition
    * @param {string} dbType The database type
+   * @param {QueryParameters} params Collects the parameter values of SQL queries
    * @returns Query structure
    */
-  getQuery(dbType: string, callback: (fieldPath: string) => string): any {
+  getQuery(
+    dbType: string,
+    callback: (fieldPath: string) => string,
+    params?: QueryParameters,
+  ): any {
     switch (dbType) {
       case DBTYPE.MONGODB:
         return {
-          $ne: [this.parameters[0].getQuery(dbType, callback), null],
+          $ne: [this.parameters[0].getQuery(dbType, callback, params), null],
         };
       case DBTYPE.POSTGRESQL:
       case DBTYPE.MYSQL:
-        const queryStr = this.parameters[0].getQuery(dbType, callback);
-        if (queryStr.startsWith("'") && queryStr.endsWith("'")) {
-          return `${queryStr.slice(1, -1)} IS NOT NULL`;
-        }
+      case DBTYPE.SQLSERVER:
+      case DBTYPE.ORACLE:
+      case DBTYPE.SQLITE:
+        const queryStr = this.parameters[0].getQuery(dbType, callback, params);
         return `${queryStr} IS NOT NULL`;
       default:
         return null;
     }
   }
+
+  /**
+   * Checks whether the value is not null or missing
+   * @param {EvaluationContext} context The record and the other inputs of the evaluation
+   * @returns True if the value is not null, otherwise false
+   */
+  evaluate(context: EvaluationContext): any {
+    const value = this.parameters[0].evaluate(context);
+    return value !== null && value !== undefined;
+  }
 }
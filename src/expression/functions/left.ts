@@ -1,5 +1,6 @@
 import { Function } from "../Function";
-import { ReturnType, DBTYPE } from "../../utils/types";
+import { QueryParameters } from "../QueryParameters";
+import { ReturnType, DBTYPE, EvaluationContext } from "../../utils/types";
 
 /**
  * Returns the first count characters from the beginning of the main string as a new string
@@ -17,6 +18,9 @@ export default class FunctionImplementation extends Function {
         MongoDB: "$custom",
         PostgreSQL: "LEFT",
         MySQL: "LEFT",
+        "SQL Server": "LEFT",
+        Oracle: "SUBSTR",
+        SQLite: "SUBSTR",
       },
     });
   }
@@ -24,23 +28,52 @@ export default class FunctionImplementation extends Function {
   /**
    * Returns the database specific query structure of the where condition
    * @param {string} dbType The database type
+   * @param {QueryParameters} params Collects the parameter values of SQL queries
    * @returns Query structure
    */
-  getQuery(dbType: string, callback: (fieldPath: string) => string): any {
+  getQuery(
+    dbType: string,
+    callback: (fieldPath: string) => string,
+    params?: QueryParameters,
+  ): any {
     switch (dbType) {
       case DBTYPE.MONGODB:
         return {
           $substrCP: [
-            this.parameters[0].getQuery(dbType, callback),
+            this.parameters[0].getQuery(dbType, callback, params),
             0,
-            this.parameters[1].getQuery(dbType, callback),
+            this.parameters[1].getQuery(dbType, callback, params),
           ],
         };
       case DBTYPE.POSTGRESQL:
       case DBTYPE.MYSQL:
-        return super.getQuery(dbType, callback);
+      case DBTYPE.SQLSERVER:
+        return super.getQuery(dbType, callback, params);
+      case DBTYPE.ORACLE:
+        return `SUBSTR(${this.parameters[0].getQuery(
+          dbType,
+          callback,
+          params,
+        )}, 1, ${this.parameters[1].getQuery(dbType, callback, params)})`;
+      case DBTYPE.SQLITE:
+        return `SUBSTR(${this.parameters[0].getQuery(
+          dbType,
+          callback,
+          params,
+        )}, 1, ${this.parameters[1].getQuery(dbType, callback, params)})`;
       default:
         return null;
     }
   }
+
+  /**
+   * Returns the specified number of characters from the start of the string
+   * @param {EvaluationContext} context The record and the other inputs of the evaluation
+   * @returns The substring or null if any one of the parameters is null
+   */
+  evaluate(context: EvaluationContext): any {
+    return this.evaluateNonNull(context, (value, count) =>
+      Array.from(value).slice(0, Math.max(count, 0)).join(""),
+    );
+  }
 }
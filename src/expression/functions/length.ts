@@ -1,5 +1,5 @@
 import { Function } from "../Function";
-import { ReturnType } from "../../utils/types";
+import { ReturnType, EvaluationContext } from "../../utils/types";
 
 /**
  * Returns the number of characters in the specified string
@@ -17,7 +17,19 @@ export default class FunctionImplementation extends Function {
         MongoDB: "$strLenCP",
         PostgreSQL: "CHAR_LENGTH",
         MySQL: "CHAR_LENGTH",
+        "SQL Server": "LEN",
+        Oracle: "LENGTH",
+        SQLite: "LENGTH",
       },
     });
   }
+
+  /**
+   * Returns the number of characters of the string
+   * @param {EvaluationContext} context The record and the other inputs of the evaluation
+   * @returns The string length or null if the string is null
+   */
+  evaluate(context: EvaluationContext): any {
+    return this.evaluateNonNull(context, (value) => Array.from(value).length);
+  }
 }
@@ -1,5 +1,5 @@
 import { Function } from "../Function";
-import { ReturnType } from "../../utils/types";
+import { ReturnType, EvaluationContext } from "../../utils/types";
 
 /**
  * Calculates the natural logarithm of a number and returns the result as a decimal number
@@ -17,7 +17,19 @@ export default class FunctionImplementation extends Function {
         MongoDB: "$ln",
         PostgreSQL: "LN",
         MySQL: "LN",
+        "SQL Server": "LOG",
+        Oracle: "LN",
+        SQLite: "LN",
       },
     });
   }
+
+  /**
+   * Returns the natural logarithm of the number parameter
+   * @param {EvaluationContext} context The record and the other inputs of the evaluation
+   * @returns The calculated number or null if the parameter is null
+   */
+  evaluate(context: EvaluationContext): any {
+    return this.evaluateNonNull(context, (value) => Math.log(value));
+  }
 }
@@ -1,5 +1,6 @@
 import { Function } from "../Function";
-import { ReturnType, DBTYPE } from "../../utils/types";
+import { QueryParameters } from "../QueryParameters";
+import { ReturnType, DBTYPE, EvaluationContext } from "../../utils/types";
 
 /**
  * Calculates the log of a number in the specified base and returns the result as a double
@@ -17,6 +18,9 @@ export default class FunctionImplementation extends Function {
         MongoDB: "$log",
         PostgreSQL: "LOG",
         MySQL: "n/a",
+        "SQL Server": "LOG",
+        Oracle: "LOG",
+        SQLite: "LOG",
       },
     });
   }
@@ -24,16 +28,24 @@ export default class FunctionImplementation extends Function {
   /**
    * Returns the database specific query structure of the where condition
    * @param {string} dbType The database type
+   * @param {QueryParameters} params Collects the parameter values of SQL queries
    * @returns Query structure
    */
-  getQuery(dbType: string, callback?: (fieldPath: string) => string): any {
+  getQuery(
+    dbType: string,
+    callback?: (fieldPath: string) => string,
+    params?: QueryParameters,
+  ): any {
     switch (dbType) {
       case DBTYPE.MONGODB:
-        return super.getQuery(dbType, callback);
+      case DBTYPE.SQLSERVER:
+        return super.getQuery(dbType, callback, params);
       case DBTYPE.POSTGRESQL:
+      case DBTYPE.ORACLE:
+      case DBTYPE.SQLITE:
         const funcParams = [];
         for (const entry of this.parameters) {
-          funcParams.push(entry.getQuery(dbType, callback));
+          funcParams.push(entry.getQuery(dbType, callback, params));
         }
 
         return `LOG(${funcParams[1]}, ${funcParams[0]})`;
@@ -41,4 +53,16 @@ export default class FunctionImplementation extends Function {
         return null;
     }
   }
+
+  /**
+   * Returns the logarithm of the first parameter in the base of the second parameter
+   * @param {EvaluationContext} context The record and the other inputs of the evaluation
+   * @returns The logarithm or null if any one of the parameters is null
+   */
+  evaluate(context: EvaluationContext): any {
+    return this.evaluateNonNull(
+      context,
+      (value, base) => Math.log(value) / Math.log(base),
+    );
+  }
 }
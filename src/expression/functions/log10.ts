@@ -1,5 +1,6 @@
 import { Function } from "../Function";
-import { ReturnType } from "../../utils/types";
+import { QueryParameters } from "../QueryParameters";
+import { ReturnType, DBTYPE, EvaluationContext } from "../../utils/types";
 
 /**
  * Calculates the log base 10 of a number and returns the result as a decimal number
@@ -17,7 +18,42 @@ export default class FunctionImplementation extends Function {
         MongoDB: "$log10",
         PostgreSQL: "LOG10",
         MySQL: "LOG10",
+        "SQL Server": "LOG10",
+        Oracle: "$custom",
+        SQLite: "LOG10",
       },
     });
   }
+
+  /**
+   * Returns the database specific query structure of the where condition
+   * @param {string} dbType The database type
+   * @param {QueryParameters} params Collects the parameter values of SQL queries
+   * @returns Query structure
+   */
+  getQuery(
+    dbType: string,
+    callback?: (fieldPath: string) => string,
+    params?: QueryParameters,
+  ): any {
+    switch (dbType) {
+      case DBTYPE.ORACLE:
+        return `LOG(10, ${this.parameters[0].getQuery(
+          dbType,
+          callback,
+          params,
+        )})`;
+      default:
+        return super.getQuery(dbType, callback, params);
+    }
+  }
+
+  /**
+   * Returns the base 10 logarithm of the number parameter
+   * @param {EvaluationContext} context The record and the other inputs of the evaluation
+   * @returns The calculated number or null if the parameter is null
+   */
+  evaluate(context: EvaluationContext): any {
+    return this.evaluateNonNull(context, (value) => Math.log10(value));
+  }
 }
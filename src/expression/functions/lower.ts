@@ -1,5 +1,5 @@
 import { Function } from "../Function";
-import { ReturnType } from "../../utils/types";
+import { ReturnType, EvaluationContext } from "../../utils/types";
 
 /**
  * Converts a string to lowercase and returns the resulting new string
@@ -17,7 +17,19 @@ export default class FunctionImplementation extends Function {
         MongoDB: "$toLower",
         PostgreSQL: "LOWER",
         MySQL: "LOWER",
+        "SQL Server": "LOWER",
+        Oracle: "LOWER",
+        SQLite: "LOWER",
       },
     });
   }
+
+  /**
+   * Converts the string to lowercase
+   * @param {EvaluationContext} context The record and the other inputs of the evaluation
+   * @returns The lowercase string or null if the string is null
+   */
+  evaluate(context: EvaluationContext): any {
+    return this.evaluateNonNull(context, (value) => value.toLowerCase());
+  }
 }
@@ -1,5 +1,7 @@
 import { Function } from "../Function";
-import { ReturnType, DBTYPE } from "../../utils/types";
+import { QueryParameters } from "../QueryParameters";
+import { ReturnType, DBTYPE, EvaluationContext } from "../../utils/types";
+import { toDateValue } from "../../utils/helper";
 
 /**
  * Returns the minute part of a date as an integer between 0 and 59
@@ -17,6 +19,9 @@ export default class FunctionImplementation extends Function {
         MongoDB: "$minute",
         PostgreSQL: "$custom",
         MySQL: "$custom",
+        "SQL Server": "$custom",
+        Oracle: "EXTRACT",
+        SQLite: "STRFTIME",
       },
     });
   }
@@ -24,24 +29,60 @@ export default class FunctionImplementation extends Function {
   /**
    * Returns the database specific query structure of the where condition
    * @param {string} dbType The database type
+   * @param {QueryParameters} params Collects the parameter values of SQL queries
    * @returns Query structure
    */
-  getQuery(dbType: string, callback: (fieldPath: string) => string): any {
+  getQuery(
+    dbType: string,
+    callback: (fieldPath: string) => string,
+    params?: QueryParameters,
+  ): any {
     switch (dbType) {
       case DBTYPE.MONGODB:
-        return super.getQuery(dbType, callback);
+        return super.getQuery(dbType, callback, params);
       case DBTYPE.POSTGRESQL:
         return `EXTRACT(MINUTE FROM ${this.parameters[0].getQuery(
           dbType,
           callback,
+          params,
         )}::TIMESTAMP)`;
       case DBTYPE.MYSQL:
         return `EXTRACT(MINUTE FROM ${this.parameters[0].getQuery(
           dbType,
           callback,
+          params,
         )})`;
+      case DBTYPE.SQLSERVER:
+        return `DATEPART(MINUTE, ${this.parameters[0].getQuery(
+          dbType,
+          callback,
+          params,
+        )})`;
+      case DBTYPE.ORACLE:
+        // Time parts cannot be extracted from DATE values, the value is converted to a timestamp
+        return `EXTRACT(MINUTE FROM CAST(${this.parameters[0].getQuery(
+          dbType,
+          callback,
+          params,
+        )} AS TIMESTAMP))`;
+      case DBTYPE.SQLITE:
+        return `CAST(STRFTIME('%M', ${this.parameters[0].getQuery(
+          dbType,
+          callback,
+          params,
+        )}) AS INTEGER)`;
       default:
         return null;
     }
   }
+
+  /**
+   * Returns the minute of the date between 0 and 59 in UTC
+   * @param {EvaluationContext} context The record and the other inputs of the evaluation
+   * @returns The date part or null if the parameter is not a date
+   */
+  evaluate(context: EvaluationContext): any {
+    const date = toDateValue(this.parameters[0].evaluate(context));
+    return date ? date.getUTCMinutes() : null;
+  }
 }
@@ -1,5 +1,6 @@
 import { Function } from "../Function";
-import { ReturnType } from "../../utils/types";
+import { QueryParameters } from "../QueryParameters";
+import { ReturnType, DBTYPE, EvaluationContext } from "../../utils/types";
 
 /**
  * Returns the remainder of the first number divided by the second
@@ -17,7 +18,43 @@ export default class FunctionImplementation extends Function {
         MongoDB: "$mod",
         PostgreSQL: "MOD",
         MySQL: "MOD",
+        "SQL Server": "%",
+        Oracle: "MOD",
+        SQLite: "MOD",
       },
     });
   }
+
+  /**
+   * Returns the database specific query structure of the where condition
+   * @param {string} dbType The database type
+   * @param {QueryParameters} params Collects the parameter values of SQL queries
+   * @returns Query structure
+   */
+  getQuery(
+    dbType: string,
+    callback?: (fieldPath: string) => string,
+    params?: QueryParameters,
+  ): any {
+    switch (dbType) {
+      case DBTYPE.SQLSERVER:
+        // SQL Server does not have a MOD function, the modulo operator is used instead
+        return `(${this.parameters[0].getQuery(
+          dbType,
+          callback,
+          params,
+        )} % ${this.parameters[1].getQuery(dbType, callback, params)})`;
+      default:
+        return super.getQuery(dbType, callback, params);
+    }
+  }
+
+  /**
+   * Returns the remainder of the division of the first parameter by the second parameter
+   * @param {EvaluationContext} context The record and the other inputs of the evaluation
+   * @returns The remainder or null if any one of the parameters is null or the divisor is zero
+   */
+  evaluate(context: EvaluationContext): any {
+    return this.evaluateNonNull(context, (a, b) => (b === 0 ? null : a % b));
+  }
 }
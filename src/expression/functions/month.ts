@@ -1,5 +1,7 @@
 import { Function } from "../Function";
-import { ReturnType, DBTYPE } from "../../utils/types";
+import { QueryParameters } from "../QueryParameters";
+import { ReturnType, DBTYPE, EvaluationContext } from "../../utils/types";
+import { toDateValue } from "../../utils/helper";
 
 /**
  * Returns the month of a date as a number between 1 and 12
@@ -17,6 +19,9 @@ export default class FunctionImplementation extends Function {
         MongoDB: "$month",
         PostgreSQL: "$custom",
         MySQL: "$custom",
+        "SQL Server": "MONTH",
+        Oracle: "EXTRACT",
+        SQLite: "STRFTIME",
       },
     });
   }
@@ -24,24 +29,59 @@ export default class FunctionImplementation extends Function {
   /**
    * Returns the database specific query structure of the where condition
    * @param {string} dbType The database type
+   * @param {QueryParameters} params Collects the parameter values of SQL queries
    * @returns Query structure
    */
-  getQuery(dbType: string, callback: (fieldPath: string) => string): any {
+  getQuery(
+    dbType: string,
+    callback: (fieldPath: string) => string,
+    params?: QueryParameters,
+  ): any {
     switch (dbType) {
       case DBTYPE.MONGODB:
-        return super.getQuery(dbType, callback);
+        return super.getQuery(dbType, callback, params);
       case DBTYPE.POSTGRESQL:
         return `EXTRACT(MONTH FROM ${this.parameters[0].getQuery(
           dbType,
           callback,
+          params,
         )}::DATE)`;
       case DBTYPE.MYSQL:
         return `EXTRACT(MONTH FROM ${this.parameters[0].getQuery(
           dbType,
           callback,
+          params,
         )})`;
+      case DBTYPE.SQLSERVER:
+        return `MONTH(${this.parameters[0].getQuery(
+          dbType,
+          callback,
+          params,
+        )})`;
+      case DBTYPE.ORACLE:
+        return `EXTRACT(MONTH FROM ${this.parameters[0].getQuery(
+          dbType,
+          callback,
+          params,
+        )})`;
+      case DBTYPE.SQLITE:
+        return `CAST(STRFTIME('%m', ${this.parameters[0].getQuery(
+          dbType,
+          callback,
+          params,
+        )}) AS INTEGER)`;
       default:
         return null;
     }
   }
+
+  /**
+   * Returns the month of the date between 1 (January) and 12 (December) in UTC
+   * @param {EvaluationContext} context The record and the other inputs of the evaluation
+   * @returns The date part or null if the parameter is not a date
+   */
+  evaluate(context: EvaluationContext): any {
+    const date = toDateValue(this.parameters[0].evaluate(context));
+    return date ? date.getUTCMonth() + 1 : null;
+  }
 }
@@ -1,5 +1,6 @@
 import { Function } from "../Function";
-import { ReturnType, DBTYPE } from "../../utils/types";
+import { QueryParameters } from "../QueryParameters";
+import { ReturnType, DBTYPE, EvaluationContext } from "../../utils/types";
 
 /**
  * Multiplies the numbers
@@ -17,6 +18,9 @@ export default class FunctionImplementation extends Function {
         MongoDB: "$multiply",
         PostgreSQL: "*",
         MySQL: "*",
+        "SQL Server": "*",
+        Oracle: "*",
+        SQLite: "*",
       },
     });
   }
@@ -24,17 +28,25 @@ export default class FunctionImplementation extends Function {
   /**
    * Returns the database specific query structure of the where condition
    * @param {string} dbType The database type
+   * @param {QueryParameters} params Collects the parameter values of SQL queries
    * @returns Query structure
    */
-  getQuery(dbType: string, callback?: (fieldPath: string) => string): any {
+  getQuery(
+    dbType: string,
+    callback?: (fieldPath: string) => string,
+    params?: QueryParameters,
+  ): any {
     switch (dbType) {
       case DBTYPE.MONGODB:
-        return super.getQuery(dbType, callback);
+        return super.getQuery(dbType, callback, params);
       case DBTYPE.POSTGRESQL:
       case DBTYPE.MYSQL:
+      case DBTYPE.SQLSERVER:
+      case DBTYPE.ORACLE:
+      case DBTYPE.SQLITE:
         const funcParams = [];
         for (const entry of this.parameters) {
-          funcParams.push(entry.getQuery(dbType, callback));
+          funcParams.push(entry.getQuery(dbType, callback, params));
         }
 
         return `(${funcParams.join(" * ")})`;
@@ -42,4 +54,15 @@ export default class FunctionImplementation extends Function {
         return null;
     }
   }
+
+  /**
+   * Multiplies the number parameters
+   * @param {EvaluationContext} context The record and the other inputs of the evaluation
+   * @returns The product or null if any one of the parameters is null
+   */
+  evaluate(context: EvaluationContext): any {
+    return this.evaluateNonNull(context, (...values) =>
+      values.reduce((product, value) => product * value, 1),
+    );
+  }
 }
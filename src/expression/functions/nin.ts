@@ -1,5 +1,12 @@
 import { Function } from "../Function";
-import { ReturnType, DBTYPE, ExpressionType } from "../../utils/types";
+import { QueryParameters } from "../QueryParameters";
+import {
+  ReturnType,
+  DBTYPE,
+  ExpressionType,
+  EvaluationContext,
+} from "../../utils/types";
+import { compareValues } from "../../utils/helper";
 import { ClientError } from "../../utils/ClientError";
 
 /**
@@ -18,6 +25,9 @@ export default class FunctionImplementation extends Function {
         MongoDB: "$custom",
         PostgreSQL: "NOT IN",
         MySQL: "NOT IN",
+        "SQL Server": "NOT IN",
+        Oracle: "NOT IN",
+        SQLite: "NOT IN",
       },
     });
   }
@@ -25,18 +35,26 @@ export default class FunctionImplementation extends Function {
   /**
    * Returns the database specific query structure of the where condition
    * @param {string} dbType The database type
+   * @param {QueryParameters} params Collects the parameter values of SQL queries
    * @returns Query structure
    */
-  getQuery(dbType: string, callback: (fieldPath: string) => string): any {
+  getQuery(
+    dbType: string,
+    callback: (fieldPath: string) => string,
+    params?: QueryParameters,
+  ): any {
     switch (dbType) {
       case DBTYPE.MONGODB:
         return {
           $not: [
             {
               $in: [
-                this.parameters[0].getQuery(dbType, callback),
+                this.parameters[0].getQuery(dbType, callback, params),
                 {
-                  $ifNull: [this.parameters[1].getQuery(dbType, callback), []],
+                  $ifNull: [
+                    this.parameters[1].getQuery(dbType, callback, params),
+                    [],
+                  ],
                 },
               ],
             },
@@ -44,10 +62,14 @@ export default class FunctionImplementation extends Function {
         };
       case DBTYPE.POSTGRESQL:
       case DBTYPE.MYSQL:
+      case DBTYPE.SQLSERVER:
+      case DBTYPE.ORACLE:
+      case DBTYPE.SQLITE:
         return `${this.parameters[0].getQuery(
           dbType,
           callback,
-        )} NOT IN (${this.parameters[1].getQuery(dbType, callback)})`;
+          params,
+        )} NOT IN (${this.parameters[1].getQuery(dbType, callback, params)})`;
       default:
         return null;
     }
@@ -101,4 +123,16 @@ export default class FunctionImplementation extends Function {
         },
       };
   }
+
+  /**
+   * Checks whether the value is not in the array
+   * @param {EvaluationContext} context The record and the other inputs of the evaluation
+   * @returns True if the array does not include the value, otherwise false
+   */
+  evaluate(context: EvaluationContext): any {
+    const [value, list] = this.evaluateParams(context);
+    if (!Array.isArray(list)) return true;
+
+    return !list.some((entry) => compareValues(entry, value) === 0);
+  }
 }
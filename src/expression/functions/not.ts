@@ -1,5 +1,7 @@
 import { Function } from "../Function";
-import { ReturnType, DBTYPE } from "../../utils/types";
+import { QueryParameters } from "../QueryParameters";
+import { ReturnType, DBTYPE, EvaluationContext } from "../../utils/types";
+import { isTruthy } from "../../utils/helper";
 
 /**
  * Defines logical not function
@@ -17,6 +19,9 @@ export default class FunctionImplementation extends Function {
         MongoDB: "$not",
         PostgreSQL: "NOT",
         MySQL: "NOT",
+        "SQL Server": "NOT",
+        Oracle: "NOT",
+        SQLite: "NOT",
       },
     });
   }
@@ -24,17 +29,34 @@ export default class FunctionImplementation extends Function {
   /**
    * Returns the database specific query structure of the where condition
    * @param {string} dbType The database type
+   * @param {QueryParameters} params Collects the parameter values of SQL queries
    * @returns Query structure
    */
-  getQuery(dbType: string, callback?: (fieldPath: string) => string): any {
+  getQuery(
+    dbType: string,
+    callback?: (fieldPath: string) => string,
+    params?: QueryParameters,
+  ): any {
     switch (dbType) {
       case DBTYPE.MONGODB:
-        return super.getQuery(dbType, callback);
+        return super.getQuery(dbType, callback, params);
       case DBTYPE.POSTGRESQL:
       case DBTYPE.MYSQL:
-        return `NOT (${this.parameters[0].getQuery(dbType, callback)})`;
+      case DBTYPE.SQLSERVER:
+      case DBTYPE.ORACLE:
+      case DBTYPE.SQLITE:
+        return `NOT (${this.parameters[0].getQuery(dbType, callback, params)})`;
       default:
         return null;
     }
   }
+
+  /**
+   * Negates the condition, null values are false
+   * @param {EvaluationContext} context The record and the other inputs of the evaluation
+   * @returns True if the condition is false, otherwise false
+   */
+  evaluate(context: EvaluationContext): any {
+    return !isTruthy(this.parameters[0].evaluate(context));
+  }
 }
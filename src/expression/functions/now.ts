@@ -1,5 +1,6 @@
 import { Function } from "../Function";
-import { ReturnType, DBTYPE } from "../../utils/types";
+import { QueryParameters } from "../QueryParameters";
+import { ReturnType, DBTYPE, EvaluationContext } from "../../utils/types";
 
 /**
  * Adds numbers
@@ -17,6 +18,9 @@ export default class FunctionImplementation extends Function {
         MongoDB: "$currentDate",
         PostgreSQL: "NOW",
         MySQL: "NOW",
+        "SQL Server": "SYSDATETIME",
+        Oracle: "CURRENT_TIMESTAMP",
+        SQLite: "STRFTIME",
       },
     });
   }
@@ -24,17 +28,37 @@ export default class FunctionImplementation extends Function {
   /**
    * Returns the database specific query structure of the where condition
    * @param {string} dbType The database type
+   * @param {QueryParameters} params Collects the parameter values of SQL queries
    * @returns Query structure
    */
-  getQuery(dbType: string, callback?: (fieldPath: string) => string): any {
+  getQuery(
+    dbType: string,
+    callback?: (fieldPath: string) => string,
+    params?: QueryParameters,
+  ): any {
     switch (dbType) {
       case DBTYPE.MONGODB:
         return { $currentDate: { format: "iso" } };
       case DBTYPE.POSTGRESQL:
       case DBTYPE.MYSQL:
         return "NOW()";
+      case DBTYPE.SQLSERVER:
+        return "SYSDATETIME()";
+      case DBTYPE.ORACLE:
+        return "CURRENT_TIMESTAMP";
+      case DBTYPE.SQLITE:
+        return "STRFTIME('%Y-%m-%dT%H:%M:%fZ', 'now')";
       default:
         return null;
     }
   }
+
+  /**
+   * Returns the current date and time
+   * @param {EvaluationContext} context The record and the other inputs of the evaluation
+   * @returns The current date
+   */
+  evaluate(context: EvaluationContext): any {
+    return new Date();
+  }
 }
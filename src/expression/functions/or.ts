@@ -1,5 +1,7 @@
 import { Function } from "../Function";
-import { ReturnType, DBTYPE } from "../../utils/types";
+import { QueryParameters } from "../QueryParameters";
+import { ReturnType, DBTYPE, EvaluationContext } from "../../utils/types";
+import { isTruthy } from "../../utils/helper";
 
 /**
  * Defines logical or function
@@ -17,6 +19,9 @@ export default class FunctionImplementation extends Function {
         MongoDB: "$or",
         PostgreSQL: "OR",
         MySQL: "OR",
+        "SQL Server": "OR",
+        Oracle: "OR",
+        SQLite: "OR",
       },
     });
   }
@@ -24,17 +29,25 @@ export default class FunctionImplementation extends Function {
   /**
    * Returns the database specific query structure of the where condition
    * @param {string} dbType The database type
+   * @param {QueryParameters} params Collects the parameter values of SQL queries
    * @returns Query structure
    */
-  getQuery(dbType: string, callback?: (fieldPath: string) => string): any {
+  getQuery(
+    dbType: string,
+    callback?: (fieldPath: string) => string,
+    params?: QueryParameters,
+  ): any {
     switch (dbType) {
       case DBTYPE.MONGODB:
-        return super.getQuery(dbType, callback);
+        return super.getQuery(dbType, callback, params);
       case DBTYPE.POSTGRESQL:
       case DBTYPE.MYSQL:
+      case DBTYPE.SQLSERVER:
+      case DBTYPE.ORACLE:
+      case DBTYPE.SQLITE:
         const funcParams = [];
         for (const entry of this.parameters) {
-          funcParams.push(entry.getQuery(dbType, callback));
+          funcParams.push(entry.getQuery(dbType, callback, params));
         }
 
         return `(${funcParams.join(" OR ")})`;
@@ -42,4 +55,13 @@ export default class FunctionImplementation extends Function {
         return null;
     }
   }
+
+  /**
+   * Checks whether at least one of the conditions is true, the remaining conditions are not evaluated after the first true condition
+   * @param {EvaluationContext} context The record and the other inputs of the evaluation
+   * @returns True if any one of the conditions is true, otherwise false
+   */
+  evaluate(context: EvaluationContext): any {
+    return this.parameters.some((entry) => isTruthy(entry.evaluate(context)));
+  }
 }
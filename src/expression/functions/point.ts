@@ -1,5 +1,6 @@
 import { Function } from "../Function";
-import { ReturnType, DBTYPE } from "../../utils/types";
+import { QueryParameters } from "../QueryParameters";
+import { ReturnType, DBTYPE, EvaluationContext } from "../../utils/types";
 
 /**
  * Constructs and returns a geo point value given the constituent longitude and latitude properties
@@ -17,6 +18,9 @@ export default class FunctionImplementation extends Function {
         MongoDB: "$custom",
         PostgreSQL: "$custom",
         MySQL: "$custom",
+        "SQL Server": "$custom",
+        Oracle: "SDO_GEOMETRY",
+        SQLite: "JSON_ARRAY",
       },
     });
   }
@@ -24,30 +28,72 @@ export default class FunctionImplementation extends Function {
   /**
    * Returns the database specific query structure of the where condition
    * @param {string} dbType The database type
+   * @param {QueryParameters} params Collects the parameter values of SQL queries
    * @returns Query structure
    */
-  getQuery(dbType: string, callback: (fieldPath: string) => string): any {
+  getQuery(
+    dbType: string,
+    callback: (fieldPath: string) => string,
+    params?: QueryParameters,
+  ): any {
     switch (dbType) {
       case DBTYPE.MONGODB:
         return {
           type: "Point",
           coordinates: [
-            this.parameters[0].getQuery(dbType, callback),
-            this.parameters[1].getQuery(dbType, callback),
+            this.parameters[0].getQuery(dbType, callback, params),
+            this.parameters[1].getQuery(dbType, callback, params),
           ],
         };
       case DBTYPE.POSTGRESQL:
         return `'${this.parameters[0].getQuery(
           dbType,
           callback,
-        )},${this.parameters[1].getQuery(dbType, callback)}'::POINT`;
+          params,
+        )},${this.parameters[1].getQuery(dbType, callback, params)}'::POINT`;
       case DBTYPE.MYSQL:
         return `POINT(${this.parameters[0].getQuery(
           dbType,
           callback,
-        )} ${this.parameters[1].getQuery(dbType, callback)})`; // Note that no commas between x and y coordinates
+          params,
+        )} ${this.parameters[1].getQuery(dbType, callback, params)})`; // Note that no commas between x and y coordinates
+      case DBTYPE.SQLSERVER:
+        // Note that geography points are created with latitude first
+        return `geography::Point(${this.parameters[1].getQuery(
+          dbType,
+          callback,
+          params,
+        )}, ${this.parameters[0].getQuery(dbType, callback, params)}, 4326)`;
+      case DBTYPE.ORACLE:
+        return `SDO_GEOMETRY(2001, 4326, SDO_POINT_TYPE(${this.parameters[0].getQuery(
+          dbType,
+          callback,
+          params,
+        )}, ${this.parameters[1].getQuery(
+          dbType,
+          callback,
+          params,
+        )}, NULL), NULL, NULL)`;
+      case DBTYPE.SQLITE:
+        return `JSON_ARRAY(${this.parameters[0].getQuery(
+          dbType,
+          callback,
+          params,
+        )}, ${this.parameters[1].getQuery(dbType, callback, params)})`;
       default:
         return null;
     }
   }
+
+  /**
+   * Creates the GeoJSON point from the longitude and latitude parameters
+   * @param {EvaluationContext} context The record and the other inputs of the evaluation
+   * @returns The point or null if any one of the parameters is null
+   */
+  evaluate(context: EvaluationContext): any {
+    return this.evaluateNonNull(context, (lng, lat) => ({
+      type: "Point",
+      coordinates: [lng, lat],
+    }));
+  }
 }
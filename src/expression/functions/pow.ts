@@ -1,5 +1,5 @@
 import { Function } from "../Function";
-import { ReturnType } from "../../utils/types";
+import { ReturnType, EvaluationContext } from "../../utils/types";
 
 /**
  * Raises a number to the specified exponent and returns the result. 0 (zero) cannot be raised by a negative exponent in POW function
@@ -17,7 +17,21 @@ export default class FunctionImplementation extends Function {
         MongoDB: "$pow",
         PostgreSQL: "POW",
         MySQL: "POW",
+        "SQL Server": "POWER",
+        Oracle: "POWER",
+        SQLite: "POW",
       },
     });
   }
+
+  /**
+   * Raises the first parameter to the power of the second parameter
+   * @param {EvaluationContext} context The record and the other inputs of the evaluation
+   * @returns The calculated number or null if any one of the parameters is null
+   */
+  evaluate(context: EvaluationContext): any {
+    return this.evaluateNonNull(context, (base, exponent) =>
+      Math.pow(base, exponent),
+    );
+  }
 }
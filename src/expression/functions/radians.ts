@@ -1,5 +1,6 @@
 import { Function } from "../Function";
-import { ReturnType } from "../../utils/types";
+import { QueryParameters } from "../QueryParameters";
+import { ReturnType, DBTYPE, EvaluationContext } from "../../utils/types";
 
 /**
  * Converts an input value measured in degrees to radians
@@ -17,7 +18,43 @@ export default class FunctionImplementation extends Function {
         MongoDB: "$degreesToRadians",
         PostgreSQL: "RADIANS",
         MySQL: "RADIANS",
+        "SQL Server": "RADIANS",
+        Oracle: "$custom",
+        SQLite: "RADIANS",
       },
     });
   }
+
+  /**
+   * Returns the database specific query structure of the where condition
+   * @param {string} dbType The database type
+   * @param {QueryParameters} params Collects the parameter values of SQL queries
+   * @returns Query structure
+   */
+  getQuery(
+    dbType: string,
+    callback?: (fieldPath: string) => string,
+    params?: QueryParameters,
+  ): any {
+    switch (dbType) {
+      case DBTYPE.ORACLE:
+        // Oracle does not have a RADIANS function, ACOS(-1) returns the value of pi
+        return `(${this.parameters[0].getQuery(
+          dbType,
+          callback,
+          params,
+        )} * ACOS(-1) / 180)`;
+      default:
+        return super.getQuery(dbType, callback, params);
+    }
+  }
+
+  /**
+   * Converts the degrees parameter to radians
+   * @param {EvaluationContext} context The record and the other inputs of the evaluation
+   * @returns The calculated number or null if the parameter is null
+   */
+  evaluate(context: EvaluationContext): any {
+    return this.evaluateNonNull(context, (value) => (value * Math.PI) / 180);
+  }
 }
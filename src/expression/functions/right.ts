@@ -1,5 +1,6 @@
 import { Function } from "../Function";
-import { ReturnType, DBTYPE } from "../../utils/types";
+import { QueryParameters } from "../QueryParameters";
+import { ReturnType, DBTYPE, EvaluationContext } from "../../utils/types";
 
 /**
  * Returns the last count characters from the end of the main string as a new string
@@ -17,6 +18,9 @@ export default class FunctionImplementation extends Function {
         MongoDB: "$custom",
         PostgreSQL: "RIGHT",
         MySQL: "RIGHT",
+        "SQL Server": "RIGHT",
+        Oracle: "SUBSTR",
+        SQLite: "SUBSTR",
       },
     });
   }
@@ -24,43 +28,101 @@ export default class FunctionImplementation extends Function {
   /**
    * Returns the database specific query structure of the where condition
    * @param {string} dbType The database type
+   * @param {QueryParameters} params Collects the parameter values of SQL queries
    * @returns Query structure
    */
-  getQuery(dbType: string, callback: (fieldPath: string) => string): any {
+  getQuery(
+    dbType: string,
+    callback: (fieldPath: string) => string,
+    params?: QueryParameters,
+  ): any {
     switch (dbType) {
       case DBTYPE.MONGODB:
         return {
           $cond: {
             if: {
               $gt: [
-                this.parameters[1].getQuery(dbType, callback),
+                this.parameters[1].getQuery(dbType, callback, params),
                 {
-                  $strLenCP: this.parameters[0].getQuery(dbType, callback),
+                  $strLenCP: this.parameters[0].getQuery(
+                    dbType,
+                    callback,
+                    params,
+                  ),
                 },
               ],
             },
-            then: this.parameters[0].getQuery(dbType, callback),
+            then: this.parameters[0].getQuery(dbType, callback, params),
             else: {
               $substrCP: [
-                this.parameters[0].getQuery(dbType, callback),
+                this.parameters[0].getQuery(dbType, callback, params),
                 {
                   $subtract: [
                     {
-                      $strLenCP: this.parameters[0].getQuery(dbType, callback),
+                      $strLenCP: this.parameters[0].getQuery(
+                        dbType,
+                        callback,
+                        params,
+                      ),
                     },
-                    this.parameters[1].getQuery(dbType, callback),
+                    this.parameters[1].getQuery(dbType, callback, params),
                   ],
                 },
-                this.parameters[1].getQuery(dbType, callback),
+                this.parameters[1].getQuery(dbType, callback, params),
               ],
             },
           },
         };
       case DBTYPE.POSTGRESQL:
       case DBTYPE.MYSQL:
-        return super.getQuery(dbType, callback);
+      case DBTYPE.SQLSERVER:
+        return super.getQuery(dbType, callback, params);
+      case DBTYPE.ORACLE:
+        // SUBSTR with a negative position returns null if the length is greater than the text length. The value is referenced twice, each reference gets its own placeholder
+        return `SUBSTR(${this.parameters[0].getQuery(
+          dbType,
+          callback,
+          params,
+        )}, GREATEST(LENGTH(${this.parameters[0].getQuery(
+          dbType,
+          callback,
+          params,
+        )}) - ${this.parameters[1].getQuery(
+          dbType,
+          callback,
+          params,
+        )} + 1, 1))`;
+      case DBTYPE.SQLITE:
+        // The value is referenced twice, each reference gets its own placeholder
+        return `SUBSTR(${this.parameters[0].getQuery(
+          dbType,
+          callback,
+          params,
+        )}, MAX(LENGTH(${this.parameters[0].getQuery(
+          dbType,
+          callback,
+          params,
+        )}) - ${this.parameters[1].getQuery(
+          dbType,
+          callback,
+          params,
+        )} + 1, 1))`;
       default:
         return null;
     }
   }
+
+  /**
+   * Returns the specified number of characters from the end of the string
+   * @param {EvaluationContext} context The record and the other inputs of the evaluation
+   * @returns The substring or null if any one of the parameters is null
+   */
+  evaluate(context: EvaluationContext): any {
+    return this.evaluateNonNull(context, (value, count) => {
+      const chars = Array.from(value);
+      return chars
+        .slice(chars.length - Math.min(Math.max(count, 0), chars.length))
+        .join("");
+    });
+  }
 }
@@ -1,5 +1,5 @@
 import { Function } from "../Function";
-import { ReturnType } from "../../utils/types";
+import { ReturnType, EvaluationContext } from "../../utils/types";
 
 /**
  * Rounds a number to a whole integer or to a specified decimal place
@@ -17,7 +17,22 @@ export default class FunctionImplementation extends Function {
         MongoDB: "$round",
         PostgreSQL: "ROUND",
         MySQL: "ROUND",
+        "SQL Server": "ROUND",
+        Oracle: "ROUND",
+        SQLite: "ROUND",
       },
     });
   }
+
+  /**
+   * Rounds the number to the decimal places, halves are rounded away from zero as in SQL databases
+   * @param {EvaluationContext} context The record and the other inputs of the evaluation
+   * @returns The rounded number or null if any one of the parameters is null
+   */
+  evaluate(context: EvaluationContext): any {
+    return this.evaluateNonNull(context, (value, places) => {
+      const factor = Math.pow(10, places);
+      return (Math.sign(value) * Math.round(Math.abs(value) * factor)) / factor;
+    });
+  }
 }
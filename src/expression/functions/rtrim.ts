@@ -1,5 +1,6 @@
 import { Function } from "../Function";
-import { ReturnType, DBTYPE } from "../../utils/types";
+import { QueryParameters } from "../QueryParameters";
+import { ReturnType, DBTYPE, EvaluationContext } from "../../utils/types";
 
 /**
  * Removes whitespace characters (e.g., spaces) from the end of a string
@@ -17,6 +18,9 @@ export default class FunctionImplementation extends Function {
         MongoDB: "$custom",
         PostgreSQL: "RTRIM",
         MySQL: "RTRIM",
+        "SQL Server": "RTRIM",
+        Oracle: "RTRIM",
+        SQLite: "RTRIM",
       },
     });
   }
@@ -24,19 +28,38 @@ export default class FunctionImplementation extends Function {
   /**
    * Returns the database specific query structure of the where condition
    * @param {string} dbType The database type
+   * @param {QueryParameters} params Collects the parameter values of SQL queries
    * @returns Query structure
    */
-  getQuery(dbType: string, callback: (fieldPath: string) => string): any {
+  getQuery(
+    dbType: string,
+    callback: (fieldPath: string) => string,
+    params?: QueryParameters,
+  ): any {
     switch (dbType) {
       case DBTYPE.MONGODB:
         return {
-          $rtrim: { input: this.parameters[0].getQuery(dbType, callback) },
+          $rtrim: {
+            input: this.parameters[0].getQuery(dbType, callback, params),
+          },
         };
       case DBTYPE.POSTGRESQL:
       case DBTYPE.MYSQL:
-        return super.getQuery(dbType, callback);
+      case DBTYPE.SQLSERVER:
+      case DBTYPE.ORACLE:
+      case DBTYPE.SQLITE:
+        return super.getQuery(dbType, callback, params);
       default:
         return null;
     }
   }
+
+  /**
+   * Removes the trailing whitespace characters of the string
+   * @param {EvaluationContext} context The record and the other inputs of the evaluation
+   * @returns The trimmed string or null if the string is null
+   */
+  evaluate(context: EvaluationContext): any {
+    return this.evaluateNonNull(context, (value) => value.trimEnd());
+  }
 }
@@ -1,5 +1,6 @@
 import { Function } from "../Function";
-import { ReturnType, DBTYPE } from "../../utils/types";
+import { QueryParameters } from "../QueryParameters";
+import { ReturnType, DBTYPE, EvaluationContext } from "../../utils/types";
 
 /**
  * Counts and returns the total number of items in an array
@@ -17,6 +18,9 @@ export default class FunctionImplementation extends Function {
         MongoDB: "$custom",
         PostgreSQL: "n/a",
         MySQL: "n/a",
+        "SQL Server": "n/a",
+        Oracle: "n/a",
+        SQLite: "JSON_ARRAY_LENGTH",
       },
     });
   }
@@ -24,18 +28,43 @@ export default class FunctionImplementation extends Function {
   /**
    * Returns the database specific query structure of the where condition
    * @param {string} dbType The database type
+   * @param {QueryParameters} params Collects the parameter values of SQL queries
    * @returns Query structure
    */
-  getQuery(dbType: string, callback: (fieldPath: string) => string): any {
+  getQuery(
+    dbType: string,
+    callback: (fieldPath: string) => string,
+    params?: QueryParameters,
+  ): any {
     switch (dbType) {
       case DBTYPE.MONGODB:
         return {
           $size: {
-            $ifNull: [this.parameters[0].getQuery(dbType, callback), []],
+            $ifNull: [
+              this.parameters[0].getQuery(dbType, callback, params),
+              [],
+            ],
           },
         };
-
+      case DBTYPE.SQLITE:
+        // Basic values lists are stored as JSON arrays
+        return `COALESCE(JSON_ARRAY_LENGTH(${this.parameters[0].getQuery(
+          dbType,
+          callback,
+          params,
+        )}), 0)`;
+      default:
         return null;
     }
   }
+
+  /**
+   * Returns the number of entries in the array, the size of a null array is zero
+   * @param {EvaluationContext} context The record and the other inputs of the evaluation
+   * @returns The array size
+   */
+  evaluate(context: EvaluationContext): any {
+    const value = this.parameters[0].evaluate(context);
+    return Array.isArray(value) ? value.length : 0;
+  }
 }
@@ -1,5 +1,5 @@
 import { Function } from "../Function";
-import { ReturnType } from "../../utils/types";
+import { ReturnType, EvaluationContext } from "../../utils/types";
 
 /**
  * Calculates the square root of a positive number and returns the result as a decimal
@@ -17,7 +17,19 @@ export default class FunctionImplementation extends Function {
         MongoDB: "$sqrt",
         PostgreSQL: "SQRT",
         MySQL: "SQRT",
+        "SQL Server": "SQRT",
+        Oracle: "SQRT",
+        SQLite: "SQRT",
       },
     });
   }
+
+  /**
+   * Returns the square root of the number parameter
+   * @param {EvaluationContext} context The record and the other inputs of the evaluation
+   * @returns The calculated number or null if the parameter is null
+   */
+  evaluate(context: EvaluationContext): any {
+    return this.evaluateNonNull(context, (value) => Math.sqrt(value));
+  }
 }
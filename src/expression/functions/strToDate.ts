@@ -1,5 +1,6 @@
 import { Function } from "../Function";
-import { ReturnType, DBTYPE } from "../../utils/types";
+import { QueryParameters } from "../QueryParameters";
+import { ReturnType, DBTYPE, EvaluationContext } from "../../utils/types";
 
 /**
  * Converts a date & time string in a specific format to a date & time value
@@ -17,6 +18,9 @@ export default class FunctionImplementation extends Function {
         MongoDB: "$custom",
         PostgreSQL: "TO_TIMESTAMP",
         MySQL: "STR_TO_DATE",
+        "SQL Server": "CONVERT",
+        Oracle: "TO_TIMESTAMP",
+        SQLite: "STRFTIME",
       },
     });
   }
@@ -24,14 +28,19 @@ export default class FunctionImplementation extends Function {
   /**
    * Returns the database specific query structure of the where condition
    * @param {string} dbType The database type
+   * @param {QueryParameters} params Collects the parameter values of SQL queries
    * @returns Query structure
    */
-  getQuery(dbType: string, callback: (fieldPath: string) => string): any {
+  getQuery(
+    dbType: string,
+    callback: (fieldPath: string) => string,
+    params?: QueryParameters,
+  ): any {
     switch (dbType) {
       case DBTYPE.MONGODB:
         return {
           $dateFromString: {
-            dateString: this.parameters[0].getQuery(dbType, callback),
+            dateString: this.parameters[0].getQuery(dbType, callback, params),
             format: "%Y-%m-%d %H:%M:%S",
           },
         };
@@ -39,14 +48,49 @@ export default class FunctionImplementation extends Function {
         return `TO_TIMESTAMP(${this.parameters[0].getQuery(
           dbType,
           callback,
+          params,
         )}, 'YYYY-MM-DD HH24:MI:SS')::TIMESTAMP`;
       case DBTYPE.MYSQL:
         return `STR_TO_DATE(${this.parameters[0].getQuery(
           dbType,
           callback,
+          params,
         )}, '%Y-%m-%d %H:%i:%s')`;
+      case DBTYPE.SQLSERVER:
+        // Style 120 is the ODBC canonical 'yyyy-mm-dd hh:mi:ss' format
+        return `CONVERT(DATETIME2, ${this.parameters[0].getQuery(
+          dbType,
+          callback,
+          params,
+        )}, 120)`;
+      case DBTYPE.ORACLE:
+        return `TO_TIMESTAMP(${this.parameters[0].getQuery(
+          dbType,
+          callback,
+          params,
+        )}, 'YYYY-MM-DD HH24:MI:SS')`;
+      case DBTYPE.SQLITE:
+        // Dates are stored as ISO 8601 text in SQLite
+        return `STRFTIME('%Y-%m-%dT%H:%M:%fZ', ${this.parameters[0].getQuery(
+          dbType,
+          callback,
+          params,
+        )})`;
       default:
         return null;
     }
   }
+
+  /**
+   * Converts the string in 'YYYY-MM-DD HH:MM:SS' or 'YYYY-MM-DD' format to a date, the string is interpreted in UTC
+   * @param {EvaluationContext} context The record and the other inputs of the evaluation
+   * @returns The date or null if the string is null or it is not a valid date
+   */
+  evaluate(context: EvaluationContext): any {
+    return this.evaluateNonNull(context, (value) => {
+      const text = String(value).trim().replace(" ", "T");
+      const date = new Date(text.includes("T") ? `${text}Z` : text);
+      return isNaN(date.getTime()) ? null : date;
+    });
+  }
 }
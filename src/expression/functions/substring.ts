@@ -1,5 +1,6 @@
 import { Function } from "../Function";
-import { ReturnType, DBTYPE } from "../../utils/types";
+import { QueryParameters } from "../QueryParameters";
+import { ReturnType, DBTYPE, EvaluationContext } from "../../utils/types";
 
 /**
  * Returns the substring of a string. The substring starts with the character at the specified index (zero-based) in the string for the number of characters (count) specified.
@@ -17,6 +18,9 @@ export default class FunctionImplementation extends Function {
         MongoDB: "$substrCP",
         PostgreSQL: "SUBSTRING",
         MySQL: "SUBSTRING",
+        "SQL Server": "SUBSTRING",
+        Oracle: "SUBSTR",
+        SQLite: "SUBSTR",
       },
     });
   }
@@ -24,30 +28,82 @@ export default class FunctionImplementation extends Function {
   /**
    * Returns the database specific query structure of the where condition
    * @param {string} dbType The database type
+   * @param {QueryParameters} params Collects the parameter values of SQL queries
    * @returns Query structure
    */
-  getQuery(dbType: string, callback: (fieldPath: string) => string): any {
+  getQuery(
+    dbType: string,
+    callback: (fieldPath: string) => string,
+    params?: QueryParameters,
+  ): any {
     switch (dbType) {
       case DBTYPE.MONGODB:
-        return super.getQuery(dbType, callback);
+        return super.getQuery(dbType, callback, params);
       case DBTYPE.POSTGRESQL:
         return `SUBSTRING(${this.parameters[0].getQuery(
           dbType,
           callback,
+          params,
         )} FROM ${this.parameters[1].getQuery(
           dbType,
           callback,
-        )} + 1 FOR ${this.parameters[2].getQuery(dbType, callback)})`;
+          params,
+        )} + 1 FOR ${this.parameters[2].getQuery(dbType, callback, params)})`;
       case DBTYPE.MYSQL:
         return `SUBSTRING(${this.parameters[0].getQuery(
           dbType,
           callback,
+          params,
         )}, ${this.parameters[1].getQuery(
           dbType,
           callback,
-        )} + 1, ${this.parameters[2].getQuery(dbType, callback)})`;
+          params,
+        )} + 1, ${this.parameters[2].getQuery(dbType, callback, params)})`;
+      case DBTYPE.SQLSERVER:
+        return `SUBSTRING(${this.parameters[0].getQuery(
+          dbType,
+          callback,
+          params,
+        )}, ${this.parameters[1].getQuery(
+          dbType,
+          callback,
+          params,
+        )} + 1, ${this.parameters[2].getQuery(dbType, callback, params)})`;
+      case DBTYPE.ORACLE:
+        return `SUBSTR(${this.parameters[0].getQuery(
+          dbType,
+          callback,
+          params,
+        )}, ${this.parameters[1].getQuery(
+          dbType,
+          callback,
+          params,
+        )} + 1, ${this.parameters[2].getQuery(dbType, callback, params)})`;
+      case DBTYPE.SQLITE:
+        return `SUBSTR(${this.parameters[0].getQuery(
+          dbType,
+          callback,
+          params,
+        )}, ${this.parameters[1].getQuery(
+          dbType,
+          callback,
+          params,
+        )} + 1, ${this.parameters[2].getQuery(dbType, callback, params)})`;
       default:
         return null;
     }
   }
+
+  /**
+   * Returns the substring of the string, the start index is zero-based
+   * @param {EvaluationContext} context The record and the other inputs of the evaluation
+   * @returns The substring or null if any one of the parameters is null
+   */
+  evaluate(context: EvaluationContext): any {
+    return this.evaluateNonNull(context, (value, start, count) =>
+      Array.from(value)
+        .slice(start, start + count)
+        .join(""),
+    );
+  }
 }
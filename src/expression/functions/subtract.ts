@@ -1,5 +1,6 @@
 import { Function } from "../Function";
-import { ReturnType, DBTYPE } from "../../utils/types";
+import { QueryParameters } from "../QueryParameters";
+import { ReturnType, DBTYPE, EvaluationContext } from "../../utils/types";
 
 /**
  * Subtracts the numbers
@@ -17,6 +18,9 @@ export default class FunctionImplementation extends Function {
         MongoDB: "$subtract",
         PostgreSQL: "-",
         MySQL: "-",
+        "SQL Server": "-",
+        Oracle: "-",
+        SQLite: "-",
       },
     });
   }
@@ -24,17 +28,25 @@ export default class FunctionImplementation extends Function {
   /**
    * Returns the database specific query structure of the where condition
    * @param {string} dbType The database type
+   * @param {QueryParameters} params Collects the parameter values of SQL queries
    * @returns Query structure
    */
-  getQuery(dbType: string, callback?: (fieldPath: string) => string): any {
+  getQuery(
+    dbType: string,
+    callback?: (fieldPath: string) => string,
+    params?: QueryParameters,
+  ): any {
     switch (dbType) {
       case DBTYPE.MONGODB:
-        return super.getQuery(dbType, callback);
+        return super.getQuery(dbType, callback, params);
       case DBTYPE.POSTGRESQL:
       case DBTYPE.MYSQL:
+      case DBTYPE.SQLSERVER:
+      case DBTYPE.ORACLE:
+      case DBTYPE.SQLITE:
         const funcParams = [];
         for (const entry of this.parameters) {
-          funcParams.push(entry.getQuery(dbType, callback));
+          funcParams.push(entry.getQuery(dbType, callback, params));
         }
 
         return `(${funcParams[0]} - ${funcParams[1]})`;
@@ -42,4 +54,13 @@ export default class FunctionImplementation extends Function {
         return null;
     }
   }
+
+  /**
+   * Subtracts the second parameter from the first parameter
+   * @param {EvaluationContext} context The record and the other inputs of the evaluation
+   * @returns The difference or null if any one of the parameters is null
+   */
+  evaluate(context: EvaluationContext): any {
+    return this.evaluateNonNull(context, (a, b) => a - b);
+  }
 }
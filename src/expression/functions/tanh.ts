@@ -1,5 +1,5 @@
 import { Function } from "../Function";
-import { ReturnType } from "../../utils/types";
+import { ReturnType, EvaluationContext } from "../../utils/types";
 
 /**
  * Returns the hyperbolic tangent of a value that is measured in radians
@@ -17,7 +17,19 @@ export default class FunctionImplementation extends Function {
         MongoDB: "$tanh",
         PostgreSQL: "TANH",
         MySQL: "n/a",
+        "SQL Server": "n/a",
+        Oracle: "TANH",
+        SQLite: "TANH",
       },
     });
   }
+
+  /**
+   * Returns the hyperbolic tangent of the number parameter
+   * @param {EvaluationContext} context The record and the other inputs of the evaluation
+   * @returns The calculated number or null if the parameter is null
+   */
+  evaluate(context: EvaluationContext): any {
+    return this.evaluateNonNull(context, (value) => Math.tanh(value));
+  }
 }
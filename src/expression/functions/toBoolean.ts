@@ -1,5 +1,7 @@
 import { Function } from "../Function";
-import { ReturnType, DBTYPE } from "../../utils/types";
+import { QueryParameters } from "../QueryParameters";
+import { ReturnType, DBTYPE, EvaluationContext } from "../../utils/types";
+import { isTruthy } from "../../utils/helper";
 
 /**
  * Converts the input value to a boolean
@@ -17,6 +19,9 @@ export default class FunctionImplementation extends Function {
         MongoDB: "$toBool",
         PostgreSQL: "$custom",
         MySQL: "n/a",
+        "SQL Server": "$custom",
+        Oracle: "$custom",
+        SQLite: "$custom",
       },
     });
   }
@@ -24,22 +29,85 @@ export default class FunctionImplementation extends Function {
   /**
    * Returns the database specific query structure of the where condition
    * @param {string} dbType The database type
+   * @param {QueryParameters} params Collects the parameter values of SQL queries
    * @returns Query structure
    */
-  getQuery(dbType: string, callback?: (fieldPath: string) => string): any {
+  getQuery(
+    dbType: string,
+    callback?: (fieldPath: string) => string,
+    params?: QueryParameters,
+  ): any {
     switch (dbType) {
       case DBTYPE.MONGODB:
-        return super.getQuery(dbType, callback);
+        return super.getQuery(dbType, callback, params);
       case DBTYPE.POSTGRESQL: {
-        const value = this.parameters[0].getQuery(dbType, callback);
+        const value = this.parameters[0].getQuery(dbType, callback, params);
         return `${value}::BOOLEAN`;
       }
       case DBTYPE.MYSQL: {
-        const value = this.parameters[0].getQuery(dbType, callback);
-        return `(${value} IS NOT NULL AND ${value} <> 0)`;
+        // The value is referenced twice, each reference gets its own placeholder
+        return `(${this.parameters[0].getQuery(
+          dbType,
+          callback,
+          params,
+        )} IS NOT NULL AND ${this.parameters[0].getQuery(
+          dbType,
+          callback,
+          params,
+        )} <> 0)`;
       }
+      case DBTYPE.SQLSERVER: {
+        // SQL Server does not have a boolean type, the value is converted to a predicate
+        return `(${this.parameters[0].getQuery(
+          dbType,
+          callback,
+          params,
+        )} IS NOT NULL AND ${this.parameters[0].getQuery(
+          dbType,
+          callback,
+          params,
+        )} <> 0)`;
+      }
+      case DBTYPE.ORACLE: {
+        // Oracle does not have a boolean type in SQL, the value is converted to a predicate
+        return `(${this.parameters[0].getQuery(
+          dbType,
+          callback,
+          params,
+        )} IS NOT NULL AND ${this.parameters[0].getQuery(
+          dbType,
+          callback,
+          params,
+        )} <> 0)`;
+      }
+      case DBTYPE.SQLITE:
+        return `(${this.parameters[0].getQuery(
+          dbType,
+          callback,
+          params,
+        )} IS NOT NULL AND ${this.parameters[0].getQuery(
+          dbType,
+          callback,
+          params,
+        )} <> 0)`;
       default:
         return null;
     }
   }
+
+  /**
+   * Converts the value to a boolean, zero, false and the 'false' and '0' strings are false
+   * @param {EvaluationContext} context The record and the other inputs of the evaluation
+   * @returns The boolean value or null if the value is null
+   */
+  evaluate(context: EvaluationContext): any {
+    return this.evaluateNonNull(context, (value) => {
+      if (typeof value === "string")
+        return !["false", "0", "f", "no", "off", ""].includes(
+          value.trim().toLowerCase(),
+        );
+
+      return isTruthy(value);
+    });
+  }
 }
@@ -1,5 +1,7 @@
 import { Function } from "../Function";
-import { ReturnType, DBTYPE } from "../../utils/types";
+import { QueryParameters } from "../QueryParameters";
+import { ReturnType, DBTYPE, EvaluationContext } from "../../utils/types";
+import { toDateValue } from "../../utils/helper";
 
 /**
  * Converts the input value to a date
@@ -17,6 +19,9 @@ export default class FunctionImplementation extends Function {
         MongoDB: "$toDate",
         PostgreSQL: "$custom",
         MySQL: "CAST",
+        "SQL Server": "CAST",
+        Oracle: "CAST",
+        SQLite: "STRFTIME",
       },
     });
   }
@@ -24,22 +29,51 @@ export default class FunctionImplementation extends Function {
   /**
    * Returns the database specific query structure of the where condition
    * @param {string} dbType The database type
+   * @param {QueryParameters} params Collects the parameter values of SQL queries
    * @returns Query structure
    */
-  getQuery(dbType: string, callback?: (fieldPath: string) => string): any {
+  getQuery(
+    dbType: string,
+    callback?: (fieldPath: string) => string,
+    params?: QueryParameters,
+  ): any {
     switch (dbType) {
       case DBTYPE.MONGODB:
-        return super.getQuery(dbType, callback);
+        return super.getQuery(dbType, callback, params);
       case DBTYPE.POSTGRESQL: {
-        const value = this.parameters[0].getQuery(dbType, callback);
+        const value = this.parameters[0].getQuery(dbType, callback, params);
         return `${value}::TIMESTAMP`;
       }
       case DBTYPE.MYSQL: {
-        const value = this.parameters[0].getQuery(dbType, callback);
+        const value = this.parameters[0].getQuery(dbType, callback, params);
         return `CAST(${value} AS DATETIME)`;
       }
+      case DBTYPE.SQLSERVER: {
+        const value = this.parameters[0].getQuery(dbType, callback, params);
+        return `CAST(${value} AS DATETIME2)`;
+      }
+      case DBTYPE.ORACLE: {
+        const value = this.parameters[0].getQuery(dbType, callback, params);
+        return `CAST(${value} AS TIMESTAMP)`;
+      }
+      case DBTYPE.SQLITE:
+        // Dates are stored as ISO 8601 text in SQLite
+        return `STRFTIME('%Y-%m-%dT%H:%M:%fZ', ${this.parameters[0].getQuery(
+          dbType,
+          callback,
+          params,
+        )})`;
       default:
         return null;
     }
   }
+
+  /**
+   * Converts the value to a date, the numbers are milliseconds since the Unix epoch
+   * @param {EvaluationContext} context The record and the other inputs of the evaluation
+   * @returns The date or null if the value cannot be converted to a date
+   */
+  evaluate(context: EvaluationContext): any {
+    return this.evaluateNonNull(context, (value) => toDateValue(value));
+  }
 }
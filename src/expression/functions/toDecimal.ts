@@ -1,5 +1,6 @@
 import { Function } from "../Function";
-import { ReturnType, DBTYPE } from "../../utils/types";
+import { QueryParameters } from "../QueryParameters";
+import { ReturnType, DBTYPE, EvaluationContext } from "../../utils/types";
 
 /**
  * Converts the input value to a decimal
@@ -17,6 +18,9 @@ export default class FunctionImplementation extends Function {
         MongoDB: "$toDecimal",
         PostgreSQL: "CAST",
         MySQL: "CAST",
+        "SQL Server": "CAST",
+        Oracle: "CAST",
+        SQLite: "CAST",
       },
     });
   }
@@ -24,22 +28,51 @@ export default class FunctionImplementation extends Function {
   /**
    * Returns the database specific query structure of the where condition
    * @param {string} dbType The database type
+   * @param {QueryParameters} params Collects the parameter values of SQL queries
    * @returns Query structure
    */
-  getQuery(dbType: string, callback?: (fieldPath: string) => string): any {
+  getQuery(
+    dbType: string,
+    callback?: (fieldPath: string) => string,
+    params?: QueryParameters,
+  ): any {
     switch (dbType) {
       case DBTYPE.MONGODB:
-        return super.getQuery(dbType, callback);
+        return super.getQuery(dbType, callback, params);
       case DBTYPE.POSTGRESQL: {
-        const value = this.parameters[0].getQuery(dbType, callback);
+        const value = this.parameters[0].getQuery(dbType, callback, params);
         return `${value}::DECIMAL`;
       }
       case DBTYPE.MYSQL: {
-        const value = this.parameters[0].getQuery(dbType, callback);
+        const value = this.parameters[0].getQuery(dbType, callback, params);
         return `CAST(${value} AS DECIMAL)`;
       }
+      case DBTYPE.SQLSERVER: {
+        const value = this.parameters[0].getQuery(dbType, callback, params);
+        return `CAST(${value} AS DECIMAL(38, 10))`;
+      }
+      case DBTYPE.ORACLE: {
+        const value = this.parameters[0].getQuery(dbType, callback, params);
+        return `CAST(${value} AS NUMBER)`;
+      }
+      case DBTYPE.SQLITE: {
+        const value = this.parameters[0].getQuery(dbType, callback, params);
+        return `CAST(${value} AS REAL)`;
+      }
       default:
         return null;
     }
   }
+
+  /**
+   * Converts the value to a number, dates are converted to milliseconds since the Unix epoch and booleans to 1 and 0
+   * @param {EvaluationContext} context The record and the other inputs of the evaluation
+   * @returns The number or null if the value cannot be converted to a number
+   */
+  evaluate(context: EvaluationContext): any {
+    return this.evaluateNonNull(context, (value) => {
+      const result = Number(value instanceof Date ? value.getTime() : value);
+      return isNaN(result) ? null : result;
+    });
+  }
 }
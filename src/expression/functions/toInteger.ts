@@ -1,5 +1,6 @@
 import { Function } from "../Function";
-import { ReturnType, DBTYPE } from "../../utils/types";
+import { QueryParameters } from "../QueryParameters";
+import { ReturnType, DBTYPE, EvaluationContext } from "../../utils/types";
 
 /**
  * Converts the input value to an integer
@@ -17,6 +18,9 @@ export default class FunctionImplementation extends Function {
         MongoDB: "$toInt",
         PostgreSQL: "CAST",
         MySQL: "CAST",
+        "SQL Server": "CAST",
+        Oracle: "CAST",
+        SQLite: "CAST",
       },
     });
   }
@@ -24,22 +28,51 @@ export default class FunctionImplementation extends Function {
   /**
    * Returns the database specific query structure of the where condition
    * @param {string} dbType The database type
+   * @param {QueryParameters} params Collects the parameter values of SQL queries
    * @returns Query structure
    */
-  getQuery(dbType: string, callback?: (fieldPath: string) => string): any {
+  getQuery(
+    dbType: string,
+    callback?: (fieldPath: string) => string,
+    params?: QueryParameters,
+  ): any {
     switch (dbType) {
       case DBTYPE.MONGODB:
-        return super.getQuery(dbType, callback);
+        return super.getQuery(dbType, callback, params);
       case DBTYPE.POSTGRESQL: {
-        const value = this.parameters[0].getQuery(dbType, callback);
+        const value = this.parameters[0].getQuery(dbType, callback, params);
         return `${value}::INTEGER`;
       }
       case DBTYPE.MYSQL: {
-        const value = this.parameters[0].getQuery(dbType, callback);
+        const value = this.parameters[0].getQuery(dbType, callback, params);
         return `CAST(${value} AS SIGNED)`;
       }
+      case DBTYPE.SQLSERVER: {
+        const value = this.parameters[0].getQuery(dbType, callback, params);
+        return `CAST(${value} AS INT)`;
+      }
+      case DBTYPE.ORACLE: {
+        const value = this.parameters[0].getQuery(dbType, callback, params);
+        return `CAST(${value} AS INTEGER)`;
+      }
+      case DBTYPE.SQLITE: {
+        const value = this.parameters[0].getQuery(dbType, callback, params);
+        return `CAST(${value} AS INTEGER)`;
+      }
       default:
         return null;
     }
   }
+
+  /**
+   * Converts the value to an integer, the fractional part of the numbers is truncated
+   * @param {EvaluationContext} context The record and the other inputs of the evaluation
+   * @returns The integer or null if the value cannot be converted to a number
+   */
+  evaluate(context: EvaluationContext): any {
+    return this.evaluateNonNull(context, (value) => {
+      const result = Number(value instanceof Date ? value.getTime() : value);
+      return isNaN(result) ? null : Math.trunc(result);
+    });
+  }
 }
@@ -1,5 +1,6 @@
 import { Function } from "../Function";
-import { ReturnType } from "../../utils/types";
+import { ReturnType, EvaluationContext } from "../../utils/types";
+import { objectId, normalizeValue } from "../../utils/helper";
 
 /**
  * Converts a value to a MongoDB ObjectId(). If the value cannot be converted to an ObjectId, it returns errors. If the value is null or missing, it returns null.
@@ -17,7 +18,21 @@ export default class FunctionImplementation extends Function {
         MongoDB: "$toObjectId",
         PostgreSQL: "n/a",
         MySQL: "n/a",
+        "SQL Server": "n/a",
+        Oracle: "n/a",
+        SQLite: "n/a",
       },
     });
   }
+
+  /**
+   * Converts the hex string to a MongoDB object id
+   * @param {EvaluationContext} context The record and the other inputs of the evaluation
+   * @returns The object id or null if the value is null
+   */
+  evaluate(context: EvaluationContext): any {
+    return this.evaluateNonNull(context, (value) =>
+      objectId(String(normalizeValue(value))),
+    );
+  }
 }
@@ -1,5 +1,7 @@
 import { Function } from "../Function";
-import { ReturnType, DBTYPE } from "../../utils/types";
+import { QueryParameters } from "../QueryParameters";
+import { ReturnType, DBTYPE, EvaluationContext } from "../../utils/types";
+import { normalizeValue } from "../../utils/helper";
 
 /**
  * Converts the input value to a string
@@ -17,6 +19,9 @@ export default class FunctionImplementation extends Function {
         MongoDB: "$toString",
         PostgreSQL: "CAST",
         MySQL: "CAST",
+        "SQL Server": "CAST",
+        Oracle: "TO_CHAR",
+        SQLite: "CAST",
       },
     });
   }
@@ -24,22 +29,52 @@ export default class FunctionImplementation extends Function {
   /**
    * Returns the database specific query structure of the where condition
    * @param {string} dbType The database type
+   * @param {QueryParameters} params Collects the parameter values of SQL queries
    * @returns Query structure
    */
-  getQuery(dbType: string, callback?: (fieldPath: string) => string): any {
+  getQuery(
+    dbType: string,
+    callback?: (fieldPath: string) => string,
+    params?: QueryParameters,
+  ): any {
     switch (dbType) {
       case DBTYPE.MONGODB:
-        return super.getQuery(dbType, callback);
+        return super.getQuery(dbType, callback, params);
       case DBTYPE.POSTGRESQL: {
-        const value = this.parameters[0].getQuery(dbType, callback);
+        const value = this.parameters[0].getQuery(dbType, callback, params);
         return `${value}::TEXT`;
       }
       case DBTYPE.MYSQL: {
-        const value = this.parameters[0].getQuery(dbType, callback);
+        const value = this.parameters[0].getQuery(dbType, callback, params);
         return `CAST(${value} AS CHAR)`;
       }
+      case DBTYPE.SQLSERVER: {
+        const value = this.parameters[0].getQuery(dbType, callback, params);
+        return `CAST(${value} AS NVARCHAR(MAX))`;
+      }
+      case DBTYPE.ORACLE: {
+        const value = this.parameters[0].getQuery(dbType, callback, params);
+        return `TO_CHAR(${value})`;
+      }
+      case DBTYPE.SQLITE: {
+        const value = this.parameters[0].getQuery(dbType, callback, params);
+        return `CAST(${value} AS TEXT)`;
+      }
       default:
         return null;
     }
   }
+
+  /**
+   * Converts the value to a string, dates are converted to ISO 8601 strings
+   * @param {EvaluationContext} context The record and the other inputs of the evaluation
+   * @returns The string or null if the value is null
+   */
+  evaluate(context: EvaluationContext): any {
+    return this.evaluateNonNull(context, (value) =>
+      value instanceof Date
+        ? value.toISOString()
+        : String(normalizeValue(value)),
+    );
+  }
 }
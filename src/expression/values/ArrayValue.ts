@@ -1,5 +1,11 @@
 import { Expression } from "../Expression";
-import { ReturnType, ExpressionType, DBTYPE } from "../../utils/types";
+import { QueryParameters } from "../QueryParameters";
+import {
+  ReturnType,
+  ExpressionType,
+  DBTYPE,
+  EvaluationContext,
+} from "../../utils/types";
 
 /**
  * Defines an array of expression values
@@ -67,12 +73,17 @@ export class ArrayValue extends Expression {
   /**
    * Returns the database specific query structure of the where condition
    * @param {string} dbType The database type
+   * @param {QueryParameters} params Collects the parameter values of SQL queries
    * @returns Query structure
    */
-  getQuery(dbType: string, callback?: (fieldPath: string) => string): any {
+  getQuery(
+    dbType: string,
+    callback?: (fieldPath: string) => string,
+    params?: QueryParameters,
+  ): any {
     const output = [];
     for (const entry of this.array) {
-      output.push(entry.getQuery(dbType, callback));
+      output.push(entry.getQuery(dbType, callback, params));
     }
 
     switch (dbType) {
@@ -80,12 +91,24 @@ export class ArrayValue extends Expression {
         return output;
       case DBTYPE.POSTGRESQL:
       case DBTYPE.MYSQL:
+      case DBTYPE.SQLSERVER:
+      case DBTYPE.SQLITE:
+      case DBTYPE.ORACLE:
         return `${output.join(", ")}`;
       default:
         return output;
     }
   }
 
+  /**
+   * Evaluates the array entries for the record in process
+   * @param {EvaluationContext} context The record and the other inputs of the evaluation
+   * @returns The array of entry values
+   */
+  evaluate(context: EvaluationContext): any {
+    return this.array.map((entry) => entry.evaluate(context) ?? null);
+  }
+
   /**
    * Returns the database specific query structure of the select condition of $pull update operation
    * @param {string} dbType The database type
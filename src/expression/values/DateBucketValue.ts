@@ -0,0 +1,288 @@
+import { Expression } from "../Expression";
+import { QueryParameters } from "../QueryParameters";
+import { FieldValue } from "./FieldValue";
+import { StaticValue } from "./StaticValue";
+import {
+  ReturnType,
+  ExpressionType,
+  DBTYPE,
+  EvaluationContext,
+} from "../../utils/types";
+import { ClientError } from "../../utils/ClientError";
+import {
+  getDatePartsInTimezone,
+  getDateFromPartsInTimezone,
+  toDateValue,
+} from "../../utils/helper";
+
+/**
+ * Defines the start date of the time bucket (e.g., day, month) that a datetime field value falls in, calculated in a specific time zone
+ *
+ * @export
+ * @class Expression
+ */
+export class DateBucketValue extends Expression {
+  /**
+   * The datetime field value
+   * @protected
+   * @type {FieldValue}
+   */
+  protected field: FieldValue;
+
+  /**
+   * The time unit of the bucket
+   * @protected
+   * @type {string}
+   */
+  protected unit: string;
+
+  /**
+   * The IANA time zone name
+   * @protected
+   * @type {string}
+   */
+  protected timezone: string;
+
+  constructor(field: FieldValue, unit: string, timezone: string) {
+    super();
+    this.field = field;
+    this.unit = unit;
+    this.timezone = timezone;
+  }
+
+  /**
+   * Returns the expression type
+   * @returns Expression type
+   */
+  getExpressionType(): ExpressionType {
+    return ExpressionType.FUNCTION;
+  }
+
+  /**
+   * Returns the value type of the expression
+   * @returns Value type of the expression
+   */
+  getReturnType(): ReturnType {
+    return ReturnType.DATETIME;
+  }
+
+  /**
+   * Returns the time unit of the bucket
+   * @returns Time unit
+   */
+  getUnit(): string {
+    return this.unit;
+  }
+
+  /**
+   * Returns the time zone of the bucket
+   * @returns IANA time zone name
+   */
+  getTimezone(): string {
+    return this.timezone;
+  }
+
+  /**
+   * Returns the database specific query structure of the where condition
+   * @param {string} dbType The database type
+   * @param {QueryParameters} params Collects the parameter values of SQL queries
+   * @returns Query structure
+   */
+  getQuery(
+    dbType: string,
+    callback?: (fieldPath: string) => string,
+    params?: QueryParameters,
+  ): any {
+    const field = this.field.getQuery(dbType, callback, params);
+    const timezone = new StaticValue(this.timezone);
+
+    switch (dbType) {
+      case DBTYPE.MONGODB:
+        return {
+          $dateTrunc: {
+            date: field,
+            unit: this.unit,
+            timezone: this.timezone,
+            ...(this.unit === "week" ? { startOfWeek: "monday" } : {}),
+          },
+        };
+      case DBTYPE.POSTGRESQL:
+        // The field value is converted to the local time, truncated and converted back to a timestamp with time zone
+        return `DATE_TRUNC('${
+          this.unit
+        }', ${field} AT TIME ZONE ${timezone.getQuery(
+          dbType,
+          undefined,
+          params,
+        )}) AT TIME ZONE ${timezone.getQuery(dbType, undefined, params)}`;
+      case DBTYPE.MYSQL: {
+        // Datetime values are stored in UTC, named time zones require the time zone tables of the MySQL server to be loaded
+        const local = () =>
+          `CONVERT_TZ(${field}, '+00:00', ${timezone.getQuery(
+            dbType,
+            undefined,
+            params,
+          )})`;
+
+        let start = null;
+        switch (this.unit) {
+          case "hour":
+            start = `DATE_FORMAT(${local()}, '%Y-%m-%d %H:00:00')`;
+            break;
+          case "day":
+            start = `DATE_FORMAT(${local()}, '%Y-%m-%d 00:00:00')`;
+            break;
+          case "week":
+            start = `DATE_FORMAT(DATE_SUB(${local()}, INTERVAL WEEKDAY(${local()}) DAY), '%Y-%m-%d 00:00:00')`;
+            break;
+          case "month":
+            start = `DATE_FORMAT(${local()}, '%Y-%m-01 00:00:00')`;
+            break;
+          case "quarter":
+            start = `CONCAT(YEAR(${local()}), '-', LPAD((QUARTER(${local()}) - 1) * 3 + 1, 2, '0'), '-01 00:00:00')`;
+            break;
+          case "year":
+          default:
+            start = `DATE_FORMAT(${local()}, '%Y-01-01 00:00:00')`;
+            break;
+        }
+
+        return `CONVERT_TZ(${start}, ${timezone.getQuery(
+          dbType,
+          undefined,
+          params,
+        )}, '+00:00')`;
+      }
+      default:
+        throw new ClientError(
+          "unsupported_date_bucket",
+          `Grouping records into date buckets is not supported by ${dbType} databases.`,
+        );
+    }
+  }
+
+  /**
+   * Returns the database specific query structure of the select condition of $pull update operation
+   * @param {string} dbType The database type
+   * @param {boolean} dropFieldName Do not include the field name in queries (used mainly for basic values list type fields)
+   * @returns Query structure
+   */
+  getPullQuery(dbType: string, dropFieldName: boolean): any {
+    return null;
+  }
+
+  /**
+   * Checks whether if the expression includes a joined field value
+   * @returns True if the expressin includes at least one joined field value, otherwise false
+   */
+  hasJoinFieldValues(): boolean {
+    return this.field.hasJoinFieldValues();
+  }
+
+  /**
+   * Evaluates the start date of the bucket that the field value of the record falls in
+   * @param {EvaluationContext} context The record and the other inputs of the evaluation
+   * @returns Start date of the bucket or null if the field value is not a date
+   */
+  evaluate(context: EvaluationContext): any {
+    const date = toDateValue(this.field.evaluate(context));
+    return date ? this.getBucketStart(date) : null;
+  }
+
+  /**
+   * Returns the start date of the bucket that the date falls in
+   * @param {Date} date The date
+   * @returns Start date of the bucket
+   */
+  getBucketStart(date: Date): Date {
+    const parts = getDatePartsInTimezone(date, this.timezone);
+
+    switch (this.unit) {
+      case "hour":
+        return getDateFromPartsInTimezone(
+          {
+            year: parts.year,
+            month: parts.month,
+            day: parts.day,
+            hour: parts.hour,
+          },
+          this.timezone,
+        );
+      case "day":
+        return getDateFromPartsInTimezone(
+          { year: parts.year, month: parts.month, day: parts.day },
+          this.timezone,
+        );
+      case "week": {
+        // Weeks start on Monday
+        const weekday = new Date(
+          Date.UTC(parts.year, parts.month - 1, parts.day),
+        ).getUTCDay();
+        return getDateFromPartsInTimezone(
+          {
+            year: parts.year,
+            month: parts.month,
+            day: parts.day - ((weekday + 6) % 7),
+          },
+          this.timezone,
+        );
+      }
+      case "month":
+        return getDateFromPartsInTimezone(
+          { year: parts.year, month: parts.month, day: 1 },
+          this.timezone,
+        );
+      case "quarter":
+        return getDateFromPartsInTimezone(
+          {
+            year: parts.year,
+            month: Math.floor((parts.month - 1) / 3) * 3 + 1,
+            day: 1,
+          },
+          this.timezone,
+        );
+      case "year":
+      default:
+        return getDateFromPartsInTimezone(
+          { year: parts.year, month: 1, day: 1 },
+          this.timezone,
+        );
+    }
+  }
+
+  /**
+   * Returns the start date of the bucket following the bucket with the specified start date
+   * @param {Date} bucketStart The start date of the bucket
+   * @returns Start date of the next bucket
+   */
+  getNextBucketStart(bucketStart: Date): Date {
+    // Hours are not stepped in wall clock time, otherwise the repeated hour of a daylight saving time transition would be skipped
+    if (this.unit === "hour")
+      return new Date(bucketStart.getTime() + 60 * 60 * 1000);
+
+    const parts = getDatePartsInTimezone(bucketStart, this.timezone);
+    switch (this.unit) {
+      case "day":
+        parts.day += 1;
+        break;
+      case "week":
+        parts.day += 7;
+        break;
+      case "month":
+        parts.month += 1;
+        break;
+      case "quarter":
+        parts.month += 3;
+        break;
+      case "year":
+      default:
+        parts.year += 1;
+        break;
+    }
+
+    return getDateFromPartsInTimezone(
+      { year: parts.year, month: parts.month, day: parts.day },
+      this.timezone,
+    );
+  }
+}
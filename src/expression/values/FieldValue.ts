@@ -1,8 +1,15 @@
 import { Field } from "../../model/Field";
 import { ModelBase } from "../../model/ModelBase";
 import { Expression } from "../Expression";
-import { ReturnType, ExpressionType, DBTYPE } from "../../utils/types";
+import { QueryParameters } from "../QueryParameters";
+import {
+  ReturnType,
+  ExpressionType,
+  DBTYPE,
+  EvaluationContext,
+} from "../../utils/types";
 import { ClientError } from "../../utils/ClientError";
+import { quoteOracleIdentifier, getValueAtPath } from "../../utils/helper";
 
 /**
  * Defines a model field value
@@ -115,9 +122,14 @@ export class FieldValue extends Expression {
   /**
    * Returns the database specific query structure of the where condition
    * @param {string} dbType The database type
+   * @param {QueryParameters} params Collects the parameter values of SQL queries
    * @returns Query structure
    */
-  getQuery(dbType: string, callback?: (fieldPath: string) => string): any {
+  getQuery(
+    dbType: string,
+    callback?: (fieldPath: string) => string,
+    params?: QueryParameters,
+  ): any {
     switch (dbType) {
       case DBTYPE.MONGODB:
         if (this.joinType === "none" && callback)
@@ -128,17 +140,37 @@ export class FieldValue extends Expression {
         } else return `$${this.fieldPath}`;
       case DBTYPE.POSTGRESQL:
       case DBTYPE.MYSQL:
+      case DBTYPE.SQLSERVER:
+      case DBTYPE.SQLITE:
         if (this.joinType === "none") {
           const modelName = this.field.getModel().getName();
           if (modelName !== "$$dummy")
             return `${this.field.getModel().getName()}.${this.field.getName()}`;
           else return this.field.getName();
         } else return this.fieldPath;
+      case DBTYPE.ORACLE:
+        if (this.joinType === "none") {
+          const modelName = this.field.getModel().getName();
+          if (modelName !== "$$dummy")
+            return quoteOracleIdentifier(
+              `${modelName}.${this.field.getName()}`,
+            );
+          else return quoteOracleIdentifier(this.field.getName());
+        } else return quoteOracleIdentifier(this.fieldPath);
       default:
         return this.fieldPath;
     }
   }
 
+  /**
+   * Returns the value of the field in the record. The values of the joined model fields are read from the joined records at the join path.
+   * @param {EvaluationContext} context The record and the other inputs of the evaluation
+   * @returns The field value, undefined if the record does not have the field
+   */
+  evaluate(context: EvaluationContext): any {
+    return getValueAtPath(context.record, this.fieldPath);
+  }
+
   /**
    * Returns the database specific query structure of the select condition of $pull update operation
    * @param {string} dbType The database type
@@ -0,0 +1,93 @@
+import { Field } from "../../model/Field";
+import { ModelBase } from "../../model/ModelBase";
+import { FieldValue } from "./FieldValue";
+import { QueryParameters } from "../QueryParameters";
+import { DBTYPE, EvaluationContext } from "../../utils/types";
+import { quoteOracleIdentifier, getValueAtPath } from "../../utils/helper";
+
+/**
+ * Defines a field value of the outer query model that is referenced in the where condition of a correlated subquery
+ *
+ * @export
+ * @class Expression
+ */
+export class OuterFieldValue extends FieldValue {
+  /**
+   * The name of the MongoDB $lookup variable that holds the outer field value in the subquery pipeline
+   * @protected
+   * @type {string}
+   */
+  protected varName: string;
+
+  constructor(
+    field: Field,
+    fieldPath: string,
+    outerModel: ModelBase,
+    varName: string,
+  ) {
+    super(field, fieldPath, "none", outerModel);
+    this.varName = varName;
+  }
+
+  /**
+   * Returns the path of the field in the outer query model
+   * @returns Field path
+   */
+  getFieldPath(): string {
+    return this.fieldPath;
+  }
+
+  /**
+   * Returns the name of the MongoDB $lookup variable
+   * @returns Variable name
+   */
+  getVarName(): string {
+    return this.varName;
+  }
+
+  /**
+   * Returns the database specific query structure of the where condition. In MongoDB the outer field value is accessed through the variable of the $lookup stage.
+   * @param {string} dbType The database type
+   * @param {QueryParameters} params Collects the parameter values of SQL queries
+   * @returns Query structure
+   */
+  getQuery(
+    dbType: string,
+    callback?: (fieldPath: string) => string,
+    params?: QueryParameters,
+  ): any {
+    switch (dbType) {
+      case DBTYPE.MONGODB:
+        return `$$${this.varName}`;
+      case DBTYPE.POSTGRESQL:
+      case DBTYPE.MYSQL:
+      case DBTYPE.SQLSERVER:
+      case DBTYPE.SQLITE:
+        return `${this.field.getModel().getName()}.${this.field.getName()}`;
+      case DBTYPE.ORACLE:
+        return quoteOracleIdentifier(
+          `${this.field.getModel().getName()}.${this.field.getName()}`,
+        );
+      default:
+        return this.fieldPath;
+    }
+  }
+
+  /**
+   * Returns the value of the field in the record of the outer query
+   * @param {EvaluationContext} context The record and the other inputs of the evaluation
+   * @returns The field value, undefined if there is no outer record or it does not have the field
+   */
+  evaluate(context: EvaluationContext): any {
+    return getValueAtPath(context.outerRecord, this.fieldPath);
+  }
+
+  /**
+   * Returns the MongoDB expression of the field in the outer query, used to define the variable of the $lookup stage
+   * @param {function} callback Used to fetch the name of the field to handle complex lookup cases
+   * @returns Query structure
+   */
+  getOuterQuery(callback?: (fieldPath: string) => string): string {
+    return `$${callback ? callback(this.fieldPath) : this.fieldPath}`;
+  }
+}
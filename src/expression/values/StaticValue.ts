@@ -1,5 +1,11 @@
 import { Expression } from "../Expression";
-import { ReturnType, ExpressionType, DBTYPE } from "../../utils/types";
+import { QueryParameters } from "../QueryParameters";
+import {
+  ReturnType,
+  ExpressionType,
+  DBTYPE,
+  EvaluationContext,
+} from "../../utils/types";
 
 /**
  * Defines a static value such as a number, boolean, text
@@ -28,6 +34,27 @@ export class StaticValue extends Expression {
     return ExpressionType.STATIC;
   }
 
+  /**
+   * Returns the raw static value
+   * @returns The static value
+   */
+  getValue(): number | string | boolean | null {
+    return this.value;
+  }
+
+  /**
+   * Returns the text value as an SQL string literal where the quote characters are escaped
+   * @param {string} dbType The database type
+   * @returns Quoted and escaped string literal
+   */
+  getLiteral(dbType: string): string {
+    let text = String(this.value).replace(/'/g, "''");
+    // MySQL also treats the backslash as an escape character in string literals
+    if (dbType === DBTYPE.MYSQL) text = text.replace(/\\/g, "\\\\");
+
+    return `'${text}'`;
+  }
+
   /**
    * Returns the value type of the expression
    * @returns Value type of the expression
@@ -42,23 +69,33 @@ export class StaticValue extends Expression {
   /**
    * Returns the database specific query structure of the where condition
    * @param {string} dbType The database type
+   * @param {QueryParameters} params Collects the parameter values of SQL queries
    * @returns Query structure
    */
-  getQuery(dbType: string, callback?: (fieldPath: string) => string): any {
+  getQuery(
+    dbType: string,
+    callback?: (fieldPath: string) => string,
+    params?: QueryParameters,
+  ): any {
     switch (dbType) {
       case DBTYPE.MONGODB:
         return this.value;
       case DBTYPE.POSTGRESQL:
         if (this.value === null) return "NULL";
         else if (typeof this.value === "string") {
-          if (callback) return callback(this.value);
-          else return `'${this.value}'`;
+          if (params) return params.add(this.value);
+          else if (callback) return callback(this.value);
+          else return this.getLiteral(dbType);
         } else return this.value;
       case DBTYPE.MYSQL:
+      case DBTYPE.SQLSERVER:
+      case DBTYPE.ORACLE:
+      case DBTYPE.SQLITE:
         if (this.value === null) return "NULL";
         else if (typeof this.value === "string") {
-          if (callback) return callback(this.value);
-          else return `'${this.value}'`;
+          if (params) return params.add(this.value);
+          else if (callback) return callback(this.value);
+          else return this.getLiteral(dbType);
         } else if (typeof this.value === "boolean") return this.value ? 1 : 0;
         else return this.value;
       default:
@@ -66,6 +103,15 @@ export class StaticValue extends Expression {
     }
   }
 
+  /**
+   * Evaluates the expression for the record in process
+   * @param {EvaluationContext} context The record and the other inputs of the evaluation
+   * @returns The static value
+   */
+  evaluate(context: EvaluationContext): any {
+    return this.value;
+  }
+
   /**
    * Returns the database specific query structure of the select condition of $pull update operation
    * @param {string} dbType The database type
@@ -0,0 +1,232 @@
+import { ModelBase } from "../../model/ModelBase";
+import { Expression } from "../Expression";
+import { QueryParameters } from "../QueryParameters";
+import { FieldValue } from "./FieldValue";
+import { OuterFieldValue } from "./OuterFieldValue";
+import {
+  ReturnType,
+  ExpressionType,
+  DBTYPE,
+  EvaluationContext,
+} from "../../utils/types";
+import { quoteOracleIdentifier, isTruthy } from "../../utils/helper";
+import { ClientError } from "../../utils/ClientError";
+
+/**
+ * Defines a subquery on another model that is used in the where condition of a query, e.g., to check whether a field value is in the selected field values of the subquery or whether the subquery returns any records
+ *
+ * @export
+ * @class Expression
+ */
+export class SubQueryValue extends Expression {
+  /**
+   * The model that the subquery is executed on
+   * @protected
+   * @type {ModelBase}
+   */
+  protected model: ModelBase;
+
+  /**
+   * The where condition of the subquery, including the soft delete condition of the model
+   * @protected
+   * @type {Expression | null}
+   */
+  protected where: Expression | null;
+
+  /**
+   * The selected field of the subquery, null if the subquery only checks the existence of records
+   * @protected
+   * @type {FieldValue | null}
+   */
+  protected select: FieldValue | null;
+
+  /**
+   * The name of the field that holds the subquery results in MongoDB documents
+   * @protected
+   * @type {string}
+   */
+  protected alias: string;
+
+  /**
+   * The outer query model fields referenced in the where condition of the subquery
+   * @protected
+   * @type {OuterFieldValue[]}
+   */
+  protected outerFields: OuterFieldValue[];
+
+  /**
+   * The subqueries used in the where condition of the subquery
+   * @protected
+   * @type {SubQueryValue[]}
+   */
+  protected subQueries: SubQueryValue[];
+
+  constructor(
+    model: ModelBase,
+    where: Expression | null,
+    select: FieldValue | null,
+    alias: string,
+    outerFields: OuterFieldValue[],
+    subQueries: SubQueryValue[],
+  ) {
+    super();
+    this.model = model;
+    this.where = where;
+    this.select = select;
+    this.alias = alias;
+    this.outerFields = outerFields;
+    this.subQueries = subQueries;
+  }
+
+  /**
+   * Returns the expression type
+   * @returns Expression type
+   */
+  getExpressionType(): ExpressionType {
+    return ExpressionType.SUBQUERY;
+  }
+
+  /**
+   * Returns the value type of the expression
+   * @returns Value type of the expression
+   */
+  getReturnType(): ReturnType {
+    return ReturnType.ARRAY;
+  }
+
+  /**
+   * Returns the value type of the selected field
+   * @returns Value type of the selected field or undefined if the subquery does not select a field
+   */
+  getSelectReturnType(): ReturnType {
+    return this.select?.getReturnType() ?? ReturnType.UNDEFINED;
+  }
+
+  /**
+   * Returns the name of the field that holds the subquery results in MongoDB documents
+   * @returns The alias of the subquery
+   */
+  getAlias(): string {
+    return this.alias;
+  }
+
+  /**
+   * Returns the database specific query structure of the subquery. For SQL databases it is the SELECT statement, for MongoDB it is the path of the subquery results added by the $lookup stage.
+   * @param {string} dbType The database type
+   * @param {QueryParameters} params Collects the parameter values of SQL queries
+   * @returns Query structure
+   */
+  getQuery(
+    dbType: string,
+    callback?: (fieldPath: string) => string,
+    params?: QueryParameters,
+  ): any {
+    switch (dbType) {
+      case DBTYPE.MONGODB:
+        return this.select ? `$${this.alias}.value` : `$${this.alias}`;
+      case DBTYPE.POSTGRESQL:
+      case DBTYPE.MYSQL:
+      case DBTYPE.SQLSERVER:
+      case DBTYPE.SQLITE: {
+        // The fields of the subquery are not renamed by the callback of the outer query
+        const select = this.select
+          ? this.select.getQuery(dbType, undefined, params)
+          : "1";
+        const where = this.where
+          ? ` WHERE ${this.where.getQuery(dbType, undefined, params)}`
+          : "";
+        return `SELECT ${select} FROM ${this.model.getName()}${where}`;
+      }
+      case DBTYPE.ORACLE: {
+        const select = this.select
+          ? this.select.getQuery(dbType, undefined, params)
+          : "1";
+        const where = this.where
+          ? ` WHERE ${this.where.getQuery(dbType, undefined, params)}`
+          : "";
+        // Similar to MongoDB, a single record is enough to check the existence of records
+        const fetch = this.select ? "" : " FETCH FIRST 1 ROWS ONLY";
+        return `SELECT ${select} FROM ${quoteOracleIdentifier(
+          this.model.getName(),
+        )}${where}${fetch}`;
+      }
+      default:
+        return null;
+    }
+  }
+
+  /**
+   * Returns the MongoDB $lookup stage which adds the subquery results to the documents of the outer query. The stage needs to be added to the aggregation pipeline before the stage that matches the where condition.
+   * @param {function} callback Used to fetch the name of the outer query fields to handle complex lookup cases
+   * @returns $lookup stage
+   */
+  getLookupStage(callback?: (fieldPath: string) => string): any {
+    const variables: { [key: string]: string } = {};
+    for (const field of this.outerFields) {
+      variables[field.getVarName()] = field.getOuterQuery(callback);
+    }
+
+    const pipeline: any[] = this.subQueries.map((entry) =>
+      entry.getLookupStage(),
+    );
+    if (this.where)
+      pipeline.push({ $match: { $expr: this.where.getQuery(DBTYPE.MONGODB) } });
+
+    // Only the selected field values are kept, a single document is enough to check the existence of records
+    if (this.select)
+      pipeline.push({
+        $project: { _id: 0, value: this.select.getQuery(DBTYPE.MONGODB) },
+      });
+    else pipeline.push({ $limit: 1 }, { $project: { _id: 1 } });
+
+    return {
+      $lookup: {
+        from: this.model.getName(),
+        let: variables,
+        pipeline,
+        as: this.alias,
+      },
+    };
+  }
+
+  /**
+   * Evaluates the subquery for the record of the outer query. The records of the subquery model are provided by the evaluation context.
+   * @param {EvaluationContext} context The record and the other inputs of the evaluation
+   * @returns The selected field values of the matching records, or the matching records if the subquery does not select a field
+   * @throws Throws an exception if the evaluation context does not provide the model records
+   */
+  evaluate(context: EvaluationContext): any {
+    if (!context.getRecords)
+      throw new ClientError(
+        "not_allowed",
+        `The subquery on model '${this.model.getName()}' cannot be evaluated without the records of the model.`,
+      );
+
+    const matches = context.getRecords(this.model.getName()).filter(
+      (record) =>
+        !this.where ||
+        isTruthy(
+          this.where.evaluate({
+            record,
+            outerRecord: context.record,
+            getRecords: context.getRecords,
+          }),
+        ),
+    );
+
+    if (!this.select) return matches;
+
+    const select = this.select;
+    return matches.map((record) => select.evaluate({ record }) ?? null);
+  }
+
+  /**
+   * Returns the database specific query structure of the select condition of $pull update operation
+   * @param {string} dbType The database type
+   * @param {boolean} dropFieldName Do not include the field name in queries (used mainly for basic values list type fields)
+   * @returns Query structure
+   */
+  getPullQuery(dbType: string, dropFieldName: boolean): any {
+    return null;
+  }
+}
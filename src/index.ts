@@ -16,6 +16,11 @@ import { DBAction } from "./model/DBAction";
 import { Cache } from "./managers/Cache";
 import { CacheBase } from "./managers/CacheBase";
 import { Expression } from "./expression/Expression";
+import { QueryParameters } from "./expression/QueryParameters";
+import { Computation } from "./expression/Computation";
+import { TextSearch } from "./expression/TextSearch";
+import { ReplicaRouter } from "./managers/ReplicaRouter";
+import { MemoryAdapter } from "./adapters/MemoryAdapter";
 
 /**
  * Creates a new server-side client to interact with your backend application resource in Agnost cluster.
@@ -58,10 +63,15 @@ export {
   Field,
   DBAction,
   Expression,
+  QueryParameters,
+  Computation,
+  TextSearch,
   Func,
   Cache,
   CacheBase,
+  ReplicaRouter,
   Realtime,
+  MemoryAdapter,
 };
 
 export * from "./utils/types";
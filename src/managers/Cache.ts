@@ -1,5 +1,6 @@
 import { CacheName } from "../utils/specifics";
 import { CacheBase } from "./CacheBase";
+import { ReadReplicaRoutingOptions } from "../utils/types";
 
 /**
  * The Cache manager provides simple key-value storage at a high-speed data storage layer (e.g., Redis) speeding up data set and get operations. The values stored can be a single JSON object, an array of objects or primitive values (e.g., numbes, text, boolean). Values can be stored with an optional time-to-live (TTL) to automatically expire entries.
@@ -127,6 +128,34 @@ export class Cache<C extends CacheName> {
     return await this.cacheBase.listKeys(pattern, count, useReadReplica);
   }
 
+  /**
+   * Sets how the read operations are routed to the read replicas of the cache. Only the read operations that are run with the `useReadReplica` option are routed to the read replicas. Routing options can also be configured in the cache metadata.
+   *
+   * @param {ReadReplicaRoutingOptions} options The routing options
+   *   - policy?: The policy to select the read replica, one of `random` (default), `round-robin`, `weighted` and `least-outstanding`.
+   *   - weights?: The weights of the read replicas in their configuration order, used by the `weighted` policy.
+   *   - fallbackToPrimary?: Whether to retry the read operation on the read-write cache when it fails on the read replica.
+   * @throws Throws an exception if the routing options are not valid
+   */
+  setReadReplicaRouting(options: ReadReplicaRoutingOptions): void {
+    this.cacheBase.setReadReplicaRouting(options);
+  }
+
+  /**
+   * Runs the callback function in a read-your-writes session. After a write operation in the session, the reads of the session use the read-write cache instead of the read replicas for the specified number of seconds. The session is bound to the async execution context, so the reads of other concurrent requests are not affected.
+   *
+   * @param {(cache: Cache<C>) => Promise<T>} callback The function to run in the session, receives the cache object as input
+   * @param {number} pinSeconds The number of seconds the reads use the read-write cache after a write, by default 5 seconds
+   * @returns Returns the value returned by the callback function
+   * @throws Throws the exception thrown by the callback function
+   */
+  async session<T>(
+    callback: (cache: Cache<C>) => Promise<T>,
+    pinSeconds?: number,
+  ): Promise<T> {
+    return await this.cacheBase.session(() => callback(this), pinSeconds);
+  }
+
   /**
    * Returns the cache client that you can use the perform advanced cache operations. A client instance for the the following NPM modules will be returned.
    *
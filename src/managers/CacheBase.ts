@@ -1,4 +1,5 @@
 import { APIBase } from "../APIBase";
+import { ReplicaRouter } from "./ReplicaRouter";
 import { ClientError } from "../utils/ClientError";
 import {
   isKey,
@@ -7,8 +8,7 @@ import {
   isInteger,
   isString,
 } from "../utils/helper";
-
-const HELPER = (global as any).helper;
+import { ReadReplicaRoutingOptions } from "../utils/types";
 
 /**
  * The Cache manager provides simple key-value storage at a high-speed data storage layer (e.g., Redis) speeding up data set and get operations. The values stored can be a single JSON object, an array of objects or primitive values (e.g., numbes, text, boolean). Values can be stored with an optional time-to-live (TTL) to automatically expire entries.
@@ -38,6 +38,13 @@ export class CacheBase extends APIBase {
    */
   protected adapter: any;
 
+  /**
+   * Routes the cache operations to the read-write cache or to the read replicas
+   * @protected
+   * @type {ReplicaRouter}
+   */
+  protected router: ReplicaRouter;
+
   /**
    * Creates an instance of cache object to access and perform cache operations
    * @param {any} metaManager Provides access to the application the version configuration
@@ -65,6 +72,9 @@ export class CacheBase extends APIBase {
         `Cannot find the adapter of the cache named '${name}'`,
       );
     }
+
+    // Read replica routing options can be configured in metadata
+    this.router = new ReplicaRouter(this.adapter, this.meta.readReplicaRouting);
   }
 
   /**
@@ -74,18 +84,39 @@ export class CacheBase extends APIBase {
    * @internal
    */
   getAdapterObj(readOnly: boolean = false): any {
-    if (!readOnly) return this.adapter.adapter;
-    else {
-      // If the readonly adapter is not there then return the read-write adapter
-      if (this.adapter.slaves && this.adapter.slaves.length > 0) {
-        const slave =
-          this.adapter.slaves[
-            HELPER.randomInt(1, this.adapter.slaves.length) - 1
-          ];
-
-        return slave.adapter;
-      } else return this.adapter.adapter;
-    }
+    return this.router.getAdapter(readOnly);
+  }
+
+  /**
+   * Returns the read-write cache adapter to run a write operation and records the write in the active read-your-writes session
+   * @returns Cache adapter
+   */
+  protected getWriteAdapterObj(): any {
+    this.router.recordWrite();
+    return this.router.getAdapter(false);
+  }
+
+  /**
+   * Sets how the read operations that use the read replicas are routed to the read replicas of the cache
+   * @param {ReadReplicaRoutingOptions} options The routing options
+   * @throws Throws an exception if the routing options are not valid
+   */
+  setReadReplicaRouting(options: ReadReplicaRoutingOptions): void {
+    this.router.setOptions(options);
+  }
+
+  /**
+   * Runs the callback function in a read-your-writes session. After a write operation in the session, the reads of the session use the read-write cache instead of the read replicas for the specified number of seconds.
+   * @param {() => Promise<T>} callback The function to run in the session
+   * @param {number} pinSeconds The number of seconds the reads use the read-write cache after a write
+   * @returns Returns the value returned by the callback function
+   * @throws Throws the exception thrown by the callback function
+   */
+  async session<T>(
+    callback: () => Promise<T>,
+    pinSeconds: number = 5,
+  ): Promise<T> {
+    return await this.router.session(callback, pinSeconds);
   }
 
   /**
@@ -113,7 +144,9 @@ export class CacheBase extends APIBase {
         `Use read replica needs to be a boolean value`,
       );
 
-    return await this.getAdapterObj(useReadReplica).getKeyValue(this.meta, key);
+    return await this.router.execute(useReadReplica, (adapter) =>
+      adapter.getKeyValue(this.meta, key),
+    );
   }
 
   /**
@@ -138,7 +171,7 @@ export class CacheBase extends APIBase {
         `Time to live needs to be positive integer`,
       );
 
-    await this.getAdapterObj(false).setKeyValue(
+    await this.getWriteAdapterObj().setKeyValue(
       this.meta,
       key,
       value,
@@ -164,7 +197,7 @@ export class CacheBase extends APIBase {
         );
     }
 
-    await this.getAdapterObj(false).deleteKey(this.meta, keysVal);
+    await this.getWriteAdapterObj().deleteKey(this.meta, keysVal);
   }
 
   /**
@@ -200,7 +233,7 @@ export class CacheBase extends APIBase {
         `Time to live needs to be positive integer`,
       );
 
-    return await this.getAdapterObj(false).incrementKeyValue(
+    return await this.getWriteAdapterObj().incrementKeyValue(
       this.meta,
       key,
       increment,
@@ -241,7 +274,7 @@ export class CacheBase extends APIBase {
         `Time to live needs to be positive integer`,
       );
 
-    return await this.getAdapterObj(false).decrementKeyValue(
+    return await this.getWriteAdapterObj().decrementKeyValue(
       this.meta,
       key,
       decrement,
@@ -269,7 +302,7 @@ export class CacheBase extends APIBase {
         `Time to live needs to be positive integer`,
       );
 
-    return await this.getAdapterObj(false).expireKey(this.meta, key, ttl);
+    return await this.getWriteAdapterObj().expireKey(this.meta, key, ttl);
   }
 
   /**
@@ -313,10 +346,8 @@ export class CacheBase extends APIBase {
         `Use read replica needs to be a boolean value`,
       );
 
-    return await this.getAdapterObj(useReadReplica).listKeys(
-      this.meta,
-      pattern,
-      count,
+    return await this.router.execute(useReadReplica, (adapter) =>
+      adapter.listKeys(this.meta, pattern, count),
     );
   }
 
@@ -1,6 +1,7 @@
 import { DatabaseBase } from "./DatabaseBase";
 import { Model } from "../model/Model";
 import { DatabaseName, ModelList } from "../utils/specifics";
+import { ReadReplicaRoutingOptions } from "../utils/types";
 
 /**
  * The database object allows you perform CRUD operations on the specified database of your application. With Database object you can create new records/documents in your database table/collection, update or delete existing ones, run queries and paginate over large data sets.
@@ -69,6 +70,72 @@ export class Database<D extends DatabaseName> {
     await this.dbBase.rollbackTransaction();
   }
 
+  /**
+   * Runs the callback function within a database transaction. If the callback completes successfully the transaction is committed, if it throws an exception the transaction is rolled back and the exception is rethrown.
+   *
+   * Model operations executed within the callback are bound to the transaction through the async execution context, so operations of other concurrent requests are not affected. Calling `transaction` again within the callback (e.g., from a nested service call) creates a savepoint in the active transaction, and if the nested callback throws only its changes are rolled back.
+   *
+   * ```
+   * await agnost.db("myDB").transaction(async (tx) => {
+   *   const order = await tx.model("orders").createOne({ ... });
+   *   await tx.model("stocks").updateById(stockId, { quantity: { $inc: -1 } });
+   * });
+   * ```
+   *
+   * > *Please note that transactions are executed on the read-write database not on the read replicas.*
+   * @param {(tx: Database<D>) => Promise<T>} callback The function to run within the transaction, receives the database object as input
+   * @returns Returns the value returned by the callback function
+   * @throws Throws the exception thrown by the callback function, with the exception of a failed rollback attached as `rollbackError`, or an exception if the transaction cannot be started or committed
+   */
+  async transaction<T>(callback: (tx: Database<D>) => Promise<T>): Promise<T> {
+    return await this.dbBase.transaction(() => callback(this));
+  }
+
+  /**
+   * Sets how the read operations are routed to the read replicas of the database. Only the read operations that are run with the `useReadReplica` option are routed to the read replicas. Routing options can also be configured in the database metadata.
+   *
+   * ```
+   * agnost.db("myDB").setReadReplicaRouting({
+   *   policy: "least-outstanding",
+   *   fallbackToPrimary: true,
+   * });
+   * ```
+   *
+   * @param {ReadReplicaRoutingOptions} options The routing options
+   *   - policy?: The policy to select the read replica, one of `random` (default), `round-robin`, `weighted` and `least-outstanding`.
+   *   - weights?: The weights of the read replicas in their configuration order, used by the `weighted` policy.
+   *   - fallbackToPrimary?: Whether to retry the read operation on the read-write database when it fails on the read replica.
+   * @throws Throws an exception if the routing options are not valid
+   */
+  setReadReplicaRouting(options: ReadReplicaRoutingOptions): void {
+    this.dbBase.setReadReplicaRouting(options);
+  }
+
+  /**
+   * Runs the callback function in a read-your-writes session. After a write operation in the session, the reads of the session use the read-write database instead of the read replicas for the specified number of seconds, so that they see the changes of the session regardless of the replication lag.
+   *
+   * The session is bound to the async execution context, so the reads of other concurrent requests are not affected.
+   *
+   * ```
+   * await agnost.db("myDB").session(async (db) => {
+   *   await db.model("orders").updateById(orderId, { status: "paid" });
+   *   // Read from the read-write database since there is a recent write in the session
+   *   return await db.model("orders").findById(orderId, { useReadReplica: true });
+   * }, 10);
+   * ```
+   *
+   * @param {(db: Database<D>) => Promise<T>} callback The function to run in the session, receives the database object as input
+   * @param {number} pinSeconds The number of seconds the reads use the read-write database after a write, by default 5 seconds
+   * @returns Returns the value returned by the callback function
+   * @throws Throws the exception thrown by the callback function
+   */
+  async session<T>(
+    callback: (db: Database<D>) => Promise<T>,
+    pinSeconds?: number,
+  ): Promise<T> {
+    return await this.dbBase.session(() => callback(this), pinSeconds);
+  }
+
   /**
    * Returns the database client that you can use the perform advanced database operations. A client instance for the the following NPM modules will be returned.
    *
@@ -1,11 +1,56 @@
+import { AsyncLocalStorage } from "async_hooks";
 import { APIBase } from "../APIBase";
 import { ModelBase } from "../model/ModelBase";
+import { ReplicaRouter } from "./ReplicaRouter";
 import { ClientError } from "../utils/ClientError";
-import { SQLdatabaseTypes } from "../utils/types";
+import {
+  QueryExplanation,
+  ReadReplicaRoutingOptions,
+  SQLdatabaseTypes,
+} from "../utils/types";
 
-const HELPER = (global as any).helper;
 const META = (global as any).META;
 
+/**
+ * The active transaction of a database in the current async execution context
+ */
+interface TransactionContext {
+  /**
+   * The transaction object returned by the database adapter
+   */
+  transaction: any;
+  /**
+   * The savepoint counter of the transaction, used to generate unique savepoint names for nested transactions
+   */
+  savepoints: { count: number };
+}
+
+/**
+ * Keeps the active transactions of the databases (keyed by database name) in the async execution context, so that model operations run by concurrent requests are bound to their own transactions
+ */
+const transactionStorage = new AsyncLocalStorage<
+  Map<string, TransactionContext>
+>();
+
+/**
+ * The explain mode of the current async execution context
+ */
+export interface ExplainContext {
+  /**
+   * Whether to fetch the execution plans of the compiled queries from the database
+   */
+  executionPlan: boolean;
+  /**
+   * The queries compiled by the model operations
+   */
+  queries: QueryExplanation[];
+}
+
+/**
+ * Keeps the explain mode of the async execution context, so that only the model operations run by the explaining call are compiled instead of being executed
+ */
+const explainStorage = new AsyncLocalStorage<ExplainContext>();
+
 /**
  * The actual Database class which is used to originate the CRUD operations.
  *
@@ -48,6 +93,13 @@ export class DatabaseBase extends APIBase {
    */
   protected subModels: Map<string, ModelBase>;
 
+  /**
+   * Routes the database operations to the read-write database or to the read replicas
+   * @protected
+   * @type {ReplicaRouter}
+   */
+  protected router: ReplicaRouter;
+
   /**
    * Creates an instance of database object to perform CRUD operations on the stored data.
    * @param {any} metaManager Provides access to the application the version configuration
@@ -78,6 +130,9 @@ export class DatabaseBase extends APIBase {
       );
     }
 
+    // Read replica routing options can be configured in metadata
+    this.router = new ReplicaRouter(this.adapter, this.meta.readReplicaRouting);
+
     // We have the db adapter and the metadata at this point. Build the model hierarchy of the database
     const { models } = this.meta;
     // Process the top level models, when top level models are being processed, we will also build the child models
@@ -133,18 +188,59 @@ export class DatabaseBase extends APIBase {
    * @internal
    */
   getAdapterObj(readOnly: boolean = false): any {
-    if (!readOnly) return this.adapter.adapter;
-    else {
-      // If the readonly adapter is not there then return the read-write adapter
-      if (this.adapter.slaves && this.adapter.slaves.length > 0) {
-        const slave =
-          this.adapter.slaves[
-            HELPER.randomInt(1, this.adapter.slaves.length) - 1
-          ];
-
-        return slave.adapter;
-      } else return this.adapter.adapter;
-    }
+    // Transactions are executed on the read-write database, reads within a transaction need to see its changes
+    if (readOnly && this.getTransaction()) return this.adapter.adapter;
+
+    return this.router.getAdapter(readOnly);
+  }
+
+  /**
+   * Records the write operation in the active read-your-writes session of the database, so that the following reads of the session are served by the read-write database
+   * @internal
+   */
+  recordWrite(): void {
+    this.router.recordWrite();
+  }
+
+  /**
+   * Runs the operation on the database adapter selected by the read replica routing policy
+   * @param {boolean} readOnly Whether the operation is a read operation that can be served by a read replica
+   * @param {(adapter: any) => Promise<T>} operation The operation to run, receives the database adapter as input
+   * @returns Returns the result of the operation
+   * @internal
+   */
+  async runOnAdapter<T>(
+    readOnly: boolean,
+    operation: (adapter: any) => Promise<T>,
+  ): Promise<T> {
+    // Transactions are executed on the read-write database, reads within a transaction need to see its changes
+    if (readOnly && this.getTransaction())
+      return await operation(this.adapter.adapter);
+
+    return await this.router.execute(readOnly, operation);
+  }
+
+  /**
+   * Sets how the read operations that use the read replicas are routed to the read replicas of the database
+   * @param {ReadReplicaRoutingOptions} options The routing options
+   * @throws Throws an exception if the routing options are not valid
+   */
+  setReadReplicaRouting(options: ReadReplicaRoutingOptions): void {
+    this.router.setOptions(options);
+  }
+
+  /**
+   * Runs the callback function in a read-your-writes session. After a write operation in the session, the reads of the session use the read-write database instead of the read replicas for the specified number of seconds.
+   * @param {() => Promise<T>} callback The function to run in the session
+   * @param {number} pinSeconds The number of seconds the reads use the read-write database after a write
+   * @returns Returns the value returned by the callback function
+   * @throws Throws the exception thrown by the callback function
+   */
+  async session<T>(
+    callback: () => Promise<T>,
+    pinSeconds: number = 5,
+  ): Promise<T> {
+    return await this.router.session(callback, pinSeconds);
   }
 
   /**
@@ -246,6 +342,111 @@ export class DatabaseBase extends APIBase {
     await this.getAdapterObj(false).rollbackTransaction(this.meta);
   }
 
+  /**
+   * Runs the callback function within a transaction. If the callback completes successfully the transaction is committed, if it throws an exception the transaction is rolled back and the exception is rethrown. If there is already an active transaction in the current async execution context, a savepoint is created in the active transaction instead, and only the changes since the savepoint are rolled back on failure.
+   * > *Please note that transactions are executed on the read-write database not on the read replicas.*
+   * @param {() => Promise<T>} callback The function to run within the transaction
+   * @returns Returns the value returned by the callback function
+   * @throws Throws the exception thrown by the callback function, with the exception of a failed rollback attached as `rollbackError`, or an exception if the transaction cannot be started or committed
+   */
+  async transaction<T>(callback: () => Promise<T>): Promise<T> {
+    const adapter = this.getAdapterObj(false);
+    const contexts = transactionStorage.getStore();
+    const active = contexts?.get(this.getName());
+
+    // Nested transactions are run within a savepoint of the active transaction
+    if (active) {
+      active.savepoints.count++;
+      const savepoint = `agnost_sp_${active.savepoints.count}`;
+      await adapter.createSavepoint(this.meta, active.transaction, savepoint);
+
+      let output: T;
+      try {
+        output = await callback();
+      } catch (err) {
+        await this.rollbackAfterError(err, () =>
+          adapter.rollbackToSavepoint(this.meta, active.transaction, savepoint),
+        );
+        throw err;
+      }
+
+      await adapter.releaseSavepoint(this.meta, active.transaction, savepoint);
+      return output;
+    }
+
+    const transaction = await adapter.beginTransaction(this.meta);
+    // Other databases may also have active transactions in the current context, keep them as is
+    const store = new Map(contexts ?? []);
+    store.set(this.getName(), { transaction, savepoints: { count: 0 } });
+
+    let result: T;
+    try {
+      result = await transactionStorage.run(store, callback);
+    } catch (err) {
+      await this.rollbackAfterError(err, () =>
+        adapter.rollbackTransaction(this.meta, transaction),
+      );
+      throw err;
+    }
+
+    await adapter.commitTransaction(this.meta, transaction);
+    return result;
+  }
+
+  /**
+   * Rolls back the transaction or savepoint after the callback of a transaction fails. If the rollback also fails, its exception is attached to the exception of the callback as `rollbackError` so that the actual cause of the failure is not lost.
+   * @param {any} error The exception thrown by the callback function
+   * @param {() => Promise<any>} rollback The function that performs the rollback
+   */
+  protected async rollbackAfterError(
+    error: any,
+    rollback: () => Promise<any>,
+  ): Promise<void> {
+    try {
+      await rollback();
+    } catch (rollbackError) {
+      if (error !== null && typeof error === "object")
+        error.rollbackError = rollbackError;
+    }
+  }
+
+  /**
+   * Returns the active transaction of the database in the current async execution context
+   * @returns The transaction object of the database adapter, or null if there is no active transaction
+   * @internal
+   */
+  getTransaction(): any {
+    return (
+      transactionStorage.getStore()?.get(this.getName())?.transaction ?? null
+    );
+  }
+
+  /**
+   * Runs the callback function in explain mode. The queries of the model operations executed within the callback are compiled by the database adapter but they are not executed.
+   * @param {() => Promise<any>} callback The function that runs the model operations to explain
+   * @param {boolean} executionPlan Whether to fetch the execution plans of the queries from the database
+   * @returns The compiled queries of the model operations
+   * @internal
+   */
+  async explain(
+    callback: () => Promise<any>,
+    executionPlan: boolean,
+  ): Promise<QueryExplanation[]> {
+    const context: ExplainContext = { executionPlan, queries: [] };
+    await explainStorage.run(context, callback);
+
+    return context.queries;
+  }
+
+  /**
+   * Returns the explain mode of the current async execution context
+   * @returns The explain context, or null if the model operations are executed normally
+   * @internal
+   */
+  getExplainContext(): ExplainContext | null {
+    return explainStorage.getStore() ?? null;
+  }
+
   /**
    * Returns the database client that you can use the perform advanced database operations. A client instance for the the following NPM modules will be returned.
    *
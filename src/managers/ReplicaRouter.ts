@@ -0,0 +1,286 @@
+import { AsyncLocalStorage } from "async_hooks";
+import { ClientError } from "../utils/ClientError";
+import {
+  isArray,
+  isBoolean,
+  isObject,
+  isPositiveInteger,
+} from "../utils/helper";
+import { ReadReplicaRoutingOptions } from "../utils/types";
+
+const HELPER = (global as any).helper;
+
+/**
+ * The read-your-writes session of a resource in the current async execution context
+ */
+interface SessionContext {
+  /**
+   * The number of seconds the reads are served by the read-write adapter after a write
+   */
+  pinSeconds: number;
+  /**
+   * The time of the last write in milliseconds, null if there are no writes in the session yet
+   */
+  lastWrite: number | null;
+}
+
+/**
+ * Keeps the read-your-writes sessions of the routers in the async execution context, so that the writes of a request only affect the reads of the same request
+ */
+const sessionStorage = new AsyncLocalStorage<
+  Map<ReplicaRouter, SessionContext>
+>();
+
+const RoutingPolicies = [
+  "random",
+  "round-robin",
+  "weighted",
+  "least-outstanding",
+];
+
+/**
+ * Routes the operations of a resource (e.g., database, cache) either to its read-write adapter or to one of its read replica adapters based on the routing policy.
+ *
+ * @export
+ * @class ReplicaRouter
+ */
+export class ReplicaRouter {
+  /**
+   * The resource adapter, keeps the read-write adapter and the read replica (slave) adapters
+   * @protected
+   * @type {any}
+   */
+  protected adapter: any;
+
+  /**
+   * The policy to select the read replica
+   * @protected
+   * @type {string}
+   */
+  protected policy: string;
+
+  /**
+   * The weights of the read replicas used by the weighted policy, null to use the weights of the read replica adapters
+   * @protected
+   * @type {number[] | null}
+   */
+  protected weights: number[] | null;
+
+  /**
+   * Whether to retry the failed reads on the read-write adapter
+   * @protected
+   * @type {boolean}
+   */
+  protected fallbackToPrimary: boolean;
+
+  /**
+   * The number of read replica selections, used by the round-robin policy
+   * @protected
+   * @type {number}
+   */
+  protected counter: number;
+
+  /**
+   * The number of read operations in progress on each read replica, used by the least-outstanding policy
+   * @protected
+   * @type {number[]}
+   */
+  protected outstanding: number[];
+
+  /**
+   * Creates an instance of the replica router
+   * @param {any} adapter The resource adapter
+   * @param {ReadReplicaRoutingOptions | null} options The routing options, if not provided read replicas are selected randomly
+   * @throws Throws an exception if the routing options are not valid
+   */
+  constructor(adapter: any, options?: ReadReplicaRoutingOptions | null) {
+    this.adapter = adapter;
+    this.policy = "random";
+    this.weights = null;
+    this.fallbackToPrimary = false;
+    this.counter = 0;
+    this.outstanding = this.getReplicas().map(() => 0);
+
+    if (options) this.setOptions(options);
+  }
+
+  /**
+   * Returns the read replica adapters of the resource
+   * @returns The read replica adapters
+   */
+  getReplicas(): any[] {
+    return this.adapter.slaves ?? [];
+  }
+
+  /**
+   * Sets the routing options
+   * @param {ReadReplicaRoutingOptions} options The routing options
+   * @throws Throws an exception if the routing options are not valid
+   */
+  setOptions(options: ReadReplicaRoutingOptions) {
+    if (!isObject(options))
+      throw new ClientError(
+        "invalid_parameter",
+        `Read replica routing options need to be an object`,
+      );
+
+    const policy = options.policy ?? "random";
+    if (!RoutingPolicies.includes(policy))
+      throw new ClientError(
+        "invalid_parameter",
+        `'${policy}' is not a valid read replica routing policy. Valid policies are ${RoutingPolicies.join(
+          ", ",
+        )}.`,
+      );
+
+    const fallbackToPrimary = options.fallbackToPrimary ?? false;
+    if (!isBoolean(fallbackToPrimary))
+      throw new ClientError(
+        "invalid_parameter",
+        `Fallback to primary needs to be a boolean value`,
+      );
+
+    const weights = options.weights ?? null;
+    if (weights) {
+      if (
+        !isArray(weights) ||
+        weights.length !== this.getReplicas().length ||
+        weights.some((weight) => typeof weight !== "number" || weight < 0) ||
+        !weights.some((weight) => weight > 0)
+      )
+        throw new ClientError(
+          "invalid_parameter",
+          `Read replica weights need to be an array of non-negative numbers, one for each read replica, with at least one positive weight`,
+        );
+    }
+
+    this.policy = policy;
+    this.weights = weights;
+    this.fallbackToPrimary = fallbackToPrimary;
+  }
+
+  /**
+   * Returns the adapter to run an operation on. Write operations and the reads pinned by a read-your-writes session use the read-write adapter. Write operations need to be recorded separately with `recordWrite`, since the read-write adapter is also used for operations that do not modify data.
+   * @param {boolean} readOnly Whether the operation is a read operation that can be served by a read replica
+   * @returns The adapter
+   */
+  getAdapter(readOnly: boolean): any {
+    if (!readOnly) return this.adapter.adapter;
+
+    const index = this.selectReplica();
+    return index < 0 ? this.adapter.adapter : this.getReplicas()[index].adapter;
+  }
+
+  /**
+   * Runs the operation on the adapter selected by the routing policy. Keeps track of the read operations in progress on each read replica and if enabled, retries the failed reads on the read-write adapter.
+   * @param {boolean} readOnly Whether the operation is a read operation that can be served by a read replica
+   * @param {(adapter: any) => Promise<T>} operation The operation to run, receives the selected adapter as input
+   * @returns Returns the result of the operation
+   * @throws Throws the exception thrown by the operation
+   */
+  async execute<T>(
+    readOnly: boolean,
+    operation: (adapter: any) => Promise<T>,
+  ): Promise<T> {
+    if (!readOnly) return await operation(this.getAdapter(false));
+
+    const index = this.selectReplica();
+    if (index < 0) return await operation(this.adapter.adapter);
+
+    let result: T;
+    this.outstanding[index]++;
+    try {
+      result = await operation(this.getReplicas()[index].adapter);
+    } catch (err) {
+      this.outstanding[index]--;
+      if (!this.fallbackToPrimary) throw err;
+
+      // The read replica cannot serve the read, run it on the read-write adapter instead
+      return await operation(this.adapter.adapter);
+    }
+
+    this.outstanding[index]--;
+    return result;
+  }
+
+  /**
+   * Runs the callback function in a read-your-writes session. After a write operation in the session, the reads of the session are served by the read-write adapter for the specified number of seconds, so that they are not affected by the replication lag.
+   * @param {() => Promise<T>} callback The function to run in the session
+   * @param {number} pinSeconds The number of seconds the reads are served by the read-write adapter after a write
+   * @returns Returns the value returned by the callback function
+   * @throws Throws the exception thrown by the callback function
+   */
+  async session<T>(callback: () => Promise<T>, pinSeconds: number): Promise<T> {
+    if (!isPositiveInteger(pinSeconds))
+      throw new ClientError(
+        "invalid_parameter",
+        `The number of seconds to pin the reads to the read-write adapter needs to be a positive integer`,
+      );
+
+    const sessions = sessionStorage.getStore();
+    // Nested sessions join the active session of the resource
+    if (sessions?.has(this)) return await callback();
+
+    // Other resources may also have active sessions in the current context, keep them as is
+    const store = new Map(sessions ?? []);
+    store.set(this, { pinSeconds, lastWrite: null });
+
+    return await sessionStorage.run(store, callback);
+  }
+
+  /**
+   * Records the time of the write operation in the active read-your-writes session, if there is any
+   */
+  recordWrite() {
+    const session = sessionStorage.getStore()?.get(this);
+    if (session) session.lastWrite = Date.now();
+  }
+
+  /**
+   * Checks whether the reads are pinned to the read-write adapter by a recent write in the active read-your-writes session
+   * @returns True if the reads need to be served by the read-write adapter
+   */
+  protected isPinnedToPrimary(): boolean {
+    const session = sessionStorage.getStore()?.get(this);
+    if (!session || session.lastWrite === null) return false;
+
+    return Date.now() - session.lastWrite < session.pinSeconds * 1000;
+  }
+
+  /**
+   * Selects the read replica to serve the read operation based on the routing policy
+   * @returns The index of the selected read replica, -1 if the read needs to be served by the read-write adapter
+   */
+  protected selectReplica(): number {
+    const replicas = this.getReplicas();
+    if (replicas.length === 0 || this.isPinnedToPrimary()) return -1;
+
+    switch (this.policy) {
+      case "round-robin":
+        return this.counter++ % replicas.length;
+      case "weighted": {
+        const weights =
+          this.weights ?? replicas.map((replica) => replica.weight ?? 1);
+        const total = weights.reduce((sum, weight) => sum + weight, 0);
+        // Pick a random point in the total weight and find the replica that covers it
+        let point = Math.random() * total;
+        for (let i = 0; i < weights.length; i++) {
+          point -= weights[i];
+          if (point < 0) return i;
+        }
+
+        return weights.length - 1;
+      }
+      case "least-outstanding": {
+        let selected = 0;
+        for (let i = 1; i < replicas.length; i++) {
+          if (this.outstanding[i] < this.outstanding[selected]) selected = i;
+        }
+
+        return selected;
+      }
+      default:
+        return HELPER.randomInt(1, replicas.length) - 1;
+    }
+  }
+}
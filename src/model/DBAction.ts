@@ -1,4 +1,5 @@
 import { ModelBase } from "./ModelBase";
+import { Field } from "./Field";
 import { JoinField } from "./field/JoinField";
 import { ArrayFilterField } from "./field/ArrayFilterField";
 import { Expression } from "../expression/Expression";
@@ -6,7 +7,13 @@ import { StaticValue } from "../expression/values/StaticValue";
 import { FieldValue } from "../expression/values/FieldValue";
 import { ArrayFilterFieldValue } from "../expression/values/ArrayFilterFieldValue";
 import { ArrayValue } from "../expression/values/ArrayValue";
+import { DateBucketValue } from "../expression/values/DateBucketValue";
+import { OuterFieldValue } from "../expression/values/OuterFieldValue";
+import { SubQueryValue } from "../expression/values/SubQueryValue";
 import { FunctionManager } from "../expression/Factory";
+import { QueryParameters } from "../expression/QueryParameters";
+import { Computation } from "../expression/Computation";
+import { TextSearch, SearchField } from "../expression/TextSearch";
 
 import {
   ActionDefinition,
@@ -15,7 +22,13 @@ import {
   DBTYPE,
   ConditionType,
   ComputeOperators,
+  NumericComputeOperators,
+  UnsupportedComputeOperators,
+  DateBucketUnits,
+  SearchMode,
+  SearchModes,
   ReturnType,
+  SQLdatabaseTypes,
 } from "../utils/types";
 import {
   isObject,
@@ -25,9 +38,29 @@ import {
   isPositiveInteger,
   isBoolean,
   isString,
+  valueExists,
+  isValidTimezone,
+  isNullSortedLast,
 } from "../utils/helper";
 import { ClientError } from "../utils/ClientError";
 
+const HELPER = (global as any).helper;
+
+// The methods that modify the records of the database
+const WriteMethods = [
+  "createOne",
+  "createMany",
+  "upsertOne",
+  "upsertMany",
+  "bulkWrite",
+  "deleteById",
+  "deleteOne",
+  "deleteMany",
+  "updateById",
+  "updateOne",
+  "updateMany",
+];
+
 /**
  * The database action is primarily used to build database queries or run CRUD operations on a model (i.e., table, collection) of your application.
  *
@@ -49,16 +82,41 @@ export class DBAction {
    */
   protected definition: ActionDefinition;
 
+  /**
+   * The model of the outer query if the action defines a subquery. The where condition of the subquery can reference the fields of the outer query model.
+   * @protected
+   * @type {ModelBase | null}
+   */
+  protected outerModel: ModelBase | null;
+
+  /**
+   * The outer query model fields referenced in the where condition of the subquery
+   * @protected
+   * @type {OuterFieldValue[]}
+   */
+  protected outerFields: OuterFieldValue[];
+
+  /**
+   * Collects the subqueries while the where condition is being processed, null if subqueries are not allowed in the processed condition
+   * @protected
+   * @type {SubQueryValue[] | null}
+   */
+  protected subQueries: SubQueryValue[] | null;
+
   /**
    * Creates an instance of DBAction object.
    * @param {ModelBase} model Reference to the {@link ModelBase} object that this database action will be exectued on.
    */
   constructor(model: ModelBase) {
     this.model = model;
+    this.outerModel = null;
+    this.outerFields = [];
+    this.subQueries = null;
     this.definition = {
       method: null,
       createData: null,
       updateData: null,
+      conflictFields: null,
       select: null,
       omit: null,
       id: null,
@@ -67,6 +125,7 @@ export class DBAction {
       lookup: null,
       join: null,
       where: null,
+      subQueries: null,
       sort: null,
       arrayFilters: null,
       useReadReplica: false,
@@ -75,8 +134,15 @@ export class DBAction {
       having: null,
       searchField: null,
       searchText: null,
+      textSearch: null,
       baseModel: null,
       returnCount: false,
+      distinctField: null,
+      cursor: null,
+      transaction: null,
+      parameters: null,
+      operations: null,
+      ordered: true,
     };
   }
 
@@ -87,6 +153,13 @@ export class DBAction {
     return this.definition.createData;
   }
 
+  /**
+   * Returns the paging direction of the cursor of the action definition
+   */
+  getCursor(): "next" | "prev" | null {
+    return this.definition.cursor;
+  }
+
   /**
    * Returns the where field of the action definition
    */
@@ -101,6 +174,20 @@ export class DBAction {
     return this.definition.sort;
   }
 
+  /**
+   * Returns the groupBy field of the action definition
+   */
+  getGroupBy(): any[] {
+    return this.definition.groupBy ?? [];
+  }
+
+  /**
+   * Returns the computations field of the action definition
+   */
+  getComputations(): any[] {
+    return this.definition.computations ?? [];
+  }
+
   /**
    * Sets the baseModel part of the db action definition
    * @param {string} searchText The search string
@@ -165,38 +252,81 @@ export class DBAction {
   }
 
   /**
-   * Sets the searchText part of the db action definition
-   * @param {string} searchText The search string
+   * Sets the search field part of the db action definition
+   * @param {string | string[] | object} searchField The name of the searched field, the list of searched field names or the searched field names and their weights
    */
-  setSearchField(searchField: string) {
-    if (typeof searchField === "object") {
+  setSearchField(searchField: any) {
+    let entries: [any, any][] = [];
+    if (isString(searchField)) entries = [[searchField, 1]];
+    else if (isArray(searchField))
+      entries = searchField.map((entry: any) => [entry, 1]);
+    else if (isObject(searchField)) entries = Object.entries(searchField);
+
+    if (entries.length === 0) {
       throw new ClientError(
         "invalid_parameter",
-        `The 'searchText' method expects the search field name as string paramter to query database records`,
+        `The 'searchText' method expects the search field name, a list of search field names or an object of the search field names and their weights, e.g., { title: 3, body: 1 }, to query database records`,
       );
     }
 
-    const fieldObj = this.getFieldObject(searchField, null);
-    if (!fieldObj) {
+    const fields: SearchField[] = [];
+    for (const [fieldName, weight] of entries) {
+      const fieldObj = isString(fieldName)
+        ? this.getFieldObject(fieldName, null)
+        : null;
+      if (!fieldObj) {
+        throw new ClientError(
+          "invalid_field",
+          `'${fieldName}' is not a valid field that can be used to perform full-text search.`,
+        );
+      } else if (!fieldObj.field.isSearchable()) {
+        throw new ClientError(
+          "invalid_field",
+          `'${fieldName}' is not a valid searchable field that has a full-text index.`,
+        );
+      }
+
+      if (typeof weight !== "number" || !isFinite(weight) || weight <= 0)
+        throw new ClientError(
+          "invalid_value",
+          `The weight of the search field '${fieldName}' needs to be a positive number.`,
+        );
+
+      if (fields.some((entry) => entry.field === fieldObj.field))
+        throw new ClientError(
+          "invalid_field",
+          `Search field '${fieldName}' is specified more than once.`,
+        );
+
+      // The first field object is kept as the search field of the action
+      if (fields.length === 0) this.definition.searchField = fieldObj;
+      fields.push({ field: fieldObj.field, weight });
+    }
+
+    const weights = fields
+      .map((entry) => entry.weight)
+      .filter((weight, index, list) => list.indexOf(weight) === index);
+    const dbType = this.model.getDb().getType();
+    if (dbType === DBTYPE.MONGODB && weights.length > 1)
       throw new ClientError(
-        "invalid_field",
-        `'${searchField}' is not a valid field that can be used to perform full-text search.`,
+        "unsupported_search_option",
+        `The field weights of MongoDB text searches are defined by the text index of the collection, search fields cannot have different weights.`,
       );
-    } else if (!fieldObj.field.isSearchable()) {
+    else if (dbType === DBTYPE.POSTGRESQL && weights.length > 4)
       throw new ClientError(
-        "invalid_field",
-        `'${searchField}' is not a valid searchable field that has a full-text index.`,
+        "unsupported_search_option",
+        `PostgreSQL text searches support at most four distinct field weights.`,
       );
-    }
 
-    this.definition.searchField = fieldObj;
+    this.definition.textSearch = new TextSearch(fields);
   }
 
   /**
-   * Sets the searchText part of the db action definition
+   * Sets the searchText part of the db action definition, needs to be called after the search field is set
    * @param {string} searchText The search string
+   * @param {SearchMode} mode The search mode which specifies how the search string is interpreted, by default 'any'
    */
-  setSearchText(searchText: string) {
+  setSearchText(searchText: string, mode?: SearchMode | null) {
     if (typeof searchText === "object") {
       throw new ClientError(
         "invalid_parameter",
@@ -204,7 +334,108 @@ export class DBAction {
       );
     }
 
+    if (valueExists(mode) && !SearchModes.includes(mode as string))
+      throw new ClientError(
+        "invalid_value",
+        `'${mode}' is not a valid search mode. The search mode can be one of the following: ${SearchModes.map(
+          (entry) => `'${entry}'`,
+        ).join(", ")}.`,
+      );
+
     this.definition.searchText = searchText;
+    if (this.definition.textSearch) {
+      this.definition.textSearch.text = searchText;
+      this.definition.textSearch.mode = mode ?? "any";
+    }
+  }
+
+  /**
+   * Sets the relevance scoring and highlighting options of the text search, needs to be called after the search field and search text are set
+   * @param {boolean} returnScore Whether to return the relevance score of the matched records
+   * @param {boolean} sortByScore Whether to sort the matched records by their relevance score
+   * @param {any} highlight The highlighting options, namely the highlighted field, the maximum number of fragments and the highlight tags
+   */
+  setSearchOptions(
+    returnScore: boolean | null | undefined,
+    sortByScore: boolean | null | undefined,
+    highlight: any | null | undefined,
+  ) {
+    if (valueExists(returnScore) && !isBoolean(returnScore))
+      throw new ClientError(
+        "invalid_value",
+        `The 'returnScore' option needs to be a boolean value`,
+      );
+
+    if (valueExists(sortByScore) && !isBoolean(sortByScore))
+      throw new ClientError(
+        "invalid_value",
+        `The 'sortByScore' option needs to be a boolean value`,
+      );
+
+    let textHighlight = null;
+    if (valueExists(highlight)) {
+      if (!isObject(highlight) || !isString(highlight.field))
+        throw new ClientError(
+          "invalid_parameter",
+          `The 'highlight' option needs to be an object with a 'field' parameter specifying the name of the text or rich-text field to highlight`,
+        );
+
+      const field = this.model.getField(highlight.field);
+      if (!field || !["text", "rich-text"].includes(field.getType()))
+        throw new ClientError(
+          "invalid_field",
+          `'${
+            highlight.field
+          }' is not a text or rich-text field of model '${this.model.getName()}' that can be highlighted.`,
+        );
+
+      if (
+        valueExists(highlight.maxFragments) &&
+        !isPositiveInteger(highlight.maxFragments)
+      )
+        throw new ClientError(
+          "invalid_value",
+          `The 'maxFragments' parameter of the 'highlight' option needs to be a positive integer`,
+        );
+
+      const tags = highlight.tags ?? ["<b>", "</b>"];
+      // The tags are passed in the highlight options list of PostgreSQL, double quotes, commas and equal signs would alter the options
+      if (
+        !isArray(tags) ||
+        tags.length !== 2 ||
+        !tags.every((tag: any) => isString(tag) && !/[",=]/.test(tag))
+      )
+        throw new ClientError(
+          "invalid_value",
+          `The 'tags' parameter of the 'highlight' option needs to be an array of the opening and closing tag strings, e.g., ['<b>', '</b>'], which do not include double quotes, commas or equal signs`,
+        );
+
+      textHighlight = {
+        field,
+        maxFragments: highlight.maxFragments ?? null,
+        tags,
+      };
+    }
+
+    const textSearch = this.definition.textSearch as TextSearch;
+    const dbType = this.model.getDb().getType();
+    if ((returnScore || sortByScore) && !textSearch.hasScore(dbType))
+      throw new ClientError(
+        "unsupported_search_option",
+        `The relevance score of '${textSearch.mode}' mode text searches is not available in ${dbType} databases, 'returnScore' and 'sortByScore' options cannot be used.`,
+      );
+
+    textSearch.returnScore = returnScore === true;
+    textSearch.sortByScore = sortByScore === true;
+    textSearch.highlight = textHighlight;
+  }
+
+  /**
+   * Returns the text search part of the db action definition
+   * @returns The text search definition
+   */
+  getTextSearch(): TextSearch | null {
+    return this.definition.textSearch;
   }
 
   /**
@@ -220,8 +451,13 @@ export class DBAction {
   ) {
     if (!where) return;
 
+    // Subqueries can only be used in the where condition of the action
+    this.subQueries = [];
     const expression = this.processWhereCondition(where, join, expType);
     this.definition.where = expression;
+    this.definition.subQueries =
+      this.subQueries.length > 0 ? this.subQueries : null;
+    this.subQueries = null;
   }
 
   /**
@@ -339,9 +575,9 @@ export class DBAction {
           joinModel: this.model,
         };
       else {
-        // Check if this is directly the joined model
+        // Check if this is directly the joined model, reference field lookups defined as objects do not have a joined model name
         const joinDefinition = this.getJoinDefinition(fieldName, join);
-        if (joinDefinition) {
+        if (joinDefinition?.from) {
           const joinedModel = this.model.getDb().model(joinDefinition.from);
           if (joinedModel) {
             return {
@@ -386,7 +622,7 @@ export class DBAction {
         } else if (i === 0) {
           // We do not have a matching field to the path fragment. Check to see if the field is a joined model field
           const joinDefinition = this.getJoinDefinition(element, join);
-          if (joinDefinition) {
+          if (joinDefinition?.from) {
             const joinedModel = this.model.getDb().model(joinDefinition.from);
             if (joinedModel) {
               model = joinedModel;
@@ -577,10 +813,17 @@ export class DBAction {
     type: string,
   ) {
     const fieldDef = this.getFieldObject(refFieldName, join);
+    // A model name looks up the records of the model referencing the base model (reverse relation)
+    if (!fieldDef && type === "lookup" && this.getModelMeta(refFieldName)) {
+      const joinDef = { as: refFieldName, from: refFieldName };
+      this.processObjectBasedJoin(joinDef, [joinDef], joinList, type);
+      return;
+    }
+
     if (!fieldDef || fieldDef.field.getType() !== "reference")
       throw new ClientError(
         "invalid_join_or_lookup",
-        `'${refFieldName}' is not a valid reference field to join/lookup. You can either join/lookup reference fields or define join/lookup queries.`,
+        `'${refFieldName}' is not a valid reference field to join/lookup. You can either join/lookup reference fields, the models referencing the base model or define join/lookup queries.`,
       );
 
     const joinModel = this.model
@@ -622,6 +865,61 @@ export class DBAction {
     joinList: any[],
     type: string,
   ) {
+    if (type === "join" && valueExists(joinDef.lookup))
+      throw new ClientError(
+        "invalid_join_or_lookup",
+        `Nested lookups can only be defined in lookup definitions, join definitions cannot have a 'lookup' parameter.`,
+      );
+
+    // A lookup of a reference field can be defined as an object to specify the options of the looked up model
+    if (
+      type === "lookup" &&
+      isString(joinDef.as) &&
+      !valueExists(joinDef.from) &&
+      !valueExists(joinDef.where)
+    ) {
+      if (
+        valueExists(joinDef.sort) ||
+        valueExists(joinDef.skip) ||
+        valueExists(joinDef.limit)
+      )
+        throw new ClientError(
+          "invalid_join_or_lookup",
+          `The 'sort', 'skip' and 'limit' parameters can only be used in lookup definitions with 'from' and 'where' parameters. Reference field '${joinDef.as}' looks up a single object.`,
+        );
+
+      if (valueExists(joinDef.countOnly))
+        throw new ClientError(
+          "invalid_join_or_lookup",
+          `The 'countOnly' parameter can only be used in lookups returning a list of objects. Reference field '${joinDef.as}' looks up a single object.`,
+        );
+
+      this.processStringBasedJoin(joinDef.as, join, joinList, type);
+      this.processLookupOptions(joinDef, joinList[joinList.length - 1]);
+      return;
+    }
+
+    // The join condition of reverse and many-to-many relation lookups is defined by the reference fields
+    if (
+      type === "lookup" &&
+      isString(joinDef.from) &&
+      !valueExists(joinDef.where)
+    ) {
+      if (valueExists(joinDef.through)) {
+        this.processThroughLookup(joinDef, joinList);
+        return;
+      }
+
+      joinDef = {
+        ...joinDef,
+        where: this.getReverseLookupCondition(joinDef),
+      };
+    } else if (valueExists(joinDef.through))
+      throw new ClientError(
+        "invalid_join_or_lookup",
+        `The 'through' parameter can only be used in lookup definitions without a 'where' parameter.`,
+      );
+
     if (!joinDef.as || !joinDef.from || !joinDef.where)
       throw new ClientError(
         "invalid_join_or_lookup",
@@ -705,130 +1003,382 @@ export class DBAction {
       );
 
     // This part is only valid for lookup definitions
+    if (type === "lookup") this.processLookupPaging(joinDef, fieldDef);
+
+    const lookupDef = {
+      ...fieldDef,
+      where: expression,
+      as: joinDef.as,
+      from: joinDef.from,
+      type,
+    };
+
     if (type === "lookup") {
-      fieldDef.skip = null;
-      fieldDef.limit = null;
-      fieldDef.sort = null;
+      this.processLookupCount(joinDef, lookupDef);
+      this.processLookupOptions(joinDef, lookupDef);
+    }
 
-      if (!(joinDef.skip === null || joinDef.skip === undefined)) {
-        if (!isInteger(joinDef.skip) || joinDef.skip < 0)
-          throw new ClientError(
-            "invalid_value",
-            `Skip count can be zero or positive integer in lookup definition with alias '${joinDef.as}'`,
-          );
+    joinList.push(lookupDef);
+  }
 
-        fieldDef.skip = joinDef.skip;
-      }
+  /**
+   * Processes the sorting order, skip and limit parameters of a lookup definition which returns a list of objects
+   * @param {object} joinDef The lookup defintion object
+   * @param {object} fieldDef The processed lookup definition entry where the parameters will be stored
+   */
+  processLookupPaging(joinDef: any, fieldDef: any) {
+    fieldDef.skip = null;
+    fieldDef.limit = null;
+    fieldDef.sort = null;
 
-      if (joinDef.limit) {
-        if (!isPositiveInteger(joinDef.limit))
-          throw new ClientError(
-            "invalid_value",
-            `Limit needs to be a positive integer value in lookup definition with alias '${joinDef.as}'`,
-          );
+    if (!(joinDef.skip === null || joinDef.skip === undefined)) {
+      if (!isInteger(joinDef.skip) || joinDef.skip < 0)
+        throw new ClientError(
+          "invalid_value",
+          `Skip count can be zero or positive integer in lookup definition with alias '${joinDef.as}'`,
+        );
 
-        fieldDef.limit = joinDef.limit;
-      }
+      fieldDef.skip = joinDef.skip;
+    }
 
-      if (joinDef.sort) {
-        // Create the groupby model definition
-        const action = new DBAction(fieldDef.joinModel);
-        action.setSort(joinDef.sort, joinDef);
-        fieldDef.sort = action.getSort();
-      }
+    if (joinDef.limit) {
+      if (!isPositiveInteger(joinDef.limit))
+        throw new ClientError(
+          "invalid_value",
+          `Limit needs to be a positive integer value in lookup definition with alias '${joinDef.as}'`,
+        );
+
+      fieldDef.limit = joinDef.limit;
     }
 
-    joinList.push({
-      ...fieldDef,
-      where: expression,
-      as: joinDef.as,
-      from: joinDef.from,
-      type,
-    });
+    if (joinDef.sort) {
+      // Create the groupby model definition
+      const action = new DBAction(fieldDef.joinModel);
+      action.setSort(joinDef.sort, joinDef);
+      fieldDef.sort = action.getSort();
+    }
   }
 
   /**
-   * Returns the expression of the where condition
-   * @param {string} condition The where condition
-   * @param {JoinDefinition} join The join definition
-   * @param {number} expType The type of the expression
-   * @returns Where condition expression
+   * Processes the count only parameter of a lookup definition. If set, the number of the looked up objects is returned instead of the objects themselves.
+   * @param {object} joinDef The lookup defintion object
+   * @param {object} lookupDef The processed lookup definition entry where the parameter will be stored
    */
-  processWhereCondition(
-    condition: any,
-    join: any | null | undefined,
-    expType: number,
-  ): Expression | null {
-    if (!condition) return null;
-    const entries = Object.entries(condition);
-    // If there are not entries in the where condition then return null
-    if (entries.length === 0) return null;
+  processLookupCount(joinDef: any, lookupDef: any) {
+    lookupDef.countOnly = false;
+    if (!valueExists(joinDef.countOnly)) return;
 
-    // If there is more than one entry then we assume that these entries are combined in logical AND operator
-    if (entries.length > 1) {
-      const and = new FunctionManager["$and"]();
-      for (const [key, value] of entries) {
-        const expression = this.processExpression(key, value, join, expType);
-        and.addParam(expression);
-      }
-      // Validate the expression
-      if (expType === ConditionType.QUERY)
-        and.validate(this.model.getDb().getType());
-      else and.validateForPull(this.model.getDb().getType());
-      return and;
-    } else {
-      const [key, value] = entries[0];
-      return this.processExpression(key, value, join, expType);
-    }
+    if (!isBoolean(joinDef.countOnly))
+      throw new ClientError(
+        "invalid_value",
+        `The 'countOnly' parameter needs to be a boolean value in lookup definition with alias '${joinDef.as}'`,
+      );
+
+    if (
+      joinDef.countOnly &&
+      ["sort", "skip", "limit", "select", "omit", "lookup"].some((key) =>
+        valueExists(joinDef[key]),
+      )
+    )
+      throw new ClientError(
+        "invalid_join_or_lookup",
+        `The 'sort', 'skip', 'limit', 'select', 'omit' and 'lookup' parameters cannot be used together with the 'countOnly' parameter in lookup definition with alias '${joinDef.as}'`,
+      );
+
+    lookupDef.countOnly = joinDef.countOnly;
   }
 
   /**
-   * Processes a single query function and returns its expression
-   * @param {string} key The function name
-   * @param {any} value The function parameters
-   * @param {JoinDefinition} join The join definition
-   * @param {number} expType The type of the expression
-   * @returns The function expression
+   * Returns the metadata of the top-level model
+   * @param {string} name The name of the model
+   * @returns The model metadata or undefined if there is no such model
    */
-  processExpression(
-    key: string,
-    value: any,
-    join: any | null | undefined,
-    expType: number,
-  ): Expression {
-    // Check if this is a function
-    const funcDefinition = FunctionManager[key.toLowerCase()];
-    if (funcDefinition) {
-      const func = new funcDefinition();
+  getModelMeta(name: string): any {
+    return this.model
+      .getDb()
+      .getMetaObj()
+      .models?.find(
+        (entry: any) => entry.name === name && entry.type === "model",
+      );
+  }
 
-      if (Array.isArray(value)) {
-        for (const entry of value) {
-          const param = this.parseValue(entry, join, expType);
-          func.addParam(param);
-        }
-      } else {
-        const param = this.parseValue(value, join, expType);
-        func.addParam(param);
-      }
+  /**
+   * Returns the reference field of the model which references the target model. If the field name is not specified, the model needs to have exactly one reference field to the target model.
+   * @param {ModelBase} model The referencing model
+   * @param {ModelBase} target The referenced model
+   * @param {string | undefined} fieldName The name of the reference field
+   * @param {string} alias The alias of the lookup, used in error messages
+   * @returns The reference field
+   */
+  getRelationField(
+    model: ModelBase,
+    target: ModelBase,
+    fieldName: string | undefined,
+    alias: string,
+  ): Field {
+    if (valueExists(fieldName)) {
+      const field = isString(fieldName)
+        ? model.getField(fieldName as string)
+        : undefined;
+      if (
+        !field ||
+        field.getType() !== "reference" ||
+        field.getRefModelIId() !== target.getIid()
+      )
+        throw new ClientError(
+          "invalid_join_or_lookup",
+          `'${fieldName}' is not a reference field of model '${model.getName()}' referencing model '${target.getName()}' in lookup definition with alias '${alias}'.`,
+        );
 
-      // Validate function before returning
-      if (expType === ConditionType.QUERY)
-        func.validate(this.model.getDb().getType());
-      else func.validateForPull(this.model.getDb().getType());
-      return func;
-    } else {
-      // Check if this is a field value, this is the shorthand for {fieldName: value} equality check
-      const fieldObj = this.getFieldObject(key, join);
-      if (fieldObj && fieldObj.field.getType() !== "join") {
-        const eq = new FunctionManager["$eq"]();
-        const left = this.parseValue(key, join, expType);
-        const right = this.parseValue(value, join, expType);
+      return field;
+    }
 
-        eq.addParam(left);
-        eq.addParam(right);
+    const fields = Array.from(model.getFields().values()).filter(
+      (field) =>
+        field.getType() === "reference" &&
+        field.getRefModelIId() === target.getIid(),
+    );
 
-        // Validate function before returning
-        if (expType === ConditionType.QUERY) {
+    if (fields.length !== 1)
+      throw new ClientError(
+        "invalid_join_or_lookup",
+        `Model '${model.getName()}' has ${
+          fields.length
+        } reference field(s) referencing model '${target.getName()}'. The reference field needs to be specified in lookup definition with alias '${alias}'.`,
+      );
+
+    return fields[0];
+  }
+
+  /**
+   * Returns the join condition of a reverse relation lookup, where the looked up records reference the base model record
+   * @param {object} joinDef The lookup defintion object
+   * @returns The join condition
+   */
+  getReverseLookupCondition(joinDef: any): any {
+    const modelMeta = this.getModelMeta(joinDef.from);
+    if (!modelMeta)
+      throw new ClientError(
+        "invalid_join_or_lookup",
+        `The 'from' parameter should match to the model to join/lookup. There is no model named '${
+          joinDef.from
+        }' in datababase '${this.model.getDb().getName()}'`,
+      );
+
+    const model = this.model.getDb().getModelByIId(modelMeta.iid);
+    const field = this.getRelationField(
+      model,
+      this.model,
+      joinDef.field,
+      joinDef.as,
+    );
+
+    return {
+      $eq: [
+        `${joinDef.as}.${field.getName()}`,
+        this.model.getIdField()?.getName(),
+      ],
+    };
+  }
+
+  /**
+   * Processes a many-to-many relation lookup where the base model and the looked up model records are related through the records of a junction model
+   * @param {object} joinDef The lookup defintion object
+   * @param {any[]} joinList The final join definition list to store join config
+   */
+  processThroughLookup(joinDef: any, joinList: any[]) {
+    if (!isString(joinDef.as) || joinDef.as.includes("."))
+      throw new ClientError(
+        "invalid_join_or_lookup",
+        `The 'as' parameter of the lookup definition needs to be string value without '.'(dot) characters.`,
+      );
+
+    if (this.model.getField(joinDef.as))
+      throw new ClientError(
+        "invalid_join_or_lookup",
+        `The 'as' parameter should not conflict with an existing field of the base model. There is already a field named '${
+          joinDef.as
+        }' in model '${this.model.getName()}'`,
+      );
+
+    const modelMetas = [joinDef.from, joinDef.through].map((name) => {
+      const modelMeta = isString(name) ? this.getModelMeta(name) : null;
+      if (!modelMeta)
+        throw new ClientError(
+          "invalid_join_or_lookup",
+          `The 'from' and 'through' parameters should match to the models of the many-to-many relation. There is no model named '${name}' in datababase '${this.model
+            .getDb()
+            .getName()}'`,
+        );
+
+      return modelMeta;
+    });
+
+    const [joinModel, throughModel] = modelMetas.map((modelMeta) =>
+      this.model.getDb().getModelByIId(modelMeta.iid),
+    );
+
+    const through = joinDef.throughFields ?? {};
+    const localField = this.getRelationField(
+      throughModel,
+      this.model,
+      through.local,
+      joinDef.as,
+    );
+    const foreignField = this.getRelationField(
+      throughModel,
+      joinModel,
+      through.foreign,
+      joinDef.as,
+    );
+
+    if (localField === foreignField)
+      throw new ClientError(
+        "invalid_join_or_lookup",
+        `The reference fields of the junction model '${throughModel.getName()}' to the base model and to the looked up model need to be different in lookup definition with alias '${
+          joinDef.as
+        }'. Specify them using the 'throughFields' parameter.`,
+      );
+
+    if (
+      joinList.find(
+        (entry) => entry.as.toLowerCase() === joinDef.as.toLowerCase(),
+      )
+    )
+      throw new ClientError(
+        "invalid_join_or_lookup",
+        `There is already a join/lookup definition with the alias '${joinDef.as}'.`,
+      );
+
+    const lookupDef: any = {
+      fieldPath: joinDef.as,
+      field: new JoinField({ name: joinDef.as }, joinModel),
+      joinType: "complex",
+      joinModel,
+      where: null,
+      as: joinDef.as,
+      from: joinDef.from,
+      type: "lookup",
+      through: {
+        from: throughModel.getName(),
+        model: throughModel,
+        localField,
+        foreignField,
+        // The condition on the junction model records, set if the junction model is in soft delete mode
+        where: null,
+      },
+    };
+
+    this.processLookupPaging(joinDef, lookupDef);
+    this.processLookupCount(joinDef, lookupDef);
+    this.processLookupOptions(joinDef, lookupDef);
+
+    joinList.push(lookupDef);
+  }
+
+  /**
+   * Processes the options of a lookup definition that are applied on the looked up model, namely its nested lookups and the fields to select or omit. The options are processed in the context of the looked up model, so the nested lookups can in turn define their own nested lookups.
+   * @param {object} joinDef The lookup defintion object
+   * @param {object} lookupDef The processed lookup definition entry where the options will be stored
+   */
+  processLookupOptions(joinDef: any, lookupDef: any) {
+    const action = new DBAction(lookupDef.joinModel);
+    action.setLookup(joinDef.lookup);
+    // The fields of the nested lookups can also be selected or omitted
+    action.setSelect(joinDef.select, joinDef.lookup);
+    action.setOmit(joinDef.omit, joinDef.lookup);
+
+    lookupDef.lookup = action.definition.lookup;
+    lookupDef.select = action.definition.select;
+    lookupDef.omit = action.definition.omit;
+  }
+
+  /**
+   * Returns the expression of the where condition
+   * @param {string} condition The where condition
+   * @param {JoinDefinition} join The join definition
+   * @param {number} expType The type of the expression
+   * @returns Where condition expression
+   */
+  processWhereCondition(
+    condition: any,
+    join: any | null | undefined,
+    expType: number,
+  ): Expression | null {
+    if (!condition) return null;
+    const entries = Object.entries(condition);
+    // If there are not entries in the where condition then return null
+    if (entries.length === 0) return null;
+
+    // If there is more than one entry then we assume that these entries are combined in logical AND operator
+    if (entries.length > 1) {
+      const and = new FunctionManager["$and"]();
+      for (const [key, value] of entries) {
+        const expression = this.processExpression(key, value, join, expType);
+        and.addParam(expression);
+      }
+      // Validate the expression
+      if (expType === ConditionType.QUERY)
+        and.validate(this.model.getDb().getType());
+      else and.validateForPull(this.model.getDb().getType());
+      return and;
+    } else {
+      const [key, value] = entries[0];
+      return this.processExpression(key, value, join, expType);
+    }
+  }
+
+  /**
+   * Processes a single query function and returns its expression
+   * @param {string} key The function name
+   * @param {any} value The function parameters
+   * @param {JoinDefinition} join The join definition
+   * @param {number} expType The type of the expression
+   * @returns The function expression
+   */
+  processExpression(
+    key: string,
+    value: any,
+    join: any | null | undefined,
+    expType: number,
+  ): Expression {
+    // Subquery functions have a subquery definition object as their parameter
+    if (["$inquery", "$existsquery"].includes(key.toLowerCase()))
+      return this.processSubQueryFunction(key, value, join, expType);
+
+    // Check if this is a function
+    const funcDefinition = FunctionManager[key.toLowerCase()];
+    if (funcDefinition) {
+      const func = new funcDefinition();
+
+      if (Array.isArray(value)) {
+        for (const entry of value) {
+          const param = this.parseValue(entry, join, expType);
+          func.addParam(param);
+        }
+      } else {
+        const param = this.parseValue(value, join, expType);
+        func.addParam(param);
+      }
+
+      // Validate function before returning
+      if (expType === ConditionType.QUERY)
+        func.validate(this.model.getDb().getType());
+      else func.validateForPull(this.model.getDb().getType());
+      return func;
+    } else {
+      // Check if this is a field value, this is the shorthand for {fieldName: value} equality check
+      const fieldObj = this.getFieldObject(key, join);
+      if (fieldObj && fieldObj.field.getType() !== "join") {
+        const eq = new FunctionManager["$eq"]();
+        const left = this.parseValue(key, join, expType);
+        const right = this.parseValue(value, join, expType);
+
+        eq.addParam(left);
+        eq.addParam(right);
+
+        // Validate function before returning
+        if (expType === ConditionType.QUERY) {
           eq.validate(this.model.getDb().getType());
         } else eq.validateForPull(this.model.getDb().getType());
         return eq;
@@ -892,7 +1442,12 @@ export class DBAction {
           fieldObj.joinType,
           fieldObj.JoinModel,
         );
-      } else if (
+      }
+
+      // In subqueries the fields of the outer query model are referenced in 'modelName.fieldName' format
+      const outerFieldValue = this.getOuterFieldValue(value);
+      if (outerFieldValue) return outerFieldValue;
+      else if (
         typeof value === "string" &&
         expType === ConditionType.ARRAY_FILTER
       ) {
@@ -936,49 +1491,756 @@ export class DBAction {
     } else {
       throw new ClientError(
         "invalid_parameter",
-        `Not a valid function or operator parameter '${value}' to specify in a where condition.`,
+        `Not a valid function or operator parameter '${value}' to specify in a where condition.`,
+      );
+    }
+  }
+
+  /**
+   * Processes a subquery function ($inQuery or $existsQuery) and returns its expression
+   * @param {string} key The function name
+   * @param {any} value The function parameters
+   * @param {JoinDefinition} join The join definition
+   * @param {number} expType The type of the expression
+   * @returns The function expression
+   */
+  processSubQueryFunction(
+    key: string,
+    value: any,
+    join: any | null | undefined,
+    expType: number,
+  ): Expression {
+    if (expType !== ConditionType.QUERY || this.subQueries === null)
+      throw new ClientError(
+        "invalid_expression",
+        `Subquery function '${key}' can only be used in the where condition of queries.`,
+      );
+
+    const func = new FunctionManager[key.toLowerCase()]();
+    if (key.toLowerCase() === "$inquery") {
+      if (!Array.isArray(value) || value.length !== 2)
+        throw new ClientError(
+          "invalid_parameter",
+          `Function '${key}' expects two input parameters, the value to check and the subquery definition.`,
+        );
+
+      func.addParam(this.parseValue(value[0], join, expType));
+      func.addParam(this.processSubQuery(value[1], true));
+    } else {
+      const subQuery =
+        Array.isArray(value) && value.length === 1 ? value[0] : value;
+      func.addParam(this.processSubQuery(subQuery, false));
+    }
+
+    func.validate(this.model.getDb().getType());
+    return func;
+  }
+
+  /**
+   * Processes the subquery definition and returns its expression. The soft deleted records of the subquery model are excluded.
+   * @param {any} subQuery The subquery definition with 'model', 'where' and 'select' parameters
+   * @param {boolean} hasSelect Whether the subquery needs to select a field or not
+   * @returns The subquery expression
+   */
+  processSubQuery(subQuery: any, hasSelect: boolean): SubQueryValue {
+    if (!isObject(subQuery) || !isString(subQuery.model))
+      throw new ClientError(
+        "invalid_parameter",
+        `Subquery definitions need to be objects with a 'model' parameter specifying the name of the model to query.`,
+      );
+
+    const allowed = hasSelect
+      ? ["model", "where", "select"]
+      : ["model", "where"];
+    for (const key of Object.keys(subQuery)) {
+      if (!allowed.includes(key))
+        throw new ClientError(
+          "invalid_parameter",
+          `'${key}' is not a valid subquery definition parameter. Subquery definitions can only have ${allowed
+            .map((entry) => `'${entry}'`)
+            .join(", ")} parameters.`,
+        );
+    }
+
+    const model = this.model.getDb().model(subQuery.model);
+    const action = new DBAction(model);
+    action.outerModel = this.model;
+    action.setWhere(subQuery.where, null, ConditionType.QUERY);
+    action.setSoftDeleteFilter(false, false);
+
+    let select: FieldValue | null = null;
+    if (hasSelect) {
+      const field = isString(subQuery.select)
+        ? model.getField(subQuery.select)
+        : undefined;
+      if (field) select = new FieldValue(field, field.getName(), "none", model);
+
+      if (
+        !select ||
+        [
+          ReturnType.OBJECT,
+          ReturnType.ARRAY,
+          ReturnType.BINARY,
+          ReturnType.JSON,
+          ReturnType.UNDEFINED,
+        ].includes(select.getReturnType())
+      )
+        throw new ClientError(
+          "invalid_parameter",
+          `The 'select' parameter of the subquery needs to be the name of a field of model '${model.getName()}' with a basic value type (e.g., text, number, reference, datetime).`,
+        );
+    }
+
+    const subQueryValue = new SubQueryValue(
+      model,
+      action.definition.where,
+      select,
+      `__subquery${(this.subQueries as SubQueryValue[]).length}`,
+      action.outerFields,
+      action.definition.subQueries ?? [],
+    );
+    (this.subQueries as SubQueryValue[]).push(subQueryValue);
+
+    return subQueryValue;
+  }
+
+  /**
+   * Returns the field value of the outer query model if the action defines a subquery and the value references a field of the outer query model in 'modelName.fieldName' format
+   * @param {string} value The field reference
+   * @returns The outer query field value or null if the value does not reference an outer query field
+   */
+  getOuterFieldValue(value: string): OuterFieldValue | null {
+    if (!this.outerModel) return null;
+
+    const prefix = `${this.outerModel.getName()}.`;
+    if (!value.startsWith(prefix)) return null;
+
+    const field = this.outerModel.getField(value.substring(prefix.length));
+    if (!field) return null;
+
+    // SQL databases would resolve the model name to the subquery model itself
+    if (
+      this.outerModel.getName() === this.model.getName() &&
+      SQLdatabaseTypes.includes(this.model.getDb().getType())
+    )
+      throw new ClientError(
+        "invalid_expression",
+        `Subqueries on model '${this.model.getName()}' cannot reference the fields of the outer query on the same model in ${this.model
+          .getDb()
+          .getType()} databases.`,
+      );
+
+    const existing = this.outerFields.find(
+      (entry) => entry.getFieldPath() === field.getName(),
+    );
+    if (existing) return existing;
+
+    const outerFieldValue = new OuterFieldValue(
+      field,
+      field.getName(),
+      this.outerModel,
+      `outer${this.outerFields.length}`,
+    );
+    this.outerFields.push(outerFieldValue);
+
+    return outerFieldValue;
+  }
+
+  /**
+   * Sets the sort part of the db action definition
+   * @param {SortingOrder} sort The fields and their sorting order
+   * @param {JoinDefinition} join The join definition
+   * @param {boolean} deterministic Whether the sorting order of the records needs to be deterministic, e.g., for keyset (cursor) pagination
+   */
+  setSort(
+    sort: any | null | undefined,
+    join: any | null | undefined,
+    deterministic: boolean = false,
+  ) {
+    if (!sort) {
+      if (deterministic) this.setSortTiebreaker();
+      return;
+    }
+
+    if (!isObject(sort))
+      throw new ClientError(
+        "invalid_value",
+        `Sort definition needs to specify the fields and  their sorting order e.g., {"field1": "asc", "field2": "desc"}`,
+      );
+
+    const sortList: any[] = [];
+    // Check validity of field names whether they are part the base model or joined models
+    const keys = Object.keys(sort);
+    for (const fieldName of keys) {
+      const fieldObj = this.getFieldObject(fieldName, join);
+      if (!fieldObj) {
+        throw new ClientError(
+          "invalid_field",
+          `'${fieldName}' is not a valid field that can be used to sort query results. Only base model and joined model fields can be used in sort definitions.`,
+        );
+      }
+
+      const order = sort[fieldName];
+      if (order !== "asc" && order !== "desc") {
+        throw new ClientError(
+          "invalid_field",
+          `Sorting order '${order}' is not a valid ordering type for '${fieldName}'. Ordering can be either 'asc' or 'desc'.`,
+        );
+      }
+
+      // Keyset pagination compares the sort field values of the records, composite values do not have a well defined order
+      if (
+        deterministic &&
+        (fieldObj.joinType === "complex" ||
+          [
+            "geo-point",
+            "binary",
+            "json",
+            "basic-values-list",
+            "object-list",
+            "object",
+          ].includes(fieldObj.field.getType()))
+      ) {
+        throw new ClientError(
+          "invalid_field",
+          `'${fieldName}' cannot be used to sort query results deterministically. Only fields with single values can be used in sort definitions of cursor based pagination.`,
+        );
+      }
+
+      sortList.push({ fieldName, order, ...fieldObj });
+    }
+
+    if (sortList.length > 0) this.definition.sort = sortList;
+    // The id field is the final tiebreaker of the records having the same sort field values
+    if (deterministic) this.setSortTiebreaker();
+  }
+
+  /**
+   * Sets the field whose distinct values are retrieved and optionally the sorting order of the distinct values
+   * @param {string} fieldName The name of the base model or joined model field
+   * @param {any | null | undefined} join The join definitions of the db action
+   * @param {any | null | undefined} order The sorting order of the distinct values, either 'asc' or 'desc'
+   */
+  setDistinctField(
+    fieldName: string,
+    join: any | null | undefined,
+    order?: any | null,
+  ) {
+    if (!isString(fieldName))
+      throw new ClientError(
+        "invalid_value",
+        `The field to get the distinct values needs to be specified as a string value`,
+      );
+
+    const fieldObj = this.getFieldObject(fieldName, join);
+    if (!fieldObj) {
+      throw new ClientError(
+        "invalid_field",
+        `'${fieldName}' is not a valid field to get the distinct values. Only base model and joined model fields can be used.`,
+      );
+    }
+
+    // Distinct values are compared as a whole, composite values cannot be compared reliably across databases
+    if (
+      fieldObj.joinType === "complex" ||
+      ["binary", "json", "object-list", "object"].includes(
+        fieldObj.field.getType(),
+      )
+    ) {
+      throw new ClientError(
+        "invalid_field",
+        `'${fieldName}' cannot be used to get the distinct values. Only fields with single values can be used.`,
+      );
+    }
+
+    this.definition.distinctField = { fieldName, ...fieldObj };
+
+    if (!order) return;
+
+    if (order !== "asc" && order !== "desc") {
+      throw new ClientError(
+        "invalid_value",
+        `Sorting order '${order}' is not a valid ordering type for the distinct values of '${fieldName}'. Ordering can be either 'asc' or 'desc'.`,
+      );
+    }
+
+    this.definition.sort = [{ fieldName, order, ...fieldObj }];
+  }
+
+  /**
+   * Appends the id field of the model to the end of the sort definition, if it is not already sorted by the id field, so that the sorting order of the records is deterministic
+   */
+  setSortTiebreaker() {
+    const idField = this.model.getIdField();
+    if (!idField)
+      throw new ClientError(
+        "invalid_model",
+        `Model '${this.model.getName()}' does not have an id field to sort records deterministically.`,
+      );
+
+    const sortList = this.definition.sort ?? [];
+    if (
+      sortList.find(
+        (entry) => entry.joinType === "none" && entry.field === idField,
+      )
+    )
+      return;
+
+    sortList.push({
+      fieldName: idField.getName(),
+      order: "asc",
+      fieldPath: idField.getName(),
+      field: idField,
+      joinType: "none",
+      joinModel: this.model,
+    });
+    this.definition.sort = sortList;
+  }
+
+  /**
+   * Reverses the sorting order of the sort fields, used to page backwards through the records
+   */
+  reverseSort() {
+    if (!this.definition.sort) return;
+
+    this.definition.sort = this.definition.sort.map((entry) => ({
+      ...entry,
+      order: entry.order === "asc" ? "desc" : "asc",
+    }));
+  }
+
+  /**
+   * Narrows down the where condition of the db action definition to the records that come after the keyset in sorting order (keyset pagination). Null values are placed in the sorting order of the database.
+   * @param {any[]} values The sort field values that mark the start position
+   */
+  setKeyset(values: any[]) {
+    const sortList = this.definition.sort ?? [];
+    const dbType = this.model.getDb().getType();
+    const getFieldValue = (entry: any) =>
+      new FieldValue(
+        entry.field,
+        entry.fieldPath,
+        entry.joinType,
+        entry.joinModel,
+      );
+
+    // For each sort field, the records after the keyset either have the same values in the preceding sort fields and a greater (or less for descending order) value in this field
+    const conditions: Expression[] = [];
+    for (let i = 0; i < sortList.length; i++) {
+      const entries: Expression[] = [];
+      for (let j = 0; j < i; j++) {
+        if (values[j] === null) {
+          entries.push(this.getNullCondition(getFieldValue(sortList[j]), true));
+          continue;
+        }
+
+        const func = new FunctionManager["$eq"]();
+        func.addParam(getFieldValue(sortList[j]));
+        func.addParam(new StaticValue(this.getKeysetValue(values[j], dbType)));
+        entries.push(func);
+      }
+
+      const entry = sortList[i];
+      const nullsLast = isNullSortedLast(dbType, entry.order);
+      if (values[i] === null) {
+        // No records come after the null value if null values are sorted last, otherwise all non-null values come after it
+        if (nullsLast) continue;
+        entries.push(this.getNullCondition(getFieldValue(entry), false));
+      } else {
+        const func = new FunctionManager[
+          entry.order === "asc" ? "$gt" : "$lt"
+        ]();
+        func.addParam(getFieldValue(entry));
+        func.addParam(new StaticValue(this.getKeysetValue(values[i], dbType)));
+        entries.push(
+          nullsLast
+            ? this.combineExpressions("$or", [
+                func,
+                this.getNullCondition(getFieldValue(entry), true),
+              ])
+            : func,
+        );
+      }
+
+      conditions.push(this.combineExpressions("$and", entries));
+    }
+
+    if (conditions.length === 0) return;
+
+    this.addWhereCondition(this.combineExpressions("$or", conditions));
+  }
+
+  /**
+   * Returns the sort field value to compare in keyset conditions. MongoDB compares native date and object id values, SQL databases compare dates in ISO format.
+   * @param {any} value The sort field value
+   * @param {string} dbType The database type
+   * @returns The value to compare
+   */
+  protected getKeysetValue(value: any, dbType: string): any {
+    return value instanceof Date && dbType !== DBTYPE.MONGODB
+      ? value.toISOString()
+      : value;
+  }
+
+  /**
+   * Returns the values of the sort fields in the input record to use in keyset conditions
+   * @param {any} record The record
+   * @returns Values of the sort fields
+   */
+  getKeysetValues(record: any): any[] {
+    const sortList = this.definition.sort ?? [];
+
+    return sortList.map((entry) => {
+      let value = record;
+      const fieldPath = entry.fieldPath
+        .split(".")
+        .filter((item: string) => !item.startsWith("$"));
+      for (const item of fieldPath) {
+        value = value?.[item];
+      }
+
+      if (value === undefined)
+        throw new ClientError(
+          "missing_sort_value",
+          `The value of the sort field '${entry.fieldPath}' is not available in the returned records. Sort fields need to be included in the returned records to page through the results.`,
+        );
+
+      return value;
+    });
+  }
+
+  /**
+   * Sets the cursor of the db action definition. The records are retrieved starting after the position marked by the cursor in the paging direction.
+   * @param {string} cursor The cursor token returned in the page info of a previous query
+   */
+  setCursor(cursor: string | null | undefined) {
+    if (cursor === null || cursor === undefined) return;
+
+    let token: any = null;
+    try {
+      token = JSON.parse(Buffer.from(cursor, "base64url").toString("utf8"));
+    } catch (err) {
+      token = null;
+    }
+
+    const sortList = this.definition.sort ?? [];
+    if (
+      !isObject(token) ||
+      (token.d !== "next" && token.d !== "prev") ||
+      !isArray(token.f) ||
+      !isArray(token.v) ||
+      token.f.length !== sortList.length ||
+      token.v.length !== sortList.length ||
+      sortList.some((entry, index) => entry.fieldPath !== token.f[index])
+    )
+      throw new ClientError(
+        "invalid_cursor",
+        `The cursor is not valid or it does not match the sort definition of the query. Please use the same sort definition that was used to create the cursor.`,
+      );
+
+    const values = token.v.map((value: any, index: number) =>
+      this.parseCursorValue(value, sortList[index]),
+    );
+
+    this.definition.cursor = token.d;
+    // To page backwards, the records before the keyset are retrieved in reverse order
+    if (token.d === "prev") this.reverseSort();
+    this.setKeyset(values);
+  }
+
+  /**
+   * Checks the sort field value decoded from a cursor token and converts the date and object id values to their native types. Cursor tokens are provided by the client, so only the values that fit the type of the sort field are accepted.
+   * @param {any} value The value in the cursor token
+   * @param {any} entry The sort entry
+   * @returns The value to use in keyset conditions
+   */
+  protected parseCursorValue(value: any, entry: any): any {
+    if (value === null) return null;
+
+    const dbType = this.model.getDb().getType();
+    const field: Field = entry.field;
+    const returnType = new FieldValue(
+      field,
+      entry.fieldPath,
+      entry.joinType,
+      entry.joinModel,
+    ).getReturnType();
+    const isText = typeof value === "string";
+    const keys = isObject(value) ? Object.keys(value) : [];
+    const isWrapper = (name: string) =>
+      keys.length === 1 && keys[0] === name && isString(value[name]);
+
+    switch (returnType) {
+      case ReturnType.ID:
+        if (isWrapper("$oid") && isValidId(value.$oid, DBTYPE.MONGODB))
+          return dbType === DBTYPE.MONGODB
+            ? HELPER.objectId(value.$oid)
+            : value.$oid;
+        else if (
+          isText ||
+          (typeof value === "number" && Number.isFinite(value))
+        )
+          return value;
+        break;
+      case ReturnType.DATETIME:
+      case ReturnType.DATE:
+        if (isWrapper("$date") && !isNaN(new Date(value.$date).getTime()))
+          return new Date(value.$date);
+        else if (returnType === ReturnType.DATE && isText) return value;
+        break;
+      case ReturnType.NUMBER:
+        if (typeof value === "number" && Number.isFinite(value)) return value;
+        // Decimal values can be returned as text to preserve their precision
+        else if (field.getType() === "decimal" && isText) return value;
+        break;
+      case ReturnType.BOOLEAN:
+        if (isBoolean(value)) return value;
+        break;
+      default:
+        if (isText) return value;
+        break;
+    }
+
+    throw new ClientError(
+      "invalid_cursor",
+      `The cursor is not valid. The value of the sort field '${entry.fieldPath}' in the cursor does not match the type of the field.`,
+    );
+  }
+
+  /**
+   * Returns the cursor token of the input record. The cursor token encodes the sort field names and the values of the record.
+   * @param {any} record The record
+   * @param {"next" | "prev"} direction The paging direction
+   * @returns Cursor token
+   */
+  createCursor(record: any, direction: "next" | "prev"): string {
+    const values = this.getKeysetValues(record).map((value) => {
+      if (value instanceof Date) return { $date: value.toISOString() };
+      else if (value && typeof value.toHexString === "function")
+        return { $oid: value.toHexString() };
+      else return value;
+    });
+
+    const token = {
+      d: direction,
+      f: (this.definition.sort ?? []).map((entry) => entry.fieldPath),
+      v: values,
+    };
+
+    return Buffer.from(JSON.stringify(token), "utf8").toString("base64url");
+  }
+
+  /**
+   * Adds the condition to the where condition of the db action definition using the logical AND operator
+   * @param {Expression} condition The condition to add
+   */
+  addWhereCondition(condition: Expression) {
+    this.definition.where = this.definition.where
+      ? this.combineExpressions("$and", [this.definition.where, condition])
+      : condition;
+  }
+
+  /**
+   * Adds the soft delete conditions to the where condition of the db action definition and to the conditions of the joined and looked up models that are in soft delete mode
+   * @param {boolean} withDeleted Whether to include the soft deleted records or not
+   * @param {boolean} onlyDeleted Whether to return only the soft deleted records of the model or not
+   */
+  setSoftDeleteFilter(
+    withDeleted: boolean | null | undefined,
+    onlyDeleted: boolean | null | undefined,
+  ) {
+    if (valueExists(withDeleted) && !isBoolean(withDeleted))
+      throw new ClientError(
+        "invalid_value",
+        `With deleted option needs to be a boolean value`,
+      );
+
+    if (valueExists(onlyDeleted) && !isBoolean(onlyDeleted))
+      throw new ClientError(
+        "invalid_value",
+        `Only deleted option needs to be a boolean value`,
+      );
+
+    if (withDeleted && onlyDeleted)
+      throw new ClientError(
+        "invalid_parameter",
+        `The 'withDeleted' and 'onlyDeleted' options cannot be used together`,
+      );
+
+    const field = this.model.getSoftDeleteField();
+    if ((withDeleted || onlyDeleted) && !field)
+      throw new ClientError(
+        "invalid_parameter",
+        `The 'withDeleted' and 'onlyDeleted' options can only be used for models in soft delete mode. Model '${this.model.getName()}' is not in soft delete mode.`,
+      );
+
+    if (withDeleted) return;
+
+    if (field)
+      this.addWhereCondition(
+        this.getSoftDeleteCondition(
+          new FieldValue(field, field.getName(), "none", this.model),
+          onlyDeleted === true,
+        ),
+      );
+
+    // Soft deleted records of the joined and looked up models are excluded
+    this.addJoinSoftDeleteConditions([
+      ...(this.definition.join ?? []),
+      ...(this.definition.lookup ?? []),
+    ]);
+  }
+
+  /**
+   * Adds the soft delete conditions of the joined and looked up models that are in soft delete mode to the conditions of their join and lookup entries, including the nested lookups at every level and the junction models of many-to-many lookups
+   * @param {any[]} joinList The join and lookup definition entries
+   */
+  protected addJoinSoftDeleteConditions(joinList: any[]) {
+    for (const entry of joinList) {
+      const joinField = entry.joinModel.getSoftDeleteField();
+      if (joinField) {
+        const condition = this.getSoftDeleteCondition(
+          new FieldValue(
+            joinField,
+            `${entry.as}.${joinField.getName()}`,
+            entry.joinType,
+            entry.joinModel,
+          ),
+          false,
+        );
+
+        entry.where = entry.where
+          ? this.combineExpressions("$and", [entry.where, condition])
+          : condition;
+      }
+
+      // Soft deleted junction model records do not relate the records of many-to-many lookups
+      const throughField = entry.through?.model.getSoftDeleteField();
+      if (throughField)
+        entry.through.where = this.getSoftDeleteCondition(
+          new FieldValue(
+            throughField,
+            throughField.getName(),
+            "none",
+            entry.through.model,
+          ),
+          false,
+        );
+
+      // Nested lookups are defined in the context of the looked up model, their conditions reference the looked up model fields the same way
+      this.addJoinSoftDeleteConditions(entry.lookup ?? []);
+    }
+  }
+
+  /**
+   * Sets the updates of the db action definition to mark the records as soft deleted or to restore them, and narrows down the where condition to the records that are not yet deleted or restored respectively. Needs to be called after the joined models are set.
+   * @param {boolean} deleted Whether to mark the records as deleted or to restore them
+   */
+  async setSoftDelete(deleted: boolean) {
+    const field = this.model.getSoftDeleteField();
+    if (!field)
+      throw new ClientError(
+        "invalid_parameter",
+        `Model '${this.model.getName()}' is not in soft delete mode.`,
       );
-    }
+
+    await this.setUpdates(
+      {
+        [field.getName()]: deleted
+          ? this.model.getTimestamp()?.toISOString()
+          : null,
+      },
+      null,
+    );
+    this.setVersion();
+    // Only the records that are not deleted can be deleted and only the deleted records can be restored
+    this.setSoftDeleteFilter(false, !deleted);
   }
 
   /**
-   * Sets the sort part of the db action definition
-   * @param {SortingOrder} sort The fields and their sorting order
-   * @param {JoinDefinition} join The join definition
+   * Increments the version of the updated records if the model has a version field. If the expected version is provided, the update is restricted to the records with the expected version. Needs to be called after the updates and the where condition of the db action are set.
+   * @param {number} expectedVersion The version that the records are expected to have
    */
-  setSort(sort: any | null | undefined, join: any | null | undefined) {
-    if (!sort) return;
+  setVersion(expectedVersion?: number | null) {
+    const field = this.model.getVersionField();
+    if (!field) {
+      if (valueExists(expectedVersion))
+        throw new ClientError(
+          "invalid_parameter",
+          `Model '${this.model.getName()}' does not have a version field, the expected version of the records cannot be checked.`,
+        );
 
-    if (!isObject(sort))
+      return;
+    }
+
+    this.definition.updateData?.others.push({
+      fieldName: field.getName(),
+      field,
+      type: "$inc",
+      value: 1,
+    });
+
+    if (!valueExists(expectedVersion)) return;
+
+    if (!isInteger(expectedVersion))
       throw new ClientError(
         "invalid_value",
-        `Sort definition needs to specify the fields and  their sorting order e.g., {"field1": "asc", "field2": "desc"}`,
+        `The expected version of the records needs to be an integer value.`,
       );
 
-    const sortList: any[] = [];
-    // Check validity of field names whether they are part the base model or joined models
-    const keys = Object.keys(sort);
-    for (const fieldName of keys) {
-      const fieldObj = this.getFieldObject(fieldName, join);
-      if (!fieldObj) {
-        throw new ClientError(
-          "invalid_field",
-          `'${fieldName}' is not a valid field that can be used to sort query results. Only base model and joined model fields can be used in sort definitions.`,
-        );
-      }
+    const condition = new FunctionManager["$eq"]();
+    condition.addParam(
+      new FieldValue(field, field.getName(), "none", this.model),
+    );
+    condition.addParam(new StaticValue(expectedVersion as number));
+    this.addWhereCondition(condition);
+  }
 
-      const order = sort[fieldName];
-      if (order !== "asc" && order !== "desc") {
-        throw new ClientError(
-          "invalid_field",
-          `Sorting order '${order}' is not a valid ordering type for '${fieldName}'. Ordering can be either 'asc' or 'desc'.`,
-        );
-      }
+  /**
+   * Returns the condition to check whether the record is soft deleted or not
+   * @param {FieldValue} fieldValue The soft delete field value
+   * @param {boolean} deleted Whether to check for deleted or not deleted records
+   * @returns The soft delete condition
+   */
+  getSoftDeleteCondition(fieldValue: FieldValue, deleted: boolean): Expression {
+    // In MongoDB the field might be missing in the records created before the soft delete mode is enabled
+    return this.getNullCondition(fieldValue, !deleted);
+  }
 
-      sortList.push({ fieldName, order, ...fieldObj });
-    }
+  /**
+   * Returns the condition to check whether the field value is null or not. In MongoDB missing fields are also treated as null values.
+   * @param {FieldValue} fieldValue The field value
+   * @param {boolean} isNull Whether to check for null or non-null values
+   * @returns The null check condition
+   */
+  getNullCondition(fieldValue: FieldValue, isNull: boolean): Expression {
+    const check = new FunctionManager[isNull ? "$isnull" : "$isnotnull"]();
+    check.addParam(fieldValue);
 
-    if (sortList.length > 0) this.definition.sort = sortList;
+    if (this.model.getDb().getType() !== DBTYPE.MONGODB) return check;
+
+    const exists = new FunctionManager["$exists"]();
+    exists.addParam(fieldValue);
+    if (!isNull) return this.combineExpressions("$and", [check, exists]);
+
+    const notExists = new FunctionManager["$not"]();
+    notExists.addParam(exists);
+    return this.combineExpressions("$or", [check, notExists]);
+  }
+
+  /**
+   * Combines the input expressions using the logical operator
+   * @param {string} operator The logical operator, either $and or $or
+   * @param {Expression[]} expressions The expressions to combine
+   * @returns The combined expression or the expression itself if there is a single expression
+   */
+  combineExpressions(operator: string, expressions: Expression[]): Expression {
+    if (expressions.length === 1) return expressions[0];
+
+    const func = new FunctionManager[operator]();
+    for (const expression of expressions) func.addParam(expression);
+
+    return func;
   }
 
   /**
@@ -1096,6 +2358,81 @@ export class DBAction {
     }
   }
 
+  /**
+   * Sets the operations of the bulk write
+   * @param {DBAction[]} actions The db actions of the operations, each needs to be validated and prepared
+   * @param {boolean} ordered Whether to execute the operations in order and stop at the first failing operation
+   */
+  setOperations(actions: DBAction[], ordered: boolean) {
+    this.definition.operations = actions.map((action) => action.definition);
+    this.definition.ordered = ordered;
+  }
+
+  /**
+   * Sets the conflict fields of the upsert operation. Conflict fields need to be the id field or unique fields of the model and the data to create needs to provide their values.
+   * @param {string | string[]} conflictFields The field name(s) used to detect whether the record already exists in the database
+   */
+  setConflictFields(conflictFields: string | string[] | undefined) {
+    const fieldNames = isArray(conflictFields)
+      ? (conflictFields as string[])
+      : valueExists(conflictFields)
+      ? [conflictFields as string]
+      : [];
+
+    if (fieldNames.length === 0)
+      throw new ClientError(
+        "invalid_value",
+        `At least one conflict field needs to be specified to upsert records`,
+      );
+
+    const conflictList: any[] = [];
+    for (const fieldName of fieldNames) {
+      const field = isString(fieldName)
+        ? this.model.getField(fieldName)
+        : undefined;
+      if (!field) {
+        throw new ClientError(
+          "invalid_field",
+          `There is no field named '${fieldName}' in model '${this.model.getName()}'`,
+        );
+      }
+
+      if (field.getType() !== "id" && !field.isUnique()) {
+        throw new ClientError(
+          "invalid_field",
+          `Field '${fieldName}' is not a unique field. Only the id field or unique fields can be used as conflict fields.`,
+        );
+      }
+
+      if (conflictList.find((entry) => entry.fieldName === fieldName))
+        throw new ClientError(
+          "invalid_field",
+          `Field '${fieldName}' has been specified more than once in conflict fields`,
+        );
+
+      conflictList.push({ fieldName, field });
+    }
+
+    // The conflict field values of the records to create need to be known to detect the existing records
+    const records = isArray(this.definition.createData)
+      ? this.definition.createData
+      : [this.definition.createData];
+    for (let i = 0; i < records.length; i++) {
+      for (const entry of conflictList) {
+        const value = records[i]?.[entry.fieldName];
+        if (value === undefined || value === null)
+          throw new ClientError(
+            "missing_conflict_value",
+            isArray(this.definition.createData)
+              ? `The value of the conflict field '${entry.fieldName}' is missing in the data entry at index ${i}`
+              : `The value of the conflict field '${entry.fieldName}' is missing in the data to upsert`,
+          );
+      }
+    }
+
+    this.definition.conflictFields = conflictList;
+  }
+
   /**
    * Sets the update structure
    * @param {object} updates Record update instructions
@@ -1137,6 +2474,14 @@ export class DBAction {
         );
       }
 
+      // The version field is managed by the versioning of the model
+      if (fieldObj.field === this.model.getVersionField()) {
+        throw new ClientError(
+          "invalid_field",
+          `Field '${fieldName}' is the version field of model '${this.model.getName()}'. The version field is incremented automatically and cannot be updated manually.`,
+        );
+      }
+
       // Ok we have the field value, check to see whether it is system managed field or not
       if (fieldObj.field.isReadOnly()) {
         throw new ClientError(
@@ -1753,6 +3098,11 @@ export class DBAction {
    * @param {any[]} groupList The final join definition list to store join config
    */
   processObjectBasedGrouping(groupDef: any, join: any, groupList: any[]) {
+    if (groupDef.bucket) {
+      this.processBucketBasedGrouping(groupDef, join, groupList);
+      return;
+    }
+
     if (!groupDef.as || !groupDef.expression)
       throw new ClientError(
         "invalid_grouping_entry",
@@ -1810,6 +3160,148 @@ export class DBAction {
     });
   }
 
+  /**
+   * Processes a date bucket based grouping
+   * @param {object} groupDef The date bucket grouping defintion object
+   * @param {JoinDefinition} join The join definition
+   * @param {any[]} groupList The final grouping definition list to store group by config
+   */
+  processBucketBasedGrouping(groupDef: any, join: any, groupList: any[]) {
+    if (!isString(groupDef.as))
+      throw new ClientError(
+        "invalid_grouping_entry",
+        `The 'as' parameter of the group definition needs to be string value.`,
+      );
+
+    if (groupDef.as.includes("."))
+      throw new ClientError(
+        "invalid_grouping_entry",
+        `The 'as' parameter of the group definition cannot include '.'(dot) characters.`,
+      );
+
+    // Date buckets are calculated in named time zones, which are not available in the date functions of all SQL databases
+    const dbType = this.model.getDb().getType();
+    if (
+      dbType === DBTYPE.SQLSERVER ||
+      dbType === DBTYPE.ORACLE ||
+      dbType === DBTYPE.SQLITE
+    )
+      throw new ClientError(
+        "unsupported_date_bucket",
+        `Grouping records into date buckets is not supported by ${dbType} databases.`,
+      );
+
+    const bucket = groupDef.bucket;
+    if (!isObject(bucket) || !isString(bucket.field))
+      throw new ClientError(
+        "invalid_grouping_entry",
+        `The 'bucket' parameter of the group definition needs to specify the datetime field and the time unit of the buckets e.g., {field: 'createdAt', unit: 'day'}.`,
+      );
+
+    const fieldDef = this.getFieldObject(bucket.field, join);
+    if (
+      !fieldDef ||
+      fieldDef.joinType === "complex" ||
+      !["datetime", "createdat", "updatedat"].includes(fieldDef.field.getType())
+    )
+      throw new ClientError(
+        "invalid_grouping_entry",
+        `'${bucket.field}' is not a valid field to group database records into date buckets. Only datetime fields of the base model and joined models can be used.`,
+      );
+
+    if (!DateBucketUnits.includes(bucket.unit))
+      throw new ClientError(
+        "invalid_grouping_entry",
+        `Time unit '${
+          bucket.unit
+        }' is not a valid date bucket unit. Allowed units are '${DateBucketUnits.join(
+          ", ",
+        )}'.`,
+      );
+
+    const timezone = bucket.timezone ?? "UTC";
+    if (!isValidTimezone(timezone))
+      throw new ClientError(
+        "invalid_grouping_entry",
+        `'${timezone}' is not a valid time zone name. The time zone of the date buckets needs to be an IANA time zone name e.g., 'Europe/Istanbul'.`,
+      );
+
+    if (valueExists(bucket.fillEmpty) && !isBoolean(bucket.fillEmpty))
+      throw new ClientError(
+        "invalid_grouping_entry",
+        `The 'fillEmpty' parameter of the date bucket needs to be a boolean value.`,
+      );
+
+    const range: { from: Date | null; to: Date | null } = {
+      from: null,
+      to: null,
+    };
+    for (const key of ["from", "to"] as const) {
+      if (!valueExists(bucket[key])) continue;
+
+      const date = new Date(bucket[key]);
+      if (
+        (!(bucket[key] instanceof Date) && !isString(bucket[key])) ||
+        isNaN(date.getTime())
+      )
+        throw new ClientError(
+          "invalid_grouping_entry",
+          `The '${key}' parameter of the date bucket needs to be a valid date.`,
+        );
+
+      range[key] = date;
+    }
+
+    if (bucket.fillEmpty) {
+      if (groupList.find((entry) => entry.bucket?.fillEmpty))
+        throw new ClientError(
+          "invalid_grouping_entry",
+          `Empty buckets can be filled for only one date bucket grouping.`,
+        );
+    } else if (range.from || range.to)
+      throw new ClientError(
+        "invalid_grouping_entry",
+        `The 'from' and 'to' parameters of the date bucket can only be used when empty buckets are filled.`,
+      );
+
+    if (groupList.find((entry) => entry.as === groupDef.as))
+      throw new ClientError(
+        "invalid_grouping_entry",
+        `There is already a grouping with the alias '${groupDef.as}'.`,
+      );
+
+    groupList.push({
+      as: groupDef.as,
+      expression: new DateBucketValue(
+        new FieldValue(
+          fieldDef.field,
+          fieldDef.fieldPath,
+          fieldDef.joinType,
+          fieldDef.joinModel,
+        ),
+        bucket.unit,
+        timezone,
+      ),
+      bucket: {
+        unit: bucket.unit,
+        timezone,
+        fillEmpty: bucket.fillEmpty ?? false,
+        ...range,
+      },
+    });
+  }
+
+  /**
+   * Returns the date bucket grouping whose empty buckets are filled in the aggregation results
+   * @returns The grouping entry or null if there is no such grouping
+   */
+  getFilledBucketGrouping(): any {
+    return (
+      this.definition.groupBy?.find((entry: any) => entry.bucket?.fillEmpty) ??
+      null
+    );
+  }
+
   /**
    * Sets computations part of the action definition
    * @param {GroupByDefinition} groupBy The groupBy definition
@@ -1885,13 +3377,37 @@ export class DBAction {
         );
       }
 
+      let value = comp.compute[keys[0]];
+      let percentile = null;
+      if (operator === "$percentile") {
+        if (
+          !Array.isArray(value) ||
+          value.length !== 2 ||
+          typeof value[1] !== "number" ||
+          value[1] < 0 ||
+          value[1] > 1
+        ) {
+          throw new ClientError(
+            "invalid_computation_entry",
+            `Computation type '${operator}' expects an array of two entries, the computed value and the percentile as a number between 0 and 1 e.g., {$percentile: ["price", 0.95]}.`,
+          );
+        }
+
+        percentile = value[1];
+        value = value[0];
+      }
+
+      const dbType = this.model.getDb().getType();
+      if (UnsupportedComputeOperators[dbType]?.includes(operator)) {
+        throw new ClientError(
+          "unsupported_computation_operator",
+          `Computation type '${operator}' is not supported by ${dbType} databases.`,
+        );
+      }
+
       let expression = null;
       if (operator !== "$count") {
-        expression = this.parseValue(
-          comp.compute[keys[0]],
-          join,
-          ConditionType.QUERY,
-        );
+        expression = this.parseValue(value, join, ConditionType.QUERY);
 
         const returnType = expression.getReturnType();
         if (
@@ -1906,7 +3422,7 @@ export class DBAction {
             )}'.`,
           );
         } else if (
-          operator !== "$countif" &&
+          NumericComputeOperators.includes(operator) &&
           returnType !== ReturnType.NUMBER
         ) {
           throw new ClientError(
@@ -1918,6 +3434,28 @@ export class DBAction {
         }
       }
 
+      // Only the $first and $last computations pick a value depending on the order of the grouped records
+      let sort = null;
+      if (comp.sort) {
+        if (operator !== "$first" && operator !== "$last")
+          throw new ClientError(
+            "invalid_computation_entry",
+            `The 'sort' parameter of the computation definition can only be used with '$first' and '$last' computations.`,
+          );
+
+        const action = new DBAction(this.model);
+        action.setSort(comp.sort, join);
+        sort = action.getSort()?.map((entry: any) => ({
+          expression: new FieldValue(
+            entry.field,
+            entry.fieldPath,
+            entry.joinType,
+            entry.joinModel,
+          ),
+          order: entry.order,
+        }));
+      }
+
       if (
         finalist.find((entry) => entry.as === comp.as) ||
         this.definition.groupBy?.find((entry: any) => entry.as === comp.as)
@@ -1927,7 +3465,9 @@ export class DBAction {
           `There is already a computation or grouping with the alias '${comp.as}'.`,
         );
 
-      finalist.push({ as: comp.as, operator, compute: expression });
+      finalist.push(
+        new Computation(comp.as, operator, expression, percentile, sort),
+      );
     }
 
     this.definition.computations = finalist;
@@ -1970,13 +3510,19 @@ export class DBAction {
     const fields = [];
     if (this.definition.groupBy) {
       for (const groupBy of this.definition.groupBy) {
-        fields.push({ name: groupBy.as, type: "text" });
+        fields.push({
+          name: groupBy.as,
+          type: this.getGroupingFieldType(groupBy.expression.getReturnType()),
+        });
       }
     }
 
     if (this.definition.computations) {
       for (const comp of this.definition.computations) {
-        fields.push({ name: comp.as, type: "integer" });
+        fields.push({
+          name: comp.as,
+          type: this.getGroupingFieldType(comp.getReturnType()),
+        });
       }
     }
 
@@ -1989,6 +3535,39 @@ export class DBAction {
     return model;
   }
 
+  /**
+   * Returns the field type of the group by model field holding the values of a grouping or computation, so that the having and sort conditions can use the values as their actual types
+   * @param {ReturnType} returnType The return type of the grouping expression or computation
+   * @returns The field type
+   */
+  getGroupingFieldType(returnType: ReturnType): string {
+    switch (returnType) {
+      case ReturnType.NUMBER:
+        return "decimal";
+      case ReturnType.TEXT:
+        return "text";
+      case ReturnType.ID:
+        return "reference";
+      case ReturnType.BOOLEAN:
+      case ReturnType.STATICBOOLEAN:
+        return "boolean";
+      case ReturnType.DATETIME:
+        return "datetime";
+      case ReturnType.DATE:
+        return "date";
+      case ReturnType.TIME:
+        return "time";
+      case ReturnType.ARRAY:
+        return "basic-values-list";
+      case ReturnType.GEOPOINT:
+        return "geo-point";
+      case ReturnType.BINARY:
+        return "binary";
+      default:
+        return "json";
+    }
+  }
+
   /**
    * Executes the database action
    */
@@ -1996,6 +3575,45 @@ export class DBAction {
     let result = null;
     const db = this.model.getDb();
 
+    // SQL queries are sent as query text plus an ordered parameter list. Subqueries are embedded in other queries as text, so their values are not parameterized.
+    if (
+      SQLdatabaseTypes.includes(db.getType()) &&
+      this.definition.method !== "getSQLQuery"
+    )
+      this.definition.parameters = new QueryParameters(db.getType());
+
+    // Bind the action to the active transaction of the async execution context if there is any
+    this.definition.transaction = db.getTransaction();
+
+    // Each operation of a bulk write is a separate statement with its own parameters, all bound to the same transaction
+    for (const operation of this.definition.operations ?? []) {
+      if (this.definition.parameters)
+        operation.parameters = new QueryParameters(db.getType());
+      operation.transaction = this.definition.transaction;
+    }
+
+    // In explain mode the query is compiled by the adapter but it is not executed
+    const explain = db.getExplainContext();
+    if (explain) {
+      const output = await db
+        .getAdapterObj(this.definition.useReadReplica)
+        .explain(
+          db.getMetaObj(),
+          this.model.getMetaObj(),
+          this.definition,
+          explain.executionPlan,
+        );
+
+      explain.queries.push({
+        method: this.definition.method,
+        query: output?.query ?? null,
+        parameters: this.definition.parameters?.getValues() ?? null,
+        plan: output?.plan ?? null,
+      });
+
+      return null;
+    }
+
     switch (this.definition.method) {
       case "createOne":
         result = await db
@@ -2004,6 +3622,7 @@ export class DBAction {
             db.getMetaObj(),
             this.model.getMetaObj(),
             this.definition.createData,
+            this.definition.transaction,
           );
         break;
       case "createMany":
@@ -2013,8 +3632,28 @@ export class DBAction {
             db.getMetaObj(),
             this.model.getMetaObj(),
             this.definition.createData,
+            this.definition.transaction,
+          );
+        break;
+      case "upsertOne":
+        result = await db
+          .getAdapterObj(false)
+          .upsertOne(db.getMetaObj(), this.model.getMetaObj(), this.definition);
+        break;
+      case "upsertMany":
+        result = await db
+          .getAdapterObj(false)
+          .upsertMany(
+            db.getMetaObj(),
+            this.model.getMetaObj(),
+            this.definition,
           );
         break;
+      case "bulkWrite":
+        result = await db
+          .getAdapterObj(false)
+          .bulkWrite(db.getMetaObj(), this.model.getMetaObj(), this.definition);
+        break;
       case "deleteById":
         result = await db
           .getAdapterObj(false)
@@ -2039,19 +3678,70 @@ export class DBAction {
           );
         break;
       case "findById":
-        result = await db
-          .getAdapterObj(this.definition.useReadReplica)
-          .findById(db.getMetaObj(), this.model.getMetaObj(), this.definition);
+        result = await db.runOnAdapter(
+          this.definition.useReadReplica,
+          (adapter) =>
+            adapter.findById(
+              db.getMetaObj(),
+              this.model.getMetaObj(),
+              this.definition,
+            ),
+        );
         break;
       case "findOne":
-        result = await db
-          .getAdapterObj(this.definition.useReadReplica)
-          .findOne(db.getMetaObj(), this.model.getMetaObj(), this.definition);
+        result = await db.runOnAdapter(
+          this.definition.useReadReplica,
+          (adapter) =>
+            adapter.findOne(
+              db.getMetaObj(),
+              this.model.getMetaObj(),
+              this.definition,
+            ),
+        );
         break;
       case "findMany":
-        result = await db
-          .getAdapterObj(this.definition.useReadReplica)
-          .findMany(db.getMetaObj(), this.model.getMetaObj(), this.definition);
+        result = await db.runOnAdapter(
+          this.definition.useReadReplica,
+          (adapter) =>
+            adapter.findMany(
+              db.getMetaObj(),
+              this.model.getMetaObj(),
+              this.definition,
+            ),
+        );
+        break;
+      case "count":
+        result = await db.runOnAdapter(
+          this.definition.useReadReplica,
+          (adapter) =>
+            adapter.count(
+              db.getMetaObj(),
+              this.model.getMetaObj(),
+              this.definition,
+            ),
+        );
+        break;
+      case "exists":
+        result = await db.runOnAdapter(
+          this.definition.useReadReplica,
+          (adapter) =>
+            adapter.exists(
+              db.getMetaObj(),
+              this.model.getMetaObj(),
+              this.definition,
+            ),
+        );
+        break;
+      case "distinct":
+        result = await db.runOnAdapter(
+          this.definition.useReadReplica,
+          (adapter) =>
+            adapter.distinct(
+              db.getMetaObj(),
+              this.model.getMetaObj(),
+              this.definition,
+            ),
+        );
         break;
       case "updateById":
         result = await db
@@ -2077,18 +3767,26 @@ export class DBAction {
           );
         break;
       case "aggregate":
-        result = await db
-          .getAdapterObj(false)
-          .aggregate(db.getMetaObj(), this.model.getMetaObj(), this.definition);
+        result = await db.runOnAdapter(
+          this.definition.useReadReplica,
+          (adapter) =>
+            adapter.aggregate(
+              db.getMetaObj(),
+              this.model.getMetaObj(),
+              this.definition,
+            ),
+        );
         break;
       case "searchText":
-        result = await db
-          .getAdapterObj(false)
-          .searchText(
-            db.getMetaObj(),
-            this.model.getMetaObj(),
-            this.definition,
-          );
+        result = await db.runOnAdapter(
+          this.definition.useReadReplica,
+          (adapter) =>
+            adapter.searchText(
+              db.getMetaObj(),
+              this.model.getMetaObj(),
+              this.definition,
+            ),
+        );
         break;
       case "getSQLQuery":
         result = await db
@@ -2101,6 +3799,10 @@ export class DBAction {
         break;
     }
 
+    // Pin the reads of the active read-your-writes session to the read-write database
+    if (WriteMethods.includes(this.definition.method as string))
+      db.recordWrite();
+
     return result;
   }
 }
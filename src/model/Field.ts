@@ -131,6 +131,14 @@ export class Field {
     return this.meta.required;
   }
 
+  /**
+   * Checks if the field values are unique or not
+   * @returns True if field values are unique otherwise false
+   */
+  isUnique(): boolean {
+    return this.meta.unique ?? false;
+  }
+
   /**
    * Checks if the field is a system managed field (e.g., id, createdAt, updatedAt fields) or not
    * @returns True if field is system managed otherwise false
@@ -230,6 +238,17 @@ export class Field {
     }
   }
 
+  /**
+   * Returns the database specific value of a date or datetime field
+   * @param {Date | null} date The date value
+   * @returns Date value to store in the database
+   */
+  getDateValue(date: Date | null): any {
+    // SQLite does not have a date type, dates are stored as ISO 8601 text which is also understood by its date functions
+    if (date && this.getDBType() === "SQLite") return date.toISOString();
+    else return date;
+  }
+
   /**
    * Prepares field value and updates the field value in `processedData` object. In case of validation errors adds error entries to the `response` object
    * @param {any} rawValue Raw value of the field
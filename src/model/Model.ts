@@ -2,14 +2,18 @@ import { ModelBase } from "./ModelBase";
 import {
   DatabaseName,
   ModelList,
+  ModelType,
   ModelTypeHierarchy,
-  FTSFields,
 } from "../utils/specifics";
 import {
   CountInfo,
   FindByIdArgs,
   FindOneArgs,
   FindManyArgs,
+  IterateArgs,
+  CountArgs,
+  ExistsArgs,
+  DistinctArgs,
   DeleteArgs,
   UpdateByIdArgs,
   UpdateOneArgs,
@@ -18,7 +22,16 @@ import {
   WhereCondition,
   UpdateDefinition,
   SearchTextArgs,
+  SearchFields,
   GetSQLSubQueryArgs,
+  HookType,
+  HookFunction,
+  BulkWriteOperation,
+  BulkWriteArgs,
+  BulkWriteResult,
+  ExplainableMethod,
+  ExplainOptions,
+  QueryExplanation,
 } from "../utils/types";
 
 /**
@@ -43,6 +56,35 @@ export class Model<D extends DatabaseName, T extends ModelList<D>> {
     this.modelBase = modelBase;
   }
 
+  /**
+   * Registers a lifecycle hook to the model. Hooks are called around the create, update, delete and find operations of the model in their registration order.
+   *
+   * Before hooks receive the input parameters of the operation in the hook context and can modify them (e.g., `context.data`, `context.where`) or abort the operation by throwing an error. After hooks receive the result of the operation in `context.result`.
+   *
+   * ```
+   * agnost.db("myDB").model("posts").on("beforeCreate", (context) => {
+   *   context.data.slug = context.data.title.toLowerCase().replace(/\s+/g, "-");
+   * });
+   * ```
+   *
+   * @param {HookType} type The lifecycle event to register the hook to (e.g., beforeCreate, afterUpdate)
+   * @param {HookFunction} fn The hook function
+   * @throws Throws an exception if the event type or the hook function is not valid
+   */
+  on(type: HookType, fn: HookFunction): void {
+    this.modelBase.on(type, fn);
+  }
+
+  /**
+   * Removes a lifecycle hook from the model. If no hook function is provided removes all hooks of the event.
+   *
+   * @param {HookType} type The lifecycle event to remove the hook from
+   * @param {HookFunction} fn The hook function to remove
+   */
+  off(type: HookType, fn?: HookFunction): void {
+    this.modelBase.off(type, fn);
+  }
+
   /**
    * Creates single record in the database.
    *
@@ -67,6 +109,48 @@ export class Model<D extends DatabaseName, T extends ModelList<D>> {
     return await this.modelBase.createMany(data);
   }
 
+  /**
+   * Creates a single record in the database, if a record with the same conflict field values already exists then updates the existing record. The check and the write are performed in a single database operation, `ON CONFLICT` in PostgreSQL, `ON DUPLICATE KEY UPDATE` in MySQL and upsert in MongoDB.
+   *
+   * @param {ModelTypeHierarchy<D, T>} data The data that will be inserted into the database. The values of the conflict fields need to be provided.
+   * @param {keyof ModelType<D, T> | (keyof ModelType<D, T>)[]} conflictFields The id field or unique field name(s) used to detect the existing record.
+   * @param {UpdateDefinition} updates The optional update definitions to apply to the existing record, supports the same field update operators of the `updateById` method. If not provided, the existing record is updated with the values of the data to insert.
+   * @returns Returns the created or updated record in the database.
+   * @throws Throws an exception if the record cannot be created or updated in the database.
+   */
+  async upsertOne(
+    data: ModelTypeHierarchy<D, T>,
+    conflictFields: keyof ModelType<D, T> | (keyof ModelType<D, T>)[],
+    updates?: UpdateDefinition<D, T>,
+  ): Promise<object> {
+    return await this.modelBase.upsertOne(
+      data,
+      conflictFields as string | string[],
+      updates,
+    );
+  }
+
+  /**
+   * Creates multiple records in the database, if a record with the same conflict field values already exists then updates the existing record. The check and the write are performed in a single database operation, `ON CONFLICT` in PostgreSQL, `ON DUPLICATE KEY UPDATE` in MySQL and upsert in MongoDB.
+   *
+   * @param {ModelTypeHierarchy<D, T>[]} data The list of records that will be inserted into the database. The values of the conflict fields need to be provided for each record.
+   * @param {keyof ModelType<D, T> | (keyof ModelType<D, T>)[]} conflictFields The id field or unique field name(s) used to detect the existing records.
+   * @param {UpdateDefinition} updates The optional update definitions to apply to the existing records, supports the same field update operators of the `updateMany` method. If not provided, the existing records are updated with the values of the data to insert.
+   * @returns Returns the count of created or updated records in the database
+   * @throws Throws an exception if the records cannot be created or updated in the database.
+   */
+  async upsertMany(
+    data: ModelTypeHierarchy<D, T>[],
+    conflictFields: keyof ModelType<D, T> | (keyof ModelType<D, T>)[],
+    updates?: UpdateDefinition<D, T>,
+  ): Promise<CountInfo> {
+    return await this.modelBase.upsertMany(
+      data,
+      conflictFields as string | string[],
+      updates,
+    );
+  }
+
   /**
    * Returns a single database record identified by its `id`. If no matching record found then `null` is returned.
    *
@@ -77,6 +161,8 @@ export class Model<D extends DatabaseName, T extends ModelList<D>> {
    *   - lookup?: The lookup(s) to make while getting the record from the database.
    *   - useReadReplica?:  Specifies whether to use the read replica of the database or not. If no read replica exists, it uses the read-write database.
    *   - where: The where condition that will be used to filter the records.
+   *   - withDeleted?: Specifies whether to include the soft deleted records or not. Only applicable to models in soft delete mode.
+   *   - onlyDeleted?: Specifies whether to return only the soft deleted records or not. Only applicable to models in soft delete mode.
    * @returns Returns the matching record otherwise null
    * @throws Throws an exception if the database record cannot be retrieved
    */
@@ -99,6 +185,8 @@ export class Model<D extends DatabaseName, T extends ModelList<D>> {
    *   - useReadReplica?:  Specifies whether to use the read replica of the database or not. If no read replica exists, it uses the read-write database.
    *   - sort?: Sorts the returned objects by the values of the specified fields and sorting order. The sort definition can only include the fields of the base model and joined models but not looked up models.
    *   - skip?: Number of records to skip.
+   *   - withDeleted?: Specifies whether to include the soft deleted records or not. Only applicable to models in soft delete mode.
+   *   - onlyDeleted?: Specifies whether to return only the soft deleted records or not. Only applicable to models in soft delete mode.
    * @returns Returns the matching record otherwise null
    * @throws Throws an exception if the database record cannot be retrieved
    */
@@ -113,7 +201,7 @@ export class Model<D extends DatabaseName, T extends ModelList<D>> {
    * Returns database records matching the `where` query. If no matching objects found an empty array is returned
    *
    * @param {WhereCondition} where The where condition that will be used to filter the records. The where condition can only include the fields of the base model and joined models but not looked up models.
-   * @param {FindManyArgs} args The input parameters of the method, namely the `sort`, `skip`, `limit`, `select`, `omit`, `lookup`, `join` and `useReadReplica` definitions
+   * @param {FindManyArgs} args The input parameters of the method, namely the `sort`, `skip`, `limit`, `select`, `omit`, `lookup`, `join`, `useReadReplica`, `cursor` and `returnPageInfo` definitions
    *   - select?: Array of fields to include on the returned record, can include fields of base model, joined models and looked up models. If not provided, checks the `omit` list if `omit` is also not provided then all fields will be returned. You can specifiy either `select` or `omit` but not both.
    *   - omit?: Array of fields to exclude on the returned record, can include fields of base model, joined models and looked up models. If not provided, checks the `select` list if `select` is also not provided then all fields will be returned. You can specifiy either `select` or `omit` but not both.
    *   - lookup?: The lookup(s) to make while getting the record from the database.
@@ -123,7 +211,11 @@ export class Model<D extends DatabaseName, T extends ModelList<D>> {
    *   - skip?: Number of records to skip.
    *   - limit?: Max number of objects to return.
    *   - returnCount?: Specifies whether to return the count information or not. If set to true, returns an object which includes count information and list of matched objects.
-   * @returns Returns the matching records otherwise an empty array. If `returnCountInfo=true`, returns an object which includes count information and list of matched objects.
+   *   - cursor?: The `nextCursor` or `prevCursor` value returned in the page info of a previous call to retrieve the next or previous page of records. The sort definition needs to be the same with the call that returned the cursor. Cursor based pagination cannot be combined with `skip` or `returnCount`.
+   *   - returnPageInfo?: Specifies whether to return the cursors of the next and previous pages or not. If set to true, returns an object which includes the page info `{ nextCursor, prevCursor, hasMore }` and list of matched objects. The records are sorted by the id field after the `sort` fields so that the cursors identify unique positions.
+   *   - withDeleted?: Specifies whether to include the soft deleted records or not. Only applicable to models in soft delete mode.
+   *   - onlyDeleted?: Specifies whether to return only the soft deleted records or not. Only applicable to models in soft delete mode.
+   * @returns Returns the matching records otherwise an empty array. If `returnCountInfo=true`, returns an object which includes count information and list of matched objects. If `returnPageInfo=true`, returns an object which includes the page info and list of matched objects.
    * @throws Throws an exception if the database records cannot be retrieved
    */
   async findMany(
@@ -134,7 +226,98 @@ export class Model<D extends DatabaseName, T extends ModelList<D>> {
   }
 
   /**
-   * Deletes the record identified by the id and returns the deleted document count.
+   * Returns the number of records matching the `where` query. The records are counted in the database without fetching them.
+   *
+   * @param {WhereCondition} where The where condition that will be used to filter the records. If not provided, all records of the model are counted.
+   * @param {CountArgs} args The input parameters of the method, namely the `join` and `useReadReplica` definitions
+   *   - join?: The join(s) to make (left outer join) while querying the records.
+   *   - useReadReplica?:  Specifies whether to use the read replica of the database or not. If no read replica exists, it uses the read-write database.
+   *   - withDeleted?: Specifies whether to include the soft deleted records or not. Only applicable to models in soft delete mode.
+   *   - onlyDeleted?: Specifies whether to consider only the soft deleted records or not. Only applicable to models in soft delete mode.
+   * @returns Returns the number of matching records
+   * @throws Throws an exception if the records cannot be counted
+   */
+  async count(
+    where?: WhereCondition<D, T>,
+    args?: CountArgs<D, T>,
+  ): Promise<number> {
+    return await this.modelBase.count(where, args);
+  }
+
+  /**
+   * Checks whether there is at least one record matching the `where` query without fetching the records.
+   *
+   * @param {WhereCondition} where The where condition that will be used to filter the records
+   * @param {ExistsArgs} args The input parameters of the method, namely the `join` and `useReadReplica` definitions
+   *   - join?: The join(s) to make (left outer join) while querying the records.
+   *   - useReadReplica?:  Specifies whether to use the read replica of the database or not. If no read replica exists, it uses the read-write database.
+   *   - withDeleted?: Specifies whether to include the soft deleted records or not. Only applicable to models in soft delete mode.
+   *   - onlyDeleted?: Specifies whether to consider only the soft deleted records or not. Only applicable to models in soft delete mode.
+   * @returns Returns true if there is a matching record otherwise false
+   * @throws Throws an exception if the database records cannot be queried
+   */
+  async exists(
+    where: WhereCondition<D, T>,
+    args?: ExistsArgs<D, T>,
+  ): Promise<boolean> {
+    return await this.modelBase.exists(where, args);
+  }
+
+  /**
+   * Returns the distinct values of the field in the records matching the `where` query.
+   *
+   * @param {string} field The name of the field to get its distinct values. Fields of the joined models can be specified in dot notation e.g., `customer.city`.
+   * @param {WhereCondition} where The where condition that will be used to filter the records. If not provided, the distinct values in all records of the model are returned.
+   * @param {DistinctArgs} args The input parameters of the method, namely the `join`, `sort`, `limit` and `useReadReplica` definitions
+   *   - join?: The join(s) to make (left outer join) while querying the records.
+   *   - sort?: Sorts the distinct values in ascending (`asc`) or descending (`desc`) order.
+   *   - limit?: Max number of distinct values to return.
+   *   - useReadReplica?:  Specifies whether to use the read replica of the database or not. If no read replica exists, it uses the read-write database.
+   *   - withDeleted?: Specifies whether to include the soft deleted records or not. Only applicable to models in soft delete mode.
+   *   - onlyDeleted?: Specifies whether to consider only the soft deleted records or not. Only applicable to models in soft delete mode.
+   * @returns Returns the distinct values of the field
+   * @throws Throws an exception if the distinct values cannot be retrieved
+   */
+  async distinct(
+    field: string,
+    where?: WhereCondition<D, T>,
+    args?: DistinctArgs<D, T>,
+  ): Promise<any[]> {
+    return await this.modelBase.distinct(field, where, args);
+  }
+
+  /**
+   * Returns an async iterable over the database records matching the `where` query. The records are fetched in batches using keyset pagination on the sort fields, so that large result sets can be processed without loading all records into memory or skipping over growing offsets.
+   *
+   * ```
+   * for await (const order of agnost.db("myDB").model("orders").iterate({ status: "open" }, { sort: { createdAt: "asc" } })) {
+   *   // process the order
+   * }
+   * ```
+   *
+   * @param {WhereCondition} where The where condition that will be used to filter the records. The where condition can only include the fields of the base model and joined models but not looked up models.
+   * @param {IterateArgs} args The input parameters of the method, namely the `sort`, `select`, `omit`, `lookup`, `join`, `useReadReplica` and `batchSize` definitions
+   *   - select?: Array of fields to include on the returned record, can include fields of base model, joined models and looked up models. If not provided, checks the `omit` list if `omit` is also not provided then all fields will be returned. You can specifiy either `select` or `omit` but not both.
+   *   - omit?: Array of fields to exclude on the returned record, can include fields of base model, joined models and looked up models. If not provided, checks the `select` list if `select` is also not provided then all fields will be returned. You can specifiy either `select` or `omit` but not both.
+   *   - lookup?: The lookup(s) to make while getting the record from the database.
+   *   - join?: The join(s) to make (left outer join) while getting the record from the database.
+   *   - useReadReplica?:  Specifies whether to use the read replica of the database or not. If no read replica exists, it uses the read-write database.
+   *   - sort?: Sorts the returned objects by the values of the specified fields and sorting order. The id field is always appended as the last sort field. The sort fields need to be included in the returned records and should not have null values.
+   *   - batchSize?: Number of records to fetch from the database in each batch, by default `100`.
+   *   - withDeleted?: Specifies whether to include the soft deleted records or not. Only applicable to models in soft delete mode.
+   *   - onlyDeleted?: Specifies whether to return only the soft deleted records or not. Only applicable to models in soft delete mode.
+   * @returns Returns the async iterable of the matching records
+   * @throws Throws an exception if the database records cannot be retrieved
+   */
+  iterate(
+    where: WhereCondition<D, T>,
+    args?: IterateArgs<D, T>,
+  ): AsyncIterable<object> {
+    return this.modelBase.iterate(where, args);
+  }
+
+  /**
+   * Deletes the record identified by the id and returns the deleted document count. If the model is in soft delete mode, the record is marked as deleted by setting its deletion time instead of being removed.
    *
    * @param {string | number} id The unique identifier of the record to delete. If the database is `MongoDB` then a valid MongoDB identifier is required.
    * @returns Returns the count of the records deleted in the database
@@ -145,7 +328,7 @@ export class Model<D extends DatabaseName, T extends ModelList<D>> {
   }
 
   /**
-   * Deletes the first record matching the `where` condition and returns the deleted document. If the `where` condition matches multiple documents, only the first document (in natural order, which often corresponds to insertion order unless there's an index that determines otherwise) will be deleted.
+   * Deletes the first record matching the `where` condition and returns the deleted document. If the `where` condition matches multiple documents, only the first document (in natural order, which often corresponds to insertion order unless there's an index that determines otherwise) will be deleted. If the model is in soft delete mode, the record is marked as deleted by setting its deletion time instead of being removed.
    *
    * @param {WhereCondition} where The where condition that will be used to filter the records
    * @param {DeleteArgs} args The input parameters of the method, namely the `join` definition(s)
@@ -161,7 +344,7 @@ export class Model<D extends DatabaseName, T extends ModelList<D>> {
   }
 
   /**
-   * Deletes the records matching the `where` condition.
+   * Deletes the records matching the `where` condition. If the model is in soft delete mode, the records are marked as deleted by setting their deletion time instead of being removed.
    *
    * @param {DeleteArgs} args The input parameters of the method, namely the `join` definition(s)
    *   - join?: The join(s) to make (left outer join) while getting the record from the database.
@@ -176,7 +359,7 @@ export class Model<D extends DatabaseName, T extends ModelList<D>> {
   }
 
   /**
-   * Updates the record identified by the id and returns the updated record. If no matching record found then `null` is returned.
+   * Updates the record identified by the id and returns the updated record. If no matching record found then `null` is returned. If the model has a version field, the version of the record is incremented automatically.
    *
    * @param {string | number} id The unique identifier of the record to update. If the database is MongoDB then a valid MongoDB identifier is required.
    * @param {UpdateDefinition} updates An object that contains the fields and their values to update in the database
@@ -195,8 +378,10 @@ export class Model<D extends DatabaseName, T extends ModelList<D>> {
    *   - select?: Array of fields to include on the returned record. If not provided, checks the `omit` list if `omit` is also not provided then all fields will be returned. You can specifiy either `select` or `omit` but not both.
    *   - omit?: Array of fields to exclude on the returned record. If not provided, checks the `select` list if `select` is also not provided then all fields will be returned. You can specifiy either `select` or `omit` but not both.
    *   - arrayFilters?: The filtered positional operator $[<identifier>] in MongoDB identifies the array elements that match the arrayFilters conditions for an update operation. Array filters define the conditional match structure for array objects and used during update operations that involve update of array elements. You can only use $eq, $neq, $lt, $lte, $gt, $gte, $in, $nin, $and, $or, $not and $exists functions in your array filter conditions. Please note that this option is only available for `MongoDB` databases.
+   *   - expectedVersion?: The version that the record is expected to have. If the model has a version field and the stored version of the record is different, the update fails with a `version_conflict` error. Use it to prevent overwriting the changes made by others since the record is read.
+   *   - withDeleted?: Specifies whether to update the soft deleted records or not. By default the soft deleted records are not updated. Only applicable to models in soft delete mode.
    * @returns Returns the updated record
-   * @throws Throws an exception if an error occurs during the update operation
+   * @throws Throws an exception if an error occurs during the update operation or the version of the record is different than the expected version
    */
   async updateById(
     id: string | number,
@@ -207,7 +392,7 @@ export class Model<D extends DatabaseName, T extends ModelList<D>> {
   }
 
   /**
-   * Updates the first record matching the `where` condition and returns the updated record. If the `where` condition matches multiple documents, only the first document (in natural order, which often corresponds to insertion order unless there's an index that determines otherwise) will be updated. If no matching record found then `null` is returned.
+   * Updates the first record matching the `where` condition and returns the updated record. If the `where` condition matches multiple documents, only the first document (in natural order, which often corresponds to insertion order unless there's an index that determines otherwise) will be updated. If no matching record found then `null` is returned. If the model has a version field, the version of the record is incremented automatically.
    *
    * @param {WhereCondition} where The where condition that will be used to filter the records
    * @param {UpdateDefinition} updates An object that contains the fields and their values to update in the database
@@ -226,6 +411,8 @@ export class Model<D extends DatabaseName, T extends ModelList<D>> {
    *   - select?: Array of fields to include on the returned record. If not provided, checks the `omit` list if `omit` is also not provided then all fields will be returned. You can specifiy either `select` or `omit` but not both.
    *   - omit?: Array of fields to exclude on the returned record. If not provided, checks the `select` list if `select` is also not provided then all fields will be returned. You can specifiy either `select` or `omit` but not both.	 *   - join?: The join(s) to make (left outer join) while getting the record from the database.
    *   - arrayFilters?: The filtered positional operator $[<identifier>] in MongoDB identifies the array elements that match the arrayFilters conditions for an update operation. Array filters define the conditional match structure for array objects and used during update operations that involve update of array elements. You can only use $eq, $neq, $lt, $lte, $gt, $gte, $in, $nin, $and, $or, $not and $exists functions in your array filter conditions. Please note that this option is only available for `MongoDB` databases.
+   *   - expectedVersion?: The version that the record is expected to have. If the model has a version field and the stored version of the record is different, the update fails with a `version_conflict` error. Use it to prevent overwriting the changes made by others since the record is read.
+   *   - withDeleted?: Specifies whether to update the soft deleted records or not. By default the soft deleted records are not updated. Only applicable to models in soft delete mode.
    * @returns Returns the number of the records updated in the database
    * @throws Throws an exception if an error occurs during the update operation
    */
@@ -238,7 +425,7 @@ export class Model<D extends DatabaseName, T extends ModelList<D>> {
   }
 
   /**
-   * Updates the records matching the `where` condition.
+   * Updates the records matching the `where` condition. If the model has a version field, the versions of the records are incremented automatically.
    *
    * @param {WhereCondition} where The where condition that will be used to filter the records
    * @param {UpdateDefinition} updates An object that contains the fields and their values to update in the database
@@ -256,6 +443,7 @@ export class Model<D extends DatabaseName, T extends ModelList<D>> {
    * @param {UpdateManyArgs} args The input parameters of the method, namely the `join` instructions
    *   - join?: The join(s) to make (left outer join) while getting the record from the database.
    *   - arrayFilters?: The filtered positional operator $[<identifier>] in MongoDB identifies the array elements that match the arrayFilters conditions for an update operation. Array filters define the conditional match structure for array objects and used during update operations that involve update of array elements. You can only use $eq, $neq, $lt, $lte, $gt, $gte, $in, $nin, $and, $or, $not and $exists functions in your array filter conditions. Please note that this option is only available for `MongoDB` databases.
+   *   - withDeleted?: Specifies whether to update the soft deleted records or not. By default the soft deleted records are not updated. Only applicable to models in soft delete mode.
    * @returns Returns the number of the records updated in the database
    * @throws Throws an exception if an error occurs during the update operation
    */
@@ -267,19 +455,114 @@ export class Model<D extends DatabaseName, T extends ModelList<D>> {
     return await this.modelBase.updateMany(where, updates, args);
   }
 
+  /**
+   * Restores the soft deleted record identified by the id. This method can only be used for models in soft delete mode.
+   *
+   * @param {string | number} id The unique identifier of the record to restore. If the database is `MongoDB` then a valid MongoDB identifier is required.
+   * @returns Returns the count of the records restored in the database
+   * @throws Throws an exception if the model is not in soft delete mode or an error occurs during the restore operation
+   */
+  async restoreById(id: string | number): Promise<CountInfo> {
+    return await this.modelBase.restoreById(id);
+  }
+
+  /**
+   * Restores the soft deleted records matching the `where` condition. This method can only be used for models in soft delete mode.
+   *
+   * @param {WhereCondition} where The where condition that will be used to filter the records
+   * @param {DeleteArgs} args The input parameters of the method, namely the `join` definition(s)
+   *   - join?: The join(s) to make (left outer join) while getting the record from the database.
+   * @returns Returns the count of the records restored in the database
+   * @throws Throws an exception if the model is not in soft delete mode or an error occurs during the restore operation
+   */
+  async restoreMany(
+    where: WhereCondition<D, T>,
+    args?: DeleteArgs<D, T>,
+  ): Promise<CountInfo> {
+    return await this.modelBase.restoreMany(where, args);
+  }
+
+  /**
+   * Executes a batch of create, update and delete operations with a single database call, a `bulkWrite` in MongoDB and a single transaction in SQL databases. Each operation is validated the same way as its corresponding model method.
+   *
+   * ```
+   * const { results, errors } = await agnost
+   *   .db("myDB")
+   *   .model("products")
+   *   .bulkWrite(
+   *     [
+   *       { createOne: { data: { name: "Pen", stock: 10 } } },
+   *       { updateById: { id: productId, updates: { stock: { $inc: 5 } } } },
+   *       { deleteMany: { where: { $eq: ["stock", 0] } } },
+   *     ],
+   *     { ordered: false },
+   *   );
+   * ```
+   *
+   * > If the model is in soft delete mode, the delete operations mark the records as deleted instead of removing them. The before and after hooks of the corresponding model methods are run for each operation. `updateById` and `updateOne` operations can specify the `expectedVersion` of the record, if the record has been modified by another operation the version conflict is reported in the errors. Update operations do not update the soft deleted records unless they set `withDeleted` to true.
+   *
+   * @param {BulkWriteOperation[]} operations The list of operations. Supported operations are `createOne`, `updateById`, `updateOne`, `updateMany`, `deleteById`, `deleteOne` and `deleteMany` and their parameters are the same with the parameters of the corresponding model methods.
+   * @param {BulkWriteArgs} args The input parameters of the method, namely the `ordered` flag
+   *   - ordered?: Whether to execute the operations in order and stop at the first failing operation. If `false`, all operations are attempted and the failing ones are reported in the errors. Defaults to `true`.
+   * @returns Returns the results of the operations in the order of the operations list and the errors of the failed operations. The result of a failed or not executed operation is `null`.
+   * @throws Throws an exception if the operations list is not valid or an error occurs during the bulk write
+   */
+  async bulkWrite(
+    operations: BulkWriteOperation<D, T>[],
+    args?: BulkWriteArgs,
+  ): Promise<BulkWriteResult> {
+    return await this.modelBase.bulkWrite(operations, args);
+  }
+
+  /**
+   * Enables the soft delete mode of the model. In soft delete mode, `deleteById`, `deleteOne` and `deleteMany` methods set the deletion time of the records instead of removing them, and soft deleted records are excluded from the results of `findById`, `findOne`, `findMany`, `iterate`, `aggregate` and `searchText` methods and from the records updated by `updateById`, `updateOne` and `updateMany` methods, including the records of joined and looked up models in soft delete mode. Soft delete mode can also be enabled in the model metadata.
+   *
+   * @param {string} fieldName The name of the optional datetime field that keeps the deletion time of the records, by default `deletedAt`.
+   * @throws Throws an exception if the model does not have a suitable datetime field
+   */
+  enableSoftDelete(fieldName?: string): void {
+    this.modelBase.enableSoftDelete(fieldName);
+  }
+
+  /**
+   * Disables the soft delete mode of the model
+   */
+  disableSoftDelete(): void {
+    this.modelBase.disableSoftDelete();
+  }
+
+  /**
+   * Enables the versioning of the records for optimistic concurrency control. The version of a record starts from 1 and it is incremented automatically by `updateById`, `updateOne` and `updateMany` methods. You can pass the `expectedVersion` to `updateById` and `updateOne` methods to make sure the record has not been modified since it is read. Versioning can also be enabled in the model metadata.
+   *
+   * @param {string} fieldName The name of the integer field that keeps the version of the records, by default `version`.
+   * @throws Throws an exception if the model does not have a suitable integer field
+   */
+  enableVersioning(fieldName?: string): void {
+    this.modelBase.enableVersioning(fieldName);
+  }
+
+  /**
+   * Disables the versioning of the records
+   */
+  disableVersioning(): void {
+    this.modelBase.disableVersioning();
+  }
+
   /**
    * Groups the records of the model by the specified expressions or by the specified fields to calculated group statistics.
    *
    * @param {AggregateArgs} args The input parameters of the method, namely the `where`, `join`, `groupBy`, `computations`, `having`, `sort`, `limit` and `skip`  instructions
    *   - where?: The where condition that will be used to filter the records before aggregation.
    *   - join?: The join(s) to make (left outer join) while getting the record from the database.
-   *   - groupBy?: The model field names and/or expressions to group the records. If no grouping specified then aggregates all records of the model.
-   *   - computations: The computations that will be peformed on the grouped records. At least one computation needs to be provided.
-   *   - having?: The conditions that will be applied on the grouped results to further narrow down the results.
+   *   - groupBy?: The model field names and/or expressions to group the records. If no grouping specified then aggregates all records of the model. Records can also be grouped into date buckets (e.g., by day in a specific time zone) using `{as, bucket: {field, unit, timezone?, fillEmpty?, from?, to?}}` definitions. Date buckets are not supported by SQL Server, Oracle and SQLite databases.
+   *   - computations: The computations that will be peformed on the grouped records. At least one computation needs to be provided. Supported compute operators are `$count`, `$countif`, `$sum`, `$avg`, `$min`, `$max`, `$countDistinct`, `$stddev`, `$stddevPop`, `$variance`, `$median`, `$percentile`, `$first`, `$last`, `$push` and `$addToSet`. `$first` and `$last` computations can define a `sort` to pick the value of the grouped records in the specified order. `$median` and `$percentile` are not supported by SQL Server and SQLite databases, `$first`, `$last`, `$push` and `$addToSet` are not supported by SQL Server, Oracle and SQLite databases, and `$stddev`, `$stddevPop` and `$variance` are not supported by SQLite databases.
+   *   - having?: The conditions that will be applied on the grouped results to further narrow down the results. Groupings and computations are referenced by their aliases and have the value types of their expressions, e.g., a date bucket can be compared to dates and an average to decimal values.
    *   - useReadReplica?:  Specifies whether to use the read replica of the database or not. If no read replica exists, it uses the read-write database.
    *   - sort?: Sorts the returned groups by the values of the computations.
    *   - skip?: Number of records to skip.
    *   - limit?: Max number of records to return.
+   *   - withDeleted?: Specifies whether to include the soft deleted records or not. Only applicable to models in soft delete mode.
+   *   - onlyDeleted?: Specifies whether to return only the soft deleted records or not. Only applicable to models in soft delete mode.
    * @returns Returns the aggregation results
    * @throws Throws an exception if an error occurs during the aggregage operation
    */
@@ -288,9 +571,9 @@ export class Model<D extends DatabaseName, T extends ModelList<D>> {
   }
 
   /**
-   * Retrieves a list of records from the database running the text search. It performs a logical OR search of the terms unless specified as a phrase between double-quotes. If filter is specified it applies the filter query to further narrow down the results.
+   * Retrieves a list of records from the database running the text search. By default it performs a logical OR search of the terms unless specified as a phrase between double-quotes, the `mode` parameter can be used to run phrase, prefix and boolean searches. If filter is specified it applies the filter query to further narrow down the results.
    *
-   * @param {FTSFields} field The full-text search indexed field name where the text search will be applied. Please note that in MongoDB a collection (model) can only have one text index, but that index can cover multiple fields. For this reason as long as you provide a valid field name that is marked as searchable in Agnost Studio, the text search will be applied to all searchable fields of the collection.
+   * @param {SearchFields} field The full-text search indexed field name where the text search will be applied. Multiple searchable fields can be searched at once either as a list of field names or as an object of field names and their weights, e.g., `{ title: 3, body: 1 }`, where matches in fields with higher weights increase the relevance score more. Please note that in MongoDB a collection (model) can only have one text index, but that index can cover multiple fields. For this reason as long as you provide a valid field name that is marked as searchable in Agnost Studio, the text search will be applied to all searchable fields of the collection and the field weights are defined by the text index. In MySQL each field is matched separately using its own full-text index.
    * @param {string} text The search text.
    * @param {SearchTextArgs} args The input parameters of the method, namely the `sort`, `skip`, `limit`, `select`, `omit`, `lookup`, `join` and `useReadReplica` definitions
    *   - where?: The where condition that will be used to further filter results.
@@ -302,11 +585,19 @@ export class Model<D extends DatabaseName, T extends ModelList<D>> {
    *   - skip?: Number of records to skip.
    *   - limit?: Max number of objects to return.
    *   - returnCount?: Specifies whether to return the count information or not. If set to true, returns an object which includes count information and list of matched objects.
-   * @returns Returns the matching records otherwise an empty array. If `returnCountInfo=true`, returns an object which includes count information and list of matched objects.
+   *   - cursor?: The `nextCursor` or `prevCursor` value returned in the page info of a previous call to retrieve the next or previous page of records. The sort definition needs to be the same with the call that returned the cursor. Cursor based pagination cannot be combined with `skip` or `returnCount`.
+   *   - returnPageInfo?: Specifies whether to return the cursors of the next and previous pages or not. If set to true, returns an object which includes the page info `{ nextCursor, prevCursor, hasMore }` and list of matched objects. The records are sorted by the id field after the `sort` fields so that the cursors identify unique positions.
+   *   - withDeleted?: Specifies whether to include the soft deleted records or not. Only applicable to models in soft delete mode.
+   *   - onlyDeleted?: Specifies whether to return only the soft deleted records or not. Only applicable to models in soft delete mode.
+   *   - mode?: Specifies how the search string is interpreted. `any` (default) matches any of the words or all quoted phrases, `phrase` matches the whole search string as a phrase, `prefix` matches the words starting with each search word (e.g., for autocomplete, the relevance score is not available in MongoDB) and `boolean` matches the words and phrases prefixed with `+` and excludes the ones prefixed with `-`.
+   *   - returnScore?: Specifies whether to return the relevance score of the matched records in the `_score` field. The score is computed using `$meta: 'textScore'` in MongoDB, `ts_rank` in PostgreSQL and `MATCH ... AGAINST` in MySQL.
+   *   - sortByScore?: Specifies whether to sort the matched records by their relevance score in descending order. The `sort` fields are used to order the records with the same score. Cannot be combined with cursor based pagination.
+   *   - highlight?: Highlights the search terms in a text or rich-text field, e.g., `{ field: 'body', maxFragments: 3, tags: ['<em>', '</em>'] }`. The highlighted text is returned in the `_highlight` field, the highlighted field needs to be included in the returned fields. PostgreSQL uses `ts_headline` which also highlights the stemmed forms of the terms, other databases highlight the exact terms.
+   * @returns Returns the matching records otherwise an empty array. If `returnCountInfo=true`, returns an object which includes count information and list of matched objects. If `returnPageInfo=true`, returns an object which includes the page info and list of matched objects.
    * @throws Throws an exception if the database records cannot be retrieved
    */
   async searchText(
-    field: FTSFields<D, T>,
+    field: SearchFields<D, T>,
     text: string,
     args: SearchTextArgs<D, T>,
   ): Promise<object[]> {
@@ -333,4 +624,60 @@ export class Model<D extends DatabaseName, T extends ModelList<D>> {
   async getSQLSubQuery(args: GetSQLSubQueryArgs<D, T>): Promise<string> {
     return await this.modelBase.getSQLSubQuery(args);
   }
+
+  /**
+   * Returns the compiled queries of the model method without executing them. The queries are compiled from the same action definitions that the method sends to the database, so the SQL query texts and their parameters in SQL databases or the filters or aggregation pipelines in MongoDB are exactly the ones the method would run. Methods that run more than one query, e.g. cursor paginated `findMany` with page info, return each query in execution order. Optionally, the execution plan of the query can be fetched from the database to check the index usage.
+   *
+   * ```
+   * const [explanation] = await agnost
+   *   .db("myDB")
+   *   .model("userOrders")
+   *   .explain(
+   *     { method: "findMany", executionPlan: true },
+   *     { $gt: ["basketSize", 50] },
+   *     { sort: { orderDate: "desc" }, limit: 100 },
+   *   );
+   * ```
+   *
+   * > The before and after hooks of the model are not run, explaining a method does not trigger the side effects of its hooks.
+   *
+   * @param {ExplainableMethod | ExplainOptions} method The name of the model method to explain or the explain options
+   *   - method: The name of the model method to explain
+   *   - executionPlan?: Whether to fetch the execution plan of the query from the database, using `EXPLAIN` in SQL databases and `explain("executionStats")` in MongoDB.
+   * @param {any[]} args The input parameters of the model method
+   * @returns Returns the compiled queries, their parameters and the execution plans if requested, or an empty array if the method does not run any queries
+   * @throws Throws an exception if the method cannot be explained or its input parameters are not valid
+   */
+  async explain<M extends ExplainableMethod>(
+    method: M | ExplainOptions<M>,
+    ...args: Parameters<Model<D, T>[M]>
+  ): Promise<QueryExplanation[]> {
+    return typeof method === "string"
+      ? await this.modelBase.explain(method, args)
+      : await this.modelBase.explain(method.method, args, method.executionPlan);
+  }
+
+  /**
+   * Checks whether the record matches the where condition. The condition is evaluated in process, without a round trip to the database, so it can be used to filter realtime messages or cached records, or to check validation rules and access policies against a record at hand.
+   *
+   * ```
+   * const isAdult = agnost
+   *   .db("myDB")
+   *   .model("users")
+   *   .matches({ $gte: ["age", 18] }, user);
+   * ```
+   *
+   * > The values are compared with the database semantics, e.g., arithmetic and text functions return null if any one of their parameters is null and date parts are calculated in UTC. Subqueries (`$inQuery` and `$existsQuery`) cannot be evaluated without a database.
+   *
+   * @param {WhereCondition} where The where condition to check. If not provided, all records match.
+   * @param {object} record The record to check
+   * @returns Returns true if the record matches the where condition otherwise false
+   * @throws Throws an exception if the where condition is not valid or it includes subqueries
+   */
+  matches(
+    where: WhereCondition<D, T> | null | undefined,
+    record: object,
+  ): boolean {
+    return this.modelBase.matches(where, record);
+  }
 }
@@ -2,9 +2,97 @@ import { DatabaseBase } from "../managers/DatabaseBase";
 import { Field } from "./Field";
 import { DBAction } from "./DBAction";
 import { createField } from "./Factory";
-import { isArray, isObject } from "../utils/helper";
+import {
+  isArray,
+  isObject,
+  isBoolean,
+  isString,
+  isPositiveInteger,
+  valueExists,
+  isTruthy,
+  parseUTCDate,
+} from "../utils/helper";
 import { ClientError } from "../utils/ClientError";
-import { ConditionType, CountInfo, DBTYPE } from "../utils/types";
+import {
+  ConditionType,
+  CountInfo,
+  DBTYPE,
+  HookContext,
+  HookFunction,
+  HookType,
+  MethodType,
+  BulkWriteError,
+  BulkWriteResult,
+  QueryExplanation,
+  ExplainableMethod,
+} from "../utils/types";
+
+/**
+ * The maximum number of date buckets that can be generated while filling the empty buckets of the aggregation results
+ */
+const MAX_FILLED_BUCKETS = 10000;
+
+const HookTypes = [
+  "beforeCreate",
+  "afterCreate",
+  "beforeUpdate",
+  "afterUpdate",
+  "beforeDelete",
+  "afterDelete",
+  "beforeFind",
+  "afterFind",
+];
+
+const BulkWriteOperations = [
+  "createOne",
+  "updateById",
+  "updateOne",
+  "updateMany",
+  "deleteById",
+  "deleteOne",
+  "deleteMany",
+];
+
+const ExplainableMethods: ExplainableMethod[] = [
+  "createOne",
+  "createMany",
+  "upsertOne",
+  "upsertMany",
+  "findById",
+  "findOne",
+  "findMany",
+  "count",
+  "exists",
+  "distinct",
+  "deleteById",
+  "deleteOne",
+  "deleteMany",
+  "updateById",
+  "updateOne",
+  "updateMany",
+  "restoreById",
+  "restoreMany",
+  "bulkWrite",
+  "aggregate",
+  "searchText",
+];
+
+// The lifecycle event of each model method that runs hooks
+const HookEvents: { [key: string]: string } = {
+  createOne: "Create",
+  createMany: "Create",
+  upsertOne: "Create",
+  upsertMany: "Create",
+  findById: "Find",
+  findOne: "Find",
+  findMany: "Find",
+  deleteById: "Delete",
+  deleteOne: "Delete",
+  deleteMany: "Delete",
+  updateById: "Update",
+  updateOne: "Update",
+  updateMany: "Update",
+};
 
 /**
  * The ModelBase object is primarily used to build database queries or run CRUD operations on a model (i.e., table, collection) of your application.
@@ -59,6 +147,27 @@ export class ModelBase {
    */
   protected timestamp: Date | null;
 
+  /**
+   * The name of the datetime field that keeps the deletion time of the records in soft delete mode, null if soft delete mode is not enabled
+   * @protected
+   * @type {string | null}
+   */
+  protected softDeleteField: string | null;
+
+  /**
+   * The name of the integer field that keeps the version of the records for optimistic concurrency control, null if versioning is not enabled
+   * @protected
+   * @type {string | null}
+   */
+  protected versionField: string | null;
+
+  /**
+   * The lifecycle hooks registered to the model
+   * @protected
+   * @type {Map<string, HookFunction[]>}
+   */
+  protected hooks: Map<string, HookFunction[]>;
+
   /**
    * Creates an instance of task object to trigger execution of scheduled tasks.
    * @param {any} meta Provides access to the application the version configuration
@@ -71,6 +180,7 @@ export class ModelBase {
     this.db = db;
     this.fields = new Map();
     this.timestamp = null;
+    this.hooks = new Map();
 
     const { fields } = meta;
     // Create the field entries of the model
@@ -78,6 +188,20 @@ export class ModelBase {
       const field = createField(item, this);
       if (field) this.fields.set(item.name, field);
     }
+
+    // Soft delete mode can be enabled in metadata either as a flag or with the name of the deletion time field
+    this.softDeleteField = null;
+    if (meta.softDelete)
+      this.enableSoftDelete(
+        isString(meta.softDelete) ? meta.softDelete : "deletedAt",
+      );
+
+    // Versioning can be enabled in metadata either as a flag or with the name of the version field
+    this.versionField = null;
+    if (meta.versioning)
+      this.enableVersioning(
+        isString(meta.versioning) ? meta.versioning : "version",
+      );
   }
 
   /**
@@ -136,6 +260,174 @@ export class ModelBase {
     return this.fields.get(fieldName);
   }
 
+  /**
+   * Returns the id field of the model
+   * @returns Id field of the model
+   */
+  getIdField(): Field | undefined {
+    for (const [fieldName, field] of this.fields) {
+      if (field.getType() === "id") return field;
+    }
+
+    return undefined;
+  }
+
+  /**
+   * Enables the soft delete mode of the model. In soft delete mode, the records are not removed from the database but their deletion time is set, and soft deleted records are excluded from the query results.
+   * @param {string} fieldName The name of the datetime field that keeps the deletion time of the records
+   * @throws Throws an exception if the model does not have a suitable datetime field
+   */
+  enableSoftDelete(fieldName: string = "deletedAt"): void {
+    const field = this.getField(fieldName);
+    if (!field || field.getType() !== "datetime")
+      throw new ClientError(
+        "invalid_field",
+        `Soft delete mode requires a datetime field to keep the deletion time of the records. There is no datetime field named '${fieldName}' in model '${this.getName()}'.`,
+      );
+
+    if (field.isRequired() || field.isReadOnly())
+      throw new ClientError(
+        "invalid_field",
+        `The deletion time field '${fieldName}' of model '${this.getName()}' cannot be a required or read-only field.`,
+      );
+
+    this.softDeleteField = fieldName;
+  }
+
+  /**
+   * Disables the soft delete mode of the model
+   */
+  disableSoftDelete(): void {
+    this.softDeleteField = null;
+  }
+
+  /**
+   * Returns the field that keeps the deletion time of the records in soft delete mode
+   * @returns The deletion time field, or null if soft delete mode is not enabled
+   */
+  getSoftDeleteField(): Field | null {
+    if (!this.softDeleteField) return null;
+
+    return this.getField(this.softDeleteField) ?? null;
+  }
+
+  /**
+   * Enables the versioning of the records for optimistic concurrency control. The version of a record starts from 1 and it is incremented automatically each time the record is updated.
+   * @param {string} fieldName The name of the integer field that keeps the version of the records
+   * @throws Throws an exception if the model does not have a suitable integer field
+   */
+  enableVersioning(fieldName: string = "version"): void {
+    const field = this.getField(fieldName);
+    if (!field || field.getType() !== "integer")
+      throw new ClientError(
+        "invalid_field",
+        `Versioning requires an integer field to keep the version of the records. There is no integer field named '${fieldName}' in model '${this.getName()}'.`,
+      );
+
+    this.versionField = fieldName;
+  }
+
+  /**
+   * Disables the versioning of the records
+   */
+  disableVersioning(): void {
+    this.versionField = null;
+  }
+
+  /**
+   * Returns the field that keeps the version of the records
+   * @returns The version field, or null if versioning is not enabled
+   */
+  getVersionField(): Field | null {
+    if (!this.versionField) return null;
+
+    return this.getField(this.versionField) ?? null;
+  }
+
+  /**
+   * Registers a lifecycle hook to the model
+   * @param {HookType} type The lifecycle event to register the hook to
+   * @param {HookFunction} fn The hook function
+   * @throws Throws an exception if the event type or the hook function is not valid
+   */
+  on(type: HookType, fn: HookFunction): void {
+    if (!HookTypes.includes(type))
+      throw new ClientError(
+        "invalid_hook_type",
+        `'${type}' is not a valid hook type. Valid hook types are ${HookTypes.join(
+          ", ",
+        )}.`,
+      );
+
+    if (typeof fn !== "function")
+      throw new ClientError(
+        "invalid_hook_function",
+        `The '${type}' hook of model '${this.getName()}' needs to be a function.`,
+      );
+
+    const hooks = this.hooks.get(type) ?? [];
+    hooks.push(fn);
+    this.hooks.set(type, hooks);
+  }
+
+  /**
+   * Removes a lifecycle hook from the model. If no hook function is provided removes all hooks of the event.
+   * @param {HookType} type The lifecycle event to remove the hook from
+   * @param {HookFunction} fn The hook function to remove
+   */
+  off(type: HookType, fn?: HookFunction): void {
+    if (!fn) {
+      this.hooks.delete(type);
+      return;
+    }
+
+    const hooks = this.hooks.get(type);
+    if (!hooks) return;
+
+    const index = hooks.indexOf(fn);
+    if (index >= 0) hooks.splice(index, 1);
+  }
+
+  /**
+   * Runs the before hooks of the model method. The hooks are run sequentially in their registration order and they can modify the input parameters in the context.
+   * @param {any} input The method name and the input parameters of the method
+   * @returns The hook context that keeps the (modified) input parameters
+   */
+  protected async runBeforeHooks(input: any): Promise<HookContext> {
+    const context: HookContext = { ...input, model: this.getName() };
+    // In explain mode the hooks are not run, the query is compiled from the input parameters of the method
+    if (this.db.getExplainContext()) return context;
+
+    const hooks = this.hooks.get(`before${HookEvents[context.method]}`);
+    if (hooks) {
+      for (const hook of [...hooks]) await hook(context);
+    }
+
+    return context;
+  }
+
+  /**
+   * Runs the after hooks of the model method. The hooks are run sequentially in their registration order and they can modify the result in the context.
+   * @param {HookContext} context The hook context created by the before hooks
+   * @param {any} result The result of the operation
+   * @returns The (modified) result of the operation
+   */
+  protected async runAfterHooks(
+    context: HookContext,
+    result: any,
+  ): Promise<any> {
+    // In explain mode the operation is not executed, there is no result to process
+    if (this.db.getExplainContext()) return result;
+
+    context.result = result;
+    const hooks = this.hooks.get(`after${HookEvents[context.method]}`);
+    if (hooks) {
+      for (const hook of [...hooks]) await hook(context);
+    }
+
+    return context.result;
+  }
+
   /**
    * Returns the timestamp
    * @returns Schema of the model
@@ -208,13 +500,15 @@ export class ModelBase {
 
     // For each field of the model process the entry values
     for (const [fieldName, field] of this.fields) {
-      await field.prepare(
-        data[fieldName],
-        processedData,
-        response,
-        isCreate,
-        index,
-      );
+      // The version of the newly created records starts from 1
+      const value =
+        isCreate &&
+        fieldName === this.versionField &&
+        !valueExists(data[fieldName])
+          ? 1
+          : data[fieldName];
+
+      await field.prepare(value, processedData, response, isCreate, index);
 
       // If the database is SQL, if it is create operation and if we do not have any errors then we need to normalize the JSON structure
       if (
@@ -254,12 +548,18 @@ export class ModelBase {
         `The 'data' to create in the database table/collection needs to be a JSON object`,
       );
 
+    // Run the before hooks, they can modify the input parameters
+    const context = await this.runBeforeHooks({
+      method: "createOne",
+      data,
+    });
+
     const action = new DBAction(this);
     action.setMethod("createOne");
     // Set the prepared data for insertion into the database
-    await action.setCreateData(data);
+    await action.setCreateData(context.data);
     // Execute the action
-    return await action.execute();
+    return await this.runAfterHooks(context, await action.execute());
   }
 
   /**
@@ -288,12 +588,146 @@ export class ModelBase {
         `The 'data' to create in the database table/collection needs to be an array of JSON objects`,
       );
 
+    // Run the before hooks, they can modify the input parameters
+    const context = await this.runBeforeHooks({
+      method: "createMany",
+      data,
+    });
+
     const action = new DBAction(this);
     action.setMethod("createMany");
     // Set the prepared data for insertion into the database
-    await action.setCreateData(data);
+    await action.setCreateData(context.data);
     // Execute the action
-    return await action.execute();
+    return await this.runAfterHooks(context, await action.execute());
+  }
+
+  /**
+   * Creates the record in the database, if a record with the same conflict field values already exists then updates the existing record.
+   *
+   * @param {object} data The data that will be inserted into the database
+   * @param {string | string[]} conflictFields The id field or unique field name(s) used to detect the existing record
+   * @param {any} updates The update definitions to apply to the existing record. If not provided the existing record is updated with the values of the data to insert.
+   * @returns Returns the created or updated record
+   * @throws Throws an exception if the record cannot be created or updated in the database.
+   */
+  async upsertOne(
+    data: any,
+    conflictFields: string | string[],
+    updates?: any,
+  ): Promise<object> {
+    // Reset the timestamp of the model
+    this.resetTimestamp();
+
+    if (!data) {
+      throw new ClientError(
+        "missing_input_parameter",
+        `The 'upsertOne' method expects an input object to upsert into the database`,
+      );
+    }
+
+    if (!isObject(data))
+      throw new ClientError(
+        "invalid_value",
+        `The 'data' to upsert in the database table/collection needs to be a JSON object`,
+      );
+
+    if (!conflictFields) {
+      throw new ClientError(
+        "missing_input_parameter",
+        `The 'upsertOne' method expects the conflict field(s) to detect the existing record`,
+      );
+    }
+
+    if (updates && !isObject(updates)) {
+      throw new ClientError(
+        "invalid_value",
+        `The 'upsertOne' method expects the update definitions as an object of key-value pairs`,
+      );
+    }
+
+    // Run the before hooks, they can modify the input parameters
+    const context = await this.runBeforeHooks({
+      method: "upsertOne",
+      data,
+      conflictFields,
+      updates,
+    });
+
+    const action = new DBAction(this);
+    action.setMethod("upsertOne");
+    // Set the prepared data for insertion into the database
+    await action.setCreateData(context.data);
+    // Set the conflict fields, needs to be called after the create data is prepared
+    action.setConflictFields(context.conflictFields);
+    // Set the prepared updates to apply on conflict
+    if (context.updates) await action.setUpdates(context.updates, null);
+    // Execute the action
+    return await this.runAfterHooks(context, await action.execute());
+  }
+
+  /**
+   * Creates multiple records in the database, if a record with the same conflict field values already exists then updates the existing record.
+   *
+   * @param {object[]} data The list of objects that will be inserted into the database
+   * @param {string | string[]} conflictFields The id field or unique field name(s) used to detect the existing records
+   * @param {any} updates The update definitions to apply to the existing records. If not provided the existing records are updated with the values of the data to insert.
+   * @returns Returns the count of created or updated records in the database
+   * @throws Throws an exception if the records cannot be created or updated in the database.
+   */
+  async upsertMany(
+    data: object,
+    conflictFields: string | string[],
+    updates?: any,
+  ): Promise<CountInfo> {
+    // Reset the timestamp of the model
+    this.resetTimestamp();
+
+    if (!data) {
+      throw new ClientError(
+        "missing_input_parameter",
+        `The 'upsertMany' method expects an array of input objects to upsert into the database`,
+      );
+    }
+
+    if (!isArray(data))
+      throw new ClientError(
+        "invalid_value",
+        `The 'data' to upsert in the database table/collection needs to be an array of JSON objects`,
+      );
+
+    if (!conflictFields) {
+      throw new ClientError(
+        "missing_input_parameter",
+        `The 'upsertMany' method expects the conflict field(s) to detect the existing records`,
+      );
+    }
+
+    if (updates && !isObject(updates)) {
+      throw new ClientError(
+        "invalid_value",
+        `The 'upsertMany' method expects the update definitions as an object of key-value pairs`,
+      );
+    }
+
+    // Run the before hooks, they can modify the input parameters
+    const context = await this.runBeforeHooks({
+      method: "upsertMany",
+      data,
+      conflictFields,
+      updates,
+    });
+
+    const action = new DBAction(this);
+    action.setMethod("upsertMany");
+    // Set the prepared data for insertion into the database
+    await action.setCreateData(context.data);
+    // Set the conflict fields, needs to be called after the create data is prepared
+    action.setConflictFields(context.conflictFields);
+    // Set the prepared updates to apply on conflict
+    if (context.updates) await action.setUpdates(context.updates, null);
+    // Execute the action
+    return await this.runAfterHooks(context, await action.execute());
   }
 
   /**
@@ -312,22 +746,35 @@ export class ModelBase {
       );
     }
 
+    // Run the before hooks, they can modify the input parameters
+    const context = await this.runBeforeHooks({
+      method: "findById",
+      id,
+      args,
+    });
+
     const action = new DBAction(this);
     action.setMethod("findById");
-    action.setId(id);
-    if (args) {
+    action.setId(context.id);
+    if (context.args) {
       // Set whether to use the read replica database or not
-      action.setReadReplica(args.useReadReplica);
+      action.setReadReplica(context.args.useReadReplica);
       // While selecting fields we might be also joining other models and we can select fields from other models
-      action.setSelect(args.select, args.lookup);
+      action.setSelect(context.args.select, context.args.lookup);
       // While selecting fields we might be also joining other models and we can select fields from other models
-      action.setOmit(args.omit, args.lookup);
+      action.setOmit(context.args.omit, context.args.lookup);
       // Set looked up fields
-      action.setLookup(args.lookup);
+      action.setLookup(context.args.lookup);
     }
 
+    // Exclude soft deleted records unless requested otherwise
+    action.setSoftDeleteFilter(
+      context.args?.withDeleted,
+      context.args?.onlyDeleted,
+    );
+
     // Execute the action
-    return await action.execute();
+    return await this.runAfterHooks(context, await action.execute());
   }
 
   /**
@@ -346,30 +793,49 @@ export class ModelBase {
       );
     }
 
+    // Run the before hooks, they can modify the input parameters
+    const context = await this.runBeforeHooks({
+      method: "findOne",
+      where,
+      args,
+    });
+
     const action = new DBAction(this);
     action.setMethod("findOne");
-    action.setWhere(where, args?.join, ConditionType.QUERY);
-    if (args) {
+    action.setWhere(context.where, context.args?.join, ConditionType.QUERY);
+    if (context.args) {
       // Set whether to use the read replica database or not
-      action.setReadReplica(args.useReadReplica);
+      action.setReadReplica(context.args.useReadReplica);
       // While selecting fields we might be also joining other models and we can select fields from other models
-      action.setSelect(args.select, this.mergeArrays(args.join, args.lookup));
+      action.setSelect(
+        context.args.select,
+        this.mergeArrays(context.args.join, context.args.lookup),
+      );
       // While selecting fields we might be also joining other models and we can select fields from other models
-      action.setOmit(args.omit, this.mergeArrays(args.join, args.lookup));
+      action.setOmit(
+        context.args.omit,
+        this.mergeArrays(context.args.join, context.args.lookup),
+      );
       // Set looked up fields
-      action.setLookup(args.lookup);
+      action.setLookup(context.args.lookup);
       // Set joined models
-      action.setJoin(args.join);
+      action.setJoin(context.args.join);
       // Set sorting order
-      action.setSort(args.sort, args.join);
+      action.setSort(context.args.sort, context.args.join);
       // Set skip number
-      action.setSkip(args.skip);
+      action.setSkip(context.args.skip);
       // Final check on duplicate entries for lookups or joins
       action.checkJoinAndLookupDuplicates();
     }
 
+    // Exclude soft deleted records unless requested otherwise
+    action.setSoftDeleteFilter(
+      context.args?.withDeleted,
+      context.args?.onlyDeleted,
+    );
+
     // Execute the action
-    return await action.execute();
+    return await this.runAfterHooks(context, await action.execute());
   }
 
   /**
@@ -396,36 +862,225 @@ export class ModelBase {
       );
     }
 
+    this.checkCursorPagination("findMany", args);
+
+    // Run the before hooks, they can modify the input parameters
+    const context = await this.runBeforeHooks({
+      method: "findMany",
+      where,
+      args,
+    });
+
     const action = new DBAction(this);
     action.setMethod("findMany");
-    action.setWhere(where, args?.join, ConditionType.QUERY);
-    if (args) {
+    action.setWhere(context.where, context.args?.join, ConditionType.QUERY);
+    if (context.args) {
       // Set whether to use the read replica database or not
-      action.setReadReplica(args.useReadReplica);
+      action.setReadReplica(context.args.useReadReplica);
       // While selecting fields we might be also joining other models and we can select fields from other models
-      action.setSelect(args.select, this.mergeArrays(args.join, args.lookup));
+      action.setSelect(
+        context.args.select,
+        this.mergeArrays(context.args.join, context.args.lookup),
+      );
       // While selecting fields we might be also joining other models and we can select fields from other models
-      action.setOmit(args.omit, this.mergeArrays(args.join, args.lookup));
+      action.setOmit(
+        context.args.omit,
+        this.mergeArrays(context.args.join, context.args.lookup),
+      );
       // Set looked up fields
-      action.setLookup(args.lookup);
+      action.setLookup(context.args.lookup);
       // Set joined models
-      action.setJoin(args.join);
-      // Set sorting order
-      action.setSort(args.sort, args.join);
+      action.setJoin(context.args.join);
+      // Set sorting order, cursor based pagination requires a deterministic sorting order
+      action.setSort(
+        context.args.sort,
+        context.args.join,
+        this.isCursorPagination(context.args),
+      );
       // Set skip number
-      action.setSkip(args.skip);
+      action.setSkip(context.args.skip);
       // Set limit number
-      action.setLimit(args.limit);
+      action.setLimit(context.args.limit);
       // Set return count info flag
-      action.setReturnCount(args.returnCount);
+      action.setReturnCount(context.args.returnCount);
+      // Set the cursor to continue from, needs to be called after the where condition and sorting order are set
+      action.setCursor(context.args.cursor);
       // Final check on duplicate entries for lookups or joins
       action.checkJoinAndLookupDuplicates();
     }
 
+    // Exclude soft deleted records unless requested otherwise
+    action.setSoftDeleteFilter(
+      context.args?.withDeleted,
+      context.args?.onlyDeleted,
+    );
+
+    // Execute the action
+    if (this.isCursorPagination(context.args))
+      return await this.runAfterHooks(
+        context,
+        await this.executeCursorPagination(action, context.args),
+      );
+    else return await this.runAfterHooks(context, await action.execute());
+  }
+
+  /**
+   * Returns the number of records matching the `where` query without fetching the records.
+   *
+   * @param {any} where The where condition that will be used to filter the records. If not provided, all records of the model are counted.
+   * @param {any} args The input parameters of the method, namely the `join` and `useReadReplica` definitions
+   * @returns Returns the number of matching records
+   * @throws Throws an exception if the records cannot be counted
+   */
+  async count(where?: any, args?: any): Promise<number> {
+    const action = new DBAction(this);
+    action.setMethod("count");
+    action.setWhere(where, args?.join, ConditionType.QUERY);
+    if (args) {
+      // Set whether to use the read replica database or not
+      action.setReadReplica(args.useReadReplica);
+      // Set joined models
+      action.setJoin(args.join);
+    }
+
+    // Exclude soft deleted records unless requested otherwise
+    action.setSoftDeleteFilter(args?.withDeleted, args?.onlyDeleted);
+
+    // Execute the action
+    return await action.execute();
+  }
+
+  /**
+   * Checks whether there is at least one record matching the `where` query without fetching the records.
+   *
+   * @param {any} where The where condition that will be used to filter the records
+   * @param {any} args The input parameters of the method, namely the `join` and `useReadReplica` definitions
+   * @returns Returns true if there is a matching record otherwise false
+   * @throws Throws an exception if the database records cannot be queried
+   */
+  async exists(where: any, args?: any): Promise<boolean> {
+    if (!where) {
+      throw new ClientError(
+        "missing_input_parameter",
+        `The 'exists' method expects the where condition to query database records`,
+      );
+    }
+
+    const action = new DBAction(this);
+    action.setMethod("exists");
+    action.setWhere(where, args?.join, ConditionType.QUERY);
+    if (args) {
+      // Set whether to use the read replica database or not
+      action.setReadReplica(args.useReadReplica);
+      // Set joined models
+      action.setJoin(args.join);
+    }
+
+    // Exclude soft deleted records unless requested otherwise
+    action.setSoftDeleteFilter(args?.withDeleted, args?.onlyDeleted);
+
     // Execute the action
     return await action.execute();
   }
 
+  /**
+   * Returns the distinct values of the field in the records matching the `where` query.
+   *
+   * @param {string} field The name of the base model or joined model field
+   * @param {any} where The where condition that will be used to filter the records. If not provided, the distinct values in all records of the model are returned.
+   * @param {any} args The input parameters of the method, namely the `join`, `sort`, `limit` and `useReadReplica` definitions
+   * @returns Returns the distinct values of the field
+   * @throws Throws an exception if the distinct values cannot be retrieved
+   */
+  async distinct(field: string, where?: any, args?: any): Promise<any[]> {
+    if (!field) {
+      throw new ClientError(
+        "missing_input_parameter",
+        `The 'distinct' method expects the name of the field to get its distinct values`,
+      );
+    }
+
+    const action = new DBAction(this);
+    action.setMethod("distinct");
+    action.setWhere(where, args?.join, ConditionType.QUERY);
+    if (args) {
+      // Set whether to use the read replica database or not
+      action.setReadReplica(args.useReadReplica);
+      // Set joined models
+      action.setJoin(args.join);
+      // Set limit number
+      action.setLimit(args.limit);
+    }
+    // Set the distinct field and the sorting order of the distinct values
+    action.setDistinctField(field, args?.join, args?.sort);
+
+    // Exclude soft deleted records unless requested otherwise
+    action.setSoftDeleteFilter(args?.withDeleted, args?.onlyDeleted);
+
+    // Execute the action
+    return await action.execute();
+  }
+
+  /**
+   * Returns an async iterable over the records matching the `where` query. The records are fetched from the database in batches using keyset pagination on the sort fields and the id field, so that large result sets can be processed without loading all records into memory.
+   *
+   * @param {any} where The where condition that will be used to filter the records
+   * @param {any} args The input parameters of the method, namely the `sort`, `select`, `omit`, `lookup`, `join`, `useReadReplica` and `batchSize` definitions
+   * @returns Returns the async iterable of the matching records
+   * @throws Throws an exception if the database records cannot be retrieved
+   */
+  async *iterate(where: any, args: any): AsyncIterable<object> {
+    if (!where) {
+      throw new ClientError(
+        "missing_input_parameter",
+        `The 'iterate' method expects the where condition to query database records`,
+      );
+    }
+
+    const batchSize = args?.batchSize ?? 100;
+    if (!isPositiveInteger(batchSize))
+      throw new ClientError(
+        "invalid_value",
+        `Batch size needs to be a positive integer value`,
+      );
+
+    let lastRecord: any = null;
+    while (true) {
+      const action = new DBAction(this);
+      action.setMethod("findMany");
+      action.setWhere(where, args?.join, ConditionType.QUERY);
+      if (args) {
+        // Set whether to use the read replica database or not
+        action.setReadReplica(args.useReadReplica);
+        // While selecting fields we might be also joining other models and we can select fields from other models
+        action.setSelect(args.select, this.mergeArrays(args.join, args.lookup));
+        // While selecting fields we might be also joining other models and we can select fields from other models
+        action.setOmit(args.omit, this.mergeArrays(args.join, args.lookup));
+        // Set looked up fields
+        action.setLookup(args.lookup);
+        // Set joined models
+        action.setJoin(args.join);
+        // Final check on duplicate entries for lookups or joins
+        action.checkJoinAndLookupDuplicates();
+      }
+      // Set sorting order, the id field is added to the sort definition so that the keyset of each record is unique
+      action.setSort(args?.sort, args?.join, true);
+      // Exclude soft deleted records unless requested otherwise
+      action.setSoftDeleteFilter(args?.withDeleted, args?.onlyDeleted);
+      // Continue after the last record of the previous batch
+      if (lastRecord) action.setKeyset(action.getKeysetValues(lastRecord));
+      // Set batch size
+      action.setLimit(batchSize);
+
+      // Execute the action
+      const records = await action.execute();
+      for (const record of records) yield record;
+
+      if (records.length < batchSize) return;
+      lastRecord = records[records.length - 1];
+    }
+  }
+
   /**
    * Deletes the record identified by the id and returns the deleted record count. If no matching object found, zero is returned as deleted record count.
    *
@@ -441,11 +1096,29 @@ export class ModelBase {
       );
     }
 
+    // Run the before hooks, they can modify the input parameters
+    const context = await this.runBeforeHooks({
+      method: "deleteById",
+      id,
+    });
+
     const action = new DBAction(this);
+    // In soft delete mode the record is marked as deleted instead of being removed
+    if (this.softDeleteField) {
+      // Reset the timestamp of the model
+      this.resetTimestamp();
+
+      action.setMethod("updateById");
+      action.setId(context.id);
+      await action.setSoftDelete(true);
+      const result = await action.execute();
+      return await this.runAfterHooks(context, { count: result ? 1 : 0 });
+    }
+
     action.setMethod("deleteById");
-    action.setId(id);
+    action.setId(context.id);
     // Execute the action
-    return await action.execute();
+    return await this.runAfterHooks(context, await action.execute());
   }
 
   /**
@@ -465,16 +1138,35 @@ export class ModelBase {
       );
     }
 
+    // Run the before hooks, they can modify the input parameters
+    const context = await this.runBeforeHooks({
+      method: "deleteOne",
+      where,
+      args,
+    });
+
     const action = new DBAction(this);
     action.setMethod("deleteOne");
-    action.setWhere(where, args?.join, ConditionType.QUERY);
-    if (args) {
+    action.setWhere(context.where, context.args?.join, ConditionType.QUERY);
+    if (context.args) {
       // Set joined models
-      action.setJoin(args.join);
+      action.setJoin(context.args.join);
     }
 
+    // In soft delete mode the records are marked as deleted instead of being removed
+    if (this.softDeleteField) {
+      // Reset the timestamp of the model
+      this.resetTimestamp();
+      action.setMethod("updateOne");
+      await action.setSoftDelete(true);
+      const result = await action.execute();
+      return await this.runAfterHooks(context, { count: result ? 1 : 0 });
+    }
+
+    // Exclude the soft deleted records of the joined models
+    action.setSoftDeleteFilter(null, null);
     // Execute the action
-    return await action.execute();
+    return await this.runAfterHooks(context, await action.execute());
   }
 
   /**
@@ -493,16 +1185,34 @@ export class ModelBase {
       );
     }
 
+    // Run the before hooks, they can modify the input parameters
+    const context = await this.runBeforeHooks({
+      method: "deleteMany",
+      where,
+      args,
+    });
+
     const action = new DBAction(this);
     action.setMethod("deleteMany");
-    action.setWhere(where, args?.join, ConditionType.QUERY);
-    if (args) {
+    action.setWhere(context.where, context.args?.join, ConditionType.QUERY);
+    if (context.args) {
       // Set joined models
-      action.setJoin(args.join);
+      action.setJoin(context.args.join);
+    }
+
+    // In soft delete mode the records are marked as deleted instead of being removed
+    if (this.softDeleteField) {
+      // Reset the timestamp of the model
+      this.resetTimestamp();
+      action.setMethod("updateMany");
+      await action.setSoftDelete(true);
+    } else {
+      // Exclude the soft deleted records of the joined models
+      action.setSoftDeleteFilter(null, null);
     }
 
     // Execute the action
-    return await action.execute();
+    return await this.runAfterHooks(context, await action.execute());
   }
   /**
    * Updates the record identified by the id and returns the updated record. If no matching record found then `null` is returned.
@@ -555,18 +1265,32 @@ export class ModelBase {
     // Reset the timestamp of the model
     this.resetTimestamp();
 
+    // Run the before hooks, they can modify the input parameters
+    const context = await this.runBeforeHooks({
+      method: "updateById",
+      id,
+      updates,
+      args,
+    });
+
     const action = new DBAction(this);
     action.setMethod("updateById");
-    action.setId(id);
-    await action.setUpdates(updates, null);
-    if (args) {
+    action.setId(context.id);
+    await action.setUpdates(context.updates, null);
+    action.setVersion(context.args?.expectedVersion);
+    if (context.args) {
       // Set joined models
-      action.setSelect(args.select, null);
-      action.setOmit(args.omit, null);
-      action.setArrayFilters(args.arrayFilters);
+      action.setSelect(context.args.select, null);
+      action.setOmit(context.args.omit, null);
+      action.setArrayFilters(context.args.arrayFilters);
     }
+    // Exclude soft deleted records unless requested otherwise
+    action.setSoftDeleteFilter(context.args?.withDeleted, null);
     // Execute the action
-    return await action.execute();
+    const result = await action.execute();
+    // If the record is not updated, check whether it has been modified by another operation
+    await this.checkVersionConflict(context, result);
+    return await this.runAfterHooks(context, result);
   }
 
   /**
@@ -615,20 +1339,34 @@ export class ModelBase {
     // Reset the timestamp of the model
     this.resetTimestamp();
 
+    // Run the before hooks, they can modify the input parameters
+    const context = await this.runBeforeHooks({
+      method: "updateOne",
+      where,
+      updates,
+      args,
+    });
+
     const action = new DBAction(this);
     action.setMethod("updateOne");
-    action.setWhere(where, args?.join, ConditionType.QUERY);
-    await action.setUpdates(updates, null);
-    if (args) {
+    action.setWhere(context.where, context.args?.join, ConditionType.QUERY);
+    await action.setUpdates(context.updates, null);
+    if (context.args) {
       // Set joined models
-      action.setSelect(args.select, null);
-      action.setOmit(args.omit, null);
-      action.setJoin(args.join);
-      action.setArrayFilters(args.arrayFilters);
+      action.setSelect(context.args.select, null);
+      action.setOmit(context.args.omit, null);
+      action.setJoin(context.args.join);
+      action.setArrayFilters(context.args.arrayFilters);
     }
+    action.setVersion(context.args?.expectedVersion);
+    // Exclude soft deleted records unless requested otherwise
+    action.setSoftDeleteFilter(context.args?.withDeleted, null);
 
     // Execute the action
-    return await action.execute();
+    const result = await action.execute();
+    // If the record is not updated, check whether it has been modified by another operation
+    await this.checkVersionConflict(context, result);
+    return await this.runAfterHooks(context, result);
   }
 
   /**
@@ -677,29 +1415,391 @@ export class ModelBase {
     // Reset the timestamp of the model
     this.resetTimestamp();
 
+    // Run the before hooks, they can modify the input parameters
+    const context = await this.runBeforeHooks({
+      method: "updateMany",
+      where,
+      updates,
+      args,
+    });
+
+    const action = new DBAction(this);
+    action.setMethod("updateMany");
+    action.setWhere(context.where, context.args?.join, ConditionType.QUERY);
+    await action.setUpdates(context.updates, null);
+    if (context.args) {
+      // Set joined models
+      action.setJoin(context.args.join);
+      action.setArrayFilters(context.args.arrayFilters);
+    }
+    action.setVersion();
+    // Exclude soft deleted records unless requested otherwise
+    action.setSoftDeleteFilter(context.args?.withDeleted, null);
+
+    // Execute the action
+    return await this.runAfterHooks(context, await action.execute());
+  }
+
+  /**
+   * Checks whether the record could not be updated because its version is different than the expected version. Only applicable to the update operations with an expected version.
+   * @param {HookContext} context The input parameters of the update operation
+   * @param {any} result The result of the update operation
+   * @throws Throws a `version_conflict` exception if the record exists with a different version
+   */
+  protected async checkVersionConflict(
+    context: HookContext,
+    result: any,
+  ): Promise<void> {
+    const expectedVersion = context.args?.expectedVersion;
+    if (
+      result ||
+      !valueExists(expectedVersion) ||
+      !this.versionField ||
+      this.db.getExplainContext()
+    )
+      return;
+
+    // Get the record without the version condition
+    const action = new DBAction(this);
+    if (context.method === "updateById") {
+      action.setMethod("findById");
+      action.setId(context.id);
+    } else {
+      action.setMethod("findOne");
+      action.setWhere(context.where, context.args?.join, ConditionType.QUERY);
+      action.setJoin(context.args?.join);
+    }
+    // The soft deleted records are not updated, they do not conflict
+    action.setSoftDeleteFilter(context.args?.withDeleted, null);
+
+    const record: any = await action.execute();
+    if (!record) return;
+
+    throw new ClientError(
+      "version_conflict",
+      `The record has been modified by another operation. The expected version of the record is '${expectedVersion}' but its current version is '${
+        record[this.versionField]
+      }'.`,
+      { expectedVersion, currentVersion: record[this.versionField] },
+    );
+  }
+
+  /**
+   * Restores the soft deleted record identified by the id. This method can only be used for models in soft delete mode.
+   *
+   * @param {string | number} id The unique identifier of the record to restore
+   * @returns Returns the count of the records restored in the database
+   * @throws Throws an exception if the model is not in soft delete mode or an error occurs during the restore operation
+   */
+  async restoreById(id: string | number): Promise<CountInfo> {
+    if (!id) {
+      throw new ClientError(
+        "missing_input_parameter",
+        `The 'restoreById' method expects id of the record to restore as input`,
+      );
+    }
+
+    // Reset the timestamp of the model
+    this.resetTimestamp();
+
+    const action = new DBAction(this);
+    action.setMethod("updateById");
+    action.setId(id);
+    await action.setSoftDelete(false);
+    // Execute the action
+    const result = await action.execute();
+    return { count: result ? 1 : 0 };
+  }
+
+  /**
+   * Restores the soft deleted records matching the `where` condition. This method can only be used for models in soft delete mode.
+   *
+   * @param {any} where The where condition that will be used to filter the records
+   * @param {any} args The input parameters of the method, namely the `join` definition(s)
+   * @returns Returns the count of the records restored in the database
+   * @throws Throws an exception if the model is not in soft delete mode or an error occurs during the restore operation
+   */
+  async restoreMany(where: any, args?: any): Promise<CountInfo> {
+    if (!where) {
+      throw new ClientError(
+        "missing_input_parameter",
+        `The 'restoreMany' method expects the where condition to query database records`,
+      );
+    }
+
+    // Reset the timestamp of the model
+    this.resetTimestamp();
+
     const action = new DBAction(this);
     action.setMethod("updateMany");
     action.setWhere(where, args?.join, ConditionType.QUERY);
-    await action.setUpdates(updates, null);
     if (args) {
       // Set joined models
       action.setJoin(args.join);
-      action.setArrayFilters(args.arrayFilters);
     }
+    await action.setSoftDelete(false);
 
     // Execute the action
     return await action.execute();
   }
 
+  /**
+   * Executes a batch of create, update and delete operations with a single database call. Each operation is validated the same way as its corresponding model method and the validation errors are reported per operation.
+   *
+   * @param {any[]} operations The list of operations e.g., `{ createOne: { data } }`, `{ updateMany: { where, updates } }`
+   * @param {any} args The input parameters of the method, namely the `ordered` flag
+   * @returns Returns the per operation results and errors
+   * @throws Throws an exception if the operations list is not valid or an error occurs during the bulk write
+   */
+  async bulkWrite(operations: any[], args?: any): Promise<BulkWriteResult> {
+    if (!operations) {
+      throw new ClientError(
+        "missing_input_parameter",
+        `The 'bulkWrite' method expects the list of operations to execute as input`,
+      );
+    }
+
+    if (!isArray(operations) || operations.length === 0)
+      throw new ClientError(
+        "invalid_value",
+        `The operations of the bulk write needs to be a non-empty array of operation objects`,
+      );
+
+    const ordered = args?.ordered ?? true;
+    if (!isBoolean(ordered))
+      throw new ClientError(
+        "invalid_value",
+        `The 'ordered' flag of the bulk write needs to be a boolean value`,
+      );
+
+    // Reset the timestamp of the model
+    this.resetTimestamp();
+
+    const results: any[] = operations.map(() => null);
+    const errors: BulkWriteError[] = [];
+    const actions: DBAction[] = [];
+    const contexts: HookContext[] = [];
+    const indices: number[] = [];
+    // Validate and prepare the operations, in ordered mode the operations after the first invalid one are not executed
+    for (let i = 0; i < operations.length; i++) {
+      try {
+        const { action: operationAction, context } =
+          await this.prepareBulkOperation(operations[i]);
+        actions.push(operationAction);
+        contexts.push(context);
+        indices.push(i);
+      } catch (err) {
+        if (!(err instanceof ClientError)) throw err;
+
+        errors.push({
+          index: i,
+          operation: this.getBulkOperationType(operations[i]),
+          code: err.code,
+          message: err.message,
+          specifics: err.specifics,
+        });
+        if (ordered) break;
+      }
+    }
+
+    if (actions.length === 0) return { results, errors };
+
+    const action = new DBAction(this);
+    action.setMethod("bulkWrite");
+    action.setOperations(actions, ordered);
+    // Execute the action, the adapter returns the result or the error of each operation
+    const response: any[] = (await action.execute()) ?? [];
+
+    for (let i = 0; i < indices.length; i++) {
+      const index = indices[i];
+      const type = this.getBulkOperationType(operations[index]);
+      const entry = response[i];
+      if (!entry) continue;
+
+      let error = entry.error;
+      if (!error) {
+        try {
+          // If the record is not updated, check whether it has been modified by another operation
+          await this.checkVersionConflict(contexts[i], entry.result);
+        } catch (err) {
+          if (!(err instanceof ClientError)) throw err;
+          error = err;
+        }
+      }
+
+      if (error) {
+        errors.push({
+          index,
+          operation: type,
+          code: error.code ?? "database_error",
+          message: error.message,
+          specifics: error.specifics,
+        });
+      } else if (
+        this.softDeleteField &&
+        (type === "deleteById" || type === "deleteOne")
+      ) {
+        // Soft deletes are executed as updates, return the deleted record count as the delete methods do
+        results[index] = await this.runAfterHooks(contexts[i], {
+          count: entry.result ? 1 : 0,
+        });
+      } else
+        results[index] = await this.runAfterHooks(contexts[i], entry.result);
+    }
+
+    errors.sort((a, b) => a.index - b.index);
+    return { results, errors };
+  }
+
+  /**
+   * Returns the type of the bulk write operation
+   * @param {any} operation The bulk write operation
+   * @returns The operation type e.g., createOne, updateMany
+   */
+  protected getBulkOperationType(operation: any): string {
+    return isObject(operation) ? Object.keys(operation)[0] : "unknown";
+  }
+
+  /**
+   * Validates the bulk write operation, runs its before hooks and prepares its db action
+   * @param {any} operation The bulk write operation
+   * @returns The db action and the hook context of the operation
+   * @throws Throws an exception if the operation is not valid
+   */
+  protected async prepareBulkOperation(
+    operation: any,
+  ): Promise<{ action: DBAction; context: HookContext }> {
+    if (!isObject(operation) || Object.keys(operation).length !== 1)
+      throw new ClientError(
+        "invalid_bulk_operation",
+        `Each bulk write operation needs to be an object with a single key that specifies the operation type e.g., { createOne: { data } }`,
+      );
+
+    const type = this.getBulkOperationType(operation);
+    const params = operation[type];
+    if (!BulkWriteOperations.includes(type))
+      throw new ClientError(
+        "invalid_bulk_operation",
+        `'${type}' is not a valid bulk write operation. Valid operations are ${BulkWriteOperations.join(
+          ", ",
+        )}.`,
+      );
+
+    if (!isObject(params))
+      throw new ClientError(
+        "invalid_bulk_operation",
+        `The parameters of the '${type}' operation need to be an object`,
+      );
+
+    if (type.endsWith("ById") && !params.id)
+      throw new ClientError(
+        "missing_input_parameter",
+        `The '${type}' operation expects id of the record`,
+      );
+
+    if (type !== "createOne" && !type.endsWith("ById") && !params.where)
+      throw new ClientError(
+        "missing_input_parameter",
+        `The '${type}' operation expects the where condition to query database records`,
+      );
+
+    if (type.startsWith("update") && !isObject(params.updates))
+      throw new ClientError(
+        "invalid_value",
+        `The '${type}' operation expects the update definitions as an object of key-value pairs`,
+      );
+
+    if (type === "createOne" && !isObject(params.data))
+      throw new ClientError(
+        "invalid_value",
+        `The 'createOne' operation expects the data to create as a JSON object`,
+      );
+
+    if (
+      valueExists(params.expectedVersion) &&
+      type !== "updateById" &&
+      type !== "updateOne"
+    )
+      throw new ClientError(
+        "invalid_parameter",
+        `The expected version of the record can only be specified in 'updateById' and 'updateOne' operations`,
+      );
+
+    // Run the before hooks with the same input parameters of the corresponding model method, they can modify the input parameters
+    const context = await this.runBeforeHooks(
+      type === "createOne"
+        ? { method: type, data: params.data }
+        : type.endsWith("ById")
+        ? {
+            method: type,
+            id: params.id,
+            updates: params.updates,
+            args: {
+              expectedVersion: params.expectedVersion,
+              withDeleted: params.withDeleted,
+            },
+          }
+        : {
+            method: type,
+            where: params.where,
+            updates: params.updates,
+            args: {
+              join: params.join,
+              expectedVersion: params.expectedVersion,
+              withDeleted: params.withDeleted,
+            },
+          },
+    );
+
+    const action = new DBAction(this);
+    action.setMethod(type as MethodType);
+    switch (type) {
+      case "createOne":
+        await action.setCreateData(context.data);
+        break;
+      case "updateById":
+        action.setId(context.id);
+        await action.setUpdates(context.updates, null);
+        action.setVersion(context.args?.expectedVersion);
+        break;
+      case "updateOne":
+      case "updateMany":
+        action.setWhere(context.where, context.args?.join, ConditionType.QUERY);
+        await action.setUpdates(context.updates, null);
+        action.setJoin(context.args?.join);
+        action.setVersion(context.args?.expectedVersion);
+        break;
+      case "deleteById":
+        action.setId(context.id);
+        break;
+      case "deleteOne":
+      case "deleteMany":
+        action.setWhere(context.where, context.args?.join, ConditionType.QUERY);
+        action.setJoin(context.args?.join);
+        break;
+    }
+
+    // In soft delete mode the records are marked as deleted instead of being removed
+    if (this.softDeleteField && type.startsWith("delete")) {
+      action.setMethod(type.replace("delete", "update") as MethodType);
+      await action.setSoftDelete(true);
+    } else if (type !== "createOne") {
+      // Exclude soft deleted records unless requested otherwise
+      action.setSoftDeleteFilter(context.args?.withDeleted, null);
+    }
+
+    return { action, context };
+  }
+
   /**
    * Groups the records of the model by the specified expressions or by the specified fields to calculated group statistics.
    *
    * @param {AggregateArgs} args The input parameters of the method, namely the `where`, `join`, `groupBy`, `computations`, `having`, `sort`, `limit` and `skip`  instructions
    *   - where?: The where condition that will be used to filter the records before aggregation.
    *   - join?: The join(s) to make (left outer join) while getting the record from the database.
-   *   - groupBy?: The model field names and/or expressions to group the records. If no grouping specified then aggregates all records of the model.
-   *   - computations: The computations that will be peformed on the grouped records. At least one computation needs to be provided.
-   *   - having?: The conditions that will be applied on the grouped results to further narrow down the results.
+   *   - groupBy?: The model field names and/or expressions to group the records. If no grouping specified then aggregates all records of the model. Records can also be grouped into date buckets (e.g., by day in a specific time zone) using `{as, bucket: {field, unit, timezone?, fillEmpty?, from?, to?}}` definitions. Date buckets are not supported by SQL Server, Oracle and SQLite databases.
+   *   - computations: The computations that will be peformed on the grouped records. At least one computation needs to be provided. Supported compute operators are `$count`, `$countif`, `$sum`, `$avg`, `$min`, `$max`, `$countDistinct`, `$stddev`, `$stddevPop`, `$variance`, `$median`, `$percentile`, `$first`, `$last`, `$push` and `$addToSet`. `$first` and `$last` computations can define a `sort` to pick the value of the grouped records in the specified order. `$median` and `$percentile` are not supported by SQL Server and SQLite databases, `$first`, `$last`, `$push` and `$addToSet` are not supported by SQL Server, Oracle and SQLite databases, and `$stddev`, `$stddevPop` and `$variance` are not supported by SQLite databases.
+   *   - having?: The conditions that will be applied on the grouped results to further narrow down the results. Groupings and computations are referenced by their aliases and have the value types of their expressions, e.g., a date bucket can be compared to dates and an average to decimal values.
    *   - useReadReplica?:  Specifies whether to use the read replica of the database or not. If no read replica exists, it uses the read-write database.
    *   - sort?: Sorts the returned groups by the values of the computations.
    *   - skip?: Number of records to skip.
@@ -718,6 +1818,8 @@ export class ModelBase {
     const action = new DBAction(this);
     action.setMethod("aggregate");
     action.setWhere(args.where, args.join, ConditionType.QUERY);
+    // Set whether to use the read replica database or not
+    action.setReadReplica(args.useReadReplica);
     action.setJoin(args.join);
     action.setGroupBy(args.groupBy, args.join);
     action.setComputations(args.computations, args.join);
@@ -728,14 +1830,135 @@ export class ModelBase {
     action.setSkip(args.skip);
     action.setLimit(args.limit);
 
+    // Filling the empty date buckets requires all groups to be retrieved
+    const filledGrouping = action.getFilledBucketGrouping();
+    if (
+      filledGrouping &&
+      (args.having ||
+        args.sort ||
+        valueExists(args.skip) ||
+        valueExists(args.limit))
+    ) {
+      throw new ClientError(
+        "invalid_grouping_entry",
+        `Empty date buckets cannot be filled when the 'having', 'sort', 'skip' or 'limit' parameters of the aggregation are specified.`,
+      );
+    }
+
+    // Exclude soft deleted records unless requested otherwise
+    action.setSoftDeleteFilter(args?.withDeleted, args?.onlyDeleted);
+
     // Execute the action
-    return await action.execute();
+    const result = await action.execute();
+    // In explain mode the action returns no results
+    if (!filledGrouping || !result) return result;
+
+    return this.fillEmptyBuckets(action, result);
+  }
+
+  /**
+   * Adds the date buckets without any records to the aggregation results. If there are other groupings, the buckets are filled separately for each distinct combination of their values. The results are returned in bucket order.
+   * @param {DBAction} action The aggregate action
+   * @param {any[]} results The aggregation results
+   * @returns The filled aggregation results
+   */
+  protected fillEmptyBuckets(action: DBAction, results: any[]): any[] {
+    const grouping = action.getFilledBucketGrouping();
+    const otherGroupings = action
+      .getGroupBy()
+      .filter((entry: any) => entry !== grouping);
+
+    // The computation values of an empty bucket
+    const emptyValues: { [key: string]: any } = {};
+    for (const comp of action.getComputations()) {
+      if (
+        ["$count", "$countif", "$countdistinct", "$sum"].includes(comp.operator)
+      )
+        emptyValues[comp.as] = 0;
+      else if (["$push", "$addtoset"].includes(comp.operator))
+        emptyValues[comp.as] = [];
+      else emptyValues[comp.as] = null;
+    }
+
+    // Results are partitioned by the values of the other groupings
+    const partitions = new Map<
+      string,
+      { keys: { [key: string]: any }; rows: Map<number, any> }
+    >();
+    // Records without a date value are not in any bucket, they are kept at the end of the results
+    const unbucketed: any[] = [];
+    let min: number | null = null;
+    let max: number | null = null;
+    for (const row of results) {
+      const value = row[grouping.as];
+      if (!valueExists(value)) {
+        unbucketed.push(row);
+        continue;
+      }
+
+      const keys: { [key: string]: any } = {};
+      for (const entry of otherGroupings) keys[entry.as] = row[entry.as];
+      const partitionKey = JSON.stringify(keys);
+      if (!partitions.has(partitionKey))
+        partitions.set(partitionKey, { keys, rows: new Map() });
+
+      // MySQL returns the bucket start dates as datetime strings in UTC
+      const time = parseUTCDate(value).getTime();
+      partitions.get(partitionKey)?.rows.set(time, row);
+      min = min === null ? time : Math.min(min, time);
+      max = max === null ? time : Math.max(max, time);
+    }
+
+    const from = grouping.bucket.from ?? (min !== null ? new Date(min) : null);
+    const to = grouping.bucket.to ?? (max !== null ? new Date(max) : null);
+    if (!from || !to) return results;
+
+    // Without other groupings the buckets are filled even if there are no results
+    if (partitions.size === 0 && otherGroupings.length === 0)
+      partitions.set("{}", { keys: {}, rows: new Map() });
+
+    // Generate the start dates of the buckets in the fill range
+    const series: number[] = [];
+    for (
+      let start = grouping.expression.getBucketStart(from);
+      start.getTime() <= to.getTime();
+      start = grouping.expression.getNextBucketStart(start)
+    ) {
+      if (series.length >= MAX_FILLED_BUCKETS)
+        throw new ClientError(
+          "too_many_buckets",
+          `Empty date buckets can be filled for at most ${MAX_FILLED_BUCKETS} buckets. Narrow down the date range or use a larger time unit.`,
+        );
+
+      series.push(start.getTime());
+    }
+
+    const filled: any[] = [];
+    for (const partition of partitions.values()) {
+      // The buckets of the results outside the fill range are also kept
+      const times = Array.from(
+        new Set([...series, ...partition.rows.keys()]),
+      ).sort((a, b) => a - b);
+
+      for (const time of times) {
+        filled.push(
+          partition.rows.get(time) ?? {
+            ...partition.keys,
+            [grouping.as]: new Date(time),
+            ...emptyValues,
+          },
+        );
+      }
+    }
+
+    return [...filled, ...unbucketed];
   }
 
   /**
    * Retrieves a list of records from the database running the text search. It performs a logical OR search of the terms unless specified as a phrase between double-quotes. If filter is specified it applies the filter query to further narrow down the results.
    *
-   * @param {WhereCondition} where The where condition that will be used to filter the records
+   * @param {string | string[] | object} field The searched field name, list of field names or field names and their weights
+   * @param {string} text The search string
    * @param {FindManyArgs} args The input parameters of the method, namely the `sort`, `skip`, `limit`, `select`, `omit`, `join` and `useReadReplica` definitions
    *   - where?: The where condition that will be used to further filter results.
    *   - select?: Array of fields to include on the returned record. If not provided, checks the `omit` list if `omit` is also not provided then all fields will be returned. You can specifiy either `select` or `omit` but not both.
@@ -745,10 +1968,14 @@ export class ModelBase {
    *   - sort?: Sorts the returned objects by the values of the specified fields and sorting order.
    *   - skip?: Number of records to skip.
    *   - limit?: Max number of objects to return.
+   *   - mode?: The search mode, one of 'any', 'phrase', 'prefix' or 'boolean'.
+   *   - returnScore?: Whether to return the relevance score of the matched records in the `_score` field.
+   *   - sortByScore?: Whether to sort the matched records by their relevance score in descending order.
+   *   - highlight?: The text field to highlight, the maximum number of fragments and the highlight tags. The highlighted text is returned in the `_highlight` field.
    * @returns Returns the matching records otherwise an empty array
    * @throws Throws an exception if the database records cannot be retrieved
    */
-  async searchText(field: string, text: string, args: any): Promise<object[]> {
+  async searchText(field: any, text: string, args: any): Promise<object[]> {
     if (!field) {
       throw new ClientError(
         "missing_input_parameter",
@@ -770,10 +1997,22 @@ export class ModelBase {
       );
     }
 
+    this.checkCursorPagination("searchText", args);
+    if (args?.sortByScore && this.isCursorPagination(args))
+      throw new ClientError(
+        "invalid_parameter",
+        `Search results sorted by relevance score cannot be retrieved using cursor based pagination, the 'sortByScore' option cannot be combined with 'cursor' or 'returnPageInfo'.`,
+      );
+
     const action = new DBAction(this);
     action.setMethod("searchText");
     action.setSearchField(field);
-    action.setSearchText(text);
+    action.setSearchText(text, args?.mode);
+    action.setSearchOptions(
+      args?.returnScore,
+      args?.sortByScore,
+      args?.highlight,
+    );
     if (args) {
       // Set the where condition
       action.setWhere(args?.where, args?.join, ConditionType.QUERY);
@@ -787,18 +2026,118 @@ export class ModelBase {
       action.setLookup(args.lookup);
       // Set joined models
       action.setJoin(args.join);
-      // Set sorting order
-      action.setSort(args.sort, args.join);
+      // Set sorting order, cursor based pagination requires a deterministic sorting order
+      action.setSort(args.sort, args.join, this.isCursorPagination(args));
       // Set skip number
       action.setSkip(args.skip);
       // Set limit number
       action.setLimit(args.limit);
       // Set return count info flag
       action.setReturnCount(args.returnCount);
+      // Set the cursor to continue from, needs to be called after the where condition and sorting order are set
+      action.setCursor(args.cursor);
     }
 
+    // Exclude soft deleted records unless requested otherwise
+    action.setSoftDeleteFilter(args?.withDeleted, args?.onlyDeleted);
+
     // Execute the action
-    return await action.execute();
+    const result = this.isCursorPagination(args)
+      ? await this.executeCursorPagination(action, args)
+      : await action.execute();
+
+    // Databases other than PostgreSQL do not support highlighting, the search terms are highlighted in the returned records
+    const textSearch = action.getTextSearch();
+    if (textSearch?.highlight && this.getDb().getType() !== DBTYPE.POSTGRESQL) {
+      const records = Array.isArray(result) ? result : result?.data;
+      if (Array.isArray(records)) textSearch.highlightRecords(records);
+    }
+
+    return result;
+  }
+
+  /**
+   * Returns true if the records are retrieved using cursor (keyset) pagination
+   * @param {any} args The input parameters of the find method
+   * @returns True if cursor pagination is used, otherwise false
+   */
+  isCursorPagination(args: any): boolean {
+    return (
+      (args?.cursor !== undefined && args?.cursor !== null) ||
+      args?.returnPageInfo === true
+    );
+  }
+
+  /**
+   * Checks whether the cursor pagination parameters are valid or not
+   * @param {string} method The name of the find method
+   * @param {any} args The input parameters of the find method
+   * @throws Throws an exception if the cursor pagination parameters are not valid
+   */
+  checkCursorPagination(method: string, args: any) {
+    if (!args) return;
+
+    if (valueExists(args.returnPageInfo) && !isBoolean(args.returnPageInfo))
+      throw new ClientError(
+        "invalid_value",
+        `Return page info option needs to be a boolean value`,
+      );
+
+    if (valueExists(args.cursor) && !isString(args.cursor))
+      throw new ClientError(
+        "invalid_value",
+        `Cursor needs to be a string value returned in the page info of a previous '${method}' call`,
+      );
+
+    if (this.isCursorPagination(args) && valueExists(args.skip))
+      throw new ClientError(
+        "invalid_parameter",
+        `Cursor based pagination cannot be combined with the 'skip' option in '${method}' method`,
+      );
+
+    if (this.isCursorPagination(args) && args.returnCount === true)
+      throw new ClientError(
+        "invalid_parameter",
+        `Cursor based pagination cannot be combined with the 'returnCount' option in '${method}' method`,
+      );
+  }
+
+  /**
+   * Executes the cursor paginated find action and returns the page of records. If page info is requested, returns an object which includes the page info and list of records.
+   * @param {DBAction} action The find action
+   * @param {any} args The input parameters of the find method
+   * @returns Returns the page of records
+   */
+  async executeCursorPagination(action: DBAction, args: any): Promise<any> {
+    // Fetch one more record than the limit to find out whether there are more records in the paging direction
+    if (args.limit) action.setLimit(args.limit + 1);
+
+    // In explain mode the query is not executed and no records are returned
+    let records: any[] = (await action.execute()) ?? [];
+    const hasMore = args.limit ? records.length > args.limit : false;
+    if (hasMore) records = records.slice(0, args.limit);
+
+    // Previous page records are retrieved in reverse sorting order
+    const direction = action.getCursor();
+    if (direction === "prev") records.reverse();
+
+    if (!args.returnPageInfo) return records;
+
+    // When paging backwards, there are always records after the page, i.e., the record of the cursor
+    const hasNext = direction === "prev" || hasMore;
+    const hasPrev = direction === "next" || (direction === "prev" && hasMore);
+    const first = records[0];
+    const last = records[records.length - 1];
+
+    return {
+      data: records,
+      pageInfo: {
+        nextCursor: hasNext && last ? action.createCursor(last, "next") : null,
+        prevCursor:
+          hasPrev && first ? action.createCursor(first, "prev") : null,
+        hasMore,
+      },
+    };
   }
 
   /**
@@ -858,4 +2197,57 @@ export class ModelBase {
     // Execute the action
     return await action.execute();
   }
+
+  /**
+   * Compiles the queries of the model method with the same input parameters, without executing them. Optionally fetches the execution plans of the queries from the database.
+   *
+   * @param {ExplainableMethod} method The model method to explain
+   * @param {any[]} args The input parameters of the model method
+   * @param {boolean} executionPlan Whether to fetch the execution plans of the queries from the database
+   * @returns Returns the compiled queries in execution order, or an empty array if the method does not run any queries
+   * @throws Throws an exception if the method cannot be explained or its input parameters are not valid
+   */
+  async explain(
+    method: ExplainableMethod,
+    args: any[],
+    executionPlan: boolean = false,
+  ): Promise<QueryExplanation[]> {
+    if (!ExplainableMethods.includes(method))
+      throw new ClientError(
+        "invalid_method",
+        `'${method}' is not a model method that can be explained. Explainable methods are ${ExplainableMethods.join(
+          ", ",
+        )}.`,
+      );
+
+    if (!isBoolean(executionPlan))
+      throw new ClientError(
+        "invalid_value",
+        `The 'executionPlan' option of the explain needs to be a boolean value`,
+      );
+
+    const operation: (...params: any[]) => Promise<any> = this[method];
+    return await this.db.explain(
+      () => operation.apply(this, args),
+      executionPlan,
+    );
+  }
+
+  /**
+   * Checks whether the record matches the where condition. The condition is evaluated in process without running a database query.
+   *
+   * @param {any} where The where condition to check. If not provided, all records match.
+   * @param {any} record The record to check
+   * @returns Returns true if the record matches the where condition otherwise false
+   * @throws Throws an exception if the where condition is not valid or it includes subqueries
+   */
+  matches(where: any, record: any): boolean {
+    const action = new DBAction(this);
+    action.setWhere(where, null, ConditionType.QUERY);
+
+    const expression = action.getWhere();
+    if (!expression) return true;
+
+    return isTruthy(expression.evaluate({ record }));
+  }
 }
@@ -1,5 +1,6 @@
 import { ModelBase } from "../ModelBase";
 import { Field } from "../Field";
+import { DBTYPE } from "../../utils/types";
 
 /**
  * The BasicValuesList field
@@ -37,7 +38,7 @@ export class BasicValuesListField extends Field {
 
     // Unsetting the value of the field
     if (!isCreate && value === null && this.isRequired() === false) {
-      processedData[this.getName()] = [];
+      processedData[this.getName()] = this.getListValue([]);
       return;
     }
 
@@ -73,6 +74,17 @@ export class BasicValuesListField extends Field {
       }
     }
 
-    processedData[this.getName()] = value;
+    processedData[this.getName()] = this.getListValue(value);
+  }
+
+  /**
+   * Returns the database specific value of the basic values list
+   * @param {any[]} value The list of basic values
+   * @returns List value to store in the database
+   */
+  getListValue(value: any[]): any {
+    // SQLite does not have an array type, the values are stored as a JSON array and queried using the JSON1 functions
+    if (this.getDBType() === DBTYPE.SQLITE) return JSON.stringify(value);
+    else return value;
   }
 }
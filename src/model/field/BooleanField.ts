@@ -1,5 +1,6 @@
 import { ModelBase } from "../ModelBase";
 import { Field } from "../Field";
+import { DBTYPE } from "../../utils/types";
 
 /**
  * The Boolean field
@@ -49,6 +50,15 @@ export class BooleanField extends Field {
       );
     }
 
-    processedData[this.getName()] = value;
+    switch (this.getDBType()) {
+      case DBTYPE.ORACLE:
+      case DBTYPE.SQLITE:
+        // Oracle and SQLite do not have a boolean column type, boolean values are stored in NUMBER(1) and INTEGER columns respectively
+        processedData[this.getName()] = value ? 1 : 0;
+        break;
+      default:
+        processedData[this.getName()] = value;
+        break;
+    }
   }
 }
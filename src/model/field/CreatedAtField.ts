@@ -35,6 +35,8 @@ export class CreatedAtField extends Field {
   ): Promise<any> {
     if (!isCreate) return;
 
-    processedData[this.getName()] = this.model.getTimestamp();
+    processedData[this.getName()] = this.getDateValue(
+      this.model.getTimestamp(),
+    );
   }
 }
@@ -43,7 +43,9 @@ export class DateField extends Field {
     }
 
     if (isCreate && value === "$$NOW") {
-      processedData[this.getName()] = this.model.getTimestamp();
+      processedData[this.getName()] = this.getDateValue(
+        this.model.getTimestamp(),
+      );
       return;
     }
 
@@ -52,6 +54,6 @@ export class DateField extends Field {
       return this.addValidationError(response, value, "not_date_value", index);
     }
 
-    processedData[this.getName()] = date.toJSDate();
+    processedData[this.getName()] = this.getDateValue(date.toJSDate());
   }
 }
@@ -43,7 +43,9 @@ export class DateTimeField extends Field {
     }
 
     if (isCreate && value === "$$NOW") {
-      processedData[this.getName()] = this.model.getTimestamp();
+      processedData[this.getName()] = this.getDateValue(
+        this.model.getTimestamp(),
+      );
       return;
     }
 
@@ -57,6 +59,6 @@ export class DateTimeField extends Field {
       );
     }
 
-    processedData[this.getName()] = date.toJSDate();
+    processedData[this.getName()] = this.getDateValue(date.toJSDate());
   }
 }
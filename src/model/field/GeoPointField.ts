@@ -101,18 +101,20 @@ export class GeoPointField extends Field {
         processedData[this.getName()] = `POINT(${lon} ${lat})`; // Note that no commas between x and y coordinates
         break;
       case DBTYPE.SQLSERVER:
+        // Note that geography points are created with latitude first
         processedData[
           this.getName()
-        ] = `geography::Point(${lon}, ${lat}, 4326)`;
+        ] = `geography::Point(${lat}, ${lon}, 4326)`;
         break;
       case DBTYPE.ORACLE:
-        processedData[this.getName()] = `SDO_GEOMETRY(
-					2001,            
-					NULL,           
-					SDO_POINT_TYPE(${lon}, ${lat}, NULL), 
-					NULL,            
-					NULL             
-				)`;
+        // 2001 is the geometry type of a two-dimensional point, 4326 is the SRID of the WGS 84 coordinate system
+        processedData[
+          this.getName()
+        ] = `SDO_GEOMETRY(2001, 4326, SDO_POINT_TYPE(${lon}, ${lat}, NULL), NULL, NULL)`;
+        break;
+      case DBTYPE.SQLITE:
+        // SQLite does not have a spatial type, the coordinates are stored as a JSON array
+        processedData[this.getName()] = JSON.stringify([lon, lat]);
         break;
     }
   }
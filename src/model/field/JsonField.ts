@@ -54,6 +54,7 @@ export class JSONField extends Field {
       case DBTYPE.MYSQL:
       case DBTYPE.SQLSERVER:
       case DBTYPE.ORACLE:
+      case DBTYPE.SQLITE:
         processedData[this.getName()] = JSON.stringify(value);
         break;
     }
@@ -89,6 +89,7 @@ export class ReferenceField extends Field {
       case DBTYPE.MYSQL:
       case DBTYPE.SQLSERVER:
       case DBTYPE.ORACLE:
+      case DBTYPE.SQLITE:
         processedData[this.getName()] = value;
         break;
     }
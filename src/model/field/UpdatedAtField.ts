@@ -33,6 +33,8 @@ export class UpdatedAtField extends Field {
     isCreate: boolean = true,
     index: number = -1,
   ): Promise<any> {
-    processedData[this.getName()] = this.model.getTimestamp();
+    processedData[this.getName()] = this.getDateValue(
+      this.model.getTimestamp(),
+    );
   }
 }
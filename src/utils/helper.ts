@@ -115,6 +115,7 @@ export function isValidId(value: any, dbType: string): boolean {
     case DBTYPE.MYSQL:
     case DBTYPE.SQLSERVER:
     case DBTYPE.ORACLE:
+    case DBTYPE.SQLITE:
       return true;
     default:
       return false;
@@ -129,6 +130,17 @@ export function objectId(value: string): any {
   return HELPER.objectId(value);
 }
 
+/**
+ * Quotes each part of a dotted identifier path (e.g., model.field) for Oracle. Oracle converts unquoted identifiers to uppercase, quoting preserves the case of the model and field names.
+ * @param  {string} path Identifier path
+ */
+export function quoteOracleIdentifier(path: string): string {
+  return path
+    .split(".")
+    .map((part) => `"${part.replace(/"/g, '""')}"`)
+    .join(".");
+}
+
 /**
  * Checks whether the input field value is specified or not.
  * @export
@@ -146,3 +158,260 @@ export function checkRequired(value: any, checkEmptyString: boolean = true) {
 
   return true;
 }
+
+/**
+ * Checks whether the input value is a valid IANA time zone name (e.g., Europe/Istanbul) or not
+ * @param  {any} value
+ */
+export function isValidTimezone(value: any): boolean {
+  if (!isString(value) || value.trim() === "") return false;
+
+  try {
+    // Throws a RangeError if the time zone is not supported
+    return !!new Intl.DateTimeFormat("en-US", { timeZone: value });
+  } catch (err) {
+    return false;
+  }
+}
+
+/**
+ * Returns the calendar date and wall clock time parts of the date in the specified time zone
+ * @export
+ * @param {Date} date The date
+ * @param {string} timezone The IANA time zone name
+ */
+export function getDatePartsInTimezone(
+  date: Date,
+  timezone: string,
+): {
+  year: number;
+  month: number;
+  day: number;
+  hour: number;
+  minute: number;
+  second: number;
+} {
+  const parts = new Intl.DateTimeFormat("en-US", {
+    timeZone: timezone,
+    hourCycle: "h23",
+    year: "numeric",
+    month: "numeric",
+    day: "numeric",
+    hour: "numeric",
+    minute: "numeric",
+    second: "numeric",
+  }).formatToParts(date);
+
+  const getPart = (type: string) =>
+    Number(parts.find((entry) => entry.type === type)?.value ?? 0);
+
+  return {
+    year: getPart("year"),
+    month: getPart("month"),
+    day: getPart("day"),
+    hour: getPart("hour"),
+    minute: getPart("minute"),
+    second: getPart("second"),
+  };
+}
+
+/**
+ * Returns the date of the calendar date and wall clock time in the specified time zone. Out of range parts are carried over, e.g., month 13 is the January of the next year.
+ * @export
+ * @param {object} parts The calendar date and wall clock time parts, month is 1-based
+ * @param {string} timezone The IANA time zone name
+ */
+export function getDateFromPartsInTimezone(
+  parts: {
+    year: number;
+    month: number;
+    day: number;
+    hour?: number;
+    minute?: number;
+    second?: number;
+  },
+  timezone: string,
+): Date {
+  const wallTime = Date.UTC(
+    parts.year,
+    parts.month - 1,
+    parts.day,
+    parts.hour ?? 0,
+    parts.minute ?? 0,
+    parts.second ?? 0,
+  );
+
+  // The offset of the time zone at the given instant in milliseconds
+  const getOffset = (instant: number) => {
+    const local = getDatePartsInTimezone(new Date(instant), timezone);
+    return (
+      Date.UTC(
+        local.year,
+        local.month - 1,
+        local.day,
+        local.hour,
+        local.minute,
+        local.second,
+      ) - instant
+    );
+  };
+
+  // The offset can be different at the resulting instant if there is a daylight saving time transition in between
+  const offset = getOffset(wallTime);
+  let time = wallTime - offset;
+  const actualOffset = getOffset(time);
+  if (actualOffset !== offset) time = wallTime - actualOffset;
+
+  return new Date(time);
+}
+
+/**
+ * Returns the value at the dotted path of the object. If there is an array along the path, the values of its elements are returned as an array (similar to MongoDB field paths).
+ * @export
+ * @param {any} value The object
+ * @param {string} path The field path, e.g., profile.address.city
+ */
+export function getValueAtPath(value: any, path: string): any {
+  const items = path.split(".");
+  let current = value;
+  for (let i = 0; i < items.length; i++) {
+    if (current === null || current === undefined) return undefined;
+    if (Array.isArray(current)) {
+      const rest = items.slice(i).join(".");
+      return current
+        .map((entry) => getValueAtPath(entry, rest))
+        .filter((entry) => entry !== undefined);
+    }
+    if (typeof current !== "object") return undefined;
+
+    current = current[items[i]];
+  }
+
+  return current;
+}
+
+/**
+ * Normalizes the value for comparison, object ids are converted to their hex strings and missing values to null
+ * @export
+ * @param  {any} value
+ */
+export function normalizeValue(value: any): any {
+  if (value === undefined) return null;
+  if (value && typeof value.toHexString === "function")
+    return value.toHexString();
+
+  return value;
+}
+
+/**
+ * Converts the value to a date
+ * @export
+ * @param  {any} value The date, date string, timestamp or object id value
+ */
+export function toDateValue(value: any): Date | null {
+  if (value instanceof Date) return value;
+  if (value && typeof value.getTimestamp === "function")
+    return value.getTimestamp();
+  if (typeof value !== "string" && typeof value !== "number") return null;
+
+  const date = new Date(value);
+  return isNaN(date.getTime()) ? null : date;
+}
+
+/**
+ * Converts the date value returned by the database to a date. SQL datetime values without a time zone offset (e.g., '2024-03-15 10:00:00') are in UTC, they are not parsed in the local time zone of the server.
+ * @export
+ * @param  {any} value The date or datetime string value
+ */
+export function parseUTCDate(value: any): Date {
+  if (
+    typeof value === "string" &&
+    /^\d{4}-\d{2}-\d{2}([ T]\d{2}:\d{2}(:\d{2}(\.\d+)?)?)?$/.test(value.trim())
+  ) {
+    const [date, time] = value.trim().split(/[ T]/);
+    return new Date(`${date}T${time ?? "00:00:00"}Z`);
+  }
+
+  return new Date(value);
+}
+
+/**
+ * Checks whether the value is true in a condition, null, missing, zero and false values are false
+ * @export
+ * @param  {any} value
+ */
+export function isTruthy(value: any): boolean {
+  return (
+    value !== null && value !== undefined && value !== false && value !== 0
+  );
+}
+
+/**
+ * Checks whether the null values come after the other values in the sorting order of the database. PostgreSQL and Oracle sort null values as the largest values, the other databases as the smallest values.
+ * @export
+ * @param {string} dbType The database type
+ * @param {string} order The sorting order, either asc or desc
+ * @returns True if the null values are sorted last, otherwise false
+ */
+export function isNullSortedLast(dbType: string, order: string): boolean {
+  const nullIsLargest =
+    dbType === DBTYPE.POSTGRESQL || dbType === DBTYPE.ORACLE;
+  return order === "asc" ? nullIsLargest : !nullIsLargest;
+}
+
+/**
+ * Compares the values in MongoDB sorting order of the value types (null, number, string, object, array, boolean, date). Object ids are compared as hex strings, dates are compared to the date strings as dates and booleans are compared to numbers as 1 and 0, as they are stored in SQL databases. Missing values are equal to null values.
+ * @export
+ * @param {any} a The first value
+ * @param {any} b The second value
+ * @returns Negative if the first value is less, positive if it is greater, zero if the values are equal
+ */
+export function compareValues(a: any, b: any): number {
+  let x = normalizeValue(a);
+  let y = normalizeValue(b);
+
+  if (x instanceof Date && typeof y === "string" && toDateValue(y))
+    y = toDateValue(y);
+  else if (y instanceof Date && typeof x === "string" && toDateValue(x))
+    x = toDateValue(x);
+  else if (typeof x === "boolean" && typeof y === "number") x = x ? 1 : 0;
+  else if (typeof y === "boolean" && typeof x === "number") y = y ? 1 : 0;
+
+  const getTypeRank = (value: any) => {
+    if (value === null) return 0;
+    else if (typeof value === "number") return 1;
+    else if (typeof value === "string") return 2;
+    else if (Array.isArray(value)) return 4;
+    else if (typeof value === "boolean") return 5;
+    else if (value instanceof Date) return 6;
+    else return 3;
+  };
+
+  const rankDiff = getTypeRank(x) - getTypeRank(y);
+  if (rankDiff !== 0) return rankDiff;
+
+  if (x === null) return 0;
+  else if (x instanceof Date) return x.getTime() - y.getTime();
+  else if (typeof x === "number") return x - y;
+  else if (typeof x === "string") return x < y ? -1 : x > y ? 1 : 0;
+  else if (typeof x === "boolean") return Number(x) - Number(y);
+  else if (Array.isArray(x)) {
+    for (let i = 0; i < Math.min(x.length, y.length); i++) {
+      const result = compareValues(x[i], y[i]);
+      if (result !== 0) return result;
+    }
+
+    return x.length - y.length;
+  }
+
+  // Objects are compared field by field in the order of their keys
+  const keys = Array.from(
+    new Set([...Object.keys(x), ...Object.keys(y)]),
+  ).sort();
+  for (const key of keys) {
+    const result = compareValues(x[key], y[key]);
+    if (result !== 0) return result;
+  }
+
+  return 0;
+}
@@ -1,13 +1,23 @@
 import { Readable } from "stream";
 import { Expression } from "../expression/Expression";
+import { QueryParameters } from "../expression/QueryParameters";
+import { TextSearch } from "../expression/TextSearch";
 import {
   DatabaseName,
   ModelType,
   ModelList,
+  ModelTypeHierarchy,
   ReferenceFieldType,
+  FTSFields,
 } from "./specifics";
 
-export const SQLdatabaseTypes = ["PostgreSQL", "MySQL", "SQL Server", "Oracle"];
+export const SQLdatabaseTypes = [
+  "PostgreSQL",
+  "MySQL",
+  "SQL Server",
+  "Oracle",
+  "SQLite",
+];
 
 export type MetaType =
   | "storage"
@@ -27,9 +37,15 @@ export type MethodType =
   | "findById"
   | "findOne"
   | "findMany"
+  | "count"
+  | "exists"
+  | "distinct"
   | "updateById"
   | "updateOne"
   | "updateMany"
+  | "upsertOne"
+  | "upsertMany"
+  | "bulkWrite"
   | "aggregate"
   | "searchText"
   | "getSQLQuery";
@@ -634,6 +650,7 @@ export type DbType = {
   MYSQL: string;
   SQLSERVER: string;
   ORACLE: string;
+  SQLITE: string;
 };
 
 export const DBTYPE: DbType = {
@@ -642,6 +659,7 @@ export const DBTYPE: DbType = {
   MYSQL: "MySQL",
   SQLSERVER: "SQL Server",
   ORACLE: "Oracle",
+  SQLITE: "SQLite",
 };
 
 export enum ConditionType {
@@ -673,6 +691,12 @@ export interface ActionDefinition {
    */
   updateData: any | null;
 
+  /**
+   * The list of unique fields (or the id field) used to detect whether the record to upsert already exists in the database
+   * @type {any[] | null}
+   */
+  conflictFields: any[] | null;
+
   /**
    * The list of fields to include in returned objects
    * @type {any[] | null}
@@ -710,7 +734,13 @@ export interface ActionDefinition {
   where: Expression | null;
 
   /**
-   * The lookup(s) to make while getting the record from the database
+   * The subqueries used in the where condition ($inQuery and $existsQuery functions). SQL databases embed the subqueries in the where condition, whereas the MongoDB adapter adds the `$lookup` stage of each subquery before matching the where condition and removes the subquery results afterwards.
+   * @type {any[] | null}
+   */
+  subQueries: any[] | null;
+
+  /**
+   * The lookup(s) to make while getting the record from the database. Each lookup entry can have its own nested `lookup` list and `select` or `omit` lists, which are defined in the context of the looked up model.
    * @type {any[] | null}
    */
   lookup: any[] | null;
@@ -769,6 +799,12 @@ export interface ActionDefinition {
    */
   searchText: string | null;
 
+  /**
+   * The text search definition, which provides the database specific search condition, relevance score and highlighting queries. The relevance score is returned in the `_score` field and the highlighted text in the `_highlight` field of the matched records.
+   * @type {TextSearch | null}
+   */
+  textSearch: TextSearch | null;
+
   /**
    * The main model where this subquery will be used
    * @type {string}
@@ -780,6 +816,42 @@ export interface ActionDefinition {
    * @type {boolean}
    */
   returnCount: boolean;
+
+  /**
+   * The field whose distinct values are retrieved by the distinct method
+   * @type {any | null}
+   */
+  distinctField: any | null;
+
+  /**
+   * The paging direction of the cursor if the records are retrieved using cursor (keyset) pagination
+   * @type {"next" | "prev" | null}
+   */
+  cursor: "next" | "prev" | null;
+
+  /**
+   * The transaction object of the database adapter if the action is executed within a transaction
+   * @type {any | null}
+   */
+  transaction: any | null;
+
+  /**
+   * Collects the parameter values of the SQL query built from the action definition. The adapter passes this object to the `getQuery` method of the expressions and sends the query text together with the collected parameter values to the database.
+   * @type {QueryParameters | null}
+   */
+  parameters: QueryParameters | null;
+
+  /**
+   * The definitions of the operations of a bulk write
+   * @type {ActionDefinition[] | null}
+   */
+  operations: ActionDefinition[] | null;
+
+  /**
+   * Whether the operations of a bulk write are executed in order and the execution stops at the first failing operation
+   * @type {boolean}
+   */
+  ordered: boolean;
 }
 
 /**
@@ -795,6 +867,253 @@ export interface CountInfo {
   count: number;
 }
 
+/**
+ * Provides the cursors to retrieve the next and previous pages of records
+ * @export
+ * @interface PageInfo
+ */
+export interface PageInfo {
+  /**
+   * The cursor to retrieve the records after the last record of the page, `null` if there are no records after the page
+   * @type {string | null}
+   */
+  nextCursor: string | null;
+
+  /**
+   * The cursor to retrieve the records before the first record of the page, `null` if there are no records before the page
+   * @type {string | null}
+   */
+  prevCursor: string | null;
+
+  /**
+   * Whether there are more records in the paging direction
+   * @type {boolean}
+   */
+  hasMore: boolean;
+}
+
+/**
+ * Returned records and the pagination info of cursor based pagination
+ * @export
+ * @interface RecordsWithPageInfo
+ */
+export interface RecordsWithPageInfo {
+  /**
+   * The list of records
+   * @type {object[]}
+   */
+  data: object[];
+
+  /**
+   * The cursors to retrieve the next and previous pages of records
+   * @type {PageInfo}
+   */
+  pageInfo: PageInfo;
+}
+
+/**
+ * The policy to select the read replica that serves a read operation
+ *   - random: Selects a random read replica
+ *   - round-robin: Selects the read replicas in turn
+ *   - weighted: Selects a random read replica in proportion to its weight
+ *   - least-outstanding: Selects the read replica with the least number of read operations in progress
+ * @export
+ * @type ReadReplicaRoutingPolicy
+ */
+export type ReadReplicaRoutingPolicy =
+  | "random"
+  | "round-robin"
+  | "weighted"
+  | "least-outstanding";
+
+/**
+ * Specifies how the read operations are routed to the read replicas
+ * @export
+ * @interface ReadReplicaRoutingOptions
+ */
+export interface ReadReplicaRoutingOptions {
+  /**
+   * The policy to select the read replica, by default `random`
+   * @type {ReadReplicaRoutingPolicy}
+   */
+  policy?: ReadReplicaRoutingPolicy;
+
+  /**
+   * The weights of the read replicas in their configuration order, used by the `weighted` policy. If not provided, the weights of the read replica adapters are used and the replicas without a weight have a weight of 1.
+   * @type {number[]}
+   */
+  weights?: number[];
+
+  /**
+   * Whether to retry the read operation on the read-write database when it fails on the read replica, by default `false`
+   * @type {boolean}
+   */
+  fallbackToPrimary?: boolean;
+}
+
+/**
+ * The model methods that can be explained
+ * @export
+ * @type ExplainableMethod
+ */
+export type ExplainableMethod =
+  | "createOne"
+  | "createMany"
+  | "upsertOne"
+  | "upsertMany"
+  | "findById"
+  | "findOne"
+  | "findMany"
+  | "count"
+  | "exists"
+  | "distinct"
+  | "deleteById"
+  | "deleteOne"
+  | "deleteMany"
+  | "updateById"
+  | "updateOne"
+  | "updateMany"
+  | "restoreById"
+  | "restoreMany"
+  | "bulkWrite"
+  | "aggregate"
+  | "searchText";
+
+/**
+ * Specifies the method to explain and the explain options
+ * @export
+ * @interface ExplainOptions
+ */
+export interface ExplainOptions<
+  M extends ExplainableMethod = ExplainableMethod,
+> {
+  /**
+   * The model method to explain
+   * @type {ExplainableMethod}
+   */
+  method: M;
+
+  /**
+   * Whether to fetch the execution plan of the query from the database, using `EXPLAIN` in SQL databases and `explain("executionStats")` in MongoDB
+   * @type {boolean}
+   */
+  executionPlan?: boolean;
+}
+
+/**
+ * The compiled query of a model operation
+ * @export
+ * @interface QueryExplanation
+ */
+export interface QueryExplanation {
+  /**
+   * The db action method of the query. Might be different than the explained model method (e.g., soft deletes are compiled as updates).
+   * @type {MethodType}
+   */
+  method: MethodType | null;
+
+  /**
+   * The compiled query, the SQL query text in SQL databases and the filter or the aggregation pipeline in MongoDB
+   * @type {any}
+   */
+  query: any;
+
+  /**
+   * The ordered parameter values of the SQL query, null for MongoDB
+   * @type {any[] | null}
+   */
+  parameters: any[] | null;
+
+  /**
+   * The execution plan of the query returned by the database, null if the execution plan is not requested
+   * @type {any}
+   */
+  plan: any;
+}
+
+/**
+ * The lifecycle events of a model that hooks can be registered to
+ * @export
+ * @type HookType
+ */
+export type HookType =
+  | "beforeCreate"
+  | "afterCreate"
+  | "beforeUpdate"
+  | "afterUpdate"
+  | "beforeDelete"
+  | "afterDelete"
+  | "beforeFind"
+  | "afterFind";
+
+/**
+ * The context passed to the lifecycle hooks of a model. Before hooks can modify the input parameters of the operation in the context and after hooks can modify the result.
+ * @export
+ * @interface HookContext
+ */
+export interface HookContext {
+  /**
+   * The name of the model method that triggered the hook (e.g., createOne, updateMany)
+   * @type {string}
+   */
+  method: string;
+
+  /**
+   * The name of the model
+   * @type {string}
+   */
+  model: string;
+
+  /**
+   * The data of the record(s) to create
+   * @type {any}
+   */
+  data?: any;
+
+  /**
+   * The conflict fields of the upsert operation
+   * @type {string | string[]}
+   */
+  conflictFields?: string | string[];
+
+  /**
+   * The updates to apply to the record(s)
+   * @type {any}
+   */
+  updates?: any;
+
+  /**
+   * The id of the record
+   * @type {any}
+   */
+  id?: any;
+
+  /**
+   * The where condition of the operation
+   * @type {any}
+   */
+  where?: any;
+
+  /**
+   * The additional arguments of the operation (e.g., select, join, sort)
+   * @type {any}
+   */
+  args?: any;
+
+  /**
+   * The result of the operation, only available to the after hooks
+   * @type {any}
+   */
+  result?: any;
+}
+
+/**
+ * The function that is called when a lifecycle event of a model occurs. Throwing an error in a before hook aborts the operation.
+ * @export
+ * @type HookFunction
+ */
+export type HookFunction = (context: HookContext) => void | Promise<void>;
+
 /**
  * The type of an expression
  */
@@ -803,6 +1122,7 @@ export enum ExpressionType {
   STATIC = 3,
   FUNCTION = 4,
   ARRAY_FIELD = 5,
+  SUBQUERY = 6,
 }
 
 /**
@@ -945,6 +1265,7 @@ export type QueryFunctionMapping = {
   // MySQL: string;
   // "SQL Server": string;
   // Oracle: string;
+  // SQLite: string;
 };
 
 /**
@@ -959,6 +1280,52 @@ export type QueryFunctionDefinition = {
   mapping: QueryFunctionMapping;
 };
 
+/**
+ * The input of the in-process evaluation of query expressions
+ * @export
+ * @type EvaluationContext
+ */
+export type EvaluationContext = {
+  /**
+   * The record to evaluate the expression for. The joined records are expected at their join paths, e.g., the referenced record replaces the reference field value.
+   * @type {any}
+   */
+  record: any;
+  /**
+   * The record of the outer query, used to evaluate the outer model field values in the where condition of a subquery
+   * @type {any}
+   */
+  outerRecord?: any;
+  /**
+   * Returns the records of the model, needed to evaluate the `$inQuery` and `$existsQuery` functions
+   * @type {function}
+   */
+  getRecords?: (modelName: string) => any[];
+};
+
+/**
+ * Defines a subquery on another model used in the where condition of a query
+ * @export
+ * @type SubQuery
+ */
+export type SubQuery<D extends DatabaseName, T extends ModelList<D>> = {
+  /**
+   * The name of the model to query
+   * @type {ModelList<D>}
+   */
+  model: ModelList<D>;
+  /**
+   * The where condition of the subquery
+   * @type {WhereCondition}
+   */
+  where?: WhereCondition<D, T>;
+  /**
+   * The name of the field whose values are selected, only applicable for the `$inQuery` function
+   * @type {string}
+   */
+  select?: string;
+};
+
 export type FieldCondition<
   D extends DatabaseName,
   T extends ModelList<D>,
@@ -1014,6 +1381,14 @@ export type QueryFunction<D extends DatabaseName, T extends ModelList<D>> = {
    * Checks whether the value is not in an array
    */
   $nin?: [value: AnyValue<D, T>, arrayOfValues: ArrayValue<D, T>];
+  /**
+   * Checks whether the value is in the selected field values of a subquery on another model. The subquery where condition can reference the fields of the outer query model in 'modelName.fieldName' format.
+   */
+  $inQuery?: [value: AnyValue<D, T>, subQuery: SubQuery<D, T>];
+  /**
+   * Checks whether a subquery on another model returns at least one record. The subquery where condition can reference the fields of the outer query model in 'modelName.fieldName' format.
+   */
+  $existsQuery?: SubQuery<D, T> | [subQuery: SubQuery<D, T>];
   /**
    * Performs logical and
    */
@@ -1555,50 +1930,174 @@ export type Lookup<D extends DatabaseName, T extends ModelList<D>> = {
    * @type {number}
    */
   limit?: number;
+  /**
+   * Array of fields of the looked up model to include on the looked up objects. You can specifiy either `select` or `omit` but not both.
+   * @type {string[]}
+   */
+  select?: string[];
+  /**
+   * Array of fields of the looked up model to exclude from the looked up objects. You can specifiy either `select` or `omit` but not both.
+   * @type {string[]}
+   */
+  omit?: string[];
+  /**
+   * The nested lookups of the looked up model. The `where` conditions of the nested lookups use the fields of the looked up model as their base model fields.
+   * @type {LookupDefinition}
+   */
+  lookup?: LookupDefinition<D, ModelList<D>>;
+  /**
+   * Returns the number of the looked up objects instead of the objects themselves. Cannot be used together with `sort`, `skip`, `limit`, `select`, `omit` and `lookup` parameters.
+   * @type {boolean}
+   */
+  countOnly?: boolean;
 };
 
 /**
- * Defines the structure of the join operation
+ * Defines the structure of the relation lookup operation. If `through` is not specified, looks up the records of the `from` model referencing the base model record (reverse relation). Otherwise, looks up the records of the `from` model related to the base model record through the records of the junction model (many-to-many relation).
  * @export
- * @type Join
+ * @type RelationLookup
  */
-export type Join<D extends DatabaseName, T extends ModelList<D>> = {
+export type RelationLookup<D extends DatabaseName, T extends ModelList<D>> = {
   /**
-   * The name of the join. This will become a field of the retrieved record which will hold the looked up value. The specified name needs to be **unique** among the fields of the model.
+   * The name of the lookup. This will become a field of the retrieved record which will hold the looked up objects. The specified name needs to be **unique** among the fields of the model.
    * @type {string}
    */
   as: string;
   /**
-   * The name of the target model which will be joined with the current model
+   * The name of the model whose records will be looked up
    * @type {ModelList<D>}
    */
   from: ModelList<D>;
   /**
-   * The query expression that will be used in joining the models
+   * The reference field of the `from` model referencing the base model in reverse relations. Needs to be specified only if the `from` model has more than one reference field to the base model.
    * @type {string}
    */
-  where: WhereCondition<D, T>;
+  field?: string;
+  /**
+   * The name of the junction model of the many-to-many relation
+   * @type {ModelList<D>}
+   */
+  through?: ModelList<D>;
+  /**
+   * The reference fields of the junction model, `local` referencing the base model and `foreign` referencing the `from` model. Need to be specified only if the junction model has more than one reference field to these models.
+   */
+  throughFields?: { local?: string; foreign?: string };
+  /**
+   * Sorts the lookedup objects by the values of the specified fields and sorting order
+   * @type {SortingOrder}
+   */
+  sort?: SortingOrder<D, T>;
+  /**
+   * Number of records to skip
+   * @type {number}
+   */
+  skip?: number;
+  /**
+   * Max number of objects to return
+   * @type {number}
+   */
+  limit?: number;
+  /**
+   * Array of fields of the looked up model to include on the looked up objects. You can specifiy either `select` or `omit` but not both.
+   * @type {string[]}
+   */
+  select?: string[];
+  /**
+   * Array of fields of the looked up model to exclude from the looked up objects. You can specifiy either `select` or `omit` but not both.
+   * @type {string[]}
+   */
+  omit?: string[];
+  /**
+   * The nested lookups of the looked up model
+   * @type {LookupDefinition}
+   */
+  lookup?: LookupDefinition<D, ModelList<D>>;
+  /**
+   * Returns the number of the looked up objects instead of the objects themselves. Cannot be used together with `sort`, `skip`, `limit`, `select`, `omit` and `lookup` parameters.
+   * @type {boolean}
+   */
+  countOnly?: boolean;
 };
 
 /**
- * Lookup the value of reference fields of a model or define complex join structure
- * @export
- * @type LookupDefinition
- */
-export type LookupDefinition<D extends DatabaseName, T extends ModelList<D>> =
-  | ReferenceModelField<D, T>
-  | Lookup<D, T>
-  | (ReferenceModelField<D, T> | Lookup<D, T>)[];
-
-/**
- * Join the value of reference fields of a model or define complex join structure
+ * Defines the lookup structure of a reference field to specify the options of the looked up object
  * @export
- * @type JoinDefinition
+ * @type ReferenceLookup
  */
-export type JoinDefinition<D extends DatabaseName, T extends ModelList<D>> =
-  | ReferenceModelField<D, T>
-  | Join<D, T>
-  | (ReferenceModelField<D, T> | Join<D, T>)[];
+export type ReferenceLookup<D extends DatabaseName, T extends ModelList<D>> = {
+  /**
+   * The name of the reference field to look up
+   * @type {string}
+   */
+  as: ReferenceModelField<D, T>;
+  /**
+   * Array of fields of the referenced model to include on the looked up object. You can specifiy either `select` or `omit` but not both.
+   * @type {string[]}
+   */
+  select?: string[];
+  /**
+   * Array of fields of the referenced model to exclude from the looked up object. You can specifiy either `select` or `omit` but not both.
+   * @type {string[]}
+   */
+  omit?: string[];
+  /**
+   * The nested lookups of the referenced model
+   * @type {LookupDefinition}
+   */
+  lookup?: LookupDefinition<D, ModelList<D>>;
+};
+
+/**
+ * Defines the structure of the join operation
+ * @export
+ * @type Join
+ */
+export type Join<D extends DatabaseName, T extends ModelList<D>> = {
+  /**
+   * The name of the join. This will become a field of the retrieved record which will hold the looked up value. The specified name needs to be **unique** among the fields of the model.
+   * @type {string}
+   */
+  as: string;
+  /**
+   * The name of the target model which will be joined with the current model
+   * @type {ModelList<D>}
+   */
+  from: ModelList<D>;
+  /**
+   * The query expression that will be used in joining the models
+   * @type {string}
+   */
+  where: WhereCondition<D, T>;
+};
+
+/**
+ * Lookup the value of reference fields of a model or define complex join structure
+ * @export
+ * @type LookupDefinition
+ */
+export type LookupDefinition<D extends DatabaseName, T extends ModelList<D>> =
+  | ReferenceModelField<D, T>
+  | ModelList<D>
+  | Lookup<D, T>
+  | ReferenceLookup<D, T>
+  | RelationLookup<D, T>
+  | (
+      | ReferenceModelField<D, T>
+      | ModelList<D>
+      | Lookup<D, T>
+      | ReferenceLookup<D, T>
+      | RelationLookup<D, T>
+    )[];
+
+/**
+ * Join the value of reference fields of a model or define complex join structure
+ * @export
+ * @type JoinDefinition
+ */
+export type JoinDefinition<D extends DatabaseName, T extends ModelList<D>> =
+  | ReferenceModelField<D, T>
+  | Join<D, T>
+  | (ReferenceModelField<D, T> | Join<D, T>)[];
 
 export type UpdateOperation<
   D extends DatabaseName,
@@ -1667,10 +2166,84 @@ export type GroupBy<D extends DatabaseName, T extends ModelList<D>> = {
   expression: WhereCondition<D, T>;
 };
 
+/**
+ * The time unit of the date bucket grouping
+ * @export
+ * @type DateBucketUnit
+ */
+export type DateBucketUnit =
+  | "hour"
+  | "day"
+  | "week"
+  | "month"
+  | "quarter"
+  | "year";
+
+export const DateBucketUnits = [
+  "hour",
+  "day",
+  "week",
+  "month",
+  "quarter",
+  "year",
+];
+
+/**
+ * Defines the date bucket grouping structure where the records are grouped by the start of the time unit (e.g., day, month) their date falls in
+ * @export
+ * @type DateBucketGroupBy
+ */
+export type DateBucketGroupBy<
+  D extends DatabaseName,
+  T extends ModelList<D>,
+> = {
+  /**
+   * The name of the grouping. The start date of each bucket will be returned in this field of the aggregation results.
+   * @type {string}
+   */
+  as: string;
+  /**
+   * The date bucket definition
+   */
+  bucket: {
+    /**
+     * The datetime field of the model whose values are bucketed
+     * @type {string}
+     */
+    field: DateModelField<D, T>;
+    /**
+     * The time unit of the buckets. Weeks start on Monday.
+     * @type {DateBucketUnit}
+     */
+    unit: DateBucketUnit;
+    /**
+     * The IANA time zone name (e.g., Europe/Istanbul) where the bucket boundaries are calculated. Defaults to UTC.
+     * @type {string}
+     */
+    timezone?: string;
+    /**
+     * Whether to add the buckets without any records to the aggregation results. The computations of the empty buckets are 0 for the count and `$sum` computations, an empty array for the `$push` and `$addToSet` computations and null for the others. Cannot be used together with the `having`, `sort`, `skip` and `limit` parameters of the aggregation.
+     * @type {boolean}
+     */
+    fillEmpty?: boolean;
+    /**
+     * The start date of the filled buckets. If not specified, the buckets are filled starting from the earliest bucket of the aggregation results.
+     * @type {Date | string}
+     */
+    from?: Date | string;
+    /**
+     * The end date of the filled buckets. If not specified, the buckets are filled up to the latest bucket of the aggregation results.
+     * @type {Date | string}
+     */
+    to?: Date | string;
+  };
+};
+
 export type GroupByDefinition<D extends DatabaseName, T extends ModelList<D>> =
   | GroupByModelField<D, T>
   | GroupBy<D, T>
-  | (GroupByModelField<D, T> | GroupBy<D, T>)[];
+  | DateBucketGroupBy<D, T>
+  | (GroupByModelField<D, T> | GroupBy<D, T> | DateBucketGroupBy<D, T>)[];
 
 export type ComputeOperation<D extends DatabaseName, T extends ModelList<D>> =
   | { $count: any }
@@ -1678,7 +2251,17 @@ export type ComputeOperation<D extends DatabaseName, T extends ModelList<D>> =
   | { $sum: NumericValue<D, T> }
   | { $avg: NumericValue<D, T> }
   | { $min: NumericValue<D, T> }
-  | { $max: NumericValue<D, T> };
+  | { $max: NumericValue<D, T> }
+  | { $countDistinct: AnyValue<D, T> }
+  | { $stddev: NumericValue<D, T> }
+  | { $stddevPop: NumericValue<D, T> }
+  | { $variance: NumericValue<D, T> }
+  | { $median: NumericValue<D, T> }
+  | { $percentile: [value: NumericValue<D, T>, percentile: number] }
+  | { $first: AnyValue<D, T> }
+  | { $last: AnyValue<D, T> }
+  | { $push: AnyValue<D, T> }
+  | { $addToSet: AnyValue<D, T> };
 
 export const ComputeOperators = [
   "$count",
@@ -1687,8 +2270,54 @@ export const ComputeOperators = [
   "$avg",
   "$min",
   "$max",
+  "$countdistinct",
+  "$stddev",
+  "$stddevpop",
+  "$variance",
+  "$median",
+  "$percentile",
+  "$first",
+  "$last",
+  "$push",
+  "$addtoset",
+];
+
+export const NumericComputeOperators = [
+  "$sum",
+  "$avg",
+  "$min",
+  "$max",
+  "$stddev",
+  "$stddevpop",
+  "$variance",
+  "$median",
+  "$percentile",
 ];
 
+// The compute operators that do not have a corresponding aggregate function in the SQL database
+export const UnsupportedComputeOperators: { [key: string]: string[] } = {
+  "SQL Server": [
+    "$median",
+    "$percentile",
+    "$first",
+    "$last",
+    "$push",
+    "$addtoset",
+  ],
+  Oracle: ["$first", "$last", "$push", "$addtoset"],
+  SQLite: [
+    "$stddev",
+    "$stddevpop",
+    "$variance",
+    "$median",
+    "$percentile",
+    "$first",
+    "$last",
+    "$push",
+    "$addtoset",
+  ],
+};
+
 /**
  * Defines the computation structure
  * @export
@@ -1705,6 +2334,11 @@ export type Computation<D extends DatabaseName, T extends ModelList<D>> = {
    * @type {string}
    */
   compute: ComputeOperation<D, T>;
+  /**
+   * The sorting order of the grouped records to pick the value of `$first` and `$last` computations. If not specified, the value is picked in the natural order of the records.
+   * @type {SortingOrder}
+   */
+  sort?: SortingOrder<D, T>;
 };
 
 /**
@@ -1736,6 +2370,18 @@ export type FindByIdArgs<D extends DatabaseName, T extends ModelList<D>> = {
    * @type {boolean}
    */
   useReadReplica?: boolean;
+
+  /**
+   * Specifies whether to include the soft deleted records or not. Only applicable to models in soft delete mode.
+   * @type {boolean}
+   */
+  withDeleted?: boolean;
+
+  /**
+   * Specifies whether to return only the soft deleted records or not. Only applicable to models in soft delete mode.
+   * @type {boolean}
+   */
+  onlyDeleted?: boolean;
 };
 
 /**
@@ -1785,6 +2431,18 @@ export type FindOneArgs<D extends DatabaseName, T extends ModelList<D>> = {
    * @type {number}
    */
   skip?: number;
+
+  /**
+   * Specifies whether to include the soft deleted records or not. Only applicable to models in soft delete mode.
+   * @type {boolean}
+   */
+  withDeleted?: boolean;
+
+  /**
+   * Specifies whether to return only the soft deleted records or not. Only applicable to models in soft delete mode.
+   * @type {boolean}
+   */
+  onlyDeleted?: boolean;
 };
 
 /**
@@ -1846,6 +2504,196 @@ export type FindManyArgs<D extends DatabaseName, T extends ModelList<D>> = {
    * @type {boolean}
    */
   returnCount?: boolean;
+
+  /**
+   * The cursor returned in the page info of a previous query to retrieve the next or previous page of records. Cursor based pagination cannot be combined with `skip`.
+   * @type {string}
+   */
+  cursor?: string;
+
+  /**
+   * Specifies whether to return the cursors of the next and previous pages. If set to true, returns an object which includes the page info and list of matched objects.
+   * @type {boolean}
+   */
+  returnPageInfo?: boolean;
+
+  /**
+   * Specifies whether to include the soft deleted records or not. Only applicable to models in soft delete mode.
+   * @type {boolean}
+   */
+  withDeleted?: boolean;
+
+  /**
+   * Specifies whether to return only the soft deleted records or not. Only applicable to models in soft delete mode.
+   * @type {boolean}
+   */
+  onlyDeleted?: boolean;
+};
+
+/**
+ * Specifies the input parameters of `iterate` method
+ * @export
+ * @type IterateArgs
+ */
+export type IterateArgs<D extends DatabaseName, T extends ModelList<D>> = {
+  /**
+   * Array of fields to include on the returned record. If not provided, checks the `omit` list if `omit` is also not provided then all fields will be returned. You can specifiy either `select` or `omit` but not both.
+   * @type {string}
+   */
+  select?: (keyof ModelType<D, T>)[];
+
+  /**
+   * Array of fields to exclude on the returned record. If not provided, checks the `select` list if `select` is also not provided then all fields will be returned. You can specifiy either `select` or `omit` but not both.
+   * @type {string}
+   */
+  omit?: (keyof ModelType<D, T>)[];
+
+  /**
+   * The lookup(s) to make while getting the record from the database
+   * @type {LookupDefinition}
+   */
+  lookup?: LookupDefinition<D, T>;
+
+  /**
+   * The join(s) to make (left outer join) while getting the record from the database
+   * @type {JoinDefinition}
+   */
+  join?: JoinDefinition<D, T>;
+
+  /**
+   * Specifies whether to use the read replica of the database or not. If no read replica database exists uses the read-write database.
+   * @type {boolean}
+   */
+  useReadReplica?: boolean;
+
+  /**
+   * Sorts the returned objects by the values of the specified fields and sorting order. The id field is always appended as the last sort field.
+   * @type {SortingOrder}
+   */
+  sort?: SortingOrder<D, T>;
+
+  /**
+   * Number of records to fetch from the database in each batch. By default this is set to `100`.
+   * @type {number}
+   */
+  batchSize?: number;
+
+  /**
+   * Specifies whether to include the soft deleted records or not. Only applicable to models in soft delete mode.
+   * @type {boolean}
+   */
+  withDeleted?: boolean;
+
+  /**
+   * Specifies whether to return only the soft deleted records or not. Only applicable to models in soft delete mode.
+   * @type {boolean}
+   */
+  onlyDeleted?: boolean;
+};
+
+/**
+ * Specifies the input parameters of `count` method
+ * @export
+ * @type CountArgs
+ */
+export type CountArgs<D extends DatabaseName, T extends ModelList<D>> = {
+  /**
+   * The join(s) to make (left outer join) while querying the records
+   * @type {JoinDefinition}
+   */
+  join?: JoinDefinition<D, T>;
+
+  /**
+   * Specifies whether to use the read replica of the database or not. If no read replica database exists uses the read-write database.
+   * @type {boolean}
+   */
+  useReadReplica?: boolean;
+
+  /**
+   * Specifies whether to include the soft deleted records or not. Only applicable to models in soft delete mode.
+   * @type {boolean}
+   */
+  withDeleted?: boolean;
+
+  /**
+   * Specifies whether to consider only the soft deleted records or not. Only applicable to models in soft delete mode.
+   * @type {boolean}
+   */
+  onlyDeleted?: boolean;
+};
+
+/**
+ * Specifies the input parameters of `exists` method
+ * @export
+ * @type ExistsArgs
+ */
+export type ExistsArgs<D extends DatabaseName, T extends ModelList<D>> = {
+  /**
+   * The join(s) to make (left outer join) while querying the records
+   * @type {JoinDefinition}
+   */
+  join?: JoinDefinition<D, T>;
+
+  /**
+   * Specifies whether to use the read replica of the database or not. If no read replica database exists uses the read-write database.
+   * @type {boolean}
+   */
+  useReadReplica?: boolean;
+
+  /**
+   * Specifies whether to include the soft deleted records or not. Only applicable to models in soft delete mode.
+   * @type {boolean}
+   */
+  withDeleted?: boolean;
+
+  /**
+   * Specifies whether to consider only the soft deleted records or not. Only applicable to models in soft delete mode.
+   * @type {boolean}
+   */
+  onlyDeleted?: boolean;
+};
+
+/**
+ * Specifies the input parameters of `distinct` method
+ * @export
+ * @type DistinctArgs
+ */
+export type DistinctArgs<D extends DatabaseName, T extends ModelList<D>> = {
+  /**
+   * The join(s) to make (left outer join) while querying the records
+   * @type {JoinDefinition}
+   */
+  join?: JoinDefinition<D, T>;
+
+  /**
+   * Sorts the distinct values in ascending or descending order
+   * @type {SortDirection}
+   */
+  sort?: SortDirection;
+
+  /**
+   * Max number of distinct values to return
+   * @type {number}
+   */
+  limit?: number;
+
+  /**
+   * Specifies whether to use the read replica of the database or not. If no read replica database exists uses the read-write database.
+   * @type {boolean}
+   */
+  useReadReplica?: boolean;
+
+  /**
+   * Specifies whether to include the soft deleted records or not. Only applicable to models in soft delete mode.
+   * @type {boolean}
+   */
+  withDeleted?: boolean;
+
+  /**
+   * Specifies whether to consider only the soft deleted records or not. Only applicable to models in soft delete mode.
+   * @type {boolean}
+   */
+  onlyDeleted?: boolean;
 };
 
 /**
@@ -1883,6 +2731,16 @@ export type UpdateByIdArgs<D extends DatabaseName, T extends ModelList<D>> = {
    * @type {ArrayFilterFunction}
    */
   arrayFilters?: ArrayFilterFunction<D, T>[];
+  /**
+   * The version that the record is expected to have. If the model has a version field and the stored version of the record is different, the update fails with a `version_conflict` error.
+   * @type {number}
+   */
+  expectedVersion?: number;
+  /**
+   * Specifies whether to update the soft deleted records or not. By default the soft deleted records are not updated. Only applicable to models in soft delete mode.
+   * @type {boolean}
+   */
+  withDeleted?: boolean;
 };
 
 /**
@@ -1911,6 +2769,16 @@ export type UpdateOneArgs<D extends DatabaseName, T extends ModelList<D>> = {
    * @type {JoinDefinition}
    */
   join?: JoinDefinition<D, T>;
+  /**
+   * The version that the record is expected to have. If the model has a version field and the stored version of the record is different, the update fails with a `version_conflict` error.
+   * @type {number}
+   */
+  expectedVersion?: number;
+  /**
+   * Specifies whether to update the soft deleted records or not. By default the soft deleted records are not updated. Only applicable to models in soft delete mode.
+   * @type {boolean}
+   */
+  withDeleted?: boolean;
 };
 
 /**
@@ -1929,6 +2797,11 @@ export type UpdateManyArgs<D extends DatabaseName, T extends ModelList<D>> = {
    * @type {ArrayFilterFunction}
    */
   arrayFilters?: ArrayFilterFunction<D, T>[];
+  /**
+   * Specifies whether to update the soft deleted records or not. By default the soft deleted records are not updated. Only applicable to models in soft delete mode.
+   * @type {boolean}
+   */
+  withDeleted?: boolean;
 };
 
 /**
@@ -1990,8 +2863,43 @@ export type AggregateArgs<D extends DatabaseName, T extends ModelList<D>> = {
    * @type {boolean}
    */
   useReadReplica?: boolean;
+
+  /**
+   * Specifies whether to include the soft deleted records or not. Only applicable to models in soft delete mode.
+   * @type {boolean}
+   */
+  withDeleted?: boolean;
+
+  /**
+   * Specifies whether to return only the soft deleted records or not. Only applicable to models in soft delete mode.
+   * @type {boolean}
+   */
+  onlyDeleted?: boolean;
 };
 
+/**
+ * The modes of the full-text search which specify how the search string is interpreted
+ * - any: Matches the records including any of the words, or all of the quoted phrases if specified.
+ * - phrase: Matches the records including the search string as a phrase.
+ * - prefix: Matches the records including words starting with each word of the search string.
+ * - boolean: Matches the records including all words and phrases prefixed with `+` and quoted phrases, and none of the words and phrases prefixed with `-`. If there are no required words or phrases, at least one of the remaining words needs to be included.
+ * @export
+ * @type SearchMode
+ */
+export type SearchMode = "any" | "phrase" | "prefix" | "boolean";
+
+export const SearchModes = ["any", "phrase", "prefix", "boolean"];
+
+/**
+ * The searched fields of the `searchText` method. Either a searchable field name, a list of searchable field names or an object of searchable field names and their weights, e.g., `{ title: 3, body: 1 }`.
+ * @export
+ * @type SearchFields
+ */
+export type SearchFields<D extends DatabaseName, T extends ModelList<D>> =
+  | FTSFields<D, T>
+  | FTSFields<D, T>[]
+  | { [K in FTSFields<D, T>]?: number };
+
 /**
  * Specifies the input parameters of `findMany` method
  * @export
@@ -2057,6 +2965,77 @@ export type SearchTextArgs<D extends DatabaseName, T extends ModelList<D>> = {
    * @type {boolean}
    */
   returnCount?: boolean;
+
+  /**
+   * The cursor returned in the page info of a previous query to retrieve the next or previous page of records. Cursor based pagination cannot be combined with `skip`.
+   * @type {string}
+   */
+  cursor?: string;
+
+  /**
+   * Specifies whether to return the cursors of the next and previous pages. If set to true, returns an object which includes the page info and list of matched objects.
+   * @type {boolean}
+   */
+  returnPageInfo?: boolean;
+
+  /**
+   * Specifies how the search string is interpreted, by default `any`. The `phrase`, `prefix` and `boolean` (`+required -excluded "phrase"`) modes match the same records in all databases.
+   * @type {SearchMode}
+   */
+  mode?: SearchMode;
+
+  /**
+   * Specifies whether to return the relevance score of the matched records in the `_score` field. The score is the `textScore` in MongoDB, `ts_rank` in PostgreSQL and the `MATCH ... AGAINST` relevance in MySQL, scores are comparable only within the results of the same database.
+   * @type {boolean}
+   */
+  returnScore?: boolean;
+
+  /**
+   * Specifies whether to sort the matched records by their relevance score in descending order. The `sort` fields, if specified, are used to order the records with the same score. Cannot be combined with cursor based pagination.
+   * @type {boolean}
+   */
+  sortByScore?: boolean;
+
+  /**
+   * Highlights the search terms in the value of a text or rich-text field, the highlighted text is returned in the `_highlight` field of the matched records
+   * @type {SearchHighlight}
+   */
+  highlight?: SearchHighlight<D, T>;
+
+  /**
+   * Specifies whether to include the soft deleted records or not. Only applicable to models in soft delete mode.
+   * @type {boolean}
+   */
+  withDeleted?: boolean;
+
+  /**
+   * Specifies whether to return only the soft deleted records or not. Only applicable to models in soft delete mode.
+   * @type {boolean}
+   */
+  onlyDeleted?: boolean;
+};
+
+/**
+ * Specifies the highlighting options of the `searchText` method
+ * @export
+ * @type SearchHighlight
+ */
+export type SearchHighlight<D extends DatabaseName, T extends ModelList<D>> = {
+  /**
+   * The name of the text or rich-text field to highlight
+   * @type {string}
+   */
+  field: keyof ModelType<D, T>;
+  /**
+   * The maximum number of text fragments around the search terms to return, joined by ' ... '. If not specified the whole field value is returned.
+   * @type {number}
+   */
+  maxFragments?: number;
+  /**
+   * The opening and closing tags wrapping the search terms, by default `['<b>', '</b>']`. The tags cannot include double quotes, commas or equal signs.
+   * @type {[string, string]}
+   */
+  tags?: [open: string, close: string];
 };
 
 /**
@@ -2121,3 +3100,129 @@ export type GetSQLSubQueryArgs<
    */
   baseModel: ModelList<D>;
 };
+
+/**
+ * Specifies a single operation of the `bulkWrite` method
+ * @export
+ * @type BulkWriteOperation
+ */
+export type BulkWriteOperation<
+  D extends DatabaseName,
+  T extends ModelList<D>,
+> =
+  | {
+      createOne: {
+        data: ModelTypeHierarchy<D, T>;
+      };
+    }
+  | {
+      updateById: {
+        id: string | number;
+        updates: UpdateDefinition<D, T>;
+        expectedVersion?: number;
+        withDeleted?: boolean;
+      };
+    }
+  | {
+      updateOne: {
+        where: WhereCondition<D, T>;
+        updates: UpdateDefinition<D, T>;
+        join?: JoinDefinition<D, T>;
+        expectedVersion?: number;
+        withDeleted?: boolean;
+      };
+    }
+  | {
+      updateMany: {
+        where: WhereCondition<D, T>;
+        updates: UpdateDefinition<D, T>;
+        join?: JoinDefinition<D, T>;
+        withDeleted?: boolean;
+      };
+    }
+  | {
+      deleteById: {
+        id: string | number;
+      };
+    }
+  | {
+      deleteOne: {
+        where: WhereCondition<D, T>;
+        join?: JoinDefinition<D, T>;
+      };
+    }
+  | {
+      deleteMany: {
+        where: WhereCondition<D, T>;
+        join?: JoinDefinition<D, T>;
+      };
+    };
+
+/**
+ * Specifies the input parameters of `bulkWrite` method
+ * @export
+ * @type BulkWriteArgs
+ */
+export type BulkWriteArgs = {
+  /**
+   * Whether to execute the operations in order and stop at the first failing operation. If `false`, all operations are attempted and the failing ones are reported in the errors. Defaults to `true`.
+   * @type {boolean}
+   */
+  ordered?: boolean;
+};
+
+/**
+ * Provides info about a failed operation of a bulk write
+ * @export
+ * @interface BulkWriteError
+ */
+export interface BulkWriteError {
+  /**
+   * The index of the operation in the operations list
+   * @type {number}
+   */
+  index: number;
+
+  /**
+   * The type of the operation (e.g., createOne, updateMany)
+   * @type {string}
+   */
+  operation: string;
+
+  /**
+   * Specific short code of the error
+   * @type {string}
+   */
+  code: string;
+
+  /**
+   * Short description of the error
+   * @type {string}
+   */
+  message: string;
+
+  /**
+   * Any additional details about the error
+   * @type {any}
+   */
+  specifics?: any;
+}
+
+/**
+ * The per operation results of a bulk write
+ * @export
+ * @interface BulkWriteResult
+ */
+export interface BulkWriteResult {
+  /**
+   * The results of the operations in the order of the operations list. The result of an operation is the same as the result of the corresponding model method, `null` if the operation has failed or has not been executed.
+   * @type {any[]}
+   */
+  results: any[];
+
+  /**
+   * The errors of the failed operations
+   * @type {BulkWriteError[]}
+   */
+  errors: BulkWriteError[];
+}